@@ -0,0 +1,391 @@
+#!/usr/bin/env -S gjs -m
+import GLib from 'gi://GLib';
+import Gio from 'gi://Gio';
+import GioUnix from 'gi://GioUnix';
+
+import System from 'system';
+
+import { DBusName, DBusPath, Tags } from './lib/common/constants.js';
+
+const Usage = `Usage: copyous [--json] <command> [arguments]
+
+Commands:
+  list [--offset N] [--limit N] [QUERY]  List items, newest first
+  search QUERY                           List the ids of the items matching the query
+  get ID                                 Show an item
+  copy ID                                Copy an item to the clipboard
+  paste ID                               Copy an item to the clipboard and paste it
+  pin ID                                 Pin an item
+  unpin ID                               Unpin an item
+  tag ID [TAG]                           Set the tag of an item, or remove it if no tag is given
+  expire ID [DURATION]                   Delete an item after a duration such as 90, 30s, 5m, 2h or 1d,
+                                         or cancel the deletion if no duration is given
+  template ID [on|off]                   Turn an item into a template or back into a plain item
+  delete ID                              Delete an item
+  add [--type TYPE] [TEXT]               Add an item, reads from stdin if no text is given
+  merge [--separator SEP] [--delete] ID ID...
+                                         Merge text items into a new item, separated by newlines or SEP,
+                                         and delete the merged items if --delete is given
+  clear [--all]                          Clear unpinned and untagged items, or all items
+  incognito [on|off|toggle]              Show or change incognito mode
+  export PATH                            Export the history to an archive
+  import PATH [--conflict MODE]          Import the history from an archive (skip, replace or merge)
+  rekey                                  Encrypt the history with a new key
+  help                                   Show this help
+
+Options:
+  --json                                 Print the output as JSON
+`;
+
+class UsageError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'UsageError';
+	}
+}
+
+interface Entry {
+	id: number;
+	type: string;
+	content: string;
+	pinned: boolean;
+	tag: string | null;
+	datetime: string;
+	sensitive: boolean;
+	template: boolean;
+	expires?: string;
+	metadata?: unknown;
+	source?: unknown;
+}
+
+interface Options {
+	json: boolean;
+	args: string[];
+	flags: Map<string, string | true>;
+}
+
+// Flags that take a value
+const ValueFlags = ['--offset', '--limit', '--type', '--conflict', '--separator'];
+
+// Timeout in milliseconds of calls that process the whole history, such as exporting, importing and rekeying
+const LongTimeout = 30 * 60 * 1000;
+
+function parseArgs(argv: string[]): Options {
+	const options: Options = { json: false, args: [], flags: new Map() };
+	for (let i = 0; i < argv.length; i++) {
+		const arg = argv[i]!;
+		if (arg === '--') {
+			options.args.push(...argv.slice(i + 1));
+			break;
+		} else if (arg === '--json') {
+			options.json = true;
+		} else if (ValueFlags.includes(arg)) {
+			const value = argv[++i];
+			if (value === undefined) throw new UsageError(`Missing value for ${arg}`);
+			options.flags.set(arg, value);
+		} else if (arg.startsWith('--')) {
+			options.flags.set(arg, true);
+		} else {
+			options.args.push(arg);
+		}
+	}
+	return options;
+}
+
+function call(
+	method: string,
+	parameters: GLib.Variant | null = null,
+	replyType: string | null = null,
+	timeout: number = -1,
+): unknown[] {
+	const reply = Gio.DBus.session.call_sync(
+		DBusName,
+		DBusPath,
+		DBusName,
+		method,
+		parameters,
+		replyType ? new GLib.VariantType(replyType) : null,
+		Gio.DBusCallFlags.NONE,
+		timeout,
+		null,
+	);
+	return reply.recursiveUnpack() as unknown[];
+}
+
+function getProperty(name: string): unknown {
+	const reply = Gio.DBus.session.call_sync(
+		DBusName,
+		DBusPath,
+		'org.freedesktop.DBus.Properties',
+		'Get',
+		new GLib.Variant('(ss)', [DBusName, name]),
+		new GLib.VariantType('(v)'),
+		Gio.DBusCallFlags.NONE,
+		-1,
+		null,
+	);
+	return (reply.recursiveUnpack() as unknown[])[0];
+}
+
+function setProperty(name: string, value: GLib.Variant) {
+	Gio.DBus.session.call_sync(
+		DBusName,
+		DBusPath,
+		'org.freedesktop.DBus.Properties',
+		'Set',
+		new GLib.Variant('(ssv)', [DBusName, name, value]),
+		null,
+		Gio.DBusCallFlags.NONE,
+		-1,
+		null,
+	);
+}
+
+function toEntry(dict: Record<string, unknown>): Entry {
+	const entry = dict as unknown as Entry;
+	entry.tag = entry.tag || null;
+	if (typeof dict['metadata'] === 'string') entry.metadata = JSON.parse(dict['metadata']);
+	if (typeof dict['source'] === 'string') entry.source = JSON.parse(dict['source']);
+	return entry;
+}
+
+function parseId(value: string | undefined): number {
+	const id = Number(value);
+	if (value === undefined || !Number.isInteger(id)) throw new UsageError(`Invalid id "${value ?? ''}"`);
+	return id;
+}
+
+function parseCount(options: Options, flag: string): number {
+	const value = options.flags.get(flag);
+	if (value === undefined) return 0;
+
+	const count = Number(value);
+	if (value === true || !Number.isInteger(count) || count < 0) throw new UsageError(`Invalid value for ${flag}`);
+	return count;
+}
+
+function parseDuration(value: string): number {
+	const match = /^(\d+)([smhd]?)$/.exec(value);
+	if (!match) throw new UsageError(`Invalid duration "${value}"`);
+
+	const units: Record<string, number> = { '': 1, 's': 1, 'm': 60, 'h': 3600, 'd': 86400 };
+	return Number(match[1]) * units[match[2]!]!;
+}
+
+function readStdin(): string {
+	const stdin = new Gio.DataInputStream({
+		base_stream: new GioUnix.InputStream({ fd: 0, close_fd: false }),
+	});
+
+	const lines: string[] = [];
+	for (;;) {
+		const [line] = stdin.read_line_utf8(null);
+		if (line === null) break;
+		lines.push(line);
+	}
+	return lines.join('\n');
+}
+
+function formatDate(datetime: string): string {
+	const date = GLib.DateTime.new_from_iso8601(datetime, null);
+	return date?.to_local()?.format('%Y-%m-%d %H:%M') ?? datetime;
+}
+
+function preview(entry: Entry, length: number = 60): string {
+	if (entry.sensitive) return '•'.repeat(8);
+
+	const line = entry.content.replace(/\s+/g, ' ').trim();
+	return line.length > length ? `${line.substring(0, length - 1)}…` : line;
+}
+
+function printEntries(entries: Entry[], json: boolean) {
+	if (json) {
+		print(JSON.stringify(entries, null, 2));
+		return;
+	}
+
+	for (const entry of entries) {
+		const flags = [entry.pinned ? 'pinned' : '', entry.tag ?? ''].filter((f) => f).join(',');
+		print(
+			`${String(entry.id).padStart(6)}  ${entry.type.padEnd(9)}  ${formatDate(entry.datetime)}  ${flags.padEnd(13)}  ${preview(entry)}`,
+		);
+	}
+}
+
+function printEntry(entry: Entry, json: boolean) {
+	if (json) {
+		print(JSON.stringify(entry, null, 2));
+		return;
+	}
+
+	print(`Id:       ${entry.id}`);
+	print(`Type:     ${entry.type}`);
+	print(`Date:     ${formatDate(entry.datetime)}`);
+	print(`Pinned:   ${entry.pinned ? 'yes' : 'no'}`);
+	print(`Tag:      ${entry.tag ?? ''}`);
+	print(`Secret:   ${entry.sensitive ? 'yes' : 'no'}`);
+	print(`Template: ${entry.template ? 'yes' : 'no'}`);
+	if (entry.expires) print(`Expires:  ${formatDate(entry.expires)}`);
+	if (entry.source) print(`Source:   ${JSON.stringify(entry.source)}`);
+	if (entry.metadata) print(`Metadata: ${JSON.stringify(entry.metadata)}`);
+	print('');
+	print(entry.content);
+}
+
+function printResult(result: Record<string, unknown>, message: string, json: boolean) {
+	print(json ? JSON.stringify(result) : message);
+}
+
+function run(options: Options) {
+	const [command, ...args] = options.args;
+	const json = options.json;
+
+	switch (command) {
+		case 'list': {
+			const offset = parseCount(options, '--offset');
+			const limit = parseCount(options, '--limit');
+			const [dicts] = call(
+				'ListEntries',
+				new GLib.Variant('(uus)', [offset, limit, args.join(' ')]),
+				'(aa{sv})',
+			) as [Record<string, unknown>[]];
+			printEntries(dicts.map(toEntry), json);
+			break;
+		}
+		case 'search': {
+			if (args.length === 0) throw new UsageError('Missing query');
+			const [ids] = call('Search', new GLib.Variant('(s)', [args.join(' ')]), '(ai)') as [number[]];
+			print(json ? JSON.stringify(ids) : ids.join('\n'));
+			break;
+		}
+		case 'get': {
+			const [dict] = call('GetEntry', new GLib.Variant('(i)', [parseId(args[0])]), '(a{sv})') as [
+				Record<string, unknown>,
+			];
+			printEntry(toEntry(dict), json);
+			break;
+		}
+		case 'copy':
+			call('CopyEntry', new GLib.Variant('(i)', [parseId(args[0])]));
+			break;
+		case 'paste':
+			call('PasteEntry', new GLib.Variant('(i)', [parseId(args[0])]));
+			break;
+		case 'pin':
+		case 'unpin':
+			call('SetPinned', new GLib.Variant('(ib)', [parseId(args[0]), command === 'pin']));
+			break;
+		case 'tag': {
+			const tag = args[1] ?? '';
+			if (tag && !Tags.includes(tag as (typeof Tags)[number])) {
+				throw new UsageError(`Invalid tag "${tag}", expected one of ${Tags.join(', ')}`);
+			}
+			call('SetTag', new GLib.Variant('(is)', [parseId(args[0]), tag]));
+			break;
+		}
+		case 'expire': {
+			const seconds = args[1] !== undefined ? parseDuration(args[1]) : 0;
+			call('SetExpiry', new GLib.Variant('(iu)', [parseId(args[0]), seconds]));
+			break;
+		}
+		case 'template': {
+			const state = args[1] ?? 'on';
+			if (state !== 'on' && state !== 'off') {
+				throw new UsageError(`Invalid template state "${state}", expected on or off`);
+			}
+			call('SetTemplate', new GLib.Variant('(ib)', [parseId(args[0]), state === 'on']));
+			break;
+		}
+		case 'delete':
+			call('DeleteEntry', new GLib.Variant('(i)', [parseId(args[0])]));
+			break;
+		case 'add': {
+			const type = options.flags.get('--type') ?? 'Text';
+			if (type === true) throw new UsageError('Invalid value for --type');
+
+			const content = args.length > 0 ? args.join(' ') : readStdin();
+			const [id] = call('AddEntry', new GLib.Variant('(ss)', [type, content]), '(i)') as [number];
+			printResult({ id }, String(id), json);
+			break;
+		}
+		case 'merge': {
+			const separator = options.flags.get('--separator') ?? '\n';
+			if (separator === true) throw new UsageError('Invalid value for --separator');
+			if (args.length < 2) throw new UsageError('At least two ids are required');
+
+			const ids = args.map(parseId);
+			const deleteOriginals = options.flags.has('--delete');
+			const [id] = call('MergeEntries', new GLib.Variant('(aisb)', [ids, separator, deleteOriginals]), '(i)') as [
+				number,
+			];
+			printResult({ id }, String(id), json);
+			break;
+		}
+		case 'clear':
+			call('ClearHistory', new GLib.Variant('(b)', [options.flags.has('--all')]));
+			break;
+		case 'incognito': {
+			const [state] = args;
+			if (state === 'on' || state === 'off') {
+				setProperty('Incognito', new GLib.Variant('b', state === 'on'));
+			} else if (state === 'toggle') {
+				setProperty('Incognito', new GLib.Variant('b', !getProperty('Incognito')));
+			} else if (state !== undefined) {
+				throw new UsageError(`Invalid incognito state "${state}", expected on, off or toggle`);
+			}
+
+			const incognito = getProperty('Incognito') as boolean;
+			printResult({ incognito }, `Incognito mode is ${incognito ? 'on' : 'off'}`, json);
+			break;
+		}
+		case 'export': {
+			if (!args[0]) throw new UsageError('Missing path');
+			const path = Gio.File.new_for_commandline_arg(args[0]).get_path()!;
+			const [exported] = call('ExportHistory', new GLib.Variant('(s)', [path]), '(u)', LongTimeout) as [number];
+			printResult({ exported }, `Exported ${exported} items to ${path}`, json);
+			break;
+		}
+		case 'import': {
+			if (!args[0]) throw new UsageError('Missing path');
+			const path = Gio.File.new_for_commandline_arg(args[0]).get_path()!;
+			const conflict = options.flags.get('--conflict') ?? 'skip';
+			if (conflict === true) throw new UsageError('Invalid value for --conflict');
+
+			const [added, updated] = call(
+				'ImportHistory',
+				new GLib.Variant('(ss)', [path, conflict]),
+				'(uu)',
+				LongTimeout,
+			) as [number, number];
+			printResult({ added, updated }, `Added ${added} items and updated ${updated} items`, json);
+			break;
+		}
+		case 'rekey':
+			call('RekeyHistory', null, null, LongTimeout);
+			break;
+		case 'help':
+		case undefined:
+			print(Usage);
+			break;
+		default:
+			throw new UsageError(`Unknown command "${command}"`);
+	}
+}
+
+try {
+	run(parseArgs(System.programArgs));
+} catch (e) {
+	if (e instanceof UsageError) {
+		printerr(`copyous: ${e.message}\n\n${Usage}`);
+		System.exit(2);
+	} else if (e instanceof GLib.Error && e.matches(Gio.DBusError, Gio.DBusError.SERVICE_UNKNOWN)) {
+		printerr('copyous: Copyous is not running');
+		System.exit(1);
+	} else if (e instanceof GLib.Error) {
+		Gio.DBusError.strip_remote_error(e);
+		printerr(`copyous: ${e.message}`);
+		System.exit(1);
+	} else {
+		throw e;
+	}
+}
@@ -1,4 +1,5 @@
 import GLib from 'gi://GLib';
+import GObject from 'gi://GObject';
 import Gio from 'gi://Gio';
 
 import { ConsoleLike, Extension } from 'resource:///org/gnome/shell/extensions/extension.js';
@@ -12,6 +13,8 @@ import { SoundManager, tryCreateSoundManager } from './lib/common/sound.js';
 import { ClipboardManager } from './lib/misc/clipboard.js';
 import { ClipboardEntry, ClipboardEntryTracker } from './lib/misc/db.js';
 import { NotificationManager } from './lib/misc/notifications.js';
+import { PasteQueue } from './lib/misc/pasteQueue.js';
+import { PrimaryHistory } from './lib/misc/primary.js';
 import { ShortcutManager } from './lib/misc/shortcuts.js';
 import { ThemeManager } from './lib/misc/theme.js';
 import { ClipboardDialog } from './lib/ui/clipboardDialog.js';
@@ -38,11 +41,14 @@ export default class CopyousExtension extends Extension {
 
 	public shortcutsManager: ShortcutManager | undefined;
 
-	private entryTracker: ClipboardEntryTracker | undefined;
+	public entryTracker: ClipboardEntryTracker | undefined;
 	private historyTimeoutId: number = -1;
 	private updateHistory: boolean = false;
 
+	public primaryHistory: PrimaryHistory | undefined;
+
 	public clipboardManager: ClipboardManager | undefined;
+	private pasteQueue: PasteQueue | undefined;
 
 	override enable() {
 		this.settings = this.getSettings();
@@ -67,19 +73,22 @@ export default class CopyousExtension extends Extension {
 			await this.clipboardManager?.pasteEntry(entry);
 			this.indicator?.showEntry(entry);
 		});
+		this.clipboardDialog.connect('queue', (_, entries: ClipboardEntry[]) => this.pasteQueue?.push(entries));
 
 		this.indicator = new ClipboardIndicator(this);
 		this.indicator.connect('open-dialog', () => this.clipboardDialog?.open());
 		this.indicator.connect('clear-history', (_, history: ClipboardHistory) => this.entryTracker?.clear(history));
+		this.indicator.connect('cancel-queue', () => this.pasteQueue?.clear());
 
 		// DBus
-		this.dbus = new DbusService();
+		this.dbus = new DbusService(this);
 		this.dbus.connect('toggle', () => this.clipboardDialog?.toggle());
 		this.dbus.connect('show', () => this.clipboardDialog?.open());
 		this.dbus.connect('hide', () => this.clipboardDialog?.close());
 		this.dbus.connect('clear-history', (_, history: ClipboardHistory | -1) =>
 			this.entryTracker?.clear(history === -1 ? null : history),
 		);
+		this.dbus.connect('entry-added', (_, entry: ClipboardEntry) => this.clipboardDialog?.addEntry(entry));
 
 		// Feedback
 		this.notificationManager = new NotificationManager(this);
@@ -93,9 +102,15 @@ export default class CopyousExtension extends Extension {
 		this.shortcutsManager = new ShortcutManager(this, this.clipboardDialog);
 		this.shortcutsManager.connect('open-clipboard-dialog', () => this.clipboardDialog?.toggle());
 		this.shortcutsManager.connect('toggle-incognito-mode', () => this.indicator?.toggleIncognito());
+		this.shortcutsManager.connect('paste-next', () => this.pasteQueue?.next().catch(error));
 
 		// Database
 		this.entryTracker = new ClipboardEntryTracker(this);
+		this.dbus.connectTracker(this.entryTracker);
+		this.entryTracker.connect('unlocked', () => this.initEntryTracker().catch(error));
+		this.entryTracker.connect('collections-changed', (tracker: ClipboardEntryTracker) =>
+			this.clipboardDialog?.setCollections(tracker.collections),
+		);
 		this.initEntryTracker().catch(error);
 		this.initHistoryTimeout().catch(error);
 
@@ -104,11 +119,19 @@ export default class CopyousExtension extends Extension {
 			this.initEntryTracker.bind(this),
 			'changed::in-memory-database',
 			this.initEntryTracker.bind(this),
+			'changed::encrypt-history',
+			() => this.initEntryTracker(false),
 			'changed::history-time',
 			this.initHistoryTimeout.bind(this),
 			this,
 		);
 
+		// Primary Selection
+		this.primaryHistory = new PrimaryHistory(this);
+		this.primaryHistory.connect('entry-added', (_, entry: ClipboardEntry) =>
+			this.clipboardDialog?.addPrimaryEntry(entry),
+		);
+
 		// Clipboard Manager
 		this.clipboardManager = new ClipboardManager(this, this.entryTracker);
 		this.clipboardManager.connect('clipboard', (_, entry: ClipboardEntry) => {
@@ -130,6 +153,10 @@ export default class CopyousExtension extends Extension {
 			this.notificationManager?.imageNotification(image, width, height);
 			this.soundManager?.playSound();
 		});
+
+		// Paste Queue
+		this.pasteQueue = new PasteQueue(this);
+		this.pasteQueue.bind_property('length', this.indicator, 'queue-length', GObject.BindingFlags.SYNC_CREATE);
 	}
 
 	private async initHljs() {
@@ -214,11 +241,11 @@ export default class CopyousExtension extends Extension {
 		this.hljsCallbacks.push(fn);
 	}
 
-	private async initEntryTracker() {
+	private async initEntryTracker(clearHistory: boolean = true) {
 		if (!this.entryTracker) return;
 
 		this.clipboardDialog?.clearEntries();
-		const entries = await this.entryTracker.init();
+		const entries = await this.entryTracker.init(clearHistory);
 		for (const entry of entries) {
 			this.clipboardDialog?.addEntry(entry);
 		}
@@ -245,6 +272,10 @@ export default class CopyousExtension extends Extension {
 	}
 
 	override disable() {
+		// Paste Queue
+		this.pasteQueue?.destroy();
+		this.pasteQueue = undefined;
+
 		// UI
 		this.clipboardDialog?.destroy();
 		this.indicator?.destroy();
@@ -287,6 +318,10 @@ export default class CopyousExtension extends Extension {
 		this.clipboardManager?.destroy();
 		this.clipboardManager = undefined;
 
+		// Primary Selection
+		this.primaryHistory?.destroy();
+		this.primaryHistory = undefined;
+
 		// Globals
 		this.settings?.disconnectObject(this);
 		this.settings = undefined!;
@@ -4,13 +4,15 @@ import Gio from 'gi://Gio';
 import type { ExtensionPreferences } from 'resource:///org/gnome/Shell/Extensions/js/extensions/prefs.js';
 import type { ConsoleLike, Extension } from 'resource:///org/gnome/shell/extensions/extension.js';
 
-import { ClipboardEntry } from '../misc/db.js';
+import { ClipboardEntry, SourceApp } from '../misc/db.js';
 import { ColorSpace } from './color.js';
-import { ItemType, getActionsConfigPath } from './constants.js';
+import { ItemType, Tag, getActionsConfigPath } from './constants.js';
+import { Transform } from './transform.js';
 
 export interface ActionConfig {
 	actions: (Action | ActionSubmenu)[];
 	defaults?: Partial<Record<ItemType, string>>;
+	rules?: CaptureRule[];
 }
 
 export interface ActionSubmenu {
@@ -22,6 +24,7 @@ export const ActionOutput = {
 	Ignore: 'ignore',
 	Copy: 'copy',
 	Paste: 'paste',
+	Preview: 'preview',
 } as const;
 
 export type ActionOutput = (typeof ActionOutput)[keyof typeof ActionOutput];
@@ -53,6 +56,80 @@ export interface QrCodeAction extends Action {
 	output: (typeof ActionOutput)['Ignore'];
 }
 
+export interface TransformAction extends Action {
+	kind: 'transform';
+	transforms: Transform[];
+	output: (typeof ActionOutput)['Copy'] | (typeof ActionOutput)['Paste'] | (typeof ActionOutput)['Preview'];
+}
+
+export const ImageFormat = {
+	Png: 'png',
+	Jpeg: 'jpeg',
+	WebP: 'webp',
+} as const;
+
+export type ImageFormat = (typeof ImageFormat)[keyof typeof ImageFormat];
+
+export const ImageFormats = [ImageFormat.Png, ImageFormat.Jpeg, ImageFormat.WebP] as const;
+
+export const ImageEncoding = {
+	Image: 'image',
+	DataUri: 'data-uri',
+	Base64: 'base64',
+} as const;
+
+export type ImageEncoding = (typeof ImageEncoding)[keyof typeof ImageEncoding];
+
+export const ImageEncodings = [ImageEncoding.Image, ImageEncoding.DataUri, ImageEncoding.Base64] as const;
+
+export interface ImageAction extends Action {
+	kind: 'image';
+	format: ImageFormat;
+	/** The quality of jpeg and webp images from 0 to 100 */
+	quality: number;
+	/** The maximum width and height in pixels, larger images are scaled down. 0 keeps the size */
+	maxSize: number;
+	/** Whether to output the image itself or the image encoded as text */
+	encoding: ImageEncoding;
+	types: [(typeof ItemType)['Image']];
+	output: (typeof ActionOutput)['Copy'] | (typeof ActionOutput)['Paste'];
+}
+
+export const PipelineOnError = {
+	Stop: 'stop',
+	Skip: 'skip',
+} as const;
+
+export type PipelineOnError = (typeof PipelineOnError)[keyof typeof PipelineOnError];
+
+export interface PipelineStep {
+	/** The id of the action to run */
+	action: string;
+	onError: PipelineOnError;
+}
+
+export interface PipelineAction extends Action {
+	kind: 'pipeline';
+	steps: PipelineStep[];
+}
+
+/**
+ * A rule that runs automatically when a new clipboard item is captured.
+ */
+export interface CaptureRule {
+	id: string;
+	name: string;
+	enabled: boolean;
+	pattern?: string | null;
+	types?: ItemType[] | null;
+	/** The wm classes, app ids or names of the apps the rule applies to */
+	apps?: string[] | null;
+	/** The id of the action that rewrites the content of the item */
+	action?: string | null;
+	pin?: boolean;
+	tag?: Tag | null;
+}
+
 export function instanceofActionSubmenu(obj: object): obj is ActionSubmenu {
 	return 'name' in obj && 'actions' in obj;
 }
@@ -73,6 +150,18 @@ export function instanceofQrCodeAction(obj: object): obj is QrCodeAction {
 	return instanceofAction(obj) && obj.kind === 'qrcode';
 }
 
+export function instanceofTransformAction(obj: object): obj is TransformAction {
+	return instanceofAction(obj) && obj.kind === 'transform' && 'transforms' in obj;
+}
+
+export function instanceofImageAction(obj: object): obj is ImageAction {
+	return instanceofAction(obj) && obj.kind === 'image' && 'format' in obj;
+}
+
+export function instanceofPipelineAction(obj: object): obj is PipelineAction {
+	return instanceofAction(obj) && obj.kind === 'pipeline' && 'steps' in obj;
+}
+
 /**
  * Test if an action is applicable to a clipboard entry.
  * @param entry the clipboard entry to test the action against.
@@ -110,6 +199,34 @@ export function matchAction(entry: ClipboardEntry, action: Action): (string | un
 	}
 }
 
+/**
+ * Test if a capture rule applies to a newly captured clipboard item.
+ * @param rule the capture rule.
+ * @param type the type of the item.
+ * @param content the content of the item.
+ * @param source the app the item was copied from.
+ */
+export function testCaptureRule(rule: CaptureRule, type: ItemType, content: string, source: SourceApp | null): boolean {
+	if (!rule.enabled) return false;
+	if (rule.types?.length && !rule.types.includes(type)) return false;
+
+	if (rule.apps?.length) {
+		// App ids can be given with or without the .desktop suffix
+		const normalize = (name: string) => name.toLowerCase().replace(/\.desktop$/, '');
+		const names = [source?.wmClass, source?.appId, source?.name].filter((x) => x != null).map(normalize);
+		if (!rule.apps.some((app) => names.includes(normalize(app)))) return false;
+	}
+
+	if (!rule.pattern) return true;
+
+	try {
+		const regex = new RegExp(rule.pattern);
+		return regex.test(content);
+	} catch {
+		return false;
+	}
+}
+
 /**
  * Find an action by its id in an action configuration.
  * @param config the action configuration.
@@ -174,6 +291,41 @@ export function defaultConfig(ext: Extension | ExtensionPreferences): ActionConf
 		};
 	}
 
+	function imageAction(
+		id: string,
+		name: string,
+		pattern: string | null,
+		format: ImageFormat,
+		encoding: ImageEncoding,
+	): ImageAction {
+		return {
+			kind: 'image',
+			id,
+			name,
+			pattern,
+			types: [ItemType.Image],
+			format,
+			quality: 90,
+			maxSize: 0,
+			encoding,
+			output: ActionOutput.Paste,
+			shortcut: [],
+		};
+	}
+
+	function transformAction(id: string, name: string, transforms: Transform[]): TransformAction {
+		return {
+			kind: 'transform',
+			id,
+			name,
+			pattern: null,
+			types: [ItemType.Text, ItemType.RichText, ItemType.Code, ItemType.Link],
+			transforms,
+			output: ActionOutput.Paste,
+			shortcut: [],
+		};
+	}
+
 	return {
 		actions: [
 			{
@@ -234,14 +386,46 @@ export function defaultConfig(ext: Extension | ExtensionPreferences): ActionConf
 					// colorAction('lch', _('Lch'), `^(?!lch)`, ColorSpace.Lch),
 					// colorAction('oklab', _('Oklab'), `^(?!oklab)`, ColorSpace.Oklab),
 					colorAction('oklch', _('Oklch'), `^(?!oklch)`, ColorSpace.Oklch),
+					imageAction('png', _('PNG'), `(?<!\\.png)$`, ImageFormat.Png, ImageEncoding.Image),
+					imageAction('jpeg', _('JPEG'), `(?<!\\.jpeg)$`, ImageFormat.Jpeg, ImageEncoding.Image),
+					imageAction('data-uri', _('Data URI'), null, ImageFormat.Png, ImageEncoding.DataUri),
 				],
 			},
+			{
+				name: _('Transform'),
+				actions: [
+					transformAction('uppercase', _('Uppercase'), [Transform.Uppercase]),
+					transformAction('lowercase', _('Lowercase'), [Transform.Lowercase]),
+					transformAction('title-case', _('Title Case'), [Transform.TitleCase]),
+					transformAction('trim', _('Trim'), [Transform.Dedent, Transform.Trim]),
+					transformAction('sort-lines', _('Sort Lines'), [Transform.SortLines]),
+					transformAction('format-json', _('Format JSON'), [Transform.FormatJson]),
+					transformAction('strip-formatting', _('Strip Formatting'), [Transform.StripFormatting]),
+				],
+			},
+			{
+				kind: 'transform',
+				id: 'paste-as-plain-text',
+				name: _('Paste as Plain Text'),
+				pattern: null,
+				types: [ItemType.RichText],
+				transforms: [Transform.StripFormatting],
+				output: ActionOutput.Paste,
+				shortcut: [],
+			} as TransformAction,
 			{
 				kind: 'qrcode',
 				id: 'qrcode',
 				name: _('QR Code'),
 				pattern: null,
-				types: [ItemType.Text, ItemType.Code, ItemType.Link, ItemType.Character, ItemType.Color],
+				types: [
+					ItemType.Text,
+					ItemType.RichText,
+					ItemType.Code,
+					ItemType.Link,
+					ItemType.Character,
+					ItemType.Color,
+				],
 				output: ActionOutput.Ignore,
 				shortcut: ['<Control>q'],
 			} as QrCodeAction,
@@ -250,6 +434,7 @@ export function defaultConfig(ext: Extension | ExtensionPreferences): ActionConf
 			[ItemType.File]: 'paste-as-path',
 			[ItemType.Files]: 'paste-as-path',
 			[ItemType.Link]: 'open-with-browser',
+			[ItemType.RichText]: 'paste-as-plain-text',
 		},
 	};
 }
@@ -394,5 +579,6 @@ export function mergeConfig(config1: ActionConfig, config2: ActionConfig): Actio
 	return {
 		actions: [...actions, ...filtered],
 		defaults: config1.defaults ?? {},
+		rules: config1.rules ?? [],
 	};
 }
@@ -6,6 +6,7 @@ import type { Extension } from 'resource:///org/gnome/shell/extensions/extension
 
 export const ItemType = {
 	Text: 'Text',
+	RichText: 'RichText',
 	Code: 'Code',
 	Image: 'Image',
 	File: 'File',
@@ -19,6 +20,7 @@ export type ItemType = (typeof ItemType)[keyof typeof ItemType];
 
 export const ItemTypes = [
 	ItemType.Text,
+	ItemType.RichText,
 	ItemType.Code,
 	ItemType.Image,
 	ItemType.File,
@@ -79,6 +81,10 @@ export const DefaultColors = {
 	'custom-search-bg-color': ['rgb(71,71,76)', 'rgb(255,255,255)'],
 } as const;
 
+export const DBusName = 'org.gnome.Shell.Extensions.Copyous';
+
+export const DBusPath = '/org/gnome/Shell/Extensions/Copyous';
+
 export const UserAgent = 'Mozilla/5.0 (compatible; CopyousBot/1.0; +https://github.com/boerdereinar/copyous)';
 
 export const HljsCdns = [
@@ -301,6 +307,10 @@ export function getImagesPath(ext: Extension | ExtensionPreferences): Gio.File {
 	return getDataPath(ext).get_child('images');
 }
 
+export function getRuntimeImagesPath(ext: Extension | ExtensionPreferences): Gio.File {
+	return Gio.file_new_build_filenamev([GLib.get_user_runtime_dir(), ext.uuid, 'images']);
+}
+
 export function getConfigPath(ext: Extension | ExtensionPreferences): Gio.File {
 	return Gio.file_new_build_filenamev([GLib.get_user_config_dir(), ext.uuid]);
 }
@@ -1,8 +1,15 @@
+import GLib from 'gi://GLib';
 import GObject from 'gi://GObject';
 import Gio from 'gi://Gio';
 
-import { ClipboardHistory } from './constants.js';
+import type CopyousExtension from '../../extension.js';
+import { ImportConflict } from '../misc/archive.js';
+import { ClipboardEntry, ClipboardEntryTracker, Collection, searchableText } from '../misc/db.js';
+import { canMerge } from '../misc/merge.js';
+import { SearchChange, SearchQuery } from '../ui/searchEntry.js';
+import { ClipboardHistory, DBusName, DBusPath, ItemType, ItemTypes, Tag, Tags } from './constants.js';
 import { registerClass } from './gjs.js';
+import { Icon } from './icons.js';
 
 const DBusInterfaceXml = `
 <node>
@@ -13,6 +20,100 @@ const DBusInterfaceXml = `
 		<method name="ClearHistory">
 			<arg type="b" direction="in" name="all"/>
 		</method>
+		<method name="ExportHistory">
+			<arg type="s" direction="in" name="path"/>
+			<arg type="u" direction="out" name="exported"/>
+		</method>
+		<method name="ImportHistory">
+			<arg type="s" direction="in" name="path"/>
+			<arg type="s" direction="in" name="conflict"/>
+			<arg type="u" direction="out" name="added"/>
+			<arg type="u" direction="out" name="updated"/>
+		</method>
+		<method name="RekeyHistory"/>
+		<method name="ListEntries">
+			<arg type="u" direction="in" name="offset"/>
+			<arg type="u" direction="in" name="limit"/>
+			<arg type="s" direction="in" name="filter"/>
+			<arg type="aa{sv}" direction="out" name="entries"/>
+		</method>
+		<method name="GetEntry">
+			<arg type="i" direction="in" name="id"/>
+			<arg type="a{sv}" direction="out" name="entry"/>
+		</method>
+		<method name="CopyEntry">
+			<arg type="i" direction="in" name="id"/>
+		</method>
+		<method name="PasteEntry">
+			<arg type="i" direction="in" name="id"/>
+		</method>
+		<method name="DeleteEntry">
+			<arg type="i" direction="in" name="id"/>
+		</method>
+		<method name="SetPinned">
+			<arg type="i" direction="in" name="id"/>
+			<arg type="b" direction="in" name="pinned"/>
+		</method>
+		<method name="SetTag">
+			<arg type="i" direction="in" name="id"/>
+			<arg type="s" direction="in" name="tag"/>
+		</method>
+		<method name="SetExpiry">
+			<arg type="i" direction="in" name="id"/>
+			<arg type="u" direction="in" name="seconds"/>
+		</method>
+		<method name="SetTemplate">
+			<arg type="i" direction="in" name="id"/>
+			<arg type="b" direction="in" name="template"/>
+		</method>
+		<method name="AddEntry">
+			<arg type="s" direction="in" name="type"/>
+			<arg type="s" direction="in" name="content"/>
+			<arg type="i" direction="out" name="id"/>
+		</method>
+		<method name="MergeEntries">
+			<arg type="ai" direction="in" name="ids"/>
+			<arg type="s" direction="in" name="separator"/>
+			<arg type="b" direction="in" name="delete_originals"/>
+			<arg type="i" direction="out" name="id"/>
+		</method>
+		<method name="Search">
+			<arg type="s" direction="in" name="query"/>
+			<arg type="ai" direction="out" name="ids"/>
+		</method>
+		<method name="SetCollections">
+			<arg type="i" direction="in" name="id"/>
+			<arg type="ai" direction="in" name="collections"/>
+		</method>
+		<method name="ListCollections">
+			<arg type="a(isss)" direction="out" name="collections"/>
+		</method>
+		<method name="AddCollection">
+			<arg type="s" direction="in" name="name"/>
+			<arg type="s" direction="in" name="color"/>
+			<arg type="s" direction="in" name="icon"/>
+			<arg type="i" direction="out" name="id"/>
+		</method>
+		<method name="UpdateCollection">
+			<arg type="i" direction="in" name="id"/>
+			<arg type="s" direction="in" name="name"/>
+			<arg type="s" direction="in" name="color"/>
+			<arg type="s" direction="in" name="icon"/>
+		</method>
+		<method name="DeleteCollection">
+			<arg type="i" direction="in" name="id"/>
+		</method>
+		<property name="Incognito" type="b" access="readwrite"/>
+		<signal name="EntryAdded">
+			<arg type="a{sv}" name="entry"/>
+		</signal>
+		<signal name="EntryRemoved">
+			<arg type="i" name="id"/>
+		</signal>
+		<signal name="EntryChanged">
+			<arg type="a{sv}" name="entry"/>
+		</signal>
+		<signal name="CollectionsChanged"/>
 	</interface>
 </node>
 `.trim();
@@ -22,6 +123,77 @@ export interface DBusInterface {
 	Show(): void;
 	Hide(): void;
 	ClearHistory(all: boolean): void;
+	ExportHistoryAsync(params: [path: string], invocation: Gio.DBusMethodInvocation): void;
+	ImportHistoryAsync(params: [path: string, conflict: string], invocation: Gio.DBusMethodInvocation): void;
+	RekeyHistoryAsync(params: [], invocation: Gio.DBusMethodInvocation): void;
+	ListEntries(offset: number, limit: number, filter: string): EntryDict[];
+	GetEntry(id: number): EntryDict;
+	CopyEntry(id: number): void;
+	PasteEntry(id: number): void;
+	DeleteEntry(id: number): void;
+	SetPinned(id: number, pinned: boolean): void;
+	SetTag(id: number, tag: string): void;
+	SetExpiry(id: number, seconds: number): void;
+	SetTemplate(id: number, template: boolean): void;
+	AddEntryAsync(params: [type: string, content: string], invocation: Gio.DBusMethodInvocation): void;
+	MergeEntriesAsync(
+		params: [ids: number[], separator: string, deleteOriginals: boolean],
+		invocation: Gio.DBusMethodInvocation,
+	): void;
+	Search(query: string): number[];
+	SetCollections(id: number, collections: number[]): void;
+	ListCollections(): CollectionTuple[];
+	AddCollectionAsync(params: [name: string, color: string, icon: string], invocation: Gio.DBusMethodInvocation): void;
+	UpdateCollection(id: number, name: string, color: string, icon: string): void;
+	DeleteCollection(id: number): void;
+	Incognito: boolean;
+}
+
+type EntryDict = Record<string, GLib.Variant>;
+
+type CollectionTuple = [id: number, name: string, color: string, icon: string];
+
+/**
+ * Converts an entry to a vardict
+ * @param entry The entry to convert
+ */
+function entryDict(entry: ClipboardEntry): EntryDict {
+	const dict: EntryDict = {
+		id: new GLib.Variant('i', entry.id),
+		type: new GLib.Variant('s', entry.type),
+		content: new GLib.Variant('s', entry.content),
+		pinned: new GLib.Variant('b', entry.pinned),
+		tag: new GLib.Variant('s', entry.tag ?? ''),
+		datetime: new GLib.Variant('s', entry.datetime.format_iso8601() ?? ''),
+		sensitive: new GLib.Variant('b', entry.sensitive),
+		collections: new GLib.Variant('ai', entry.collections),
+		template: new GLib.Variant('b', entry.template),
+	};
+
+	if (entry.metadata) dict['metadata'] = new GLib.Variant('s', JSON.stringify(entry.metadata));
+	if (entry.source) dict['source'] = new GLib.Variant('s', JSON.stringify(entry.source));
+	if (entry.expires) dict['expires'] = new GLib.Variant('s', entry.expires.format_iso8601() ?? '');
+
+	return dict;
+}
+
+function invalidArgs(message: string): GLib.Error {
+	return new GLib.Error(Gio.DBusError, Gio.DBusError.INVALID_ARGS, message);
+}
+
+/**
+ * Validates the properties of a collection
+ * @param name The name of the collection
+ * @param color The color of the collection
+ * @param icon The icon of the collection or an empty string for the default icon
+ */
+function collectionProperties(name: string, color: string, icon: string): [string, Tag, string] {
+	if (name.trim() === '') throw invalidArgs('The name of a collection can not be empty');
+	if (!Tags.includes(color as Tag)) {
+		throw invalidArgs(`Invalid color "${color}", expected one of ${Tags.join(', ')}`);
+	}
+
+	return [name.trim(), color as Tag, icon || Icon.Folder];
 }
 
 @registerClass({
@@ -32,6 +204,9 @@ export interface DBusInterface {
 		'clear-history': {
 			param_types: [GObject.TYPE_INT],
 		},
+		'entry-added': {
+			param_types: [ClipboardEntry.$gtype],
+		},
 	},
 })
 export class DbusService extends GObject.Object implements DBusInterface {
@@ -42,12 +217,12 @@ export class DbusService extends GObject.Object implements DBusInterface {
 	private confirmedShutdownId: number = -1;
 	private prepareForShutdownId: number = -1;
 
-	constructor() {
+	constructor(private ext: CopyousExtension) {
 		super();
 
 		this.ownerId = Gio.DBus.own_name(
 			Gio.BusType.SESSION,
-			'org.gnome.Shell.Extensions.Copyous',
+			DBusName,
 			Gio.BusNameOwnerFlags.NONE,
 			this.busAcquired.bind(this),
 			null,
@@ -55,6 +230,20 @@ export class DbusService extends GObject.Object implements DBusInterface {
 		);
 
 		this.registerSignals();
+
+		this.ext.settings.connectObject(
+			'changed::incognito',
+			() => this.dbus?.emit_property_changed('Incognito', new GLib.Variant('b', this.Incognito)),
+			this,
+		);
+	}
+
+	get Incognito(): boolean {
+		return this.ext.settings.get_boolean('incognito');
+	}
+
+	set Incognito(value: boolean) {
+		this.ext.settings.set_boolean('incognito', value);
 	}
 
 	public Toggle() {
@@ -74,7 +263,300 @@ export class DbusService extends GObject.Object implements DBusInterface {
 		this.emit('clear-history', history);
 	}
 
+	public ExportHistoryAsync([path]: [string], invocation: Gio.DBusMethodInvocation) {
+		const tracker = this.ext.entryTracker;
+		if (!tracker) {
+			invocation.return_error_literal(Gio.DBusError, Gio.DBusError.FAILED, 'Clipboard history is not loaded');
+			return;
+		}
+
+		tracker
+			.exportArchive(Gio.File.new_for_path(path))
+			.then((exported) => invocation.return_value(new GLib.Variant('(u)', [exported])))
+			.catch((e) => {
+				this.ext.logger.error('Failed to export history', e);
+				invocation.return_error_literal(Gio.DBusError, Gio.DBusError.FAILED, String(e));
+			});
+	}
+
+	public ImportHistoryAsync([path, conflict]: [string, string], invocation: Gio.DBusMethodInvocation) {
+		const tracker = this.ext.entryTracker;
+		if (!tracker) {
+			invocation.return_error_literal(Gio.DBusError, Gio.DBusError.FAILED, 'Clipboard history is not loaded');
+			return;
+		}
+
+		if (!Object.values<string>(ImportConflict).includes(conflict)) {
+			invocation.return_error_literal(
+				Gio.DBusError,
+				Gio.DBusError.INVALID_ARGS,
+				`Invalid conflict "${conflict}", expected one of ${Object.values(ImportConflict).join(', ')}`,
+			);
+			return;
+		}
+
+		tracker
+			.importArchive(Gio.File.new_for_path(path), conflict as ImportConflict)
+			.then(({ added, updated }) => {
+				for (const entry of added) this.emit('entry-added', entry);
+				invocation.return_value(new GLib.Variant('(uu)', [added.length, updated]));
+			})
+			.catch((e) => {
+				this.ext.logger.error('Failed to import history', e);
+				invocation.return_error_literal(Gio.DBusError, Gio.DBusError.FAILED, String(e));
+			});
+	}
+
+	public RekeyHistoryAsync(_params: [], invocation: Gio.DBusMethodInvocation) {
+		const tracker = this.ext.entryTracker;
+		if (!tracker) {
+			invocation.return_error_literal(Gio.DBusError, Gio.DBusError.FAILED, 'Clipboard history is not loaded');
+			return;
+		}
+
+		tracker
+			.rekey()
+			.then(() => invocation.return_value(null))
+			.catch((e) => {
+				this.ext.logger.error('Failed to re-encrypt history', e);
+				invocation.return_error_literal(Gio.DBusError, Gio.DBusError.FAILED, String(e));
+			});
+	}
+
+	public ListEntries(offset: number, limit: number, filter: string): EntryDict[] {
+		const entries = this.matchingEntries(filter).slice(offset, limit > 0 ? offset + limit : undefined);
+		return entries.map(entryDict);
+	}
+
+	public GetEntry(id: number): EntryDict {
+		return entryDict(this.getEntry(id));
+	}
+
+	public CopyEntry(id: number) {
+		const entry = this.getEntry(id);
+		this.ext.clipboardManager?.copyEntry(entry).catch((e) => this.ext.logger.error(e));
+	}
+
+	public PasteEntry(id: number) {
+		const entry = this.getEntry(id);
+		this.ext.clipboardManager?.pasteEntry(entry).catch((e) => this.ext.logger.error(e));
+	}
+
+	public DeleteEntry(id: number) {
+		this.getEntry(id).emit('delete');
+	}
+
+	public SetPinned(id: number, pinned: boolean) {
+		this.getEntry(id).pinned = pinned;
+	}
+
+	public SetTag(id: number, tag: string) {
+		const entry = this.getEntry(id);
+		if (tag === '') {
+			entry.tag = null;
+		} else if (Tags.includes(tag as Tag)) {
+			entry.tag = tag as Tag;
+		} else {
+			throw invalidArgs(`Invalid tag "${tag}", expected one of ${Tags.join(', ')} or an empty string`);
+		}
+	}
+
+	public SetExpiry(id: number, seconds: number) {
+		this.getEntry(id).expires = seconds > 0 ? GLib.DateTime.new_now_utc().add_seconds(seconds) : null;
+	}
+
+	public SetTemplate(id: number, template: boolean) {
+		const entry = this.getEntry(id);
+		if (template && entry.type !== ItemType.Text && entry.type !== ItemType.Code) {
+			throw invalidArgs('Only text and code items can be templates');
+		}
+		entry.template = template;
+	}
+
+	public AddEntryAsync([type, content]: [string, string], invocation: Gio.DBusMethodInvocation) {
+		const tracker = this.ext.entryTracker;
+		if (!tracker) {
+			invocation.return_error_literal(Gio.DBusError, Gio.DBusError.FAILED, 'Clipboard history is not loaded');
+			return;
+		}
+
+		if (!ItemTypes.includes(type as ItemType)) {
+			invocation.return_gerror(invalidArgs(`Invalid type "${type}", expected one of ${ItemTypes.join(', ')}`));
+			return;
+		}
+
+		tracker
+			.insert(type as ItemType, content)
+			.then((entry) => {
+				if (entry) {
+					this.emit('entry-added', entry);
+				} else {
+					// The entry already exists
+					entry = tracker.entries.find((e) => e.type === type && e.content === content) ?? null;
+				}
+
+				if (entry) {
+					invocation.return_value(new GLib.Variant('(i)', [entry.id]));
+				} else {
+					invocation.return_error_literal(Gio.DBusError, Gio.DBusError.FAILED, 'Failed to add entry');
+				}
+			})
+			.catch((e) => {
+				this.ext.logger.error('Failed to add entry', e);
+				invocation.return_error_literal(Gio.DBusError, Gio.DBusError.FAILED, String(e));
+			});
+	}
+
+	public MergeEntriesAsync(
+		[ids, separator, deleteOriginals]: [number[], string, boolean],
+		invocation: Gio.DBusMethodInvocation,
+	) {
+		const tracker = this.ext.entryTracker;
+		if (!tracker) {
+			invocation.return_error_literal(Gio.DBusError, Gio.DBusError.FAILED, 'Clipboard history is not loaded');
+			return;
+		}
+
+		let entries: ClipboardEntry[];
+		try {
+			entries = [...new Set(ids)].map((id) => this.getEntry(id));
+			for (const entry of entries) {
+				if (!canMerge(entry.type)) {
+					throw invalidArgs(`Entry ${entry.id} of type "${entry.type}" can not be merged`);
+				}
+			}
+
+			if (entries.length < 2) throw invalidArgs('At least two entries are required');
+		} catch (e) {
+			invocation.return_gerror(e as GLib.Error);
+			return;
+		}
+
+		tracker
+			.mergeEntries(entries, separator, deleteOriginals)
+			.then((result) => {
+				if (result) {
+					const [entry, added] = result;
+					if (added) this.emit('entry-added', entry);
+					invocation.return_value(new GLib.Variant('(i)', [entry.id]));
+				} else {
+					invocation.return_error_literal(Gio.DBusError, Gio.DBusError.FAILED, 'Failed to merge entries');
+				}
+			})
+			.catch((e) => {
+				this.ext.logger.error('Failed to merge entries', e);
+				invocation.return_error_literal(Gio.DBusError, Gio.DBusError.FAILED, String(e));
+			});
+	}
+
+	public Search(query: string): number[] {
+		return this.matchingEntries(query).map((entry) => entry.id);
+	}
+
+	public SetCollections(id: number, collections: number[]) {
+		const entry = this.getEntry(id);
+		for (const collection of collections) this.getCollection(collection);
+		entry.collections = [...new Set(collections)];
+	}
+
+	public ListCollections(): CollectionTuple[] {
+		return (this.ext.entryTracker?.collections ?? []).map((c) => [c.id, c.name, c.color, c.icon]);
+	}
+
+	public AddCollectionAsync([name, color, icon]: [string, string, string], invocation: Gio.DBusMethodInvocation) {
+		const tracker = this.ext.entryTracker;
+		if (!tracker) {
+			invocation.return_error_literal(Gio.DBusError, Gio.DBusError.FAILED, 'Clipboard history is not loaded');
+			return;
+		}
+
+		let properties: [string, Tag, string];
+		try {
+			properties = collectionProperties(name, color, icon);
+		} catch (e) {
+			invocation.return_gerror(e as GLib.Error);
+			return;
+		}
+
+		tracker
+			.addCollection(...properties)
+			.then((collection) => {
+				if (collection) {
+					invocation.return_value(new GLib.Variant('(i)', [collection.id]));
+				} else {
+					invocation.return_error_literal(Gio.DBusError, Gio.DBusError.FAILED, 'Failed to add collection');
+				}
+			})
+			.catch((e) => {
+				this.ext.logger.error('Failed to add collection', e);
+				invocation.return_error_literal(Gio.DBusError, Gio.DBusError.FAILED, String(e));
+			});
+	}
+
+	public UpdateCollection(id: number, name: string, color: string, icon: string) {
+		const collection = this.getCollection(id);
+		[collection.name, collection.color, collection.icon] = collectionProperties(name, color, icon);
+	}
+
+	public DeleteCollection(id: number) {
+		const collection = this.getCollection(id);
+		this.ext.entryTracker?.deleteCollection(collection).catch((e) => this.ext.logger.error(e));
+	}
+
+	/**
+	 * Connects the signals of the entry tracker to the D-Bus signals
+	 * @param tracker The entry tracker
+	 */
+	public connectTracker(tracker: ClipboardEntryTracker) {
+		tracker.connectObject(
+			'entry-added',
+			(_tracker: unknown, entry: ClipboardEntry) => this.emitSignal('EntryAdded', '(a{sv})', [entryDict(entry)]),
+			'entry-removed',
+			(_tracker: unknown, id: number) => this.emitSignal('EntryRemoved', '(i)', [id]),
+			'entry-changed',
+			(_tracker: unknown, entry: ClipboardEntry) =>
+				this.emitSignal('EntryChanged', '(a{sv})', [entryDict(entry)]),
+			'collections-changed',
+			() => this.dbus?.emit_signal('CollectionsChanged', null),
+			this,
+		);
+	}
+
+	private emitSignal(name: string, type: string, values: unknown[]) {
+		this.dbus?.emit_signal(name, new GLib.Variant(type, values));
+	}
+
+	private getEntry(id: number): ClipboardEntry {
+		const entry = this.ext.entryTracker?.getEntry(id);
+		if (!entry) throw invalidArgs(`No entry with id ${id}`);
+		return entry;
+	}
+
+	private getCollection(id: number): Collection {
+		const collection = this.ext.entryTracker?.getCollection(id);
+		if (!collection) throw invalidArgs(`No collection with id ${id}`);
+		return collection;
+	}
+
+	/**
+	 * Gets the entries matching a search query, newest first
+	 * @param query The search query
+	 */
+	private matchingEntries(query: string): ClipboardEntry[] {
+		const searchQuery = new SearchQuery(SearchChange.Different, query, false, false, null, false, null);
+		if (searchQuery.errors.length > 0) throw invalidArgs(`Invalid search query "${query}"`);
+
+		return (this.ext.entryTracker?.entries ?? [])
+			.filter((entry) => {
+				const text = searchableText(entry.type, entry.content, entry.metadata) ?? [];
+				return searchQuery.matchesEntry(false, entry, ...text);
+			})
+			.sort((a, b) => b.datetime.compare(a.datetime));
+	}
+
 	public destroy() {
+		this.ext.settings.disconnectObject(this);
+		this.ext.entryTracker?.disconnectObject(this);
 		this.dbus?.unexport();
 		this.dbus = undefined;
 
@@ -83,7 +565,7 @@ export class DbusService extends GObject.Object implements DBusInterface {
 
 	private busAcquired(connection: Gio.DBusConnection, _name: string) {
 		this.dbus = Gio.DBusExportedObject.wrapJSObject(DBusInterfaceXml, this);
-		this.dbus.export(connection, '/org/gnome/Shell/Extensions/Copyous');
+		this.dbus.export(connection, DBusPath);
 	}
 
 	private registerSignals() {
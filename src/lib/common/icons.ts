@@ -17,6 +17,8 @@ export const Icon = {
 	Keyboard: 'keyboard-symbolic',
 	Link: 'link-symbolic',
 	Pin: 'pin-symbolic',
+	PrimarySelection: 'primary-selection-symbolic',
+	RichText: 'rich-text-symbolic',
 	SearchClipboard: 'search-clipboard-symbolic',
 	Settings: 'settings-symbolic',
 	Tag: 'tag-symbolic',
@@ -30,14 +32,19 @@ export const Icon = {
 	Down: 'pan-down-symbolic',
 	DragHandle: 'list-drag-handle-symbolic',
 	Edit: 'document-edit-symbolic',
+	FlipHorizontal: 'object-flip-horizontal-symbolic',
+	FlipVertical: 'object-flip-vertical-symbolic',
 	Help: 'help-about-symbolic',
 	Hide: 'view-conceal-symbolic',
 	Left: 'pan-start-symbolic',
 	MissingImage: 'image-missing-symbolic',
 	Next: 'go-next-symbolic',
 	Right: 'pan-end-symbolic',
+	RotateLeft: 'object-rotate-left-symbolic',
+	RotateRight: 'object-rotate-right-symbolic',
 	Search: 'system-search-symbolic',
 	Show: 'view-reveal-symbolic',
+	Template: 'insert-text-symbolic',
 	Undo: 'edit-undo-symbolic',
 	ViewList: 'view-list-symbolic',
 	ViewMore: 'view-more-symbolic',
@@ -47,6 +54,24 @@ export const Icon = {
 
 export type Icon = (typeof Icon)[keyof typeof Icon];
 
+/**
+ * Icons that can be chosen for a collection
+ */
+export const CollectionIcons = [
+	Icon.Folder,
+	Icon.Tag,
+	Icon.Pin,
+	Icon.Text,
+	Icon.Code,
+	Icon.Link,
+	Icon.Image,
+	Icon.File,
+	Icon.Clipboard,
+	Icon.Keyboard,
+	Icon.Settings,
+	Icon.Color,
+] as const;
+
 export function loadIcon(ext: Extension, icon: Icon): Gio.Icon {
 	const file = Gio.file_new_for_path(`${ext.path}/icons/hicolor/scalable/actions/${icon}.svg`);
 	if (file.query_exists(null)) {
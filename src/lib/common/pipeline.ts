@@ -0,0 +1,189 @@
+import Gio from 'gi://Gio';
+
+import {
+	Action,
+	ActionConfig,
+	PipelineAction,
+	PipelineOnError,
+	PipelineStep,
+	findActionById,
+	instanceofColorAction,
+	instanceofCommandAction,
+	instanceofPipelineAction,
+	instanceofTransformAction,
+} from './actions.js';
+import { Color } from './color.js';
+import { applyTransforms } from './transform.js';
+
+Gio._promisify(Gio.Subprocess.prototype, 'communicate_utf8_async');
+
+export class PipelineError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'PipelineError';
+	}
+}
+
+export interface StepResult {
+	step: PipelineStep;
+	/** The action of the step or null if the action does not exist */
+	action: Action | null;
+	/** The output of the step or null if the step failed */
+	output: string | null;
+	/** The error message if the step failed */
+	error: string | null;
+}
+
+export interface PipelineResult {
+	/** The output of the last step or null if the pipeline stopped */
+	output: string | null;
+	steps: StepResult[];
+}
+
+/**
+ * Check if an action can be a step of a pipeline.
+ * @param action the action.
+ */
+export function isPipelineStep(action: Action): boolean {
+	return instanceofCommandAction(action) || instanceofColorAction(action) || instanceofTransformAction(action);
+}
+
+/**
+ * Check if an action can rewrite text, either as a single step or as a pipeline.
+ * @param action the action.
+ */
+export function isRewriteAction(action: Action): boolean {
+	return isPipelineStep(action) || instanceofPipelineAction(action);
+}
+
+/**
+ * Run a shell command.
+ * @param command the command.
+ * @param args the positional parameters of the command.
+ * @param input the text provided via stdin.
+ * @param cancellable the cancellable to stop the command.
+ * @returns the output of the command without the trailing newline.
+ * @throws PipelineError if the command fails.
+ */
+export async function runCommand(
+	command: string,
+	args: string[],
+	input: string,
+	cancellable: Gio.Cancellable | null,
+): Promise<string> {
+	const flags = Gio.SubprocessFlags.STDIN_PIPE | Gio.SubprocessFlags.STDOUT_PIPE | Gio.SubprocessFlags.STDERR_PIPE;
+	const process = Gio.Subprocess.new(['sh', '-c', command, '_', ...args], flags);
+
+	const [stdout, stderr] = await process.communicate_utf8_async(input, cancellable);
+	if (!process.get_successful()) {
+		throw new PipelineError(stderr?.trim() || `Command exited with status ${process.get_exit_status()}`);
+	}
+
+	return (stdout ?? '').replace(/\n$/, '');
+}
+
+/**
+ * Run an action as a step of a pipeline.
+ * @param action the action.
+ * @param input the output of the previous step.
+ * @param cancellable the cancellable to stop commands.
+ * @returns the output of the step.
+ * @throws PipelineError if the step fails.
+ */
+export async function runStep(action: Action, input: string, cancellable: Gio.Cancellable | null): Promise<string> {
+	let match: string[] = [input];
+	if (action.pattern) {
+		let result;
+		try {
+			result = input.match(new RegExp(action.pattern));
+		} catch {
+			throw new PipelineError(`Invalid regular expression "${action.pattern}"`);
+		}
+
+		if (!result) throw new PipelineError('The input does not match the regular expression');
+		match = result.map((x) => x ?? '');
+	}
+
+	if (instanceofCommandAction(action)) {
+		return await runCommand(action.command, match.slice(1), input, cancellable);
+	}
+
+	if (instanceofColorAction(action)) {
+		const color = Color.parse(input.trim());
+		if (!color) throw new PipelineError('The input is not a color');
+		return color.toColor(action.space).toString();
+	}
+
+	if (instanceofTransformAction(action)) {
+		try {
+			return applyTransforms(input, action.transforms);
+		} catch (e) {
+			throw new PipelineError((e as Error).message);
+		}
+	}
+
+	throw new PipelineError(`"${action.name}" can not be a step of a pipeline`);
+}
+
+/**
+ * Run the steps of a pipeline in order, each step receiving the output of the previous step.
+ * @param config the action configuration containing the actions of the steps.
+ * @param pipeline the pipeline.
+ * @param input the input of the first step.
+ * @param cancellable the cancellable to stop commands.
+ */
+export async function runPipeline(
+	config: ActionConfig,
+	pipeline: PipelineAction,
+	input: string,
+	cancellable: Gio.Cancellable | null,
+): Promise<PipelineResult> {
+	const steps: StepResult[] = [];
+	for (const step of pipeline.steps) {
+		const action = findActionById(config, step.action) ?? null;
+
+		let output: string;
+		try {
+			if (!action) throw new PipelineError(`No action with id "${step.action}"`);
+
+			// eslint-disable-next-line no-await-in-loop
+			output = await runStep(action, input, cancellable);
+		} catch (e) {
+			if (cancellable?.is_cancelled()) throw e;
+
+			const error = e instanceof PipelineError ? e.message : String(e);
+			steps.push({ step, action, output: null, error });
+
+			// Skipped steps pass their input on to the next step
+			if (step.onError === PipelineOnError.Skip) continue;
+			return { output: null, steps };
+		}
+
+		steps.push({ step, action, output, error: null });
+		input = output;
+	}
+
+	return { output: input, steps };
+}
+
+/**
+ * Run an action or pipeline on text.
+ * @param config the action configuration containing the actions of pipeline steps.
+ * @param action the action.
+ * @param input the text.
+ * @param cancellable the cancellable to stop commands.
+ * @returns the output of the action.
+ * @throws PipelineError if the action or a step of the pipeline fails.
+ */
+export async function runAction(
+	config: ActionConfig,
+	action: Action,
+	input: string,
+	cancellable: Gio.Cancellable | null,
+): Promise<string> {
+	if (!instanceofPipelineAction(action)) return await runStep(action, input, cancellable);
+
+	const result = await runPipeline(config, action, input, cancellable);
+	if (result.output === null) throw new PipelineError(result.steps.at(-1)?.error ?? 'The pipeline failed');
+	return result.output;
+}
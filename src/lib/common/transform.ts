@@ -0,0 +1,274 @@
+import GLib from 'gi://GLib';
+
+export const Transform = {
+	Uppercase: 'uppercase',
+	Lowercase: 'lowercase',
+	TitleCase: 'title-case',
+	CamelCase: 'camel-case',
+	SnakeCase: 'snake-case',
+	KebabCase: 'kebab-case',
+	Trim: 'trim',
+	Dedent: 'dedent',
+	CollapseWhitespace: 'collapse-whitespace',
+	SortLines: 'sort-lines',
+	UniqueLines: 'unique-lines',
+	FormatJson: 'format-json',
+	MinifyJson: 'minify-json',
+	EncodeUrl: 'encode-url',
+	DecodeUrl: 'decode-url',
+	EncodeBase64: 'encode-base64',
+	DecodeBase64: 'decode-base64',
+	EncodeHtml: 'encode-html',
+	DecodeHtml: 'decode-html',
+	StripFormatting: 'strip-formatting',
+	StripTracking: 'strip-tracking',
+} as const;
+
+export const Transforms = [
+	Transform.Uppercase,
+	Transform.Lowercase,
+	Transform.TitleCase,
+	Transform.CamelCase,
+	Transform.SnakeCase,
+	Transform.KebabCase,
+	Transform.Trim,
+	Transform.Dedent,
+	Transform.CollapseWhitespace,
+	Transform.SortLines,
+	Transform.UniqueLines,
+	Transform.FormatJson,
+	Transform.MinifyJson,
+	Transform.EncodeUrl,
+	Transform.DecodeUrl,
+	Transform.EncodeBase64,
+	Transform.DecodeBase64,
+	Transform.EncodeHtml,
+	Transform.DecodeHtml,
+	Transform.StripFormatting,
+	Transform.StripTracking,
+];
+
+export type Transform = (typeof Transform)[keyof typeof Transform];
+
+export class TransformError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'TransformError';
+	}
+}
+
+const HtmlEntities: Record<string, string> = {
+	amp: '&',
+	lt: '<',
+	gt: '>',
+	quot: '"',
+	apos: "'",
+	nbsp: '\u00a0',
+};
+
+const TrackingParameters =
+	/^(utm_[a-z_]+|fbclid|gclid|dclid|gbraid|wbraid|msclkid|yclid|twclid|igshid|mc_cid|mc_eid|_hsenc|_hsmi|mkt_tok)$/i;
+
+/**
+ * Splits every line into words at whitespace, punctuation and case changes.
+ * @param text The text to split.
+ */
+function lineWords(text: string): string[][] {
+	return text.split('\n').map((line) =>
+		line
+			.replace(/(\p{Ll}|\p{N})(\p{Lu})/gu, '$1 $2')
+			.replace(/(\p{Lu})(\p{Lu}\p{Ll})/gu, '$1 $2')
+			.split(/[^\p{L}\p{N}]+/u)
+			.filter((word) => word.length > 0)
+			.map((word) => word.toLocaleLowerCase()),
+	);
+}
+
+function capitalize(word: string): string {
+	return word.charAt(0).toLocaleUpperCase() + word.slice(1);
+}
+
+function dedent(text: string): string {
+	const lines = text.split('\n');
+	const indents = lines.filter((line) => line.trim().length > 0).map((line) => /^[ \t]*/.exec(line)![0].length);
+	const indent = indents.length > 0 ? Math.min(...indents) : 0;
+	return lines.map((line) => line.slice(Math.min(indent, /^[ \t]*/.exec(line)![0].length))).join('\n');
+}
+
+function parseJson(text: string): unknown {
+	try {
+		return JSON.parse(text);
+	} catch (e) {
+		throw new TransformError(`Invalid JSON: ${(e as Error).message}`);
+	}
+}
+
+function decodeUrl(text: string): string {
+	try {
+		return decodeURIComponent(text.replace(/\+/g, ' '));
+	} catch {
+		throw new TransformError('Invalid URL encoding');
+	}
+}
+
+function decodeBase64(text: string): string {
+	// Also accept the url safe alphabet and missing padding
+	const base64 = text.replace(/\s/g, '').replace(/-/g, '+').replace(/_/g, '/');
+	if (!/^[A-Za-z0-9+/]*={0,2}$/.test(base64) || base64.replace(/=+$/, '').length % 4 === 1) {
+		throw new TransformError('Invalid Base64');
+	}
+
+	try {
+		const padded = base64.padEnd(Math.ceil(base64.length / 4) * 4, '=');
+		return new TextDecoder('utf-8', { fatal: true }).decode(GLib.base64_decode(padded));
+	} catch {
+		throw new TransformError('Base64 does not contain text');
+	}
+}
+
+function encodeHtml(text: string): string {
+	return text
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&#39;');
+}
+
+/**
+ * Replaces named and numeric HTML character references with the characters they refer to.
+ * @param text The text to decode.
+ */
+export function decodeHtml(text: string): string {
+	return text.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (entity: string, name: string) => {
+		if (name.startsWith('#')) {
+			const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+			return code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+		}
+
+		return HtmlEntities[name.toLowerCase()] ?? entity;
+	});
+}
+
+/**
+ * Removes markup and invisible characters that are often copied along with text.
+ * @param text The text to strip.
+ */
+function stripFormatting(text: string): string {
+	return (
+		text
+			// ANSI escape sequences
+			// eslint-disable-next-line no-control-regex
+			.replace(/\x1b\[[0-9;?]*[A-Za-z]/g, '')
+			// HTML tags
+			.replace(/<\/?[a-z][^>]*>/gi, '')
+			// Zero width and bidirectional control characters
+			.replace(/[\u200b-\u200f\u202a-\u202e\u2060-\u2064\ufeff]/g, '')
+			// Non-breaking spaces
+			.replace(/[\u00a0\u202f]/g, ' ')
+			.replace(/\r\n?/g, '\n')
+	);
+}
+
+/**
+ * Removes the query parameters that are used to track clicks from the links in text.
+ * @param text The text containing links.
+ */
+function stripTracking(text: string): string {
+	return text.replace(/\bhttps?:\/\/[^\s<>"']+/g, (url) => {
+		const hash = url.indexOf('#');
+		const fragment = hash >= 0 ? url.slice(hash) : '';
+		const rest = hash >= 0 ? url.slice(0, hash) : url;
+
+		const query = rest.indexOf('?');
+		if (query < 0) return url;
+
+		const params = rest
+			.slice(query + 1)
+			.split('&')
+			.filter((param) => param.length > 0 && !TrackingParameters.test(param.split('=')[0]!));
+		return rest.slice(0, query) + (params.length > 0 ? `?${params.join('&')}` : '') + fragment;
+	});
+}
+
+/**
+ * Applies a transform to text.
+ * @param text The text to transform.
+ * @param transform The transform.
+ * @throws TransformError if the text is not valid input for the transform.
+ */
+export function applyTransform(text: string, transform: Transform): string {
+	switch (transform) {
+		case Transform.Uppercase:
+			return text.toLocaleUpperCase();
+		case Transform.Lowercase:
+			return text.toLocaleLowerCase();
+		case Transform.TitleCase:
+			return text
+				.toLocaleLowerCase()
+				.replace(
+					/(^|[^\p{L}\p{N}'’])(\p{L})/gu,
+					(_match, prefix: string, c: string) => prefix + c.toLocaleUpperCase(),
+				);
+		case Transform.CamelCase:
+			return lineWords(text)
+				.map((words) => words.map((word, i) => (i === 0 ? word : capitalize(word))).join(''))
+				.join('\n');
+		case Transform.SnakeCase:
+			return lineWords(text)
+				.map((words) => words.join('_'))
+				.join('\n');
+		case Transform.KebabCase:
+			return lineWords(text)
+				.map((words) => words.join('-'))
+				.join('\n');
+		case Transform.Trim:
+			return text.trim();
+		case Transform.Dedent:
+			return dedent(text);
+		case Transform.CollapseWhitespace:
+			return text
+				.replace(/[^\S\n]+/g, ' ')
+				.replace(/ ?\n ?/g, '\n')
+				.replace(/\n{3,}/g, '\n\n');
+		case Transform.SortLines:
+			return text
+				.split('\n')
+				.sort((a, b) => a.localeCompare(b))
+				.join('\n');
+		case Transform.UniqueLines:
+			return [...new Set(text.split('\n'))].join('\n');
+		case Transform.FormatJson:
+			return JSON.stringify(parseJson(text), null, '\t');
+		case Transform.MinifyJson:
+			return JSON.stringify(parseJson(text));
+		case Transform.EncodeUrl:
+			return encodeURIComponent(text);
+		case Transform.DecodeUrl:
+			return decodeUrl(text);
+		case Transform.EncodeBase64:
+			return GLib.base64_encode(new TextEncoder().encode(text));
+		case Transform.DecodeBase64:
+			return decodeBase64(text);
+		case Transform.EncodeHtml:
+			return encodeHtml(text);
+		case Transform.DecodeHtml:
+			return decodeHtml(text);
+		case Transform.StripFormatting:
+			return stripFormatting(text);
+		case Transform.StripTracking:
+			return stripTracking(text);
+		default:
+			throw new TransformError(`Unknown transform "${transform as string}"`);
+	}
+}
+
+/**
+ * Applies transforms to text in order.
+ * @param text The text to transform.
+ * @param transforms The transforms.
+ * @throws TransformError if the text is not valid input for one of the transforms.
+ */
+export function applyTransforms(text: string, transforms: Transform[]): string {
+	return transforms.reduce(applyTransform, text);
+}
@@ -0,0 +1,254 @@
+import GLib from 'gi://GLib';
+
+import { ItemType, ItemTypes, Tag, Tags } from '../common/constants.js';
+import { FileOperation, type Metadata, type SourceApp } from './db.js';
+
+export const ArchiveVersion = 1;
+
+export const ManifestName = 'manifest.json';
+
+export const ImportConflict = {
+	Skip: 'skip',
+	Replace: 'replace',
+	Merge: 'merge',
+} as const;
+
+export type ImportConflict = (typeof ImportConflict)[keyof typeof ImportConflict];
+
+export interface ArchiveEntry {
+	type: ItemType;
+	content: string;
+	pinned: boolean;
+	tag: Tag | null;
+	/** ISO 8601 date */
+	datetime: string;
+	metadata: Metadata | null;
+	source: SourceApp | null;
+	sensitive?: boolean;
+	/** ISO 8601 date */
+	expires?: string;
+	/** Names of the collections of the entry */
+	collections?: string[];
+	template?: boolean;
+	/** Path of the image in the archive */
+	image?: string;
+}
+
+export interface ArchiveCollection {
+	name: string;
+	color: Tag;
+	icon: string;
+}
+
+export interface Manifest {
+	version: number;
+	entries: ArchiveEntry[];
+	collections?: ArchiveCollection[];
+}
+
+export class ArchiveError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'ArchiveError';
+	}
+}
+
+// Archives are stored as uncompressed ustar files
+const BlockSize = 512;
+
+function writeString(header: Uint8Array, offset: number, length: number, value: string) {
+	header.set(new TextEncoder().encode(value).subarray(0, length), offset);
+}
+
+function writeOctal(header: Uint8Array, offset: number, length: number, value: number) {
+	writeString(header, offset, length, value.toString(8).padStart(length - 1, '0'));
+}
+
+function readString(header: Uint8Array, offset: number, length: number): string {
+	const field = header.subarray(offset, offset + length);
+	const end = field.indexOf(0);
+	return new TextDecoder().decode(end >= 0 ? field.subarray(0, end) : field);
+}
+
+function readOctal(header: Uint8Array, offset: number, length: number): number {
+	return parseInt(readString(header, offset, length).trim() || '0', 8);
+}
+
+function checksum(header: Uint8Array): number {
+	let sum = 0;
+	for (let i = 0; i < BlockSize; i++) {
+		// The checksum field itself is counted as spaces
+		sum += i >= 148 && i < 156 ? 0x20 : header[i]!;
+	}
+	return sum;
+}
+
+/**
+ * Writes files to an archive.
+ * @param files The contents of the files by their path.
+ * @param mtime The modification time of the files in seconds since the epoch.
+ */
+export function writeArchive(files: Map<string, Uint8Array>, mtime: number = 0): Uint8Array {
+	let size = 2 * BlockSize;
+	for (const data of files.values()) {
+		size += BlockSize + Math.ceil(data.length / BlockSize) * BlockSize;
+	}
+
+	const archive = new Uint8Array(size);
+	let offset = 0;
+	for (const [name, data] of files) {
+		if (new TextEncoder().encode(name).length >= 100) throw new ArchiveError(`File name too long: ${name}`);
+
+		const header = archive.subarray(offset, offset + BlockSize);
+		writeString(header, 0, 100, name);
+		writeOctal(header, 100, 8, 0o644);
+		writeOctal(header, 108, 8, 0);
+		writeOctal(header, 116, 8, 0);
+		writeOctal(header, 124, 12, data.length);
+		writeOctal(header, 136, 12, mtime);
+		writeString(header, 156, 1, '0');
+		writeString(header, 257, 6, 'ustar');
+		writeString(header, 263, 2, '00');
+		writeString(header, 148, 8, checksum(header).toString(8).padStart(6, '0') + '\0 ');
+
+		archive.set(data, offset + BlockSize);
+		offset += BlockSize + Math.ceil(data.length / BlockSize) * BlockSize;
+	}
+
+	return archive;
+}
+
+/**
+ * Reads the regular files of an archive.
+ * @param archive The archive.
+ * @returns The contents of the files by their path.
+ */
+export function readArchive(archive: Uint8Array): Map<string, Uint8Array> {
+	const files = new Map<string, Uint8Array>();
+	let offset = 0;
+	while (offset + BlockSize <= archive.length) {
+		const header = archive.subarray(offset, offset + BlockSize);
+
+		// End of archive
+		if (header.every((b) => b === 0)) break;
+
+		if (!readString(header, 257, 6).startsWith('ustar') || readOctal(header, 148, 8) !== checksum(header)) {
+			throw new ArchiveError('Invalid archive header');
+		}
+
+		const prefix = readString(header, 345, 155);
+		const name = readString(header, 0, 100);
+		const size = readOctal(header, 124, 12);
+		const type = readString(header, 156, 1);
+		if (offset + BlockSize + size > archive.length) throw new ArchiveError('Unexpected end of archive');
+
+		// Regular file
+		if (type === '0' || type === '') {
+			const data = archive.slice(offset + BlockSize, offset + BlockSize + size);
+			files.set(prefix ? `${prefix}/${name}` : name, data);
+		}
+
+		offset += BlockSize + Math.ceil(size / BlockSize) * BlockSize;
+	}
+
+	return files;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNullableString(value: unknown): value is string | null {
+	return value === null || typeof value === 'string';
+}
+
+function isDate(value: unknown): value is string {
+	return typeof value === 'string' && GLib.DateTime.new_from_iso8601(value, null) !== null;
+}
+
+function isMetadata(value: unknown): value is Metadata | null {
+	if (value === null) return true;
+	if (!isObject(value)) return false;
+
+	// Metadata may be partial, so only the fields that are present are checked
+	const { language, operation, title, description, image, html, rtf } = value;
+	return (
+		(language === undefined ||
+			language === null ||
+			(isObject(language) && typeof language['id'] === 'string' && typeof language['name'] === 'string')) &&
+		(operation === undefined || Object.values<unknown>(FileOperation).includes(operation)) &&
+		[title, description, image, rtf].every((v) => v === undefined || isNullableString(v)) &&
+		(html === undefined || typeof html === 'string')
+	);
+}
+
+function isSourceApp(value: unknown): value is SourceApp | null {
+	if (value === null) return true;
+	if (!isObject(value)) return false;
+
+	return [value['wmClass'], value['appId'], value['name']].every((v) => isNullableString(v ?? null));
+}
+
+function isArchiveEntry(value: unknown): value is ArchiveEntry {
+	if (!isObject(value)) return false;
+
+	const collections = value['collections'];
+	return (
+		ItemTypes.includes(value['type'] as ItemType) &&
+		typeof value['content'] === 'string' &&
+		typeof value['pinned'] === 'boolean' &&
+		(value['tag'] === null || Tags.includes(value['tag'] as Tag)) &&
+		isDate(value['datetime']) &&
+		isMetadata(value['metadata']) &&
+		isSourceApp(value['source']) &&
+		(value['sensitive'] === undefined || typeof value['sensitive'] === 'boolean') &&
+		(value['expires'] === undefined || isDate(value['expires'])) &&
+		(collections === undefined ||
+			(Array.isArray(collections) && collections.every((c) => typeof c === 'string'))) &&
+		(value['template'] === undefined || typeof value['template'] === 'boolean') &&
+		(value['image'] === undefined || typeof value['image'] === 'string')
+	);
+}
+
+function isArchiveCollection(value: unknown): value is ArchiveCollection {
+	return (
+		isObject(value) &&
+		typeof value['name'] === 'string' &&
+		typeof value['color'] === 'string' &&
+		typeof value['icon'] === 'string'
+	);
+}
+
+/**
+ * Reads the manifest of an archive. Entries and collections that are malformed are skipped.
+ * @param files The files of the archive.
+ */
+export function readManifest(files: Map<string, Uint8Array>): Manifest {
+	const data = files.get(ManifestName);
+	if (!data) throw new ArchiveError('Archive does not contain a manifest');
+
+	let manifest: unknown;
+	try {
+		manifest = JSON.parse(new TextDecoder().decode(data));
+	} catch {
+		throw new ArchiveError('Archive manifest is not valid JSON');
+	}
+
+	if (!isObject(manifest)) throw new ArchiveError('Invalid archive manifest');
+
+	const { version, entries, collections } = manifest;
+	if (typeof version !== 'number' || version > ArchiveVersion) {
+		throw new ArchiveError(`Unsupported archive version: ${String(version)}`);
+	}
+
+	if (!Array.isArray(entries)) throw new ArchiveError('Archive manifest does not contain entries');
+	if (collections !== undefined && !Array.isArray(collections)) {
+		throw new ArchiveError('Invalid collections in archive manifest');
+	}
+
+	return {
+		version,
+		entries: entries.filter(isArchiveEntry),
+		collections: (collections ?? []).filter(isArchiveCollection),
+	};
+}
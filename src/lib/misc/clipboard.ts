@@ -3,39 +3,75 @@ import GLib from 'gi://GLib';
 import GObject from 'gi://GObject';
 import Gio from 'gi://Gio';
 import Meta from 'gi://Meta';
+import Shell from 'gi://Shell';
 import St from 'gi://St';
 
 import type CopyousExtension from '../../extension.js';
+import { testCaptureRule } from '../common/actions.js';
 import { Color } from '../common/color.js';
-import { ItemType, getImagesPath } from '../common/constants.js';
+import { ItemType, Tag } from '../common/constants.js';
 import { registerClass } from '../common/gjs.js';
-import { ClipboardEntry, ClipboardEntryTracker, FileOperation, Metadata } from './db.js';
+import { TemplateDialog } from '../ui/components/templateDialog.js';
+import {
+	ClipboardEntry,
+	ClipboardEntryTracker,
+	FileOperation,
+	Metadata,
+	MimeSnapshot,
+	RichTextMetadata,
+	SourceApp,
+} from './db.js';
 import { Keyboard } from './keyboard.js';
+import { hasFormatting, htmlToText } from './richText.js';
+import { CaptureRules } from './rules.js';
+import { MultiMimeSelectionSource } from './selectionSource.js';
+import { SensitiveContentPolicy, detectSecret } from './sensitive.js';
+import { expandTemplate, templateInputs } from './template.js';
 
 Gio._promisify(Gio.File.prototype, 'load_contents_async');
-Gio._promisify(Gio.File.prototype, 'replace_contents_async');
 Gio._promisify(Gio.MemoryOutputStream.prototype, 'splice_async');
 Gio._promisify(Meta.SelectionSource.prototype, 'read_async');
 
 const MimeTypes = {
 	Text: ['text/plain;charset=utf-8', 'UTF8_STRING', 'text/plain', 'STRING'],
+	Html: ['text/html'],
+	Rtf: ['text/rtf', 'application/rtf'],
 	Image: ['image/png', 'image/jxl', 'image/webp', 'image/avif', 'image/jpeg'],
 	File: ['x-special-gnome-copied-files', 'text/uri-list'],
 	Sensitive: ['x-kde-passwordManagerHint'],
+	// X11 selection targets that do not contain content
+	Targets: ['TARGETS', 'MULTIPLE', 'TIMESTAMP', 'SAVE_TARGETS', 'DELETE'],
 } as const;
 
+// Time in milliseconds the primary selection has to stay the same before it is recorded
+const PRIMARY_DEBOUNCE = 750;
+
 export const ContentType = {
 	Text: 0,
 	Image: 1,
 	File: 2,
+	RichText: 3,
 } as const;
 
 export type ContentType = (typeof ContentType)[keyof typeof ContentType];
 
-type ClipboardContent =
-	| { type: (typeof ContentType)['Text']; text: string }
+type ClipboardContent = (
+	| { type: (typeof ContentType)['Text']; text: string; cursor?: number }
 	| { type: (typeof ContentType)['Image']; mimetype: string; data: Uint8Array; checksum: string }
-	| { type: (typeof ContentType)['File']; paths: string[]; operation: FileOperation };
+	| { type: (typeof ContentType)['File']; paths: string[]; operation: FileOperation }
+	| { type: (typeof ContentType)['RichText']; text: string; html: string; rtf: string | null }
+) & {
+	// The mime types the content was copied with, which are offered instead of the content
+	snapshot?: MimeSnapshot;
+};
+
+type Item = [type: ItemType, content: string, metadata: Metadata | null];
+
+interface CaptureResult {
+	item: Item;
+	pin: boolean;
+	tag: Tag | null;
+}
 
 function contentChecksum(content: ClipboardContent): string | null {
 	switch (content.type) {
@@ -47,9 +83,48 @@ function contentChecksum(content: ClipboardContent): string | null {
 			const s = content.paths.map((f) => decodeURI(f).substring('file://'.length)).join('\n');
 			return GLib.compute_checksum_for_string(GLib.ChecksumType.MD5, s, s.length);
 		}
+		case ContentType.RichText: {
+			const s = `${content.text}\0${content.html}`;
+			return GLib.compute_checksum_for_string(GLib.ChecksumType.MD5, s, s.length);
+		}
 	}
 }
 
+async function readMimeType(selectionSource: Meta.SelectionSource, mimeType: string): Promise<Uint8Array> {
+	const source = await selectionSource.read_async(mimeType, null);
+	const out = Gio.MemoryOutputStream.new_resizable();
+	await out.splice_async(
+		source,
+		Gio.OutputStreamSpliceFlags.CLOSE_SOURCE | Gio.OutputStreamSpliceFlags.CLOSE_TARGET,
+		GLib.PRIORITY_DEFAULT,
+		null,
+	);
+	return out.steal_as_bytes().toArray();
+}
+
+function decodeHtmlBytes(bytes: Uint8Array): string {
+	// Some browsers offer html as UTF-16 with a byte order mark
+	if (bytes[0] === 0xff && bytes[1] === 0xfe) return new TextDecoder('utf-16le').decode(bytes);
+	if (bytes[0] === 0xfe && bytes[1] === 0xff) return new TextDecoder('utf-16be').decode(bytes);
+	return new TextDecoder().decode(bytes);
+}
+
+function getSourceApp(window: Meta.Window | null): SourceApp | null {
+	if (!window) return null;
+
+	const wmClass = window.get_wm_class();
+	const appSystem = Shell.AppSystem.get_default();
+	let app: Shell.App | null = null;
+	if (wmClass) app = appSystem.lookup_startup_wmclass(wmClass) ?? appSystem.lookup_desktop_wmclass(wmClass);
+	app ??= Shell.WindowTracker.get_default().get_window_app(window);
+
+	return {
+		wmClass,
+		appId: app?.get_id() ?? null,
+		name: app?.get_name() ?? wmClass,
+	};
+}
+
 @registerClass({
 	Signals: {
 		clipboard: {
@@ -67,10 +142,14 @@ export class ClipboardManager extends GObject.Object {
 	private selection: Meta.Selection;
 	private clipboard: St.Clipboard;
 	private keyboard: Keyboard;
+	private rules: CaptureRules;
 	private signalId: number = -1;
 	private pasteSignalId: number = -1;
+	private pasteCallback: ((pasted: boolean) => void) | null = null;
+	private primarySignalId: number = -1;
 
 	private prevClipboard: [ContentType, string] | null = null;
+	private prevPrimary: string | null = null;
 
 	constructor(
 		private ext: CopyousExtension,
@@ -81,17 +160,20 @@ export class ClipboardManager extends GObject.Object {
 		this.selection = global.display.get_selection();
 		this.clipboard = St.Clipboard.get_default();
 		this.keyboard = new Keyboard();
+		this.rules = new CaptureRules(ext);
 
 		this.signalId = this.selection.connect('owner-changed', this.ownerChanged.bind(this));
 	}
 
 	public destroy() {
 		this.keyboard.destroy();
+		this.rules.destroy();
 
 		if (this.signalId >= 0) this.selection.disconnect(this.signalId);
-		if (this.pasteSignalId >= 0) GLib.source_remove(this.pasteSignalId);
+		if (this.primarySignalId >= 0) GLib.source_remove(this.primarySignalId);
+		this.cancelPaste();
 		this.signalId = -1;
-		this.pasteSignalId = -1;
+		this.primarySignalId = -1;
 	}
 
 	public copyContent(content: ClipboardContent) {
@@ -99,11 +181,26 @@ export class ClipboardManager extends GObject.Object {
 		if (!checksum) return;
 		this.prevClipboard = [content.type, checksum];
 
+		// Snapshot of a faithful mode item
+		if (content.snapshot) {
+			this.selection.set_owner(
+				Meta.SelectionType.SELECTION_CLIPBOARD,
+				new MultiMimeSelectionSource(content.snapshot),
+			);
+			if (
+				this.ext.settings.get_boolean('sync-primary') &&
+				(content.type === ContentType.Text || content.type === ContentType.RichText)
+			) {
+				this.setPrimary(content.text);
+			}
+			return;
+		}
+
 		// Text
 		if (content.type === ContentType.Text) {
 			this.clipboard.set_text(St.ClipboardType.CLIPBOARD, content.text);
 			if (this.ext.settings.get_boolean('sync-primary')) {
-				this.clipboard.set_text(St.ClipboardType.PRIMARY, content.text);
+				this.setPrimary(content.text);
 			}
 			return;
 		}
@@ -121,14 +218,48 @@ export class ClipboardManager extends GObject.Object {
 			this.clipboard.set_content(St.ClipboardType.CLIPBOARD, MimeTypes.File[0], bytes);
 			return;
 		}
+
+		// Rich Text is offered as html, rtf and plain text so that it can also be pasted into plain text editors
+		if (content.type === ContentType.RichText) {
+			const encoder = new TextEncoder();
+			const contents = new Map<string, Uint8Array>();
+			for (const mimeType of MimeTypes.Html) contents.set(mimeType, encoder.encode(content.html));
+			if (content.rtf) for (const mimeType of MimeTypes.Rtf) contents.set(mimeType, encoder.encode(content.rtf));
+			for (const mimeType of MimeTypes.Text) contents.set(mimeType, encoder.encode(content.text));
+
+			this.selection.set_owner(Meta.SelectionType.SELECTION_CLIPBOARD, new MultiMimeSelectionSource(contents));
+			if (this.ext.settings.get_boolean('sync-primary')) {
+				this.setPrimary(content.text);
+			}
+			return;
+		}
+	}
+
+	private setPrimary(text: string) {
+		this.prevPrimary = text;
+		this.clipboard.set_text(St.ClipboardType.PRIMARY, text);
 	}
 
-	public pasteContent(content: ClipboardContent) {
+	/**
+	 * Copies content and pastes it shortly after
+	 * @param content The content to paste
+	 * @param force Whether to paste even if pasting on copy is disabled
+	 * @param callback Called with whether the content was pasted, which is not the case if another paste replaced it
+	 */
+	public pasteContent(
+		content: ClipboardContent,
+		force: boolean = false,
+		callback: ((pasted: boolean) => void) | null = null,
+	) {
 		this.copyContent(content);
 
-		if (!this.ext.settings.get_boolean('paste-on-copy')) return;
+		if (!force && !this.ext.settings.get_boolean('paste-on-copy')) {
+			callback?.(false);
+			return;
+		}
 
-		if (this.pasteSignalId >= 0) GLib.source_remove(this.pasteSignalId);
+		this.cancelPaste();
+		this.pasteCallback = callback;
 		this.pasteSignalId = GLib.timeout_add(GLib.PRIORITY_DEFAULT, 250, () => {
 			// https://github.com/Tudmotu/gnome-shell-extension-clipboard-indicator/blob/89c57703641a9d5d15f899f6e780174641911d95/extension.js#L1094
 			if (this.keyboard.purpose === Clutter.InputContentPurpose.TERMINAL) {
@@ -145,11 +276,30 @@ export class ClipboardManager extends GObject.Object {
 				this.keyboard.release(Clutter.KEY_Shift_L);
 			}
 
+			// Move the cursor to the cursor placeholder of a template
+			if (content.type === ContentType.Text && content.cursor) {
+				for (let i = 0; i < content.cursor; i++) {
+					this.keyboard.press(Clutter.KEY_Left);
+					this.keyboard.release(Clutter.KEY_Left);
+				}
+			}
+
 			this.pasteSignalId = -1;
+			this.pasteCallback = null;
+			callback?.(true);
 			return GLib.SOURCE_REMOVE;
 		});
 	}
 
+	private cancelPaste() {
+		if (this.pasteSignalId >= 0) GLib.source_remove(this.pasteSignalId);
+		this.pasteSignalId = -1;
+
+		const callback = this.pasteCallback;
+		this.pasteCallback = null;
+		callback?.(false);
+	}
+
 	public copyText(s: string) {
 		this.copyContent({ type: ContentType.Text, text: s });
 		this.emit('text', s);
@@ -166,41 +316,112 @@ export class ClipboardManager extends GObject.Object {
 		this.emit('image', data, width, height);
 	}
 
-	public async pasteEntry(entry: ClipboardEntry) {
+	public copyImage(data: Uint8Array, mimetype: string) {
+		const checksum = GLib.compute_checksum_for_bytes(GLib.ChecksumType.MD5, data);
+		if (!checksum) return;
+		this.copyContent({ type: ContentType.Image, mimetype, data, checksum });
+	}
+
+	public pasteImage(data: Uint8Array, mimetype: string) {
+		const checksum = GLib.compute_checksum_for_bytes(GLib.ChecksumType.MD5, data);
+		if (!checksum) return;
+		this.pasteContent({ type: ContentType.Image, mimetype, data, checksum });
+	}
+
+	public async copyEntry(entry: ClipboardEntry) {
+		const content = await this.entryContent(entry);
+		if (content) this.copyContent(content);
+	}
+
+	/**
+	 * Copies an entry and pastes it shortly after
+	 * @param entry The entry to paste
+	 * @param force Whether to paste even if pasting on copy is disabled
+	 * @returns Whether the entry was pasted
+	 */
+	public async pasteEntry(entry: ClipboardEntry, force: boolean = false): Promise<boolean> {
+		const content = await this.entryContent(entry);
+		if (!content) return false;
+
+		return await new Promise((resolve) => {
+			this.pasteContent(content, force, resolve);
+		});
+	}
+
+	private async entryContent(entry: ClipboardEntry): Promise<ClipboardContent | null> {
 		if (this.ext.settings.get_boolean('update-date-on-copy')) {
 			entry.datetime = GLib.DateTime.new_now_utc();
 		}
 
+		if (entry.template) return this.templateContent(entry);
+
+		const content = await this.itemContent(entry);
+		if (!content) return null;
+
+		// Offer the mime types the entry was copied with in faithful mode
+		const snapshot = await this.tracker.getSnapshot(entry);
+		if (snapshot) content.snapshot = snapshot;
+		return content;
+	}
+
+	private async itemContent(entry: ClipboardEntry): Promise<ClipboardContent | null> {
 		switch (entry.type) {
 			case ItemType.Text:
 			case ItemType.Code:
 			case ItemType.Link:
 			case ItemType.Character:
 			case ItemType.Color:
-				return this.pasteContent({ type: ContentType.Text, text: entry.content });
+				return { type: ContentType.Text, text: entry.content };
+			case ItemType.RichText: {
+				const metadata: RichTextMetadata = {
+					html: '',
+					rtf: null,
+					...(entry.metadata as Partial<RichTextMetadata> | null),
+				};
+				if (!metadata.html) return { type: ContentType.Text, text: entry.content };
+				return { type: ContentType.RichText, text: entry.content, html: metadata.html, rtf: metadata.rtf };
+			}
 			case ItemType.Image:
 				try {
 					const image = Gio.File.new_for_uri(entry.content);
 					const [contents, _etag] = await image.load_contents_async(null);
 					const [contentType] = Gio.content_type_guess(image.get_path(), contents);
 					const mimetype = Gio.content_type_get_mime_type(contentType);
-					if (!mimetype) break;
+					if (!mimetype) return null;
 
 					const checksum = GLib.compute_checksum_for_bytes(GLib.ChecksumType.MD5, contents);
-					if (!checksum) return;
+					if (!checksum) return null;
 
-					return this.pasteContent({ type: ContentType.Image, mimetype, data: contents, checksum });
+					return { type: ContentType.Image, mimetype, data: contents, checksum };
 				} catch {
-					break;
+					return null;
 				}
 			case ItemType.File:
 			case ItemType.Files: {
 				const paths = entry.content.split('\n');
-				return this.pasteContent({ type: ContentType.File, paths, operation: FileOperation.Copy });
+				return { type: ContentType.File, paths, operation: FileOperation.Copy };
 			}
 		}
 	}
 
+	private async templateContent(entry: ClipboardEntry): Promise<ClipboardContent | null> {
+		const clipboard = await new Promise<string>((resolve) => {
+			this.clipboard.get_text(St.ClipboardType.CLIPBOARD, (_clipboard, text) => resolve(text ?? ''));
+		});
+
+		// Ask for the values of the inputs
+		const labels = templateInputs(entry.content);
+		let inputs = new Map<string, string>();
+		if (labels.length > 0) {
+			const values = await new TemplateDialog(labels).prompt();
+			if (!values) return null;
+			inputs = values;
+		}
+
+		const { text, cursor } = expandTemplate(entry.content, { clipboard, inputs });
+		return { type: ContentType.Text, text, cursor };
+	}
+
 	private shouldSave(selectionSource: Meta.SelectionSource): boolean {
 		// Mime Type
 		const mimeTypes = selectionSource.get_mimetypes();
@@ -218,15 +439,35 @@ export class ClipboardManager extends GObject.Object {
 		return !this.ext.settings.get_boolean('incognito');
 	}
 
+	private get sensitiveContentPolicy(): SensitiveContentPolicy {
+		return this.ext.settings.get_enum('sensitive-content-policy') as SensitiveContentPolicy;
+	}
+
+	private isSensitive(content: ClipboardContent): boolean {
+		if (content.type !== ContentType.Text && content.type !== ContentType.RichText) return false;
+		if (this.sensitiveContentPolicy === SensitiveContentPolicy.Save) return false;
+
+		const detectors = this.ext.settings.get_flags('sensitive-content-detectors');
+		return detectSecret(content.text, detectors) !== null;
+	}
+
 	private async ownerChanged(
 		_selection: Meta.Selection,
 		selectionType: Meta.SelectionType,
 		selectionSource: Meta.SelectionSource | null,
 	) {
 		try {
+			if (selectionType === Meta.SelectionType.SELECTION_PRIMARY) {
+				this.primaryChanged(selectionSource);
+				return;
+			}
+
 			if (selectionSource === null) return;
 			if (selectionType !== Meta.SelectionType.SELECTION_CLIPBOARD) return;
 
+			// Get the source before reading the content since the focus may change in the meantime
+			const source = getSourceApp(global.display.focus_window);
+
 			const content = await this.getContent(selectionSource);
 			if (!content) return;
 
@@ -254,32 +495,149 @@ export class ClipboardManager extends GObject.Object {
 			// after copying an item after exiting incognito mode.
 			if (!this.shouldSave(selectionSource)) return;
 
-			const res = await this.convertContent(content);
+			const sensitive = this.isSensitive(content);
+			if (sensitive && this.sensitiveContentPolicy === SensitiveContentPolicy.Skip) return;
+
+			// Read the snapshot before running the capture rules, since the clipboard may change in the meantime
+			const snapshot =
+				!sensitive && this.ext.settings.get_boolean('faithful-mode')
+					? await this.getSnapshot(selectionSource)
+					: null;
+
+			// Text containing secrets is always stored as plain text so that it can be masked
+			const res: Item | null =
+				sensitive && (content.type === ContentType.Text || content.type === ContentType.RichText)
+					? [ItemType.Text, content.text, null]
+					: await this.convertContent(content);
 			if (!res) return;
 
-			const [type, text, metadata] = res;
-			const entry = await this.tracker.insert(type, text, metadata);
+			// Secrets are never passed on to the actions of capture rules
+			const result = sensitive ? null : await this.applyRules(content, res, source);
+
+			const [type, text, metadata] = result?.item ?? res;
+			const entry = await this.tracker.insert(type, text, metadata, source, sensitive);
 			if (entry) {
+				if (result?.pin) entry.pinned = true;
+				if (result?.tag) entry.tag = result.tag;
+
+				// The snapshot does not match content rewritten by the capture rules
+				if (snapshot && text === res[1]) await this.tracker.storeSnapshot(entry, snapshot);
+
 				this.emit('clipboard', entry);
 			}
+
+			// Replace the clipboard with the rewritten content unless something else was copied in the meantime.
+			// Copying stores the checksum of the rewritten content as the previous clipboard, so it is not captured
+			// again as a new item.
+			const [prevType, prevChecksum] = this.prevClipboard ?? [];
+			if (text !== res[1] && prevType === content.type && prevChecksum === checksum) {
+				this.copyContent({ type: ContentType.Text, text });
+			}
 		} catch (e) {
 			this.ext.logger.error(e);
 		}
 	}
 
-	private async getContent(selectionSource: Meta.SelectionSource): Promise<ClipboardContent | null> {
-		async function getBytes(mimeType: string): Promise<Uint8Array<ArrayBufferLike>> {
-			const source = await selectionSource.read_async(mimeType, null);
-			const out = Gio.MemoryOutputStream.new_resizable();
-			await out.splice_async(
-				source,
-				Gio.OutputStreamSpliceFlags.CLOSE_SOURCE | Gio.OutputStreamSpliceFlags.CLOSE_TARGET,
-				GLib.PRIORITY_DEFAULT,
-				null,
-			);
-			return out.steal_as_bytes().toArray();
+	/**
+	 * Records the primary selection once it stops changing, so that selecting text by dragging adds a single item
+	 * @param selectionSource The selection source of the primary selection
+	 */
+	private primaryChanged(selectionSource: Meta.SelectionSource | null) {
+		if (this.primarySignalId >= 0) GLib.source_remove(this.primarySignalId);
+		this.primarySignalId = -1;
+		if (selectionSource === null || !this.ext.settings.get_boolean('primary-history')) return;
+
+		const source = getSourceApp(global.display.focus_window);
+		this.primarySignalId = GLib.timeout_add(GLib.PRIORITY_DEFAULT, PRIMARY_DEBOUNCE, () => {
+			this.primarySignalId = -1;
+			this.capturePrimary(selectionSource, source).catch((e) => this.ext.logger.error(e));
+			return GLib.SOURCE_REMOVE;
+		});
+	}
+
+	private async capturePrimary(selectionSource: Meta.SelectionSource, source: SourceApp | null) {
+		if (!this.shouldSave(selectionSource)) return;
+
+		const mimeTypes = selectionSource.get_mimetypes();
+		const textMimeType = MimeTypes.Text.find((value) => mimeTypes.includes(value));
+		if (!textMimeType) return;
+
+		const text = new TextDecoder().decode(await readMimeType(selectionSource, textMimeType));
+		if (!text.trim()) return;
+
+		// Text synced to the primary selection is already in the clipboard history
+		const synced = text === this.prevPrimary;
+		this.prevPrimary = null;
+		if (synced) return;
+
+		// Secrets are never recorded in the primary selection history
+		const content: ClipboardContent = { type: ContentType.Text, text };
+		if (this.isSensitive(content)) return;
+
+		const item = await this.convertContent(content);
+		if (!item) return;
+
+		const [type, itemContent, metadata] = item;
+		this.ext.primaryHistory?.add(type, itemContent, metadata, source);
+	}
+
+	/**
+	 * Applies the capture rules that match a new item in order. Every rule is applied at most once and sees the
+	 * content as rewritten by the previous rules.
+	 */
+	private async applyRules(content: ClipboardContent, item: Item, source: SourceApp | null): Promise<CaptureResult> {
+		const result: CaptureResult = { item, pin: false, tag: null };
+		for (const rule of this.rules.rules) {
+			const [type, text] = result.item;
+			if (!testCaptureRule(rule, type, text, source)) continue;
+
+			// Only text can be rewritten
+			if (content.type === ContentType.Text) {
+				// eslint-disable-next-line no-await-in-loop
+				const output = await this.rules.rewrite(rule, text);
+				if (output !== null && output !== text) {
+					// eslint-disable-next-line no-await-in-loop
+					result.item = (await this.convertContent({ type: ContentType.Text, text: output })) ?? result.item;
+				}
+			}
+
+			if (rule.pin) result.pin = true;
+			if (rule.tag) result.tag = rule.tag;
 		}
 
+		return result;
+	}
+
+	/**
+	 * Reads every mime type offered by a selection source, skipping mime types that exceed the size limit.
+	 * @returns The snapshot or null if only a single mime type is offered, which is restored from the item itself.
+	 */
+	private async getSnapshot(selectionSource: Meta.SelectionSource): Promise<MimeSnapshot | null> {
+		const limit = this.ext.settings.get_int('faithful-mode-size-limit') * 1024 * 1024;
+		const snapshot: MimeSnapshot = new Map();
+		let size = 0;
+
+		for (const mimeType of selectionSource.get_mimetypes()) {
+			if (MimeTypes.Targets.some((value) => value === mimeType)) continue;
+
+			try {
+				// eslint-disable-next-line no-await-in-loop
+				const bytes = await readMimeType(selectionSource, mimeType);
+				if (size + bytes.length > limit) continue;
+
+				snapshot.set(mimeType, bytes);
+				size += bytes.length;
+			} catch (e) {
+				this.ext.logger.warn(`Failed to read mime type ${mimeType}`, e);
+			}
+		}
+
+		return snapshot.size > 1 ? snapshot : null;
+	}
+
+	private async getContent(selectionSource: Meta.SelectionSource): Promise<ClipboardContent | null> {
+		const getBytes = (mimeType: string) => readMimeType(selectionSource, mimeType);
+
 		const mimeTypes = selectionSource.get_mimetypes();
 
 		// Image
@@ -317,20 +675,30 @@ export class ClipboardManager extends GObject.Object {
 
 		// Text
 		const textMimeType = MimeTypes.Text.find((value) => mimeTypes.includes(value));
-		if (textMimeType) {
-			const bytes = await getBytes(textMimeType);
-			const text = new TextDecoder().decode(bytes);
-			if (text && text.trim()) {
-				return { type: ContentType.Text, text };
-			} else {
-				return null;
+		const text = textMimeType ? new TextDecoder().decode(await getBytes(textMimeType)) : null;
+
+		// Rich Text
+		const htmlMimeType = MimeTypes.Html.find((value) => mimeTypes.includes(value));
+		if (htmlMimeType && this.ext.settings.get_child('rich-text-item').get_boolean('capture-rich-text')) {
+			const html = decodeHtmlBytes(await getBytes(htmlMimeType));
+
+			// Html without formatting, such as a single styled span, is stored as text
+			if (hasFormatting(html)) {
+				const rtfMimeType = MimeTypes.Rtf.find((value) => mimeTypes.includes(value));
+				const rtf = rtfMimeType ? new TextDecoder().decode(await getBytes(rtfMimeType)) : null;
+				const plain = text?.trim() ? text : htmlToText(html);
+				if (plain.trim()) return { type: ContentType.RichText, text: plain, html, rtf: rtf || null };
 			}
 		}
 
+		if (text && text.trim()) {
+			return { type: ContentType.Text, text };
+		}
+
 		return null;
 	}
 
-	private async convertContent(content: ClipboardContent): Promise<[ItemType, string, Metadata | null] | null> {
+	private async convertContent(content: ClipboardContent): Promise<Item | null> {
 		if (content.type === ContentType.Text) {
 			const trimmed = content.text.trim();
 
@@ -374,24 +742,17 @@ export class ClipboardManager extends GObject.Object {
 			return [ItemType.Text, content.text, null];
 		}
 
+		// Rich Text
+		if (content.type === ContentType.RichText) {
+			const metadata: RichTextMetadata = { html: content.html, rtf: content.rtf };
+			return [ItemType.RichText, content.text, metadata];
+		}
+
 		// Image
 		if (content.type === ContentType.Image) {
 			try {
-				const path = getImagesPath(this.ext);
-				if (!path.query_exists(null)) path.make_directory_with_parents(null);
-
 				const extension = content.mimetype.split('/')[1]!;
-				const image = path.get_child(`${content.checksum}.${extension}`);
-				if (!image.query_exists(null)) {
-					await image.replace_contents_async(
-						content.data,
-						null,
-						false,
-						Gio.FileCreateFlags.REPLACE_DESTINATION,
-						null,
-					);
-				}
-
+				const image = await this.tracker.storeImage(`${content.checksum}.${extension}`, content.data);
 				return [ItemType.Image, image.get_uri(), null];
 			} catch {
 				return null;
@@ -0,0 +1,222 @@
+import GLib from 'gi://GLib';
+import Gio from 'gi://Gio';
+
+export const KeyLength = 32;
+
+// Encrypted data starts with "CPY" followed by the format version
+const Magic = new Uint8Array([0x43, 0x50, 0x59, 0x01]);
+const TagLength = 16;
+const NonceLength = 12;
+const BlockLength = 64;
+
+export class CryptoError extends Error {
+	constructor(message: string, options?: ErrorOptions) {
+		super(message, options);
+		this.name = 'CryptoError';
+	}
+}
+
+function rotl(value: number, shift: number): number {
+	return (value << shift) | (value >>> (32 - shift));
+}
+
+function quarterRound(x: Uint32Array, a: number, b: number, c: number, d: number) {
+	let [xa, xb, xc, xd] = [x[a]!, x[b]!, x[c]!, x[d]!];
+	xa = (xa + xb) >>> 0;
+	xd = rotl(xd ^ xa, 16);
+	xc = (xc + xd) >>> 0;
+	xb = rotl(xb ^ xc, 12);
+	xa = (xa + xb) >>> 0;
+	xd = rotl(xd ^ xa, 8);
+	xc = (xc + xd) >>> 0;
+	xb = rotl(xb ^ xc, 7);
+	[x[a], x[b], x[c], x[d]] = [xa, xb, xc, xd];
+}
+
+/**
+ * Encrypts or decrypts data with the ChaCha20 stream cipher (RFC 8439).
+ * @param key The 256-bit key.
+ * @param nonce The 96-bit nonce.
+ * @param data The data to encrypt or decrypt.
+ * @param counter The block counter of the first block.
+ */
+function chacha20(key: Uint8Array, nonce: Uint8Array, data: Uint8Array, counter: number = 0): Uint8Array {
+	const keyView = new DataView(key.buffer, key.byteOffset, key.byteLength);
+	const nonceView = new DataView(nonce.buffer, nonce.byteOffset, nonce.byteLength);
+
+	const state = new Uint32Array(16);
+	state.set([0x61707865, 0x3320646e, 0x79622d32, 0x6b206574]);
+	for (let i = 0; i < 8; i++) state[4 + i] = keyView.getUint32(i * 4, true);
+	state[12] = counter;
+	for (let i = 0; i < 3; i++) state[13 + i] = nonceView.getUint32(i * 4, true);
+
+	const working = new Uint32Array(16);
+	const block = new Uint8Array(BlockLength);
+	const blockView = new DataView(block.buffer);
+	const output = new Uint8Array(data.length);
+	for (let offset = 0; offset < data.length; offset += BlockLength) {
+		working.set(state);
+		for (let i = 0; i < 10; i++) {
+			quarterRound(working, 0, 4, 8, 12);
+			quarterRound(working, 1, 5, 9, 13);
+			quarterRound(working, 2, 6, 10, 14);
+			quarterRound(working, 3, 7, 11, 15);
+			quarterRound(working, 0, 5, 10, 15);
+			quarterRound(working, 1, 6, 11, 12);
+			quarterRound(working, 2, 7, 8, 13);
+			quarterRound(working, 3, 4, 9, 14);
+		}
+		for (let i = 0; i < 16; i++) blockView.setUint32(i * 4, (working[i]! + state[i]!) >>> 0, true);
+
+		const length = Math.min(BlockLength, data.length - offset);
+		for (let i = 0; i < length; i++) output[offset + i] = data[offset + i]! ^ block[i]!;
+
+		// Increment the block counter
+		state[12]!++;
+	}
+
+	return output;
+}
+
+function fromHex(hex: string): Uint8Array {
+	return Uint8Array.from(hex.match(/../g)!, (byte) => parseInt(byte, 16));
+}
+
+function hmac(key: Uint8Array, data: Uint8Array): Uint8Array {
+	return fromHex(GLib.compute_hmac_for_data(GLib.ChecksumType.SHA256, key, data));
+}
+
+function equal(a: Uint8Array, b: Uint8Array): boolean {
+	if (a.length !== b.length) return false;
+
+	// Compare every byte so that the time does not depend on the first difference
+	let diff = 0;
+	for (let i = 0; i < a.length; i++) diff |= a[i]! ^ b[i]!;
+	return diff === 0;
+}
+
+let verified = false;
+
+/**
+ * Checks ChaCha20 against the test vectors of RFC 8439 §2.3.2 and §2.4.2 and HMAC-SHA256 against test case 2 of
+ * RFC 4231, so that a broken implementation never encrypts anything.
+ */
+function verifyPrimitives() {
+	if (verified) return;
+
+	const encoder = new TextEncoder();
+	const key = Uint8Array.from({ length: KeyLength }, (_, i) => i);
+
+	// The key stream of the block function is the encryption of zeros
+	const block = chacha20(key, fromHex('000000090000004a00000000'), new Uint8Array(BlockLength), 1);
+	const blockVector = fromHex(
+		'10f1e7e4d13b5915500fdd1fa32071c4c7d1f4c733c068030422aa9ac3d46c4e' +
+			'd2826446079faa0914c2d705d98b02a2b5129cd1de164eb9cbd083e8a2503c4e',
+	);
+
+	const plaintext = encoder.encode(
+		"Ladies and Gentlemen of the class of '99: If I could offer you only one tip for the future, sunscreen would be it.",
+	);
+	const ciphertext = chacha20(key, fromHex('000000000000004a00000000'), plaintext, 1);
+	const ciphertextVector = fromHex(
+		'6e2e359a2568f98041ba0728dd0d6981e97e7aec1d4360c20a27afccfd9fae0b' +
+			'f91b65c5524733ab8f593dabcd62b3571639d624e65152ab8f530c359f0861d8' +
+			'07ca0dbf500d6a6156a38e088a22b65e52bc514d16ccf806818ce91ab7793736' +
+			'5af90bbf74a35be6b40b8eedf2785e42874d',
+	);
+
+	const mac = hmac(encoder.encode('Jefe'), encoder.encode('what do ya want for nothing?'));
+	const macVector = fromHex('5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843');
+
+	if (!equal(block, blockVector) || !equal(ciphertext, ciphertextVector) || !equal(mac, macVector)) {
+		throw new CryptoError('The encryption does not match the test vectors');
+	}
+
+	verified = true;
+}
+
+/**
+ * Generates a random key from the kernel's random number generator.
+ */
+export function generateKey(): Uint8Array {
+	const stream = Gio.File.new_for_path('/dev/urandom').read(null);
+	try {
+		const key = stream.read_bytes(KeyLength, null).toArray();
+		if (key.length !== KeyLength) throw new CryptoError('Failed to generate key');
+		return key;
+	} finally {
+		stream.close(null);
+	}
+}
+
+/**
+ * Deterministic authenticated encryption with ChaCha20 and HMAC-SHA256 in the SIV construction (RFC 5297, with
+ * HMAC-SHA256 as the pseudorandom function and ChaCha20 as the cipher):
+ *
+ * - The encryption key is `HMAC-SHA256(key, "copyous encryption")` and the authentication key is
+ *   `HMAC-SHA256(key, "copyous authentication")`.
+ * - The synthetic IV is the first 16 bytes of `HMAC-SHA256(authentication key, plaintext)`.
+ * - The ciphertext is ChaCha20 of the plaintext with the encryption key, the first 12 bytes of the IV as the nonce and
+ *   a block counter starting at 0.
+ * - The result is `"CPY" 0x01 || IV || ciphertext`. Decryption recomputes the IV from the decrypted plaintext and
+ *   rejects the data unless it matches.
+ *
+ * The IV only depends on the plaintext, so equal contents result in equal ciphertexts and duplicates can be found
+ * without decrypting the database. Nothing else about the plaintext is revealed apart from its length.
+ */
+export class Cipher {
+	private readonly _encryptionKey: Uint8Array;
+	private readonly _authenticationKey: Uint8Array;
+
+	constructor(key: Uint8Array) {
+		if (key.length !== KeyLength) throw new CryptoError('Invalid key length');
+		verifyPrimitives();
+
+		const encoder = new TextEncoder();
+		this._encryptionKey = hmac(key, encoder.encode('copyous encryption'));
+		this._authenticationKey = hmac(key, encoder.encode('copyous authentication'));
+	}
+
+	/**
+	 * Checks whether data was encrypted by a cipher.
+	 * @param data The data to check.
+	 */
+	public static isEncrypted(data: Uint8Array): boolean {
+		return data.length >= Magic.length + TagLength && equal(data.subarray(0, Magic.length), Magic);
+	}
+
+	public encrypt(data: Uint8Array): Uint8Array {
+		const tag = hmac(this._authenticationKey, data).subarray(0, TagLength);
+		const ciphertext = chacha20(this._encryptionKey, tag.subarray(0, NonceLength), data);
+
+		const result = new Uint8Array(Magic.length + TagLength + ciphertext.length);
+		result.set(Magic);
+		result.set(tag, Magic.length);
+		result.set(ciphertext, Magic.length + TagLength);
+		return result;
+	}
+
+	public decrypt(data: Uint8Array): Uint8Array {
+		if (!Cipher.isEncrypted(data)) throw new CryptoError('Data is not encrypted');
+
+		const tag = data.subarray(Magic.length, Magic.length + TagLength);
+		const plaintext = chacha20(
+			this._encryptionKey,
+			tag.subarray(0, NonceLength),
+			data.subarray(Magic.length + TagLength),
+		);
+		if (!equal(hmac(this._authenticationKey, plaintext).subarray(0, TagLength), tag)) {
+			throw new CryptoError('Data was encrypted with a different key or was modified');
+		}
+
+		return plaintext;
+	}
+
+	public encryptText(text: string): string {
+		return GLib.base64_encode(this.encrypt(new TextEncoder().encode(text)));
+	}
+
+	public decryptText(text: string): string {
+		return new TextDecoder().decode(this.decrypt(GLib.base64_decode(text)));
+	}
+}
@@ -4,10 +4,30 @@ import type Gda from 'gi://Gda';
 import Gio from 'gi://Gio';
 
 import type CopyousExtension from '../../extension.js';
-import { ClipboardHistory, ItemType, Tag, getDataPath } from '../common/constants.js';
+import {
+	ClipboardHistory,
+	ItemType,
+	Tag,
+	Tags,
+	getDataPath,
+	getImagesPath,
+	getRuntimeImagesPath,
+} from '../common/constants.js';
 import { int32ParamSpec, registerClass } from '../common/gjs.js';
+import {
+	ArchiveEntry,
+	ArchiveVersion,
+	ImportConflict,
+	Manifest,
+	ManifestName,
+	readArchive,
+	readManifest,
+	writeArchive,
+} from './archive.js';
+import { Cipher, CryptoError, generateKey } from './crypto.js';
 import {
 	SqlBuilder,
+	add_contains_cond,
 	add_expr_value,
 	async_statement_execute_non_select,
 	async_statement_execute_select,
@@ -16,9 +36,16 @@ import {
 	open_async,
 	unescape_sql,
 } from './gda.js';
+import { KeyPurpose, Keyring } from './keyring.js';
 import { getLinkImagePath } from './link.js';
+import { canMerge } from './merge.js';
+import { MigrationError, Migrations, SchemaVersion } from './migrations.js';
+import { SensitiveContentPolicy } from './sensitive.js';
 
-export type Metadata = CodeMetadata | FileMetadata | LinkMetadata;
+Gio._promisify(Gio.File.prototype, 'load_contents_async');
+Gio._promisify(Gio.File.prototype, 'replace_contents_async');
+
+export type Metadata = CodeMetadata | FileMetadata | LinkMetadata | RichTextMetadata;
 
 export interface Language {
 	id: string;
@@ -46,6 +73,69 @@ export interface LinkMetadata {
 	image: string | null;
 }
 
+export interface RichTextMetadata {
+	html: string;
+	rtf: string | null;
+}
+
+export interface SourceApp {
+	wmClass: string | null;
+	appId: string | null;
+	name: string | null;
+}
+
+/**
+ * The content of every mime type an entry was offered in, in the order they were offered
+ */
+export type MimeSnapshot = Map<string, Uint8Array>;
+
+/**
+ * A property of an entry to store in the database
+ */
+export type EntryUpdate = [entry: ClipboardEntry, property: Exclude<keyof ClipboardEntry, keyof GObject.Object>];
+
+export interface SearchFilters {
+	pinned: boolean;
+	excludePinned: boolean;
+	tag: Tag | null;
+	excludeTagged: boolean;
+	type: ItemType | null;
+	app: string | null;
+	collection: number | null;
+}
+
+/**
+ * Gets the searchable text of an entry.
+ * @param type The type of the entry.
+ * @param content The content of the entry.
+ * @param metadata The metadata of the entry.
+ * @returns The searchable text fields or null if the entry is not searchable.
+ */
+export function searchableText(type: ItemType, content: string, metadata: Metadata | null): string[] | null {
+	if (type === ItemType.Image) return null;
+
+	if (type === ItemType.Link) {
+		const linkMetadata: LinkMetadata = { title: null, description: null, image: null, ...metadata };
+		return [content, linkMetadata.title ?? '', linkMetadata.description ?? ''];
+	}
+
+	return [content];
+}
+
+function matchesFilters(entry: ClipboardEntry, filters: SearchFilters): boolean {
+	const app = filters.app?.toLocaleLowerCase() ?? null;
+	const source = entry.source;
+	return (
+		((!filters.pinned && !filters.excludePinned) || filters.pinned === entry.pinned) &&
+		((filters.tag === null && !filters.excludeTagged) || filters.tag === entry.tag) &&
+		(filters.type === null || filters.type === entry.type) &&
+		(filters.collection === null || entry.collections.includes(filters.collection)) &&
+		(app === null ||
+			(source !== null &&
+				[source.wmClass, source.appId, source.name].some((s) => s?.toLocaleLowerCase().includes(app))))
+	);
+}
+
 @registerClass({
 	Properties: {
 		id: int32ParamSpec('id', GObject.ParamFlags.READABLE, 0),
@@ -55,6 +145,11 @@ export interface LinkMetadata {
 		tag: GObject.ParamSpec.string('tag', null, null, GObject.ParamFlags.READWRITE, ''),
 		datetime: GObject.ParamSpec.boxed('datetime', null, null, GObject.ParamFlags.READWRITE, GLib.DateTime),
 		metadata: GObject.ParamSpec.jsobject('metadata', null, null, GObject.ParamFlags.READWRITE),
+		source: GObject.ParamSpec.jsobject('source', null, null, GObject.ParamFlags.READWRITE),
+		sensitive: GObject.ParamSpec.boolean('sensitive', null, null, GObject.ParamFlags.READWRITE, false),
+		expires: GObject.ParamSpec.boxed('expires', null, null, GObject.ParamFlags.READWRITE, GLib.DateTime),
+		collections: GObject.ParamSpec.jsobject('collections', null, null, GObject.ParamFlags.READWRITE),
+		template: GObject.ParamSpec.boolean('template', null, null, GObject.ParamFlags.READWRITE, false),
 	},
 	Signals: {
 		delete: {},
@@ -68,6 +163,13 @@ export class ClipboardEntry extends GObject.Object {
 	declare tag: Tag | null;
 	declare datetime: GLib.DateTime;
 	declare metadata: Metadata | null;
+	declare source: SourceApp | null;
+	declare sensitive: boolean;
+	declare expires: GLib.DateTime | null;
+	/** The ids of the collections the entry belongs to */
+	declare collections: number[];
+	/** Whether the placeholders in the content are expanded when the entry is pasted */
+	declare template: boolean;
 
 	constructor(
 		id: number,
@@ -77,6 +179,11 @@ export class ClipboardEntry extends GObject.Object {
 		tag: Tag | null,
 		datetime: GLib.DateTime,
 		metadata: Metadata | null = null,
+		source: SourceApp | null = null,
+		sensitive: boolean = false,
+		expires: GLib.DateTime | null = null,
+		collections: number[] = [],
+		template: boolean = false,
 	) {
 		super();
 
@@ -87,6 +194,39 @@ export class ClipboardEntry extends GObject.Object {
 		this.tag = tag;
 		this.datetime = datetime;
 		this.metadata = metadata;
+		this.source = source;
+		this.sensitive = sensitive;
+		this.expires = expires;
+		this.collections = collections;
+		this.template = template;
+	}
+
+	get id() {
+		return this._id;
+	}
+}
+
+@registerClass({
+	Properties: {
+		id: int32ParamSpec('id', GObject.ParamFlags.READABLE, 0),
+		name: GObject.ParamSpec.string('name', null, null, GObject.ParamFlags.READWRITE, ''),
+		color: GObject.ParamSpec.string('color', null, null, GObject.ParamFlags.READWRITE, Tag.Blue),
+		icon: GObject.ParamSpec.string('icon', null, null, GObject.ParamFlags.READWRITE, ''),
+	},
+})
+export class Collection extends GObject.Object {
+	private readonly _id: number;
+	declare name: string;
+	declare color: Tag;
+	declare icon: string;
+
+	constructor(id: number, name: string, color: Tag, icon: string) {
+		super();
+
+		this._id = id;
+		this.name = name;
+		this.color = color;
+		this.icon = icon;
 	}
 
 	get id() {
@@ -94,17 +234,90 @@ export class ClipboardEntry extends GObject.Object {
 	}
 }
 
-export class ClipboardEntryTracker {
+@registerClass({
+	Signals: {
+		'entry-added': {
+			param_types: [ClipboardEntry.$gtype],
+		},
+		'entry-removed': {
+			param_types: [GObject.TYPE_INT],
+		},
+		'entry-changed': {
+			param_types: [ClipboardEntry.$gtype],
+		},
+		'collections-changed': {},
+		'unlocked': {},
+	},
+})
+export class ClipboardEntryTracker extends GObject.Object {
 	private _database: Database | undefined;
 	private _entries: Map<number, ClipboardEntry> = new Map();
+	private _collections: Map<number, Collection> = new Map();
+	private _deletionTimeouts: Map<number, number> = new Map();
+	private _keyring: Keyring | null = null;
+	private _cipher: Cipher | null = null;
+	private _locked: boolean = false;
+	private _batch: EntryUpdate[] | null = null;
+
+	constructor(private ext: CopyousExtension) {
+		super();
+	}
+
+	/**
+	 * The tracked entries
+	 */
+	get entries(): ClipboardEntry[] {
+		return Array.from(this._entries.values());
+	}
+
+	/**
+	 * Gets a tracked entry
+	 * @param id The id of the entry
+	 */
+	public getEntry(id: number): ClipboardEntry | null {
+		return this._entries.get(id) ?? null;
+	}
+
+	/**
+	 * The collections, sorted by name
+	 */
+	get collections(): Collection[] {
+		return Array.from(this._collections.values()).sort((a, b) => a.name.localeCompare(b.name));
+	}
+
+	/**
+	 * Gets a collection
+	 * @param id The id of the collection
+	 */
+	public getCollection(id: number): Collection | null {
+		return this._collections.get(id) ?? null;
+	}
 
-	constructor(private ext: CopyousExtension) {}
+	/**
+	 * Whether the history is encrypted and waiting for the keyring to be unlocked
+	 */
+	get locked(): boolean {
+		return this._locked;
+	}
 
-	async init(): Promise<ClipboardEntry[]> {
+	/**
+	 * Initializes the database
+	 * @param clearHistory Whether to clear the history of the previous database
+	 */
+	async init(clearHistory: boolean = true): Promise<ClipboardEntry[]> {
 		if (this._database) {
-			await this.clear();
+			if (clearHistory) await this.clear();
 			await this.destroy();
 		}
+		this._locked = false;
+
+		this.ext.settings.connectObject(
+			'changed::sensitive-content-policy',
+			this.updateDeletionTimeouts.bind(this),
+			'changed::sensitive-content-timeout',
+			this.updateDeletionTimeouts.bind(this),
+			this,
+		);
 
 		try {
 			// Check if DEBUG_COPYOUS_GDA_VERSION is set
@@ -136,12 +349,25 @@ export class ClipboardEntryTracker {
 			try {
 				// Create database
 				this.ext.logger.log('Using Gda', gda.__version__, 'database');
-				this._database = new GdaDatabase(this.ext, gda);
-				await this._database.init();
+				const database = new GdaDatabase(this.ext, gda);
+				await database.init();
+
+				// Encrypted databases stay closed until the keyring is unlocked
+				const cipher = await this.initEncryption(database);
+				if (this._locked) {
+					await database.close();
+					return [];
+				}
+				this._database = database;
+
+				const collections = await this._database.collections();
+				collections.forEach((collection) => this.trackCollection(collection));
+				this.emit('collections-changed');
 
 				// First get entries and track them
 				const entries = await this._database.entries();
 				entries.forEach((entry) => this.track(entry));
+				if (cipher) await this.initImageEncryption(entries, cipher);
 
 				// Then delete the oldest entries so that images are deleted
 				await this.deleteOldest();
@@ -149,10 +375,23 @@ export class ClipboardEntryTracker {
 				return entries;
 			} catch (e) {
 				this.ext.logger.error('Failed to initialize Gda database', e);
-				this.ext.notificationManager?.warning(
-					_('Failed to load database'),
-					_('Clipboard history will be disabled'),
-				);
+				if (e instanceof MigrationError) {
+					const backup = e.backup?.get_path();
+					const body = backup
+						? _('Clipboard history will be disabled. A backup of the database was saved to %s')
+						: _('Clipboard history will be disabled');
+					this.ext.notificationManager?.warning(_('Failed to upgrade database'), body.format(backup));
+				} else if (e instanceof CryptoError) {
+					this.ext.notificationManager?.warning(
+						_('Failed to unlock database'),
+						_('Clipboard history will be disabled'),
+					);
+				} else {
+					this.ext.notificationManager?.warning(
+						_('Failed to load database'),
+						_('Clipboard history will be disabled'),
+					);
+				}
 			}
 		}
 
@@ -171,6 +410,31 @@ export class ClipboardEntryTracker {
 	}
 
 	public async destroy() {
+		this.ext.settings.disconnectObject(this);
+		this._deletionTimeouts.forEach((id) => GLib.source_remove(id));
+		this._deletionTimeouts.clear();
+		this._keyring?.destroy();
+
+		if (this._collections.size > 0) {
+			this._collections.clear();
+			this.emit('collections-changed');
+		}
+
+		// Remove the decrypted images
+		if (this._cipher) {
+			this._cipher = null;
+			try {
+				const path = getRuntimeImagesPath(this.ext);
+				if (path.query_exists(null)) {
+					for (const info of path.enumerate_children('standard::name', Gio.FileQueryInfoFlags.NONE, null)) {
+						path.get_child(info.get_name()).delete(null);
+					}
+				}
+			} catch {
+				this.ext.logger.error('Failed to remove decrypted images');
+			}
+		}
+
 		await this._database?.close();
 		this._database = undefined;
 	}
@@ -180,12 +444,16 @@ export class ClipboardEntryTracker {
 	 * @param type The type of the entry
 	 * @param content The content of the entry
 	 * @param metadata The metadata of the entry
+	 * @param source The application the entry was copied from
+	 * @param sensitive Whether the entry likely contains a secret
 	 * @returns The inserted entry or null if the entry could not be inserted or is already tracked
 	 */
 	public async insert(
 		type: ItemType,
 		content: string,
 		metadata: Metadata | null = null,
+		source: SourceApp | null = null,
+		sensitive: boolean = false,
 	): Promise<ClipboardEntry | null> {
 		const id = await this._database?.selectConflict({ type, content });
 		if (id) {
@@ -197,11 +465,12 @@ export class ClipboardEntryTracker {
 			}
 		}
 
-		const entry = await this._database?.insert(type, content, metadata);
+		const entry = await this._database?.insert(type, content, metadata, source, sensitive);
 		if (!entry) return null;
 
 		// Start tracking it
 		this.track(entry);
+		this.emit('entry-added', entry);
 
 		// Also delete oldest entries
 		await this.deleteOldest();
@@ -209,177 +478,958 @@ export class ClipboardEntryTracker {
 		return entry;
 	}
 
-	public checkOldest(): boolean {
-		const M = this.ext.settings.get_int('history-time');
-		if (M === 0) return false;
+	/**
+	 * Searches the database for entries
+	 * @param query The text to search for
+	 * @param filters The properties the entries should match
+	 * @returns The ids of the matching entries or null if the database could not be searched
+	 */
+	public async search(query: string, filters: SearchFilters): Promise<Set<number> | null> {
+		const ids = await this._database?.search(query, filters);
+		return ids ? new Set(ids) : null;
+	}
 
-		const now = GLib.DateTime.new_now_utc();
-		const olderThan = now.add_minutes(-M)!;
+	/**
+	 * Changes several entries and stores the changes in a single transaction
+	 * @param entries The entries to change
+	 * @param change The change to apply to each entry
+	 */
+	public async updateEntries(entries: ClipboardEntry[], change: (entry: ClipboardEntry) => void) {
+		await this.batch(entries, () => entries.forEach(change));
+	}
 
-		for (const entry of this._entries.values()) {
-			if (entry.pinned || entry.tag) continue;
-			if (entry.datetime.compare(olderThan) < 0) return true;
-		}
+	/**
+	 * Deletes several entries in a single transaction
+	 * @param entries The entries to delete
+	 */
+	public async deleteEntries(entries: ClipboardEntry[]) {
+		const database = this._database;
+		if (!database) return;
 
-		return false;
+		// The entries are only removed once they are deleted from the database
+		await database.updateEntries([], entries);
+		for (const entry of entries) this.deleteFromDatabase(entry.id);
 	}
 
-	public async deleteOldest() {
-		const N = this.ext.settings.get_int('history-length');
-		const M = this.ext.settings.get_int('history-time');
-		const deleted = await this._database?.deleteOldest(N, M);
-		if (deleted) deleted.forEach((id) => this.deleteFromDatabase(id));
-	}
+	/**
+	 * Inserts a text entry containing the text of several entries
+	 * @param entries The entries to merge in order, entries that cannot be merged are skipped
+	 * @param separator The text between the entries
+	 * @param deleteOriginals Whether to delete the merged entries
+	 * @returns The merged entry and whether it was added, since an entry with the same text may already exist, or null
+	 * if there is nothing to merge or the entry could not be inserted
+	 */
+	public async mergeEntries(
+		entries: ClipboardEntry[],
+		separator: string = '\n',
+		deleteOriginals: boolean = false,
+	): Promise<[entry: ClipboardEntry, added: boolean] | null> {
+		const merged = entries.filter((entry) => canMerge(entry.type));
+		if (merged.length === 0) return null;
+
+		const content = merged.map((entry) => entry.content).join(separator);
+		let entry = await this.insert(ItemType.Text, content);
+		const added = entry !== null;
+		if (!entry) {
+			// The entry already exists
+			const id = await this._database?.selectConflict({ type: ItemType.Text, content });
+			entry = id != null ? (this._entries.get(id) ?? null) : null;
+		}
 
-	private track(entry: ClipboardEntry) {
-		entry.connect('notify::content', async () => {
-			const id = await this._database?.updateProperty(entry, 'content');
-			// If entry conflicts with another entry, delete it
-			if (id !== undefined && id >= 0) {
-				entry.emit('delete');
+		if (!entry) return null;
 
-				// Update the date of the other entry
-				const conflicted = this._entries.get(id);
-				if (conflicted) {
-					conflicted.datetime = entry.datetime;
+		// Keep an original if it is the merged entry
+		if (deleteOriginals) {
+			await this.deleteEntries(merged.filter((e) => e !== entry));
+		}
+
+		return [entry, added];
+	}
+
+	/**
+	 * Exports entries and their images to an archive
+	 * @param file The file to write the archive to
+	 * @param exported The entries to export, all entries by default
+	 * @returns The number of exported entries
+	 */
+	public async exportArchive(file: Gio.File, exported: ClipboardEntry[] = this.entries): Promise<number> {
+		const images = new Map<string, Uint8Array>();
+		const entries: ArchiveEntry[] = [];
+		for (const entry of exported) {
+			const archived: ArchiveEntry = {
+				type: entry.type,
+				content: entry.content,
+				pinned: entry.pinned,
+				tag: entry.tag,
+				datetime: entry.datetime.format_iso8601()!,
+				metadata: entry.metadata,
+				source: entry.source,
+				sensitive: entry.sensitive,
+				collections: entry.collections.flatMap((id) => this._collections.get(id)?.name ?? []),
+				template: entry.template,
+			};
+
+			const expires = entry.expires?.format_iso8601();
+			if (expires) archived.expires = expires;
+
+			if (entry.type === ItemType.Image) {
+				try {
+					const image = Gio.File.new_for_uri(entry.content);
+					// eslint-disable-next-line no-await-in-loop
+					const [contents] = await image.load_contents_async(null);
+					archived.image = `images/${image.get_basename()}`;
+					images.set(archived.image, contents);
+				} catch {
+					this.ext.logger.error('Failed to export image', entry.content);
+					continue;
 				}
 			}
-		});
-		entry.connect('notify::pinned', () => this._database?.updateProperty(entry, 'pinned'));
-		entry.connect('notify::tag', () => this._database?.updateProperty(entry, 'tag'));
-		entry.connect('notify::datetime', () => this._database?.updateProperty(entry, 'datetime'));
-		entry.connect('notify::metadata', () => this._database?.updateProperty(entry, 'metadata'));
-		entry.connect('delete', () => this.delete(entry));
-		this._entries?.set(entry.id, entry);
+
+			entries.push(archived);
+		}
+
+		const collections = this.collections.map(({ name, color, icon }) => ({ name, color, icon }));
+		const manifest: Manifest = { version: ArchiveVersion, entries, collections };
+		const files = new Map([[ManifestName, new TextEncoder().encode(JSON.stringify(manifest))], ...images]);
+		const archive = writeArchive(files, GLib.DateTime.new_now_utc().to_unix());
+		await file.replace_contents_async(archive, null, false, Gio.FileCreateFlags.REPLACE_DESTINATION, null);
+
+		return entries.length;
 	}
 
-	private async delete(entry: ClipboardEntry) {
-		if (entry.type === ItemType.Image) {
-			// Delete image
-			try {
-				const file = Gio.File.new_for_uri(entry.content);
-				if (file.query_exists(null)) {
-					file.delete(null);
+	/**
+	 * Imports the entries of an archive
+	 * @param file The archive to import
+	 * @param conflict How to handle entries that already exist
+	 * @returns The added entries and the number of existing entries that were updated
+	 */
+	public async importArchive(
+		file: Gio.File,
+		conflict: ImportConflict,
+	): Promise<{ added: ClipboardEntry[]; updated: number }> {
+		if (!this._database) return { added: [], updated: 0 };
+
+		const [contents] = await file.load_contents_async(null);
+		const files = readArchive(contents);
+		const manifest = readManifest(files);
+
+		// Add the collections that do not exist yet by their name
+		const collectionIds = new Map(this.collections.map((c) => [c.name, c.id]));
+		for (const archived of manifest.collections ?? []) {
+			if (collectionIds.has(archived.name)) continue;
+
+			const color = Tags.find((t) => t === archived.color) ?? Tag.Blue;
+			// eslint-disable-next-line no-await-in-loop
+			const collection = await this.addCollection(archived.name, color, archived.icon);
+			if (collection) collectionIds.set(collection.name, collection.id);
+		}
+
+		const added: ClipboardEntry[] = [];
+		let updated = 0;
+		for (const archived of manifest.entries) {
+			const datetime = GLib.DateTime.new_from_iso8601(archived.datetime, null) ?? GLib.DateTime.new_now_utc();
+			const tag = Tags.find((t) => t === archived.tag) ?? null;
+			const pinned = archived.pinned === true;
+			const metadata = archived.metadata ?? null;
+			const expires = archived.expires ? GLib.DateTime.new_from_iso8601(archived.expires, null) : null;
+			const collections = (archived.collections ?? []).flatMap((name) => collectionIds.get(name) ?? []);
+			const template = archived.template === true;
+
+			// Restore image
+			let content = archived.content;
+			if (archived.type === ItemType.Image) {
+				const data = archived.image ? files.get(archived.image) : undefined;
+				if (!data) continue;
+
+				try {
+					// eslint-disable-next-line no-await-in-loop
+					const image = await this.storeImage(GLib.path_get_basename(archived.image!), data);
+					content = image.get_uri();
+				} catch {
+					this.ext.logger.error('Failed to import image', archived.image);
+					continue;
 				}
-			} catch {
-				this.ext.logger.error('Failed to delete image', entry.content);
 			}
-		} else if (entry.type === ItemType.Link && entry.metadata) {
-			// Delete thumbnail image
-			const metadata: { image: string | null } = { image: null, ...entry.metadata };
-			if (metadata.image) {
-				try {
-					const file = getLinkImagePath(this.ext, metadata.image);
-					if (file?.query_exists(null)) {
-						file.delete(null);
+
+			// eslint-disable-next-line no-await-in-loop
+			const id = await this._database.selectConflict({ type: archived.type, content });
+			if (id !== null) {
+				const existing = this._entries.get(id);
+				if (!existing || conflict === ImportConflict.Skip) continue;
+
+				if (conflict === ImportConflict.Replace) {
+					existing.pinned = pinned;
+					existing.tag = tag;
+					existing.metadata = metadata ?? existing.metadata;
+					existing.datetime = datetime;
+					existing.expires = expires;
+					existing.collections = collections;
+					existing.template = template;
+				} else {
+					if (pinned && !existing.pinned) existing.pinned = true;
+					if (tag && !existing.tag) existing.tag = tag;
+					if (metadata && !existing.metadata) existing.metadata = metadata;
+					if (datetime.compare(existing.datetime) > 0) existing.datetime = datetime;
+					if (expires && !existing.expires) existing.expires = expires;
+					if (collections.some((collectionId) => !existing.collections.includes(collectionId))) {
+						existing.collections = [...new Set([...existing.collections, ...collections])];
 					}
-				} catch {
-					this.ext.logger.error('Failed to delete thumbnail image', metadata.image);
+					if (template && !existing.template) existing.template = true;
 				}
+
+				updated++;
+				continue;
 			}
-		}
 
-		// Delete from database if not deleted already
-		if (this._entries.has(entry.id)) {
-			await this._database?.delete(entry);
-			this._entries.delete(entry.id);
+			// eslint-disable-next-line no-await-in-loop
+			const entry = await this._database.insert(
+				archived.type,
+				content,
+				metadata,
+				archived.source ?? null,
+				archived.sensitive === true,
+			);
+			if (!entry) continue;
+
+			this.track(entry);
+			this.emit('entry-added', entry);
+			entry.pinned = pinned;
+			entry.tag = tag;
+			entry.datetime = datetime;
+			entry.expires = expires;
+			if (collections.length > 0) entry.collections = collections;
+			entry.template = template;
+			added.push(entry);
 		}
-	}
 
-	private deleteFromDatabase(id: number) {
-		const entry = this._entries.get(id);
-		if (entry) {
-			this._entries.delete(id);
-			entry.emit('delete');
-		}
+		// Imported entries are subject to the history limits
+		await this.deleteOldest();
+
+		return { added: added.filter((entry) => this._entries.has(entry.id)), updated };
 	}
-}
 
-/**
- * Clipboard database
- */
-interface Database {
 	/**
-	 * Initializes the database
+	 * Adds a collection
+	 * @param name The name of the collection
+	 * @param color The color of the collection
+	 * @param icon The icon of the collection
+	 * @returns The added collection or null if it could not be added
 	 */
-	init(): Promise<void>;
+	public async addCollection(name: string, color: Tag, icon: string): Promise<Collection | null> {
+		const collection = await this._database?.insertCollection(name, color, icon);
+		if (!collection) return null;
 
-	/**
-	 * Clears the database.
-	 * @param history Which items to keep.
-	 */
-	clear(history: ClipboardHistory): Promise<number[]>;
+		this.trackCollection(collection);
+		this.emit('collections-changed');
+		return collection;
+	}
 
 	/**
-	 * Close the connection to the database.
+	 * Deletes a collection and removes its entries from it
+	 * @param collection The collection to delete
 	 */
-	close(): Promise<void>;
+	public async deleteCollection(collection: Collection) {
+		if (!this._collections.delete(collection.id)) return;
 
-	/**
-	 * Gets the entries of the database.
-	 */
-	entries(): Promise<ClipboardEntry[]>;
+		await this._database?.deleteCollection(collection);
+		for (const entry of this._entries.values()) {
+			if (entry.collections.includes(collection.id)) {
+				entry.collections = entry.collections.filter((id) => id !== collection.id);
+			}
+		}
 
-	/**
-	 * Select a conflicting entry by its type and content.
-	 * @param entry The entry to search its conflict for.
-	 * @returns The id of the conflicting entry or null if no conflict was found.
-	 */
-	selectConflict(entry: ClipboardEntry | { type: ItemType; content: string }): Promise<number | null>;
+		this.emit('collections-changed');
+	}
 
 	/**
-	 * Inserts an entry into the database.
-	 * @param type The type of the entry.
-	 * @param content The content of the entry.
-	 * @param metadata Metadata of the entry.
+	 * Stores an image in the images directory, encrypted if the history is encrypted
+	 * @param name The file name of the image
+	 * @param data The image
+	 * @returns The file the image can be read from
 	 */
-	insert(type: ItemType, content: string, metadata: Metadata | null): Promise<ClipboardEntry | null>;
+	public async storeImage(name: string, data: Uint8Array): Promise<Gio.File> {
+		const path = getImagesPath(this.ext);
+		if (!path.query_exists(null)) path.make_directory_with_parents(null);
+
+		const image = path.get_child(name);
+		if (!image.query_exists(null)) {
+			const contents = this._cipher ? this._cipher.encrypt(data) : data;
+			await image.replace_contents_async(contents, null, false, Gio.FileCreateFlags.REPLACE_DESTINATION, null);
+		}
+		if (!this._cipher) return image;
+
+		// Keep a decrypted copy in the runtime directory, which is not persisted
+		const runtimePath = getRuntimeImagesPath(this.ext);
+		if (!runtimePath.query_exists(null)) runtimePath.make_directory_with_parents(null);
+
+		const decrypted = runtimePath.get_child(name);
+		if (!decrypted.query_exists(null)) {
+			await decrypted.replace_contents_async(data, null, false, Gio.FileCreateFlags.REPLACE_DESTINATION, null);
+		}
+		return decrypted;
+	}
 
 	/**
-	 * Updates a property of an inserted database entry.
-	 * @param entry The entry to update the property of.
-	 * @param property The property of the entry to update.
-	 * @returns -1 if the property was updates, an id of a conflicting entry otherwise.
+	 * Stores the mime types an entry was offered in, replacing its previous snapshot
+	 * @param entry The entry
+	 * @param snapshot The content of every mime type
 	 */
-	updateProperty(
-		entry: ClipboardEntry,
-		property: Exclude<keyof ClipboardEntry, keyof GObject.Object>,
-	): Promise<number>;
+	public async storeSnapshot(entry: ClipboardEntry, snapshot: MimeSnapshot) {
+		await this._database?.insertSnapshot(entry, snapshot);
+	}
 
 	/**
-	 * Delete an entry from the database.
-	 * @param entry The entry to delete.
+	 * Gets the mime types an entry was offered in
+	 * @param entry The entry
+	 * @returns The snapshot or null if no snapshot was stored for the entry
 	 */
-	delete(entry: ClipboardEntry): Promise<void>;
+	public async getSnapshot(entry: ClipboardEntry): Promise<MimeSnapshot | null> {
+		return (await this._database?.snapshot(entry)) ?? null;
+	}
 
 	/**
-	 * Delete the oldest entries of the database.
-	 * @param offset The number of entries to keep.
-	 * @param olderThanMinutes Items older than this value will be deleted.
-	 * @returns The ids of entries that were deleted.
+	 * Encrypts the history with a new key
 	 */
-	deleteOldest(offset: number, olderThanMinutes: number): Promise<number[]>;
-}
+	public async rekey() {
+		if (!(this._database instanceof GdaDatabase) || !this._cipher || !this._keyring) {
+			throw new CryptoError('Clipboard history is not encrypted');
+		}
 
-/**
- * In memory database
- */
-class MemoryDatabase implements Database {
-	private _entries: Map<string, ClipboardEntry> = new Map();
-	private _keys: Map<number, string> = new Map();
-	private _id: number = 0;
+		const key = generateKey();
+		const cipher = new Cipher(key);
 
-	constructor() {}
+		// Re-encrypt the images to staging files first, so that nothing is changed if an image can not be re-encrypted
+		const staged = new Map<Gio.File, Gio.File>();
+		const discard = () => {
+			for (const staging of staged.values()) {
+				try {
+					staging.delete(null);
+				} catch {
+					this.ext.logger.error('Failed to delete staged image', staging.get_path());
+				}
+			}
+		};
 
-	public async init(): Promise<void> {}
+		let failed = 0;
+		for (const entry of this._entries.values()) {
+			if (entry.type !== ItemType.Image) continue;
 
-	public clear(history: ClipboardHistory): Promise<number[]> {
-		let deleted: number[] = [];
-		switch (history) {
+			try {
+				const decrypted = Gio.File.new_for_uri(entry.content);
+				// eslint-disable-next-line no-await-in-loop
+				const [data] = await decrypted.load_contents_async(null);
+				const image = getImagesPath(this.ext).get_child(decrypted.get_basename()!);
+				const staging = getImagesPath(this.ext).get_child(`${decrypted.get_basename()!}.rekey`);
+				// eslint-disable-next-line no-await-in-loop
+				await staging.replace_contents_async(
+					cipher.encrypt(data),
+					null,
+					false,
+					Gio.FileCreateFlags.REPLACE_DESTINATION,
+					null,
+				);
+				staged.set(image, staging);
+			} catch (e) {
+				this.ext.logger.error('Failed to re-encrypt image', entry.content, e);
+				failed++;
+			}
+		}
+
+		if (failed > 0) {
+			discard();
+			throw new CryptoError(`Failed to re-encrypt ${failed} images, the history was not changed`);
+		}
+
+		// Keep the new key as pending until the database is re-encrypted, so that it is not lost if this is interrupted
+		try {
+			await this._keyring.storeKey(key, KeyPurpose.Pending);
+			await this._database.rekey(cipher);
+		} catch (e) {
+			discard();
+			throw e;
+		}
+		this._cipher = cipher;
+
+		// The database can only be read with the new key from here on, so the key is stored even if an image fails
+		for (const [image, staging] of staged) {
+			try {
+				staging.move(image, Gio.FileCopyFlags.OVERWRITE, null, null);
+			} catch (e) {
+				this.ext.logger.error('Failed to replace re-encrypted image', image.get_path(), e);
+				failed++;
+			}
+		}
+
+		await this._keyring.storeKey(key);
+		await this._keyring.clearKey(KeyPurpose.Pending);
+		if (failed > 0) throw new CryptoError(`Failed to replace ${failed} re-encrypted images`);
+
+		this.ext.logger.log('Re-encrypted clipboard history');
+	}
+
+	public checkOldest(): boolean {
+		const M = this.ext.settings.get_int('history-time');
+		if (M === 0) return false;
+
+		const now = GLib.DateTime.new_now_utc();
+		const olderThan = now.add_minutes(-M)!;
+
+		for (const entry of this._entries.values()) {
+			if (entry.pinned || entry.tag) continue;
+			if (entry.datetime.compare(olderThan) < 0) return true;
+		}
+
+		return false;
+	}
+
+	public async deleteOldest() {
+		const N = this.ext.settings.get_int('history-length');
+		const M = this.ext.settings.get_int('history-time');
+		const deleted = await this._database?.deleteOldest(N, M);
+		if (deleted) deleted.forEach((id) => this.deleteFromDatabase(id));
+	}
+
+	/**
+	 * Gets the key of the database from the keyring and encrypts or decrypts the database
+	 * @param database The database
+	 * @returns The cipher of the key or null if encryption is not used
+	 */
+	private async initEncryption(database: GdaDatabase): Promise<Cipher | null> {
+		const encrypt =
+			this.ext.settings.get_boolean('encrypt-history') && !this.ext.settings.get_boolean('in-memory-database');
+		if (!encrypt && !database.encrypted) {
+			await database.initEncryption(null, null);
+			return null;
+		}
+
+		this._keyring ??= await Keyring.load();
+		if (!this._keyring) throw new CryptoError('Failed to load libsecret');
+
+		if (await this._keyring.isLocked()) {
+			this.ext.logger.log('Waiting for the keyring to be unlocked');
+			this._locked = true;
+			this._keyring.connectUnlocked(() => this.emit('unlocked'));
+			this.ext.notificationManager?.warning(
+				_('Clipboard history is locked'),
+				_('Unlock the keyring to load the clipboard history'),
+			);
+			return null;
+		}
+
+		// The pending key is only valid if re-encrypting the database was interrupted after the database was updated
+		let cipher: Cipher | null = null;
+		for (const purpose of [KeyPurpose.Current, KeyPurpose.Pending]) {
+			// eslint-disable-next-line no-await-in-loop
+			const key = await this._keyring.lookupKey(purpose);
+			if (key === null || !database.verifyKey(new Cipher(key))) continue;
+
+			cipher = new Cipher(key);
+			if (purpose === KeyPurpose.Pending) {
+				// eslint-disable-next-line no-await-in-loop
+				await this._keyring.storeKey(key);
+				// eslint-disable-next-line no-await-in-loop
+				await this._keyring.clearKey(KeyPurpose.Pending);
+			}
+			break;
+		}
+
+		if (!cipher) {
+			if (database.encrypted) throw new CryptoError('The keyring does not contain the key of the database');
+
+			const key = generateKey();
+			await this._keyring.storeKey(key);
+			cipher = new Cipher(key);
+		}
+
+		await database.initEncryption(cipher, encrypt ? cipher : null);
+		if (encrypt) {
+			this._cipher = cipher;
+		} else {
+			await this._keyring.clearKey();
+		}
+
+		return cipher;
+	}
+
+	/**
+	 * Encrypts or decrypts images to match the database. Encrypted images are decrypted to the runtime directory.
+	 * @param entries The entries of the database
+	 * @param cipher The cipher of the key the images are encrypted with
+	 */
+	private async initImageEncryption(entries: ClipboardEntry[], cipher: Cipher) {
+		const runtimePath = getRuntimeImagesPath(this.ext);
+		if (this._cipher && !runtimePath.query_exists(null)) runtimePath.make_directory_with_parents(null);
+
+		for (const entry of entries) {
+			if (entry.type !== ItemType.Image) continue;
+
+			const name = Gio.File.new_for_uri(entry.content).get_basename()!;
+			const image = getImagesPath(this.ext).get_child(name);
+			const decrypted = runtimePath.get_child(name);
+			const target = this._cipher ? decrypted : image;
+			if (this._cipher && decrypted.query_exists(null) && entry.content === decrypted.get_uri()) continue;
+
+			try {
+				// eslint-disable-next-line no-await-in-loop
+				const [contents] = await image.load_contents_async(null);
+				const encrypted = Cipher.isEncrypted(contents);
+				const data = encrypted ? cipher.decrypt(contents) : contents;
+
+				// Write the encrypted or decrypted image and the decrypted copy
+				const writes: [Gio.File, Uint8Array][] = [];
+				if (this._cipher && !encrypted) writes.push([image, this._cipher.encrypt(data)]);
+				if (!this._cipher && encrypted) writes.push([image, data]);
+				if (this._cipher) writes.push([decrypted, data]);
+				for (const [file, bytes] of writes) {
+					// eslint-disable-next-line no-await-in-loop
+					await file.replace_contents_async(
+						bytes,
+						null,
+						false,
+						Gio.FileCreateFlags.REPLACE_DESTINATION,
+						null,
+					);
+				}
+
+				if (entry.content !== target.get_uri()) entry.content = target.get_uri();
+			} catch {
+				this.ext.logger.error('Failed to decrypt image', name);
+			}
+		}
+	}
+
+	/**
+	 * Runs changes to entries and stores them in a single transaction. If the transaction fails, the properties of the
+	 * entries are restored.
+	 * @param entries The entries that are changed
+	 * @param changes The changes to the entries
+	 */
+	private async batch(entries: ClipboardEntry[], changes: () => void) {
+		const database = this._database;
+		if (!database) return;
+
+		const previous = new Map(
+			entries.map((entry) => [
+				entry,
+				{
+					pinned: entry.pinned,
+					tag: entry.tag,
+					datetime: entry.datetime,
+					metadata: entry.metadata,
+					expires: entry.expires,
+					collections: entry.collections,
+					template: entry.template,
+				},
+			]),
+		);
+		const updates: EntryUpdate[] = [];
+		this._batch = updates;
+		try {
+			changes();
+		} finally {
+			this._batch = null;
+		}
+
+		try {
+			await database.updateEntries(updates, []);
+		} catch (e) {
+			// Restoring the properties must not be stored again, since the database still contains them
+			this._batch = [];
+			try {
+				for (const [entry, values] of previous) Object.assign(entry, values);
+			} finally {
+				this._batch = null;
+			}
+
+			throw e;
+		}
+	}
+
+	/**
+	 * Stores a property of an entry in the database, or adds it to the current batch if there is one
+	 * @param entry The entry to store the property of
+	 * @param property The property to store
+	 */
+	private updateProperty(entry: ClipboardEntry, property: EntryUpdate[1]) {
+		if (this._batch) {
+			this._batch.push([entry, property]);
+		} else {
+			this._database?.updateProperty(entry, property).catch((e) => this.ext.logger.error(e));
+		}
+	}
+
+	private track(entry: ClipboardEntry) {
+		entry.connect('notify::content', async () => {
+			// The snapshot no longer matches edited content. Images only move between the images directories.
+			if (entry.type !== ItemType.Image) await this._database?.deleteSnapshot(entry);
+
+			const id = await this._database?.updateProperty(entry, 'content');
+			// If entry conflicts with another entry, delete it
+			if (id !== undefined && id >= 0) {
+				entry.emit('delete');
+
+				// Update the date of the other entry
+				const conflicted = this._entries.get(id);
+				if (conflicted) {
+					conflicted.datetime = entry.datetime;
+				}
+			}
+		});
+		entry.connect('notify::pinned', () => {
+			this.updateProperty(entry, 'pinned');
+			this.scheduleDeletion(entry);
+		});
+		entry.connect('notify::tag', () => {
+			this.updateProperty(entry, 'tag');
+			this.scheduleDeletion(entry);
+		});
+		entry.connect('notify::datetime', () => this.updateProperty(entry, 'datetime'));
+		entry.connect('notify::metadata', () => this.updateProperty(entry, 'metadata'));
+		entry.connect('notify::expires', () => {
+			this.updateProperty(entry, 'expires');
+			this.scheduleDeletion(entry);
+		});
+		entry.connect('notify::collections', () => this.updateProperty(entry, 'collections'));
+		entry.connect('notify::template', () => this.updateProperty(entry, 'template'));
+		entry.connect('notify', () => this.emit('entry-changed', entry));
+		entry.connect('delete', () => this.delete(entry));
+		this._entries?.set(entry.id, entry);
+
+		this.scheduleDeletion(entry);
+	}
+
+	private trackCollection(collection: Collection) {
+		collection.connect('notify', () => {
+			this._database?.updateCollection(collection).catch((e) => this.ext.logger.error(e));
+			this.emit('collections-changed');
+		});
+		this._collections.set(collection.id, collection);
+	}
+
+	/**
+	 * Schedules the deletion of an entry if it has an expiration date or contains a secret that should be deleted
+	 * @param entry The entry to schedule the deletion of
+	 */
+	private scheduleDeletion(entry: ClipboardEntry) {
+		this.cancelDeletion(entry);
+
+		const now = GLib.DateTime.new_now_utc();
+		let remaining: number | null = null;
+
+		// An expiration date is set explicitly, so it also applies to pinned and tagged entries
+		if (entry.expires) {
+			remaining = entry.expires.difference(now) / GLib.TIME_SPAN_SECOND;
+		}
+
+		// Pinned and tagged entries containing secrets are kept on purpose
+		const policy = this.ext.settings.get_enum('sensitive-content-policy') as SensitiveContentPolicy;
+		if (entry.sensitive && policy === SensitiveContentPolicy.Delete && !(entry.pinned || entry.tag)) {
+			const timeout = this.ext.settings.get_int('sensitive-content-timeout');
+			const elapsed = now.difference(entry.datetime) / GLib.TIME_SPAN_SECOND;
+			remaining = Math.min(remaining ?? Infinity, timeout - elapsed);
+		}
+
+		if (remaining === null) return;
+
+		const id = GLib.timeout_add_seconds(GLib.PRIORITY_DEFAULT, Math.max(0, Math.ceil(remaining)), () => {
+			this._deletionTimeouts.delete(entry.id);
+			entry.emit('delete');
+			return GLib.SOURCE_REMOVE;
+		});
+		this._deletionTimeouts.set(entry.id, id);
+	}
+
+	private cancelDeletion(entry: ClipboardEntry) {
+		const timeoutId = this._deletionTimeouts.get(entry.id);
+		if (timeoutId !== undefined) GLib.source_remove(timeoutId);
+		this._deletionTimeouts.delete(entry.id);
+	}
+
+	private updateDeletionTimeouts() {
+		for (const entry of this._entries.values()) {
+			this.scheduleDeletion(entry);
+		}
+	}
+
+	private async delete(entry: ClipboardEntry) {
+		this.cancelDeletion(entry);
+
+		if (entry.type === ItemType.Image) {
+			// Delete image and its encrypted copy
+			try {
+				const file = Gio.File.new_for_uri(entry.content);
+				const encrypted = getImagesPath(this.ext).get_child(file.get_basename()!);
+				for (const f of [file, encrypted]) {
+					if (f.query_exists(null)) {
+						f.delete(null);
+					}
+				}
+			} catch {
+				this.ext.logger.error('Failed to delete image', entry.content);
+			}
+		} else if (entry.type === ItemType.Link && entry.metadata) {
+			// Delete thumbnail image
+			const metadata: { image: string | null } = { image: null, ...entry.metadata };
+			if (metadata.image) {
+				try {
+					const file = getLinkImagePath(this.ext, metadata.image);
+					if (file?.query_exists(null)) {
+						file.delete(null);
+					}
+				} catch {
+					this.ext.logger.error('Failed to delete thumbnail image', metadata.image);
+				}
+			}
+		}
+
+		// Delete from database if not deleted already
+		if (this._entries.has(entry.id)) {
+			await this._database?.delete(entry);
+			this._entries.delete(entry.id);
+		}
+
+		this.emit('entry-removed', entry.id);
+	}
+
+	private deleteFromDatabase(id: number) {
+		const entry = this._entries.get(id);
+		if (entry) {
+			this._entries.delete(id);
+			entry.emit('delete');
+		}
+	}
+}
+
+/**
+ * Clipboard database
+ */
+interface Database {
+	/**
+	 * Initializes the database
+	 */
+	init(): Promise<void>;
+
+	/**
+	 * Clears the database.
+	 * @param history Which items to keep.
+	 */
+	clear(history: ClipboardHistory): Promise<number[]>;
+
+	/**
+	 * Close the connection to the database.
+	 */
+	close(): Promise<void>;
+
+	/**
+	 * Gets the entries of the database.
+	 */
+	entries(): Promise<ClipboardEntry[]>;
+
+	/**
+	 * Select a conflicting entry by its type and content.
+	 * @param entry The entry to search its conflict for.
+	 * @returns The id of the conflicting entry or null if no conflict was found.
+	 */
+	selectConflict(entry: ClipboardEntry | { type: ItemType; content: string }): Promise<number | null>;
+
+	/**
+	 * Inserts an entry into the database.
+	 * @param type The type of the entry.
+	 * @param content The content of the entry.
+	 * @param metadata Metadata of the entry.
+	 * @param source The application the entry was copied from.
+	 * @param sensitive Whether the entry likely contains a secret.
+	 */
+	insert(
+		type: ItemType,
+		content: string,
+		metadata: Metadata | null,
+		source: SourceApp | null,
+		sensitive: boolean,
+	): Promise<ClipboardEntry | null>;
+
+	/**
+	 * Updates a property of an inserted database entry.
+	 * @param entry The entry to update the property of.
+	 * @param property The property of the entry to update.
+	 * @returns -1 if the property was updates, an id of a conflicting entry otherwise.
+	 */
+	updateProperty(
+		entry: ClipboardEntry,
+		property: Exclude<keyof ClipboardEntry, keyof GObject.Object>,
+	): Promise<number>;
+
+	/**
+	 * Delete an entry from the database.
+	 * @param entry The entry to delete.
+	 */
+	delete(entry: ClipboardEntry): Promise<void>;
+
+	/**
+	 * Delete the oldest entries of the database.
+	 * @param offset The number of entries to keep.
+	 * @param olderThanMinutes Items older than this value will be deleted.
+	 * @returns The ids of entries that were deleted.
+	 */
+	deleteOldest(offset: number, olderThanMinutes: number): Promise<number[]>;
+
+	/**
+	 * Search the database for entries containing a query.
+	 * @param query The text to search for.
+	 * @param filters The properties the entries should match.
+	 * @returns The ids of the matching entries or null if the search failed.
+	 */
+	search(query: string, filters: SearchFilters): Promise<number[] | null>;
+
+	/**
+	 * Gets the collections of the database.
+	 */
+	collections(): Promise<Collection[]>;
+
+	/**
+	 * Inserts a collection into the database.
+	 * @param name The name of the collection.
+	 * @param color The color of the collection.
+	 * @param icon The icon of the collection.
+	 */
+	insertCollection(name: string, color: Tag, icon: string): Promise<Collection | null>;
+
+	/**
+	 * Updates the name, color and icon of an inserted collection.
+	 * @param collection The collection to update.
+	 */
+	updateCollection(collection: Collection): Promise<void>;
+
+	/**
+	 * Delete a collection from the database, removing its entries from it.
+	 * @param collection The collection to delete.
+	 */
+	deleteCollection(collection: Collection): Promise<void>;
+
+	/**
+	 * Gets the mime type snapshot of an entry.
+	 * @param entry The entry to get the snapshot of.
+	 * @returns The snapshot or null if the entry has no snapshot.
+	 */
+	snapshot(entry: ClipboardEntry): Promise<MimeSnapshot | null>;
+
+	/**
+	 * Stores the mime type snapshot of an entry, replacing its previous snapshot.
+	 * @param entry The entry to store the snapshot of.
+	 * @param snapshot The content of every mime type.
+	 */
+	insertSnapshot(entry: ClipboardEntry, snapshot: MimeSnapshot): Promise<void>;
+
+	/**
+	 * Deletes the mime type snapshot of an entry.
+	 * @param entry The entry to delete the snapshot of.
+	 */
+	deleteSnapshot(entry: ClipboardEntry): Promise<void>;
+
+	/**
+	 * Stores properties of entries and deletes entries in a single transaction. Other changes wait until the
+	 * transaction is finished.
+	 * @param updates The properties to store.
+	 * @param deletions The entries to delete.
+	 * @throws If any of the changes failed, in which case none of the changes are stored.
+	 */
+	updateEntries(updates: EntryUpdate[], deletions: ClipboardEntry[]): Promise<void>;
+}
+
+function normalizeText(text: string): string {
+	return text
+		.normalize('NFKD')
+		.replace(/\p{Diacritic}/gu, '')
+		.toLocaleLowerCase();
+}
+
+function* trigrams(text: string): Generator<string> {
+	for (let i = 0; i <= text.length - 3; i++) {
+		yield text.substring(i, i + 3);
+	}
+}
+
+/**
+ * In memory inverted index of trigrams
+ */
+class TrigramIndex {
+	private _texts: Map<number, string> = new Map();
+	private _trigrams: Map<string, Set<number>> = new Map();
+
+	public add(id: number, text: string[] | null) {
+		this.remove(id);
+		if (text === null) return;
+
+		// Join with a newline so that matches can not span multiple fields
+		const normalized = normalizeText(text.join('\n'));
+		this._texts.set(id, normalized);
+		for (const trigram of trigrams(normalized)) {
+			let ids = this._trigrams.get(trigram);
+			if (!ids) {
+				ids = new Set();
+				this._trigrams.set(trigram, ids);
+			}
+			ids.add(id);
+		}
+	}
+
+	public remove(id: number) {
+		const text = this._texts.get(id);
+		if (text === undefined) return;
+
+		this._texts.delete(id);
+		for (const trigram of trigrams(text)) {
+			const ids = this._trigrams.get(trigram);
+			ids?.delete(id);
+			if (ids?.size === 0) this._trigrams.delete(trigram);
+		}
+	}
+
+	public clear() {
+		this._texts.clear();
+		this._trigrams.clear();
+	}
+
+	public search(query: string): number[] {
+		const normalized = normalizeText(query);
+
+		// Only check the entries that contain the least common trigram of the query
+		let candidates: Iterable<number> = this._texts.keys();
+		for (const trigram of trigrams(normalized)) {
+			const ids = this._trigrams.get(trigram);
+			if (!ids) return [];
+			if (!(candidates instanceof Set) || ids.size < candidates.size) candidates = ids;
+		}
+
+		return Array.from(candidates).filter((id) => this._texts.get(id)?.includes(normalized));
+	}
+}
+
+/**
+ * In memory database
+ */
+class MemoryDatabase implements Database {
+	private _entries: Map<string, ClipboardEntry> = new Map();
+	private _keys: Map<number, string> = new Map();
+	private _index: TrigramIndex = new TrigramIndex();
+	private _id: number = 0;
+	private _collections: Map<number, Collection> = new Map();
+	private _collectionId: number = 0;
+	private _snapshots: Map<number, MimeSnapshot> = new Map();
+
+	constructor() {}
+
+	public async init(): Promise<void> {}
+
+	public clear(history: ClipboardHistory): Promise<number[]> {
+		let deleted: number[] = [];
+		switch (history) {
 			case ClipboardHistory.Clear:
 				deleted = Array.from(this._keys.keys());
 				this._entries.clear();
 				this._keys.clear();
+				this._index.clear();
+				this._snapshots.clear();
 				break;
 			case ClipboardHistory.KeepPinnedAndTagged:
 				deleted = [];
@@ -387,182 +1437,1065 @@ class MemoryDatabase implements Database {
 					if (!(entry.pinned || entry.tag)) {
 						this._entries.delete(key);
 						this._keys.delete(entry.id);
+						this._index.remove(entry.id);
+						this._snapshots.delete(entry.id);
 						deleted.push(entry.id);
 					}
 				}
-				break;
-			case ClipboardHistory.KeepAll:
-				break;
+				break;
+			case ClipboardHistory.KeepAll:
+				break;
+		}
+
+		return Promise.resolve(deleted);
+	}
+
+	public async close(): Promise<void> {
+		await this.clear(ClipboardHistory.Clear);
+	}
+
+	public entries(): Promise<ClipboardEntry[]> {
+		const entries = Array.from(this._entries.values()).sort((a, b) => b.datetime.compare(a.datetime));
+		return Promise.resolve(entries);
+	}
+
+	public selectConflict(entry: ClipboardEntry | { type: ItemType; content: string }): Promise<number | null> {
+		const key = `${entry.type}:${entry.content}`;
+		return Promise.resolve(this._entries.get(key)?.id ?? null);
+	}
+
+	public insert(
+		type: ItemType,
+		content: string,
+		metadata: Metadata | null = null,
+		source: SourceApp | null = null,
+		sensitive: boolean = false,
+	): Promise<ClipboardEntry | null> {
+		const key = `${type}:${content}`;
+		const entry = this._entries.get(key);
+		if (entry) {
+			return Promise.resolve(null);
+		} else {
+			const newEntry = new ClipboardEntry(
+				this._id++,
+				type,
+				content,
+				false,
+				null,
+				GLib.DateTime.new_now_utc(),
+				metadata,
+				source,
+				sensitive,
+			);
+			this._entries.set(key, newEntry);
+			this._keys.set(newEntry.id, key);
+			this._index.add(newEntry.id, searchableText(type, content, metadata));
+			return Promise.resolve(newEntry);
+		}
+	}
+
+	public updateProperty(
+		entry: ClipboardEntry,
+		property: Exclude<keyof ClipboardEntry, keyof GObject.Object>,
+	): Promise<number> {
+		if (property === 'metadata') {
+			this._index.add(entry.id, searchableText(entry.type, entry.content, entry.metadata));
+		}
+
+		if (property !== 'content') return Promise.resolve(-1);
+
+		const key = `${entry.type}:${entry.content}`;
+		const existingEntry = this._entries.get(key);
+		if (existingEntry) {
+			return Promise.resolve(existingEntry.id);
+		} else {
+			const prevKey = this._keys.get(entry.id);
+			if (prevKey) this._entries.delete(prevKey);
+
+			this._entries.set(key, entry);
+			this._keys.set(entry.id, key);
+			this._index.add(entry.id, searchableText(entry.type, entry.content, entry.metadata));
+			return Promise.resolve(-1);
+		}
+	}
+
+	public delete(entry: ClipboardEntry): Promise<void> {
+		const key = this._keys.get(entry.id);
+		this._keys.delete(entry.id);
+		this._index.remove(entry.id);
+		this._snapshots.delete(entry.id);
+		if (key) this._entries.delete(key);
+
+		return Promise.resolve();
+	}
+
+	public async deleteOldest(offset: number, olderThanMinutes: number): Promise<number[]> {
+		const entries = await this.entries();
+		let deleted = entries
+			.filter((e) => !(e.pinned || e.tag))
+			.map((e) => e.id)
+			.slice(offset);
+
+		if (olderThanMinutes > 0) {
+			const now = GLib.DateTime.new_now_utc();
+			const olderThan = now.add_minutes(-olderThanMinutes)!;
+			deleted = [
+				...new Set([
+					...deleted,
+					...entries
+						.filter((e) => !(e.pinned || e.tag) && e.datetime.compare(olderThan) < 0)
+						.map((e) => e.id),
+				]),
+			];
+		}
+
+		for (const id of deleted) {
+			const key = this._keys.get(id);
+			this._keys.delete(id);
+			this._index.remove(id);
+			this._snapshots.delete(id);
+			if (key) this._entries.delete(key);
+		}
+
+		return deleted;
+	}
+
+	public search(query: string, filters: SearchFilters): Promise<number[] | null> {
+		const ids = query.length > 0 ? this._index.search(query) : Array.from(this._keys.keys());
+		const matches = ids.filter((id) => {
+			const entry = this._entries.get(this._keys.get(id) ?? '');
+			return entry !== undefined && matchesFilters(entry, filters);
+		});
+
+		return Promise.resolve(matches);
+	}
+
+	public collections(): Promise<Collection[]> {
+		return Promise.resolve(Array.from(this._collections.values()));
+	}
+
+	public insertCollection(name: string, color: Tag, icon: string): Promise<Collection | null> {
+		const collection = new Collection(this._collectionId++, name, color, icon);
+		this._collections.set(collection.id, collection);
+		return Promise.resolve(collection);
+	}
+
+	public updateCollection(_collection: Collection): Promise<void> {
+		return Promise.resolve();
+	}
+
+	public deleteCollection(collection: Collection): Promise<void> {
+		this._collections.delete(collection.id);
+		return Promise.resolve();
+	}
+
+	public snapshot(entry: ClipboardEntry): Promise<MimeSnapshot | null> {
+		return Promise.resolve(this._snapshots.get(entry.id) ?? null);
+	}
+
+	public insertSnapshot(entry: ClipboardEntry, snapshot: MimeSnapshot): Promise<void> {
+		if (this._keys.has(entry.id)) this._snapshots.set(entry.id, new Map(snapshot));
+		return Promise.resolve();
+	}
+
+	public deleteSnapshot(entry: ClipboardEntry): Promise<void> {
+		this._snapshots.delete(entry.id);
+		return Promise.resolve();
+	}
+
+	public async updateEntries(updates: EntryUpdate[], deletions: ClipboardEntry[]): Promise<void> {
+		await Promise.all(updates.map(([entry, property]) => this.updateProperty(entry, property)));
+		await Promise.all(deletions.map((entry) => this.delete(entry)));
+	}
+}
+
+// Remove double backslashes since libgda's sqlite escaping is broken
+function unescapeContent(content: string): string {
+	return content.replace(/\\\\/g, '\\');
+}
+
+// Encrypted with the key of an encrypted database to check whether the key is correct
+const KeyCheck = 'copyous';
+
+interface MimeRow {
+	entry: number;
+	mimetype: string;
+	data: string;
+}
+
+interface SearchIndexRow {
+	rowid: number;
+	content: string;
+	title: string;
+	description: string;
+}
+
+/**
+ * Database with Gda backend
+ */
+export class GdaDatabase implements Database {
+	private readonly _Gda: typeof Gda;
+	private readonly _connection: Gda.Connection;
+	private readonly _cancellable: Gio.Cancellable = new Gio.Cancellable();
+	private readonly _file: Gio.File | null;
+	private _searchIndex: boolean = false;
+	private _cipher: Cipher | null = null;
+	private _keyCheck: string | null = null;
+	// In-memory search index of encrypted databases
+	private _index: TrigramIndex | null = null;
+	// The last queued exclusive change, which settles once it and all changes queued before it are finished, and the
+	// writes that the next exclusive change waits for
+	private _transaction: Promise<void> | null = null;
+	private readonly _writes: Set<Promise<void>> = new Set();
+
+	constructor(
+		private ext: CopyousExtension,
+		gda: typeof Gda,
+	) {
+		this._Gda = gda;
+
+		const location = this.ext.settings.get_string('database-location');
+		const inMemory = this.ext.settings.get_boolean('in-memory-database');
+
+		// Check if DEBUG_COPYOUS_DBPATH is set
+		const environment = GLib.get_environ();
+		const debugPath = GLib.environ_getenv(environment, 'DEBUG_COPYOUS_DBPATH');
+		if (debugPath) ext.logger.log('Using debug database');
+
+		// Get database location or use default ${XDG_DATA_HOME}/${EXTENSION UUID}
+		const database = Gio.File.new_for_path(debugPath ?? location);
+		const dir = database.get_parent() ?? getDataPath(ext);
+
+		// Use in memory database :memory:, database name, or default clipboard.db
+		const file = inMemory ? ':memory:' : (database.get_basename() ?? 'clipboard.db');
+		this._file = inMemory ? null : dir.get_child(`${file.replace(/\.db$/, '')}.db`);
+
+		// Create database directory
+		if (!dir.query_exists(null)) {
+			dir.make_directory_with_parents(null);
+		}
+
+		// Establish connection
+		const cncString = `DB_DIR=${dir.get_path()};DB_NAME=${file.replace(/\.db$/, '')}`;
+		this._connection = new_connection(this._Gda, cncString);
+	}
+
+	public async init(): Promise<void> {
+		await open_async(this._connection);
+		await this.migrate();
+
+		// Remove entries from their collections when they are deleted
+		await this.execute('PRAGMA foreign_keys = ON;');
+		this._keyCheck = await this.selectKeyCheck();
+	}
+
+	/**
+	 * Whether the contents of the database are encrypted
+	 */
+	get encrypted(): boolean {
+		return this._keyCheck !== null;
+	}
+
+	/**
+	 * Checks whether the database is encrypted with a key
+	 * @param cipher The cipher of the key
+	 * @returns Whether the key is correct or true if the database is not encrypted
+	 */
+	public verifyKey(cipher: Cipher): boolean {
+		if (this._keyCheck === null) return true;
+
+		try {
+			return cipher.decryptText(this._keyCheck) === KeyCheck;
+		} catch {
+			return false;
+		}
+	}
+
+	/**
+	 * Encrypts or decrypts the database if needed and initializes the search index
+	 * @param current The cipher the database is encrypted with, if it is encrypted
+	 * @param target The cipher to encrypt the database with or null if it should not be encrypted
+	 */
+	public async initEncryption(current: Cipher | null, target: Cipher | null): Promise<void> {
+		if (this.encrypted && !(current && this.verifyKey(current))) {
+			throw new CryptoError('The database is encrypted with a different key');
+		}
+
+		if (target && !this.encrypted) {
+			// The search index contains the contents in plain text
+			await this.execute(`DROP TABLE IF EXISTS 'clipboard_fts';`);
+			await this.recrypt(null, target);
+
+			// Remove the plain text contents from the free pages of the database file
+			await this.execute('VACUUM;');
+			this.ext.logger.log('Encrypted database');
+		} else if (!target && this.encrypted) {
+			await this.recrypt(current, null);
+			this.ext.logger.log('Decrypted database');
+		}
+
+		this._cipher = target;
+		if (target) {
+			await this.execute('PRAGMA secure_delete = ON;');
+			this._index = new TrigramIndex();
+		} else {
+			await this.initSearchIndex();
+		}
+	}
+
+	/**
+	 * Encrypts the database with a new key
+	 * @param cipher The cipher of the new key
+	 */
+	public async rekey(cipher: Cipher): Promise<void> {
+		if (!this._cipher) throw new CryptoError('The database is not encrypted');
+
+		await this.exclusive(async () => {
+			await this.recrypt(this._cipher, cipher);
+			this._cipher = cipher;
+		});
+	}
+
+	private async selectKeyCheck(): Promise<string | null> {
+		// SELECT key_check FROM encryption LIMIT 1
+		const [stmt] = this._connection.parse_sql_string(`SELECT key_check FROM 'encryption' LIMIT 1`);
+		const datamodel = await async_statement_execute_select<{ key_check: string }>(
+			this._Gda,
+			this._connection,
+			stmt,
+			this._cancellable,
+		);
+		const iter = datamodel.create_iter();
+		return iter.move_next() ? iter.get_value_for_field('key_check') : null;
+	}
+
+	/**
+	 * Re-encrypts the content and metadata of all entries in a single transaction
+	 * @param from The cipher the database is encrypted with or null if it is not encrypted
+	 * @param to The cipher to encrypt the database with or null to decrypt the database
+	 */
+	private async recrypt(from: Cipher | null, to: Cipher | null): Promise<void> {
+		// SELECT id, content, metadata FROM clipboard
+		const [selectStmt] = this._connection.parse_sql_string(`SELECT id, content, metadata FROM 'clipboard'`);
+		const datamodel = await async_statement_execute_select<{
+			id: number;
+			content: string;
+			metadata: string | null;
+		}>(this._Gda, this._connection, selectStmt, this._cancellable);
+
+		const rows: [number, string, string | null][] = [];
+		const iter = datamodel.create_iter();
+		while (iter.move_next()) {
+			rows.push([
+				iter.get_value_for_field('id'),
+				unescapeContent(iter.get_value_for_field('content')),
+				iter.get_value_for_field('metadata'),
+			]);
+		}
+
+		// SELECT entry, mimetype, data FROM clipboard_mime
+		const [selectMimeStmt] = this._connection.parse_sql_string(
+			`SELECT entry, mimetype, data FROM 'clipboard_mime'`,
+		);
+		const mimeDatamodel = await async_statement_execute_select<MimeRow>(
+			this._Gda,
+			this._connection,
+			selectMimeStmt,
+			this._cancellable,
+		);
+
+		const mimeRows: [number, string, string][] = [];
+		const mimeIter = mimeDatamodel.create_iter();
+		while (mimeIter.move_next()) {
+			mimeRows.push([
+				mimeIter.get_value_for_field('entry'),
+				unescapeContent(mimeIter.get_value_for_field('mimetype')),
+				mimeIter.get_value_for_field('data'),
+			]);
+		}
+
+		const convert = (value: string) => {
+			const plaintext = from ? from.decryptText(value) : value;
+			return to ? to.encryptText(plaintext) : plaintext;
+		};
+
+		const convertBytes = (value: string) => {
+			const data = GLib.base64_decode(value);
+			const plain = from ? from.decrypt(data) : data;
+			return GLib.base64_encode(to ? to.encrypt(plain) : plain);
+		};
+
+		this._connection.begin_transaction(null, this._Gda.TransactionIsolation.UNKNOWN);
+		try {
+			for (const [id, content, metadata] of rows) {
+				// UPDATE table
+				// SET content = content, metadata = metadata
+				// WHERE id == id
+				const builder = new this._Gda.SqlBuilder({
+					stmt_type: this._Gda.SqlStatementType.UPDATE,
+				}) as SqlBuilder<ClipboardEntry>;
+				builder.set_table('clipboard');
+				builder.add_field_value_as_gvalue('content', convert(content));
+				if (metadata !== null) builder.add_field_value_as_gvalue('metadata', convert(metadata));
+				builder.set_where(
+					builder.add_cond(
+						this._Gda.SqlOperatorType.EQ,
+						builder.add_id('id'),
+						add_expr_value(builder, id),
+						0,
+					),
+				);
+
+				// eslint-disable-next-line no-await-in-loop
+				await async_statement_execute_non_select(
+					this._Gda,
+					this._connection,
+					builder.get_statement(),
+					this._cancellable,
+				);
+			}
+
+			for (const [entry, mimetype, data] of mimeRows) {
+				// UPDATE clipboard_mime
+				// SET data = data
+				// WHERE entry == entry AND mimetype == mimetype
+				const builder = new this._Gda.SqlBuilder({
+					stmt_type: this._Gda.SqlStatementType.UPDATE,
+				}) as SqlBuilder<MimeRow>;
+				builder.set_table('clipboard_mime');
+				builder.add_field_value_as_gvalue('data', convertBytes(data));
+				builder.set_where(
+					builder.add_cond(
+						this._Gda.SqlOperatorType.AND,
+						builder.add_cond(
+							this._Gda.SqlOperatorType.EQ,
+							builder.add_id('entry'),
+							add_expr_value(builder, entry),
+							0,
+						),
+						builder.add_cond(
+							this._Gda.SqlOperatorType.EQ,
+							builder.add_id('mimetype'),
+							add_expr_value(builder, mimetype),
+							0,
+						),
+						0,
+					),
+				);
+
+				// eslint-disable-next-line no-await-in-loop
+				await async_statement_execute_non_select(
+					this._Gda,
+					this._connection,
+					builder.get_statement(),
+					this._cancellable,
+				);
+			}
+
+			// Base64 does not need to be escaped
+			const keyCheck = to?.encryptText(KeyCheck) ?? null;
+			await this.execute(`DELETE FROM 'encryption';`);
+			if (keyCheck) await this.execute(`INSERT INTO 'encryption' ('key_check') VALUES ('${keyCheck}');`);
+
+			this._connection.commit_transaction(null);
+			this._keyCheck = keyCheck;
+		} catch (e) {
+			try {
+				this._connection.rollback_transaction(null);
+			} catch (err) {
+				this.ext.logger.error('Failed to roll back database encryption', err);
+			}
+
+			throw e;
+		}
+	}
+
+	private encode(value: string): string {
+		return this._cipher ? this._cipher.encryptText(value) : value;
+	}
+
+	private decode(value: string): string {
+		return this._cipher ? this._cipher.decryptText(value) : value;
+	}
+
+	private encodeBytes(value: Uint8Array): string {
+		return GLib.base64_encode(this._cipher ? this._cipher.encrypt(value) : value);
+	}
+
+	private decodeBytes(value: string): Uint8Array {
+		const data = GLib.base64_decode(value);
+		return this._cipher ? this._cipher.decrypt(data) : data;
+	}
+
+	private async migrate(): Promise<void> {
+		const version = await this.schemaVersion();
+		if (version > SchemaVersion) {
+			this.ext.logger.warn(`Database version ${version} is newer than the supported version ${SchemaVersion}`);
+			return;
+		}
+
+		const pending = Migrations.filter((m) => m.version > version);
+		if (pending.length === 0) return;
+
+		// Back up existing databases before upgrading
+		const backup = version > 0 ? this.backup(version) : null;
+
+		// Run all migrations in a single transaction so that the database is never partially upgraded
+		this._connection.begin_transaction(null, this._Gda.TransactionIsolation.UNKNOWN);
+		let migration = pending[0]!;
+		try {
+			await this.execute(`
+				CREATE TABLE IF NOT EXISTS 'schema_version' (
+					'version'  integer   NOT NULL UNIQUE PRIMARY KEY,
+					'datetime' timestamp NOT NULL
+				);
+			`);
+
+			for (migration of pending) {
+				for (const statement of migration.statements) {
+					// eslint-disable-next-line no-await-in-loop
+					await this.execute(statement);
+				}
+
+				// eslint-disable-next-line no-await-in-loop
+				await this.execute(
+					`INSERT INTO 'schema_version' ('version', 'datetime') VALUES (${migration.version}, DATETIME('now'));`,
+				);
+			}
+
+			this._connection.commit_transaction(null);
+		} catch (e) {
+			try {
+				this._connection.rollback_transaction(null);
+			} catch (err) {
+				this.ext.logger.error('Failed to roll back database migration', err);
+			}
+
+			throw new MigrationError(migration, backup, { cause: e });
 		}
 
-		return Promise.resolve(deleted);
+		this.ext.logger.log(`Migrated database from version ${version} to version ${SchemaVersion}`);
 	}
 
-	public async close(): Promise<void> {
-		await this.clear(ClipboardHistory.Clear);
+	private async schemaVersion(): Promise<number> {
+		const tables = await this.tables();
+		if (tables.includes('schema_version')) {
+			// SELECT MAX(version) AS version FROM schema_version
+			const [stmt] = this._connection.parse_sql_string(`SELECT MAX(version) AS version FROM 'schema_version'`);
+			const datamodel = await async_statement_execute_select<{ version: number | null }>(
+				this._Gda,
+				this._connection,
+				stmt,
+				this._cancellable,
+			);
+			const iter = datamodel.create_iter();
+			return iter.move_next() ? (iter.get_value_for_field('version') ?? 0) : 0;
+		}
+
+		// Databases created before versioning only contain the clipboard table
+		return tables.includes('clipboard') ? 1 : 0;
 	}
 
-	public entries(): Promise<ClipboardEntry[]> {
-		const entries = Array.from(this._entries.values()).sort((a, b) => b.datetime.compare(a.datetime));
-		return Promise.resolve(entries);
+	private async tables(): Promise<string[]> {
+		// SELECT name FROM sqlite_master WHERE type = 'table'
+		const [stmt] = this._connection.parse_sql_string(`SELECT name FROM sqlite_master WHERE type = 'table'`);
+		const datamodel = await async_statement_execute_select<{ name: string }>(
+			this._Gda,
+			this._connection,
+			stmt,
+			this._cancellable,
+		);
+
+		const tables: string[] = [];
+		const iter = datamodel.create_iter();
+		while (iter.move_next()) {
+			tables.push(iter.get_value_for_field('name'));
+		}
+
+		return tables;
 	}
 
-	public selectConflict(entry: ClipboardEntry | { type: ItemType; content: string }): Promise<number | null> {
-		const key = `${entry.type}:${entry.content}`;
-		return Promise.resolve(this._entries.get(key)?.id ?? null);
+	private backup(version: number): Gio.File | null {
+		if (!this._file?.query_exists(null)) return null;
+
+		const backup = Gio.File.new_for_path(`${this._file.get_path()}.v${version}.bak`);
+		this._file.copy(backup, Gio.FileCopyFlags.OVERWRITE, null, null);
+		this.ext.logger.log('Created database backup', backup.get_path());
+		return backup;
 	}
 
-	public insert(type: ItemType, content: string, metadata: Metadata | null = null): Promise<ClipboardEntry | null> {
-		const key = `${type}:${content}`;
-		const entry = this._entries.get(key);
-		if (entry) {
-			return Promise.resolve(null);
-		} else {
-			const newEntry = new ClipboardEntry(
-				this._id++,
-				type,
-				content,
-				false,
-				null,
-				GLib.DateTime.new_now_utc(),
-				metadata,
+	private async execute(sql: string): Promise<void> {
+		const [stmt] = this._connection.parse_sql_string(sql);
+		await async_statement_execute_non_select(this._Gda, this._connection, stmt, this._cancellable);
+	}
+
+	private async initSearchIndex(): Promise<void> {
+		try {
+			// Check if the search index already exists
+			const tables = await this.tables();
+			if (tables.includes('clipboard_fts')) {
+				this._searchIndex = true;
+				return;
+			}
+
+			// Create the search index, remove_diacritics is only supported since SQLite 3.45
+			for (const tokenizer of ['trigram remove_diacritics 1', 'trigram']) {
+				try {
+					// eslint-disable-next-line no-await-in-loop
+					await this.execute(`
+						CREATE VIRTUAL TABLE 'clipboard_fts' USING fts5 (
+							'content',
+							'title',
+							'description',
+							tokenize = '${tokenizer}'
+						);
+					`);
+					this._searchIndex = true;
+					break;
+				} catch {
+					this.ext.logger.warn(`Failed to create search index with tokenizer "${tokenizer}"`);
+				}
+			}
+
+			if (!this._searchIndex) return;
+
+			// Index existing entries
+			await this.execute(`
+				INSERT INTO 'clipboard_fts' ('rowid', 'content', 'title', 'description')
+				SELECT
+					id,
+					content,
+					CASE WHEN type = 'Link' AND json_valid(metadata) THEN json_extract(metadata, '$.title') END,
+					CASE WHEN type = 'Link' AND json_valid(metadata) THEN json_extract(metadata, '$.description') END
+				FROM 'clipboard'
+				WHERE type != 'Image';
+			`);
+		} catch (e) {
+			this.ext.logger.error('Failed to initialize search index', e);
+		}
+	}
+
+	public async clear(history: ClipboardHistory): Promise<number[]> {
+		const release = await this.acquireWrite();
+		try {
+			if (history === ClipboardHistory.KeepAll) {
+				return [];
+			}
+
+			// SELECT id FROM table (WHERE NOT (pinned == true OR tag IS NOT NULL))?
+			const [selectBuilder, where] = this.selectToDeleteBuilder(history === ClipboardHistory.KeepPinnedAndTagged);
+
+			const selectStmt = selectBuilder.get_statement();
+			const datamodel = await async_statement_execute_select<ClipboardEntry>(
+				this._Gda,
+				this._connection,
+				selectStmt,
+				this._cancellable,
 			);
-			this._entries.set(key, newEntry);
-			this._keys.set(newEntry.id, key);
-			return Promise.resolve(newEntry);
+
+			const deleted: number[] = [];
+			const iter = datamodel.create_iter();
+			while (iter.move_next()) {
+				deleted.push(iter.get_value_for_field('id'));
+			}
+
+			// Only delete if there are entries to delete
+			if (deleted.length > 0) {
+				// DELETE FROM table (WHERE ...)? RETURNING id;
+				const deleteBuilder = new this._Gda.SqlBuilder({ stmt_type: this._Gda.SqlStatementType.DELETE });
+				deleteBuilder.set_table('clipboard');
+
+				if (where) {
+					deleteBuilder.set_where(
+						deleteBuilder.import_expression_from_builder(selectBuilder as Gda.SqlBuilder, where),
+					);
+				}
+
+				const deleteStmt = deleteBuilder.get_statement();
+				await async_statement_execute_non_select(this._Gda, this._connection, deleteStmt, this._cancellable);
+				await this.unindexEntries(deleted);
+			}
+
+			return deleted;
+		} catch (e) {
+			this.ext.logger.error('Failed to clear clipboard', e);
+		} finally {
+			release();
 		}
+
+		return [];
 	}
 
-	public updateProperty(
-		entry: ClipboardEntry,
-		property: Exclude<keyof ClipboardEntry, keyof GObject.Object>,
-	): Promise<number> {
-		if (property !== 'content') return Promise.resolve(-1);
+	public close(): Promise<void> {
+		this._index?.clear();
+		this._connection.close();
+		this._cancellable.cancel();
+		return Promise.resolve();
+	}
 
-		const key = `${entry.type}:${entry.content}`;
-		const existingEntry = this._entries.get(key);
-		if (existingEntry) {
-			return Promise.resolve(existingEntry.id);
-		} else {
-			const prevKey = this._keys.get(entry.id);
-			if (prevKey) this._entries.delete(prevKey);
+	public async entries(): Promise<ClipboardEntry[]> {
+		try {
+			// SELECT * FROM clipboard
+			const builder = new this._Gda.SqlBuilder({ stmt_type: this._Gda.SqlStatementType.SELECT });
+			builder.select_add_target('clipboard', null);
+			builder.select_add_field('id', null, null);
+			builder.select_add_field('type', null, null);
+			builder.select_add_field('content', null, null);
+			builder.select_add_field('pinned', null, null);
+			builder.select_add_field('tag', null, null);
+			const datetimeId = builder.select_add_field('datetime', null, null);
+			builder.select_add_field('metadata', null, null);
+			builder.select_add_field('source', null, null);
+			builder.select_add_field('sensitive', null, null);
+			builder.select_add_field('expires', null, null);
+			builder.select_add_field('template', null, null);
+			builder.select_order_by(datetimeId, false, null);
 
-			this._entries.set(key, entry);
-			this._keys.set(entry.id, key);
-			return Promise.resolve(-1);
+			const collections = await this.entryCollections();
+
+			const stmt = builder.get_statement();
+			const dataModel = await async_statement_execute_select<ClipboardEntry>(
+				this._Gda,
+				this._connection,
+				stmt,
+				this._cancellable,
+			);
+
+			const entries: ClipboardEntry[] = [];
+			const iter = dataModel.create_iter();
+			while (iter.move_next()) {
+				const id = iter.get_value_for_field('id');
+				const type = iter.get_value_for_field('type');
+				const content = this.decode(unescapeContent(iter.get_value_for_field('content')));
+				const pinned = iter.get_value_for_field('pinned');
+				const tag = iter.get_value_for_field('tag');
+				const datetime = this.toDateTime(iter.get_value_for_field('datetime'))!;
+				const metadata = iter.get_value_for_field('metadata') as string | null;
+				const source = iter.get_value_for_field('source') as string | null;
+				const sensitive = iter.get_value_for_field('sensitive');
+				const expires = this.toDateTime(iter.get_value_for_field('expires'));
+				const template = iter.get_value_for_field('template');
+
+				let metadataObj: Metadata | null = null;
+				if (metadata) {
+					try {
+						const json = JSON.parse(this.decode(metadata)) as object | null;
+						if (json) {
+							metadataObj = json as Metadata;
+						}
+					} catch {
+						this.ext.logger.error('Failed to parse metadata');
+					}
+				}
+
+				let sourceObj: SourceApp | null = null;
+				if (source) {
+					try {
+						sourceObj = JSON.parse(source) as SourceApp | null;
+					} catch {
+						this.ext.logger.error('Failed to parse source');
+					}
+				}
+
+				this._index?.add(id, searchableText(type, content, metadataObj));
+				entries.push(
+					new ClipboardEntry(
+						id,
+						type,
+						content,
+						pinned,
+						tag,
+						datetime,
+						metadataObj,
+						sourceObj,
+						sensitive,
+						expires,
+						collections.get(id) ?? [],
+						template,
+					),
+				);
+			}
+
+			return entries;
+		} catch (e) {
+			this.ext.logger.error('Failed to get clipboard entries', e);
+		}
+
+		return [];
+	}
+
+	/**
+	 * Gets the ids of the collections of every entry that belongs to a collection
+	 */
+	private async entryCollections(): Promise<Map<number, number[]>> {
+		// SELECT entry, collection FROM clipboard_collection
+		const [stmt] = this._connection.parse_sql_string(`SELECT entry, collection FROM 'clipboard_collection'`);
+		const datamodel = await async_statement_execute_select<{ entry: number; collection: number }>(
+			this._Gda,
+			this._connection,
+			stmt,
+			this._cancellable,
+		);
+
+		const collections = new Map<number, number[]>();
+		const iter = datamodel.create_iter();
+		while (iter.move_next()) {
+			const entry = iter.get_value_for_field('entry');
+			collections.set(entry, [...(collections.get(entry) ?? []), iter.get_value_for_field('collection')]);
+		}
+
+		return collections;
+	}
+
+	/**
+	 * Converts a timestamp returned by Gda5 to a date
+	 * @param value The timestamp or date
+	 */
+	private toDateTime(value: GLib.DateTime | null): GLib.DateTime | null {
+		if ('Timestamp' in this._Gda && value instanceof this._Gda.Timestamp) {
+			return GLib.DateTime.new(
+				GLib.TimeZone.new_offset(value.timezone),
+				value.year,
+				value.month,
+				value.day,
+				value.hour,
+				value.minute,
+				value.second,
+			);
 		}
+
+		return value;
 	}
 
-	public delete(entry: ClipboardEntry): Promise<void> {
-		const key = this._keys.get(entry.id);
-		this._keys.delete(entry.id);
-		if (key) this._entries.delete(key);
+	public async selectConflict(entry: ClipboardEntry | { type: ItemType; content: string }): Promise<number | null> {
+		try {
+			// SELECT id FROM table WHERE type == entry.type AND content == entry.content LIMIT 1
+			const builder = new this._Gda.SqlBuilder({ stmt_type: this._Gda.SqlStatementType.SELECT });
+			builder.select_add_target('clipboard', null);
+			builder.select_add_field('id', null, null);
+			builder.set_where(
+				builder.add_cond(
+					this._Gda.SqlOperatorType.AND,
+					builder.add_cond(
+						this._Gda.SqlOperatorType.EQ,
+						builder.add_id('type'),
+						add_expr_value(builder, entry.type),
+						0,
+					),
+					builder.add_cond(
+						this._Gda.SqlOperatorType.EQ,
+						builder.add_id('content'),
+						add_expr_value(builder, this.encode(entry.content)),
+						0,
+					),
+					0,
+				),
+			);
+			builder.select_set_limit(add_expr_value(builder, 1), add_expr_value(builder, 0));
+
+			// Get id
+			const stmt = builder.get_statement();
+			const datamodel = await async_statement_execute_select<ClipboardEntry>(
+				this._Gda,
+				this._connection,
+				stmt,
+				this._cancellable,
+			);
+			const iter = datamodel.create_iter();
+			if (iter.move_next()) {
+				return iter.get_value_for_field('id');
+			}
+
+			return null;
+		} catch (e) {
+			this.ext.logger.error('Failed to select conflicting entry', e);
+		}
 
-		return Promise.resolve();
+		return null;
 	}
 
-	public async deleteOldest(offset: number, olderThanMinutes: number): Promise<number[]> {
-		const entries = await this.entries();
-		let deleted = entries
-			.filter((e) => !(e.pinned || e.tag))
-			.map((e) => e.id)
-			.slice(offset);
+	/// Note: content will be inserted incorrectly into the database since libgda escapes sqlite incorrectly
+	public async insert(
+		type: ItemType,
+		content: string,
+		metadata: Metadata | null = null,
+		source: SourceApp | null = null,
+		sensitive: boolean = false,
+	): Promise<ClipboardEntry | null> {
+		const release = await this.acquireWrite();
+		try {
+			// INSERT INTO table (type, content, pinned, tag, datetime, metadata, source, sensitive)
+			// VALUES (entry.type, entry.content, entry.pinned, entry.tag, entry.datetime, entry.metadata, entry.source,
+			//         entry.sensitive)
+			const builder = new this._Gda.SqlBuilder({
+				stmt_type: this._Gda.SqlStatementType.INSERT,
+			}) as SqlBuilder<ClipboardEntry>;
+			builder.set_table('clipboard');
+			builder.add_field_value_as_gvalue('type', type);
+			// NOTE: content will be inserted incorrectly
+			builder.add_field_value_as_gvalue('content', this.encode(content));
+			builder.add_field_value_as_gvalue('pinned', false);
+			const datetime = GLib.DateTime.new_now_utc();
+			builder.add_field_value_as_gvalue('datetime', convert_datetime(datetime));
+			if (metadata) builder.add_field_value_as_gvalue('metadata', this.encode(JSON.stringify(metadata)));
+			if (source) builder.add_field_value_as_gvalue('source', JSON.stringify(source));
+			builder.add_field_value_as_gvalue('sensitive', sensitive);
 
-		if (olderThanMinutes > 0) {
-			const now = GLib.DateTime.new_now_utc();
-			const olderThan = now.add_minutes(-olderThanMinutes)!;
-			deleted = [
-				...new Set([
-					...deleted,
-					...entries
-						.filter((e) => !(e.pinned || e.tag) && e.datetime.compare(olderThan) < 0)
-						.map((e) => e.id),
-				]),
-			];
-		}
+			// Execute
+			const stmt = builder.get_statement();
+			const [, row] = await async_statement_execute_non_select(
+				this._Gda,
+				this._connection,
+				stmt,
+				this._cancellable,
+			);
+			const id = row?.get_nth_holder(0).get_value() as unknown as number;
+			if (id == null) return null;
 
-		for (const id of deleted) {
-			const key = this._keys.get(id);
-			this._keys.delete(id);
-			if (key) this._entries.delete(key);
+			await this.indexEntry(id, type, content, metadata);
+
+			return new ClipboardEntry(id, type, content, false, null, datetime, metadata, source, sensitive);
+		} catch (e) {
+			this.ext.logger.error('Failed to insert entry', e);
+		} finally {
+			release();
 		}
 
-		return deleted;
+		return null;
 	}
-}
 
-// Remove double backslashes since libgda's sqlite escaping is broken
-function unescapeContent(content: string): string {
-	return content.replace(/\\\\/g, '\\');
-}
+	public async updateProperty(entry: ClipboardEntry, property: EntryUpdate[1]): Promise<number> {
+		const release = await this.acquireWrite();
+		try {
+			return await this.storeProperty(entry, property);
+		} catch (e) {
+			this.ext.logger.error(`Failed to update property "${property}" for entry ${entry.id}`, e);
+		} finally {
+			release();
+		}
 
-/**
- * Database with Gda backend
- */
-export class GdaDatabase implements Database {
-	private readonly _Gda: typeof Gda;
-	private readonly _connection: Gda.Connection;
-	private readonly _cancellable: Gio.Cancellable = new Gio.Cancellable();
+		return -1;
+	}
 
-	constructor(
-		private ext: CopyousExtension,
-		gda: typeof Gda,
-	) {
-		this._Gda = gda;
+	private async storeProperty(entry: ClipboardEntry, property: EntryUpdate[1]): Promise<number> {
+		if (property === 'collections') {
+			await this.updateEntryCollections(entry);
+			return -1;
+		}
 
-		const location = this.ext.settings.get_string('database-location');
-		const inMemory = this.ext.settings.get_boolean('in-memory-database');
+		let value = entry[property] ?? 'NULL';
+		if (property === 'content') value = this.encode(entry.content);
+		else if (property === 'metadata') value = this.encode(JSON.stringify(entry.metadata));
+		else if (property === 'source') value = JSON.stringify(entry.source);
+		else if (property === 'datetime') value = convert_datetime(entry[property]);
+		else if (property === 'expires' && entry.expires) value = convert_datetime(entry.expires);
 
-		// Check if DEBUG_COPYOUS_DBPATH is set
-		const environment = GLib.get_environ();
-		const debugPath = GLib.environ_getenv(environment, 'DEBUG_COPYOUS_DBPATH');
-		if (debugPath) ext.logger.log('Using debug database');
+		// UPDATE table
+		// SET property = entry.property
+		// WHERE id == entry.id
+		const builder = new this._Gda.SqlBuilder({
+			stmt_type: this._Gda.SqlStatementType.UPDATE,
+		}) as SqlBuilder<ClipboardEntry>;
+		builder.set_table('clipboard');
+		builder.add_field_value_as_gvalue(property, value);
+		builder.set_where(
+			builder.add_cond(this._Gda.SqlOperatorType.EQ, builder.add_id('id'), add_expr_value(builder, entry.id), 0),
+		);
+
+		// Escape the null value since the bindings for Gda5 do not support Gda.Null
+		const stmt = unescape_sql(this._connection, builder);
+
+		const [rows] = await async_statement_execute_non_select(this._Gda, this._connection, stmt, this._cancellable);
+		if (rows !== -1 || (property !== 'type' && property !== 'content')) {
+			if (property === 'content' || property === 'metadata') {
+				await this.indexEntry(entry.id, entry.type, entry.content, entry.metadata);
+			}
 
-		// Get database location or use default ${XDG_DATA_HOME}/${EXTENSION UUID}
-		const database = Gio.File.new_for_path(debugPath ?? location);
-		const dir = database.get_parent() ?? getDataPath(ext);
+			return -1; // success
+		}
 
-		// Use in memory database :memory:, database name, or default clipboard.db
-		const file = inMemory ? ':memory:' : (database.get_basename() ?? 'clipboard.db');
+		// Return the id of the conflicting entry
+		const id = await this.selectConflict(entry);
+		return id ?? -1;
+	}
 
-		// Create database directory
-		if (!dir.query_exists(null)) {
-			dir.make_directory_with_parents(null);
+	private async updateEntryCollections(entry: ClipboardEntry) {
+		// DELETE FROM clipboard_collection WHERE entry == entry.id (AND collection NOT IN (entry.collections))?
+		let sql = `DELETE FROM 'clipboard_collection' WHERE entry = ${entry.id}`;
+		if (entry.collections.length > 0) sql += ` AND collection NOT IN (${entry.collections.join(', ')})`;
+		await this.execute(sql);
+
+		// INSERT OR IGNORE INTO clipboard_collection (entry, collection) VALUES (entry.id, collection), ...
+		if (entry.collections.length > 0) {
+			const values = entry.collections.map((id) => `(${entry.id}, ${id})`).join(', ');
+			await this.execute(
+				`INSERT OR IGNORE INTO 'clipboard_collection' ('entry', 'collection') VALUES ${values};`,
+			);
 		}
+	}
 
-		// Establish connection
-		const cncString = `DB_DIR=${dir.get_path()};DB_NAME=${file.replace(/\.db$/, '')}`;
-		this._connection = new_connection(this._Gda, cncString);
+	public async delete(entry: ClipboardEntry): Promise<void> {
+		const release = await this.acquireWrite();
+		try {
+			await this.deleteEntry(entry);
+		} catch (e) {
+			this.ext.logger.error(`Failed to delete entry ${entry.id}`, e);
+		} finally {
+			release();
+		}
 	}
 
-	public async init(): Promise<void> {
-		await open_async(this._connection);
+	private async deleteEntry(entry: ClipboardEntry): Promise<void> {
+		// DELETE FROM table WHERE id == entry.id
+		const builder = new this._Gda.SqlBuilder({
+			stmt_type: this._Gda.SqlStatementType.DELETE,
+		}) as SqlBuilder<ClipboardEntry>;
+		builder.set_table('clipboard');
+		builder.set_where(
+			builder.add_cond(this._Gda.SqlOperatorType.EQ, builder.add_id('id'), add_expr_value(builder, entry.id), 0),
+		);
 
-		const [stmt] = this._connection.parse_sql_string(`
-			CREATE TABLE IF NOT EXISTS 'clipboard' (
-				'id'       integer   NOT NULL UNIQUE PRIMARY KEY AUTOINCREMENT,
-				'type'     text      NOT NULL,
-				'content'  text      NOT NULL,
-				'pinned'   boolean   NOT NULL,
-				'tag'      text,
-				'datetime' timestamp NOT NULL,
-				'metadata' text,
-				UNIQUE ('type', 'content')
-			);
-		`);
+		const stmt = builder.get_statement();
 		await async_statement_execute_non_select(this._Gda, this._connection, stmt, this._cancellable);
+		await this.unindexEntries([entry.id]);
 	}
 
-	public async clear(history: ClipboardHistory): Promise<number[]> {
+	public async deleteOldest(offset: number, olderThanMinutes: number): Promise<number[]> {
+		const release = await this.acquireWrite();
 		try {
-			if (history === ClipboardHistory.KeepAll) {
-				return [];
-			}
+			// WITH select1 AS (...) (SELECT id FROM select1) UNION (select2)
+			const selectBuilder = new this._Gda.SqlBuilder({
+				stmt_type: this._Gda.SqlStatementType.COMPOUND,
+			}) as SqlBuilder<ClipboardEntry>;
+			selectBuilder.compound_set_type(this._Gda.SqlStatementCompoundType.UNION);
 
-			// SELECT id FROM table (WHERE NOT (pinned == true OR tag IS NOT NULL))?
-			const [selectBuilder, where] = this.selectToDeleteBuilder(history === ClipboardHistory.KeepPinnedAndTagged);
+			// SELECT id FROM table WHERE NOT (pinned == true OR tag IS NOT NULL) ORDER BY datetime LIMIT -1 OFFSET offset
+			const [select1Builder] = this.selectToDeleteBuilder();
+			select1Builder.select_order_by(select1Builder.add_id('datetime'), false, null);
+			select1Builder.select_set_limit(add_expr_value(select1Builder, -1), add_expr_value(select1Builder, offset));
 
-			const selectStmt = selectBuilder.get_statement();
+			// SELECT id FROM table WHERE NOT (pinned == true OR tag IS NOT NULL) AND datetime < DATETIME('now', '-n minutes')
+			let selectStmt: Gda.Statement;
+			if (olderThanMinutes > 0) {
+				// Workaround for ORDER BY not working inside compound selector and add_subselect not being exposed in Gda 5.0
+				const workAroundBuilder = new this._Gda.SqlBuilder({ stmt_type: this._Gda.SqlStatementType.SELECT });
+				workAroundBuilder.select_add_field('id', null, null);
+				workAroundBuilder.select_add_target('select1', null);
+				selectBuilder.compound_add_sub_select_from_builder(workAroundBuilder);
+
+				const [select2Builder] = this.selectToDeleteBuilder(true, olderThanMinutes);
+				selectBuilder.compound_add_sub_select_from_builder(select2Builder as Gda.SqlBuilder);
+
+				// SELECT id FROM (SELECT id FROM table WHERE ...)
+				const select1Sql = this._connection.statement_to_sql(select1Builder.get_statement(), null, null)[0];
+				const selectSql = this._connection.statement_to_sql(selectBuilder.get_statement(), null, null)[0];
+				selectStmt = this._connection.parse_sql_string(selectSql.replace('select1', `(${select1Sql})`))[0];
+			} else {
+				// Ignore compound selector
+				selectStmt = select1Builder.get_statement();
+			}
+
+			// Run select
 			const datamodel = await async_statement_execute_select<ClipboardEntry>(
 				this._Gda,
 				this._connection,
@@ -570,180 +2503,195 @@ export class GdaDatabase implements Database {
 				this._cancellable,
 			);
 
-			const deleted: number[] = [];
-			const iter = datamodel.create_iter();
-			while (iter.move_next()) {
-				deleted.push(iter.get_value_for_field('id'));
-			}
-
-			// Only delete if there are entries to delete
-			if (deleted.length > 0) {
-				// DELETE FROM table (WHERE ...)? RETURNING id;
-				const deleteBuilder = new this._Gda.SqlBuilder({ stmt_type: this._Gda.SqlStatementType.DELETE });
-				deleteBuilder.set_table('clipboard');
+			// DELETE FROM table WHERE id IN (select)
+			// add_subselect is not exposed as a javascript binding in Gda 5.0
+			const selectSql = this._connection.statement_to_sql(selectStmt, selectStmt.get_parameters()[1], null)[0];
+			const [deleteStmt] = this._connection.parse_sql_string(`DELETE FROM clipboard WHERE id IN (${selectSql})`);
+			const [rows] = await async_statement_execute_non_select(
+				this._Gda,
+				this._connection,
+				deleteStmt,
+				this._cancellable,
+			);
 
-				if (where) {
-					deleteBuilder.set_where(
-						deleteBuilder.import_expression_from_builder(selectBuilder as Gda.SqlBuilder, where),
-					);
+			// Get ids
+			const deleted: number[] = [];
+			if (rows > 0) {
+				const iter = datamodel.create_iter();
+				while (iter.move_next()) {
+					deleted.push(iter.get_value_for_field('id'));
 				}
-
-				const deleteStmt = deleteBuilder.get_statement();
-				await async_statement_execute_non_select(this._Gda, this._connection, deleteStmt, this._cancellable);
 			}
 
+			await this.unindexEntries(deleted);
 			return deleted;
 		} catch (e) {
-			this.ext.logger.error('Failed to clear clipboard', e);
+			this.ext.logger.error('Failed to delete oldest entries', e);
+		} finally {
+			release();
 		}
 
 		return [];
 	}
 
-	public close(): Promise<void> {
-		this._connection.close();
-		this._cancellable.cancel();
-		return Promise.resolve();
-	}
-
-	public async entries(): Promise<ClipboardEntry[]> {
+	public async search(query: string, filters: SearchFilters): Promise<number[] | null> {
 		try {
-			// SELECT * FROM clipboard
-			const builder = new this._Gda.SqlBuilder({ stmt_type: this._Gda.SqlStatementType.SELECT });
-			builder.select_add_target('clipboard', null);
+			// SELECT id FROM clipboard (WHERE filters)?
+			const builder = new this._Gda.SqlBuilder({
+				stmt_type: this._Gda.SqlStatementType.SELECT,
+			}) as SqlBuilder<ClipboardEntry>;
 			builder.select_add_field('id', null, null);
-			builder.select_add_field('type', null, null);
-			builder.select_add_field('content', null, null);
-			builder.select_add_field('pinned', null, null);
-			builder.select_add_field('tag', null, null);
-			const datetimeId = builder.select_add_field('datetime', null, null);
-			builder.select_add_field('metadata', null, null);
-			builder.select_order_by(datetimeId, false, null);
+			builder.select_add_target('clipboard', null);
+
+			const conditions: Gda.SqlBuilderId[] = [];
+			if (filters.pinned || filters.excludePinned) {
+				conditions.push(
+					builder.add_cond(
+						this._Gda.SqlOperatorType.EQ,
+						builder.add_id('pinned'),
+						add_expr_value(builder, filters.pinned),
+						0,
+					),
+				);
+			}
+
+			if (filters.tag !== null) {
+				conditions.push(
+					builder.add_cond(
+						this._Gda.SqlOperatorType.EQ,
+						builder.add_id('tag'),
+						add_expr_value(builder, filters.tag),
+						0,
+					),
+				);
+			} else if (filters.excludeTagged) {
+				conditions.push(builder.add_cond(this._Gda.SqlOperatorType.ISNULL, builder.add_id('tag'), 0, 0));
+			}
+
+			if (filters.type !== null) {
+				conditions.push(
+					builder.add_cond(
+						this._Gda.SqlOperatorType.EQ,
+						builder.add_id('type'),
+						add_expr_value(builder, filters.type),
+						0,
+					),
+				);
+			}
+
+			if (filters.app !== null) {
+				// json_extract(source, '$.wmClass') LIKE %app% ESCAPE '!' OR ...
+				const app = filters.app;
+				const appConditions = ['$.wmClass', '$.appId', '$.name'].map((path) =>
+					add_contains_cond(
+						builder,
+						builder.add_function('json_extract', [builder.add_id('source'), add_expr_value(builder, path)]),
+						app,
+					),
+				);
+				conditions.push(
+					appConditions.reduce((a, b) => builder.add_cond(this._Gda.SqlOperatorType.OR, a, b, 0)),
+				);
+			}
+
+			if (conditions.length > 0) {
+				builder.set_where(
+					conditions.reduce((a, b) => builder.add_cond(this._Gda.SqlOperatorType.AND, a, b, 0)),
+				);
+			}
+
+			const filterStmt = builder.get_statement();
+			let sql = this._connection.statement_to_sql(filterStmt, filterStmt.get_parameters()[1], null)[0];
+
+			// SELECT id FROM (filters) WHERE id IN (SELECT entry FROM clipboard_collection WHERE collection == collection)
+			if (filters.collection !== null) {
+				sql = `SELECT id FROM (${sql}) WHERE id IN (SELECT entry FROM clipboard_collection WHERE collection = ${filters.collection})`;
+			}
+
+			// SELECT id FROM (filters) WHERE id IN (search)
+			// add_subselect is not exposed as a javascript binding in Gda 5.0
+			if (query.length > 0 && !this._index) {
+				const searchStmt = this.searchStatement(query);
+				const searchSql = this._connection.statement_to_sql(
+					searchStmt,
+					searchStmt.get_parameters()[1],
+					null,
+				)[0];
+				sql = `SELECT id FROM (${sql}) WHERE id IN (${searchSql})`;
+			}
 
-			const stmt = builder.get_statement();
-			const dataModel = await async_statement_execute_select<ClipboardEntry>(
+			const [stmt] = this._connection.parse_sql_string(sql);
+			const datamodel = await async_statement_execute_select<ClipboardEntry>(
 				this._Gda,
 				this._connection,
 				stmt,
 				this._cancellable,
 			);
 
-			const entries: ClipboardEntry[] = [];
-			const iter = dataModel.create_iter();
+			const ids: number[] = [];
+			const iter = datamodel.create_iter();
 			while (iter.move_next()) {
-				const id = iter.get_value_for_field('id');
-				const type = iter.get_value_for_field('type');
-				const content = unescapeContent(iter.get_value_for_field('content'));
-				const pinned = iter.get_value_for_field('pinned');
-				const tag = iter.get_value_for_field('tag');
-				let datetime = iter.get_value_for_field('datetime');
-				const metadata = iter.get_value_for_field('metadata') as string | null;
-
-				if ('Timestamp' in this._Gda && datetime instanceof this._Gda.Timestamp) {
-					const timezone = GLib.TimeZone.new_offset(datetime.timezone);
-					datetime = GLib.DateTime.new(
-						timezone,
-						datetime.year,
-						datetime.month,
-						datetime.day,
-						datetime.hour,
-						datetime.minute,
-						datetime.second,
-					);
-				}
-
-				let metadataObj: Metadata | null = null;
-				if (metadata) {
-					try {
-						const json = JSON.parse(metadata) as object | null;
-						if (json) {
-							metadataObj = json as Metadata;
-						}
-					} catch {
-						this.ext.logger.error('Failed to parse metadata');
-					}
-				}
+				ids.push(iter.get_value_for_field('id'));
+			}
 
-				entries.push(new ClipboardEntry(id, type, content, pinned, tag, datetime, metadataObj));
+			// The in-memory search index can not be used in a query
+			if (query.length > 0 && this._index) {
+				const matches = new Set(this._index.search(query));
+				return ids.filter((id) => matches.has(id));
 			}
 
-			return entries;
+			return ids;
 		} catch (e) {
-			this.ext.logger.error('Failed to get clipboard entries', e);
+			this.ext.logger.error('Failed to search entries', e);
 		}
 
-		return [];
+		return null;
 	}
 
-	public async selectConflict(entry: ClipboardEntry | { type: ItemType; content: string }): Promise<number | null> {
+	public async collections(): Promise<Collection[]> {
 		try {
-			// SELECT id FROM table WHERE type == entry.type AND content == entry.content LIMIT 1
-			const builder = new this._Gda.SqlBuilder({ stmt_type: this._Gda.SqlStatementType.SELECT });
-			builder.select_add_target('clipboard', null);
-			builder.select_add_field('id', null, null);
-			builder.set_where(
-				builder.add_cond(
-					this._Gda.SqlOperatorType.AND,
-					builder.add_cond(
-						this._Gda.SqlOperatorType.EQ,
-						builder.add_id('type'),
-						add_expr_value(builder, entry.type),
-						0,
-					),
-					builder.add_cond(
-						this._Gda.SqlOperatorType.EQ,
-						builder.add_id('content'),
-						add_expr_value(builder, entry.content),
-						0,
-					),
-					0,
-				),
-			);
-			builder.select_set_limit(add_expr_value(builder, 1), add_expr_value(builder, 0));
-
-			// Get id
-			const stmt = builder.get_statement();
-			const datamodel = await async_statement_execute_select<ClipboardEntry>(
+			// SELECT id, name, color, icon FROM collection
+			const [stmt] = this._connection.parse_sql_string(`SELECT id, name, color, icon FROM 'collection'`);
+			const datamodel = await async_statement_execute_select<Collection>(
 				this._Gda,
 				this._connection,
 				stmt,
 				this._cancellable,
 			);
+
+			const collections: Collection[] = [];
 			const iter = datamodel.create_iter();
-			if (iter.move_next()) {
-				return iter.get_value_for_field('id');
+			while (iter.move_next()) {
+				collections.push(
+					new Collection(
+						iter.get_value_for_field('id'),
+						unescapeContent(iter.get_value_for_field('name')),
+						iter.get_value_for_field('color'),
+						iter.get_value_for_field('icon'),
+					),
+				);
 			}
 
-			return null;
+			return collections;
 		} catch (e) {
-			this.ext.logger.error('Failed to select conflicting entry', e);
+			this.ext.logger.error('Failed to get collections', e);
 		}
 
-		return null;
+		return [];
 	}
 
-	/// Note: content will be inserted incorrectly into the database since libgda escapes sqlite incorrectly
-	public async insert(
-		type: ItemType,
-		content: string,
-		metadata: Metadata | null = null,
-	): Promise<ClipboardEntry | null> {
+	public async insertCollection(name: string, color: Tag, icon: string): Promise<Collection | null> {
+		const release = await this.acquireWrite();
 		try {
-			// INSERT INTO table (type, content, pinned, tag, datetime, metadata)
-			// VALUES (entry.type, entry.content, entry.pinned, entry.tag, entry.datetime, entry.metadata)
+			// INSERT INTO collection (name, color, icon) VALUES (name, color, icon)
 			const builder = new this._Gda.SqlBuilder({
 				stmt_type: this._Gda.SqlStatementType.INSERT,
-			}) as SqlBuilder<ClipboardEntry>;
-			builder.set_table('clipboard');
-			builder.add_field_value_as_gvalue('type', type);
-			// NOTE: content will be inserted incorrectly
-			builder.add_field_value_as_gvalue('content', content);
-			builder.add_field_value_as_gvalue('pinned', false);
-			const datetime = GLib.DateTime.new_now_utc();
-			builder.add_field_value_as_gvalue('datetime', convert_datetime(datetime));
-			if (metadata) builder.add_field_value_as_gvalue('metadata', JSON.stringify(metadata));
+			}) as SqlBuilder<Collection>;
+			builder.set_table('collection');
+			builder.add_field_value_as_gvalue('name', name);
+			builder.add_field_value_as_gvalue('color', color);
+			builder.add_field_value_as_gvalue('icon', icon);
 
-			// Execute
 			const stmt = builder.get_statement();
 			const [, row] = await async_statement_execute_non_select(
 				this._Gda,
@@ -754,75 +2702,60 @@ export class GdaDatabase implements Database {
 			const id = row?.get_nth_holder(0).get_value() as unknown as number;
 			if (id == null) return null;
 
-			return new ClipboardEntry(id, type, content, false, null, datetime, metadata);
+			return new Collection(id, name, color, icon);
 		} catch (e) {
-			this.ext.logger.error('Failed to insert entry', e);
+			this.ext.logger.error('Failed to insert collection', e);
+		} finally {
+			release();
 		}
 
 		return null;
 	}
 
-	public async updateProperty(
-		entry: ClipboardEntry,
-		property: Exclude<keyof ClipboardEntry, keyof GObject.Object>,
-	): Promise<number> {
+	public async updateCollection(collection: Collection): Promise<void> {
+		const release = await this.acquireWrite();
 		try {
-			let value = entry[property] ?? 'NULL';
-			if (property === 'metadata') value = JSON.stringify(entry[property]);
-			else if (property === 'datetime') value = convert_datetime(entry[property]);
-
-			// UPDATE table
-			// SET property = entry.property
-			// WHERE id == entry.id
+			// UPDATE collection
+			// SET name = collection.name, color = collection.color, icon = collection.icon
+			// WHERE id == collection.id
 			const builder = new this._Gda.SqlBuilder({
 				stmt_type: this._Gda.SqlStatementType.UPDATE,
-			}) as SqlBuilder<ClipboardEntry>;
-			builder.set_table('clipboard');
-			builder.add_field_value_as_gvalue(property, value);
+			}) as SqlBuilder<Collection>;
+			builder.set_table('collection');
+			builder.add_field_value_as_gvalue('name', collection.name);
+			builder.add_field_value_as_gvalue('color', collection.color);
+			builder.add_field_value_as_gvalue('icon', collection.icon);
 			builder.set_where(
 				builder.add_cond(
 					this._Gda.SqlOperatorType.EQ,
 					builder.add_id('id'),
-					add_expr_value(builder, entry.id),
+					add_expr_value(builder, collection.id),
 					0,
 				),
 			);
 
-			// Escape the null value since the bindings for Gda5 do not support Gda.Null
-			const stmt = unescape_sql(this._connection, builder);
-
-			const [rows] = await async_statement_execute_non_select(
-				this._Gda,
-				this._connection,
-				stmt,
-				this._cancellable,
-			);
-			if (rows !== -1 || (property !== 'type' && property !== 'content')) {
-				return -1; // success
-			}
-
-			// Return the id of the conflicting entry
-			const id = await this.selectConflict(entry);
-			return id ?? -1;
+			const stmt = builder.get_statement();
+			await async_statement_execute_non_select(this._Gda, this._connection, stmt, this._cancellable);
 		} catch (e) {
-			this.ext.logger.error(`Failed to update property "${property}" for entry ${entry.id}`, e);
+			this.ext.logger.error(`Failed to update collection ${collection.id}`, e);
+		} finally {
+			release();
 		}
-
-		return -1;
 	}
 
-	public async delete(entry: ClipboardEntry): Promise<void> {
+	public async deleteCollection(collection: Collection): Promise<void> {
+		const release = await this.acquireWrite();
 		try {
-			// DELETE FROM table WHERE id == entry.id
+			// DELETE FROM collection WHERE id == collection.id
 			const builder = new this._Gda.SqlBuilder({
 				stmt_type: this._Gda.SqlStatementType.DELETE,
-			}) as SqlBuilder<ClipboardEntry>;
-			builder.set_table('clipboard');
+			}) as SqlBuilder<Collection>;
+			builder.set_table('collection');
 			builder.set_where(
 				builder.add_cond(
 					this._Gda.SqlOperatorType.EQ,
 					builder.add_id('id'),
-					add_expr_value(builder, entry.id),
+					add_expr_value(builder, collection.id),
 					0,
 				),
 			);
@@ -830,78 +2763,265 @@ export class GdaDatabase implements Database {
 			const stmt = builder.get_statement();
 			await async_statement_execute_non_select(this._Gda, this._connection, stmt, this._cancellable);
 		} catch (e) {
-			this.ext.logger.error(`Failed to delete entry ${entry.id}`, e);
+			this.ext.logger.error(`Failed to delete collection ${collection.id}`, e);
+		} finally {
+			release();
 		}
 	}
 
-	public async deleteOldest(offset: number, olderThanMinutes: number): Promise<number[]> {
+	public async snapshot(entry: ClipboardEntry): Promise<MimeSnapshot | null> {
 		try {
-			// WITH select1 AS (...) (SELECT id FROM select1) UNION (select2)
-			const selectBuilder = new this._Gda.SqlBuilder({
-				stmt_type: this._Gda.SqlStatementType.COMPOUND,
-			}) as SqlBuilder<ClipboardEntry>;
-			selectBuilder.compound_set_type(this._Gda.SqlStatementCompoundType.UNION);
+			// SELECT mimetype, data FROM clipboard_mime WHERE entry == entry.id ORDER BY rowid
+			const [stmt] = this._connection.parse_sql_string(
+				`SELECT mimetype, data FROM 'clipboard_mime' WHERE entry = ${entry.id} ORDER BY rowid`,
+			);
+			const datamodel = await async_statement_execute_select<MimeRow>(
+				this._Gda,
+				this._connection,
+				stmt,
+				this._cancellable,
+			);
 
-			// SELECT id FROM table WHERE NOT (pinned == true OR tag IS NOT NULL) ORDER BY datetime LIMIT -1 OFFSET offset
-			const [select1Builder] = this.selectToDeleteBuilder();
-			select1Builder.select_order_by(select1Builder.add_id('datetime'), false, null);
-			select1Builder.select_set_limit(add_expr_value(select1Builder, -1), add_expr_value(select1Builder, offset));
+			const snapshot: MimeSnapshot = new Map();
+			const iter = datamodel.create_iter();
+			while (iter.move_next()) {
+				snapshot.set(
+					unescapeContent(iter.get_value_for_field('mimetype')),
+					this.decodeBytes(iter.get_value_for_field('data')),
+				);
+			}
 
-			// SELECT id FROM table WHERE NOT (pinned == true OR tag IS NOT NULL) AND datetime < DATETIME('now', '-n minutes')
-			let selectStmt: Gda.Statement;
-			if (olderThanMinutes > 0) {
-				// Workaround for ORDER BY not working inside compound selector and add_subselect not being exposed in Gda 5.0
-				const workAroundBuilder = new this._Gda.SqlBuilder({ stmt_type: this._Gda.SqlStatementType.SELECT });
-				workAroundBuilder.select_add_field('id', null, null);
-				workAroundBuilder.select_add_target('select1', null);
-				selectBuilder.compound_add_sub_select_from_builder(workAroundBuilder);
+			return snapshot.size > 0 ? snapshot : null;
+		} catch (e) {
+			this.ext.logger.error(`Failed to get snapshot of entry ${entry.id}`, e);
+		}
 
-				const [select2Builder] = this.selectToDeleteBuilder(true, olderThanMinutes);
-				selectBuilder.compound_add_sub_select_from_builder(select2Builder as Gda.SqlBuilder);
+		return null;
+	}
 
-				// SELECT id FROM (SELECT id FROM table WHERE ...)
-				const select1Sql = this._connection.statement_to_sql(select1Builder.get_statement(), null, null)[0];
-				const selectSql = this._connection.statement_to_sql(selectBuilder.get_statement(), null, null)[0];
-				selectStmt = this._connection.parse_sql_string(selectSql.replace('select1', `(${select1Sql})`))[0];
-			} else {
-				// Ignore compound selector
-				selectStmt = select1Builder.get_statement();
+	public async insertSnapshot(entry: ClipboardEntry, snapshot: MimeSnapshot): Promise<void> {
+		const release = await this.acquireWrite();
+		try {
+			// DELETE FROM clipboard_mime WHERE entry == entry.id
+			await this.execute(`DELETE FROM 'clipboard_mime' WHERE entry = ${entry.id}`);
+
+			for (const [mimetype, data] of snapshot) {
+				// INSERT INTO clipboard_mime (entry, mimetype, data) VALUES (entry.id, mimetype, data)
+				const builder = new this._Gda.SqlBuilder({
+					stmt_type: this._Gda.SqlStatementType.INSERT,
+				}) as SqlBuilder<MimeRow>;
+				builder.set_table('clipboard_mime');
+				builder.add_field_value_as_gvalue('entry', entry.id);
+				builder.add_field_value_as_gvalue('mimetype', mimetype);
+				builder.add_field_value_as_gvalue('data', this.encodeBytes(data));
+
+				// eslint-disable-next-line no-await-in-loop
+				await async_statement_execute_non_select(
+					this._Gda,
+					this._connection,
+					builder.get_statement(),
+					this._cancellable,
+				);
 			}
+		} catch (e) {
+			this.ext.logger.error(`Failed to insert snapshot of entry ${entry.id}`, e);
+		} finally {
+			release();
+		}
+	}
 
-			// Run select
-			const datamodel = await async_statement_execute_select<ClipboardEntry>(
-				this._Gda,
-				this._connection,
-				selectStmt,
-				this._cancellable,
-			);
+	public async deleteSnapshot(entry: ClipboardEntry): Promise<void> {
+		const release = await this.acquireWrite();
+		try {
+			// DELETE FROM clipboard_mime WHERE entry == entry.id
+			await this.execute(`DELETE FROM 'clipboard_mime' WHERE entry = ${entry.id}`);
+		} catch (e) {
+			this.ext.logger.error(`Failed to delete snapshot of entry ${entry.id}`, e);
+		} finally {
+			release();
+		}
+	}
 
-			// DELETE FROM table WHERE id IN (select)
-			// add_subselect is not exposed as a javascript binding in Gda 5.0
-			const selectSql = this._connection.statement_to_sql(selectStmt, selectStmt.get_parameters()[1], null)[0];
-			const [deleteStmt] = this._connection.parse_sql_string(`DELETE FROM clipboard WHERE id IN (${selectSql})`);
-			const [rows] = await async_statement_execute_non_select(
-				this._Gda,
-				this._connection,
-				deleteStmt,
-				this._cancellable,
-			);
+	public async updateEntries(updates: EntryUpdate[], deletions: ClipboardEntry[]): Promise<void> {
+		await this.exclusive(async () => {
+			this._connection.begin_transaction(null, this._Gda.TransactionIsolation.UNKNOWN);
+			try {
+				for (const [entry, property] of updates) {
+					// eslint-disable-next-line no-await-in-loop
+					await this.storeProperty(entry, property);
+				}
 
-			// Get ids
-			const deleted: number[] = [];
-			if (rows > 0) {
-				const iter = datamodel.create_iter();
-				while (iter.move_next()) {
-					deleted.push(iter.get_value_for_field('id'));
+				for (const entry of deletions) {
+					// eslint-disable-next-line no-await-in-loop
+					await this.deleteEntry(entry);
+				}
+
+				this._connection.commit_transaction(null);
+			} catch (e) {
+				try {
+					this._connection.rollback_transaction(null);
+				} catch (err) {
+					this.ext.logger.error('Failed to roll back transaction', err);
 				}
+
+				throw e;
 			}
+		});
+	}
 
-			return deleted;
+	/**
+	 * Runs changes once the exclusive changes queued before them and all writes are finished. Writes that are acquired
+	 * while the changes are queued or running wait until they are finished.
+	 * @param changes The changes to run
+	 */
+	private exclusive<T>(changes: () => Promise<T>): Promise<T> {
+		// Queue the changes without awaiting anything, so that two changes can never claim the connection at once
+		const previous = this._transaction ?? Promise.resolve();
+		const result = previous.then(async () => {
+			// Writes that were acquired before the changes were queued must not become part of them
+			await Promise.all(this._writes);
+			return await changes();
+		});
+
+		const finished: Promise<void> = result.then(
+			() => this.finishExclusive(finished),
+			() => this.finishExclusive(finished),
+		);
+		this._transaction = finished;
+
+		return result;
+	}
+
+	private finishExclusive(finished: Promise<void>) {
+		// Only release the lock if no other exclusive changes were queued in the meantime
+		if (this._transaction === finished) this._transaction = null;
+	}
+
+	/**
+	 * Waits until the queued exclusive changes are finished and registers a write
+	 * @returns A function that marks the write as finished
+	 */
+	private async acquireWrite(): Promise<() => void> {
+		// Check and register the write without awaiting anything in between
+		while (this._transaction) {
+			// eslint-disable-next-line no-await-in-loop
+			await this._transaction;
+		}
+
+		let release!: () => void;
+		const write = new Promise<void>((resolve) => {
+			release = resolve;
+		});
+		this._writes.add(write);
+
+		return () => {
+			this._writes.delete(write);
+			release();
+		};
+	}
+
+	private searchStatement(query: string): Gda.Statement {
+		if (!this._searchIndex) {
+			// SELECT id FROM clipboard WHERE type != 'Image' AND content LIKE %query% ESCAPE '!'
+			const builder = new this._Gda.SqlBuilder({
+				stmt_type: this._Gda.SqlStatementType.SELECT,
+			}) as SqlBuilder<ClipboardEntry>;
+			builder.select_add_field('id', null, null);
+			builder.select_add_target('clipboard', null);
+			builder.set_where(
+				builder.add_cond(
+					this._Gda.SqlOperatorType.AND,
+					builder.add_cond(
+						this._Gda.SqlOperatorType.DIFF,
+						builder.add_id('type'),
+						add_expr_value(builder, ItemType.Image),
+						0,
+					),
+					add_contains_cond(builder, builder.add_id('content'), query),
+					0,
+				),
+			);
+			return builder.get_statement();
+		}
+
+		// SELECT rowid FROM clipboard_fts WHERE ...
+		const builder = new this._Gda.SqlBuilder({
+			stmt_type: this._Gda.SqlStatementType.SELECT,
+		}) as SqlBuilder<SearchIndexRow>;
+		builder.select_add_field('rowid', null, null);
+		builder.select_add_target('clipboard_fts', null);
+
+		if (query.length >= 3) {
+			// WHERE clipboard_fts = "query"
+			// The trigram tokenizer matches phrases as substrings
+			const phrase = `"${query.replace(/"/g, '""')}"`;
+			builder.set_where(
+				builder.add_cond(
+					this._Gda.SqlOperatorType.EQ,
+					(builder as Gda.SqlBuilder).add_id('clipboard_fts'),
+					add_expr_value(builder, phrase),
+					0,
+				),
+			);
+		} else {
+			// WHERE content LIKE %query% ESCAPE '!' OR title LIKE %query% ESCAPE '!' OR ...
+			// Queries shorter than a trigram can not use the index
+			const conditions = (['content', 'title', 'description'] as const).map((field) =>
+				add_contains_cond(builder, builder.add_id(field), query),
+			);
+			builder.set_where(conditions.reduce((a, b) => builder.add_cond(this._Gda.SqlOperatorType.OR, a, b, 0)));
+		}
+
+		return builder.get_statement();
+	}
+
+	private async indexEntry(id: number, type: ItemType, content: string, metadata: Metadata | null) {
+		if (this._index) {
+			this._index.add(id, searchableText(type, content, metadata));
+			return;
+		}
+
+		if (!this._searchIndex) return;
+
+		await this.unindexEntries([id]);
+
+		const text = searchableText(type, content, metadata);
+		if (text === null) return;
+
+		try {
+			// INSERT INTO clipboard_fts (rowid, content, title, description)
+			// VALUES (id, content, title, description)
+			const [indexedContent, title, description] = text;
+			const builder = new this._Gda.SqlBuilder({
+				stmt_type: this._Gda.SqlStatementType.INSERT,
+			}) as SqlBuilder<SearchIndexRow>;
+			builder.set_table('clipboard_fts');
+			builder.add_field_value_as_gvalue('rowid', id);
+			builder.add_field_value_as_gvalue('content', indexedContent ?? '');
+			builder.add_field_value_as_gvalue('title', title ?? '');
+			builder.add_field_value_as_gvalue('description', description ?? '');
+
+			const stmt = builder.get_statement();
+			await async_statement_execute_non_select(this._Gda, this._connection, stmt, this._cancellable);
 		} catch (e) {
-			this.ext.logger.error('Failed to delete oldest entries', e);
+			this.ext.logger.error(`Failed to index entry ${id}`, e);
 		}
+	}
 
-		return [];
+	private async unindexEntries(ids: number[]) {
+		if (this._index) {
+			ids.forEach((id) => this._index?.remove(id));
+			return;
+		}
+
+		if (!this._searchIndex || ids.length === 0) return;
+
+		try {
+			// DELETE FROM clipboard_fts WHERE rowid IN (ids)
+			await this.execute(`DELETE FROM clipboard_fts WHERE rowid IN (${ids.join(', ')})`);
+		} catch (e) {
+			this.ext.logger.error('Failed to remove entries from search index', e);
+		}
 	}
 
 	private selectToDeleteBuilder(
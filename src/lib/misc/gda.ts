@@ -65,6 +65,20 @@ export function add_expr_value(builder: Gda5.SqlBuilder | Gda6.SqlBuilder | SqlB
 	}
 }
 
+/**
+ * Adds a condition that matches when a field contains text. The wildcards of LIKE in the text are escaped.
+ */
+export function add_contains_cond(
+	builder: Gda5.SqlBuilder | SqlBuilder<unknown>,
+	field: Gda5.SqlBuilderId,
+	text: string,
+): Gda5.SqlBuilderId {
+	// like(pattern, value, escape) is equivalent to value LIKE pattern ESCAPE escape in SQLite
+	// Gda escapes backslashes when converting values to sql, so '!' is used as escape character
+	const pattern = `%${text.replace(/[!%_]/g, '!$&')}%`;
+	return builder.add_function('like', [add_expr_value(builder, pattern), field, add_expr_value(builder, '!')]);
+}
+
 export function convert_datetime(datetime: GLib.DateTime): string {
 	return datetime.to_utc()!.format('%Y-%m-%d %H:%M:%S')!;
 }
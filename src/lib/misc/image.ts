@@ -0,0 +1,295 @@
+import Cairo from 'cairo';
+import GdkPixbuf from 'gi://GdkPixbuf';
+import Gio from 'gi://Gio';
+
+import { ImageFormat } from '../common/actions.js';
+
+export class ImageError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'ImageError';
+	}
+}
+
+/** Colors of annotations */
+export const AnnotationColors = ['#e62d42', '#c88800', '#3a944a', '#3584e4', '#000000', '#ffffff'] as const;
+
+export type AnnotationColor = (typeof AnnotationColors)[number];
+
+export const EditType = {
+	Crop: 'crop',
+	Rotate: 'rotate',
+	Flip: 'flip',
+	Scale: 'scale',
+	Blur: 'blur',
+	Arrow: 'arrow',
+	Rectangle: 'rectangle',
+	Text: 'text',
+} as const;
+
+export type EditType = (typeof EditType)[keyof typeof EditType];
+
+export interface Rect {
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+}
+
+/**
+ * An edit of an image, coordinates are in pixels of the image
+ */
+export type ImageEdit =
+	| { type: (typeof EditType)['Crop']; rect: Rect }
+	| { type: (typeof EditType)['Rotate']; clockwise: boolean }
+	| { type: (typeof EditType)['Flip']; horizontal: boolean }
+	| { type: (typeof EditType)['Scale']; width: number; height: number }
+	| { type: (typeof EditType)['Blur']; rect: Rect }
+	| { type: (typeof EditType)['Arrow']; x1: number; y1: number; x2: number; y2: number; color: AnnotationColor }
+	| { type: (typeof EditType)['Rectangle']; rect: Rect; color: AnnotationColor }
+	| { type: (typeof EditType)['Text']; x: number; y: number; text: string; color: AnnotationColor };
+
+export type Annotation = Extract<ImageEdit, { color: AnnotationColor }>;
+
+/**
+ * Creates a rectangle from two corners
+ */
+export function rectFromPoints(x1: number, y1: number, x2: number, y2: number): Rect {
+	return { x: Math.min(x1, x2), y: Math.min(y1, y2), width: Math.abs(x2 - x1), height: Math.abs(y2 - y1) };
+}
+
+/**
+ * Rounds a rectangle to whole pixels and clamps it to the bounds of an image
+ * @returns The clamped rectangle or null if it does not cover any pixels of the image
+ */
+function clampRect(rect: Rect, pixbuf: GdkPixbuf.Pixbuf): Rect | null {
+	const x = Math.clamp(Math.round(rect.x), 0, pixbuf.width);
+	const y = Math.clamp(Math.round(rect.y), 0, pixbuf.height);
+	const width = Math.clamp(Math.round(rect.x + rect.width), 0, pixbuf.width) - x;
+	const height = Math.clamp(Math.round(rect.y + rect.height), 0, pixbuf.height) - y;
+	return width > 0 && height > 0 ? { x, y, width, height } : null;
+}
+
+/**
+ * The line width of annotations relative to the size of the image
+ */
+export function strokeWidth(width: number, height: number): number {
+	return Math.max(2, Math.round(Math.min(width, height) / 250));
+}
+
+/**
+ * The font size of text annotations relative to the size of the image
+ */
+export function fontSize(width: number, height: number): number {
+	return Math.max(14, Math.round(Math.min(width, height) / 30));
+}
+
+function setSourceColor(cr: Cairo.Context, color: AnnotationColor) {
+	const [r, g, b] = [1, 3, 5].map((i) => parseInt(color.slice(i, i + 2), 16) / 255);
+	cr.setSourceRGBA(r!, g!, b!, 1);
+}
+
+/**
+ * Draws an annotation
+ * @param cr The context to draw on, in coordinates of the image
+ * @param annotation The annotation
+ * @param width The width of the image
+ * @param height The height of the image
+ */
+export function drawAnnotation(cr: Cairo.Context, annotation: Annotation, width: number, height: number) {
+	const lineWidth = strokeWidth(width, height);
+
+	cr.save();
+	cr.setAntialias(Cairo.Antialias.BEST);
+	cr.setLineWidth(lineWidth);
+	cr.setLineCap(Cairo.LineCap.ROUND);
+	cr.setLineJoin(Cairo.LineJoin.ROUND);
+	setSourceColor(cr, annotation.color);
+
+	switch (annotation.type) {
+		case EditType.Arrow: {
+			const { x1, y1, x2, y2 } = annotation;
+			const angle = Math.atan2(y2 - y1, x2 - x1);
+			const head = lineWidth * 4 + 4;
+
+			// Stop the line before the tip so that it does not stick out of the head
+			cr.moveTo(x1, y1);
+			cr.lineTo(x2 - Math.cos(angle) * head * 0.8, y2 - Math.sin(angle) * head * 0.8);
+			cr.stroke();
+
+			cr.moveTo(x2, y2);
+			cr.lineTo(x2 - head * Math.cos(angle - Math.PI / 6), y2 - head * Math.sin(angle - Math.PI / 6));
+			cr.lineTo(x2 - head * Math.cos(angle + Math.PI / 6), y2 - head * Math.sin(angle + Math.PI / 6));
+			cr.closePath();
+			cr.fill();
+			break;
+		}
+		case EditType.Rectangle: {
+			const { x, y, width: w, height: h } = annotation.rect;
+			cr.rectangle(x, y, w, h);
+			cr.stroke();
+			break;
+		}
+		case EditType.Text: {
+			const size = fontSize(width, height);
+			cr.selectFontFace('Sans', Cairo.FontSlant.NORMAL, Cairo.FontWeight.BOLD);
+			cr.setFontSize(size);
+
+			// The position is the top left corner of the text
+			cr.moveTo(annotation.x, annotation.y + size);
+			cr.showText(annotation.text);
+			break;
+		}
+	}
+
+	cr.restore();
+}
+
+/**
+ * Blurs a region so that its content can not be recognized
+ */
+function blur(pixbuf: GdkPixbuf.Pixbuf, rect: Rect): GdkPixbuf.Pixbuf {
+	const region = clampRect(rect, pixbuf);
+	if (!region) return pixbuf;
+
+	// Averaging blocks of pixels removes the detail, smoothing the blocks hides their edges
+	const block = Math.max(12, Math.round(Math.max(pixbuf.width, pixbuf.height) / 100));
+	const small = pixbuf
+		.new_subpixbuf(region.x, region.y, region.width, region.height)
+		.scale_simple(
+			Math.max(1, Math.round(region.width / block)),
+			Math.max(1, Math.round(region.height / block)),
+			GdkPixbuf.InterpType.TILES,
+		);
+	const blurred = small?.scale_simple(region.width, region.height, GdkPixbuf.InterpType.BILINEAR);
+	const result = pixbuf.copy();
+	if (!blurred || !result) throw new ImageError('Failed to blur image');
+
+	blurred.copy_area(0, 0, region.width, region.height, result, region.x, region.y);
+	return result;
+}
+
+/**
+ * Draws an annotation on a copy of an image
+ */
+function annotate(pixbuf: GdkPixbuf.Pixbuf, annotation: Annotation): GdkPixbuf.Pixbuf {
+	// Cairo can only exchange images with GdkPixbuf through png files
+	const [file, stream] = Gio.file_new_tmp('copyous-XXXXXX.png');
+	stream.close(null);
+
+	const path = file.get_path()!;
+	try {
+		pixbuf.savev(path, 'png', [], []);
+		const surface = Cairo.ImageSurface.createFromPNG(path);
+		const cr = new Cairo.Context(surface);
+		drawAnnotation(cr, annotation, pixbuf.width, pixbuf.height);
+		cr.$dispose();
+		surface.writeToPNG(path);
+
+		return GdkPixbuf.Pixbuf.new_from_file(path);
+	} finally {
+		file.delete(null);
+	}
+}
+
+/**
+ * Loads an image for editing
+ * @param file The image
+ */
+export function loadImage(file: Gio.File): GdkPixbuf.Pixbuf {
+	const pixbuf = GdkPixbuf.Pixbuf.new_from_file(file.get_path()!);
+
+	// Editing is done with an alpha channel so that every edit has the same pixel format
+	const image = pixbuf.apply_embedded_orientation()?.add_alpha(false, 0, 0, 0);
+	if (!image) throw new ImageError('Failed to load image');
+	return image;
+}
+
+/**
+ * Applies an edit to an image, the image itself is not modified
+ * @param pixbuf The image
+ * @param edit The edit
+ * @returns The edited image
+ */
+export function applyEdit(pixbuf: GdkPixbuf.Pixbuf, edit: ImageEdit): GdkPixbuf.Pixbuf {
+	let result: GdkPixbuf.Pixbuf | null;
+	switch (edit.type) {
+		case EditType.Crop: {
+			const rect = clampRect(edit.rect, pixbuf);
+			if (!rect) return pixbuf;
+			result = pixbuf.new_subpixbuf(rect.x, rect.y, rect.width, rect.height).copy();
+			break;
+		}
+		case EditType.Rotate:
+			result = pixbuf.rotate_simple(
+				edit.clockwise ? GdkPixbuf.PixbufRotation.CLOCKWISE : GdkPixbuf.PixbufRotation.COUNTERCLOCKWISE,
+			);
+			break;
+		case EditType.Flip:
+			result = pixbuf.flip(edit.horizontal);
+			break;
+		case EditType.Scale:
+			result = pixbuf.scale_simple(
+				Math.max(1, Math.round(edit.width)),
+				Math.max(1, Math.round(edit.height)),
+				GdkPixbuf.InterpType.HYPER,
+			);
+			break;
+		case EditType.Blur:
+			return blur(pixbuf, edit.rect);
+		default:
+			return annotate(pixbuf, edit);
+	}
+
+	if (!result) throw new ImageError(`Failed to ${edit.type} image`);
+	return result;
+}
+
+/**
+ * Encodes an image as png
+ * @param pixbuf The image
+ */
+export function encodePng(pixbuf: GdkPixbuf.Pixbuf): Uint8Array {
+	const [success, data] = pixbuf.save_to_bufferv('png', [], []);
+	if (!success) throw new ImageError('Failed to encode image');
+	return data;
+}
+
+/**
+ * Converts an image to another format
+ * @param file The image
+ * @param format The format to convert to
+ * @param quality The quality of jpeg and webp images from 0 to 100
+ * @param maxSize The maximum width and height in pixels, larger images are scaled down. 0 keeps the size
+ * @returns The converted image and its mime type
+ */
+export function convertImage(
+	file: Gio.File,
+	format: ImageFormat,
+	quality: number,
+	maxSize: number,
+): [data: Uint8Array, mimetype: string] {
+	const writable = GdkPixbuf.Pixbuf.get_formats().some((f) => f.get_name() === format && f.is_writable());
+	if (!writable) throw new ImageError(`Saving ${format} images is not supported`);
+
+	let pixbuf: GdkPixbuf.Pixbuf | null = GdkPixbuf.Pixbuf.new_from_file(file.get_path()!);
+	pixbuf = pixbuf.apply_embedded_orientation() ?? pixbuf;
+
+	const scale = maxSize > 0 ? Math.min(1, maxSize / Math.max(pixbuf.width, pixbuf.height)) : 1;
+	const width = Math.max(1, Math.round(pixbuf.width * scale));
+	const height = Math.max(1, Math.round(pixbuf.height * scale));
+	if (format === ImageFormat.Jpeg && pixbuf.has_alpha) {
+		// Jpeg does not support transparency, so transparent pixels become white
+		pixbuf = pixbuf.composite_color_simple(width, height, GdkPixbuf.InterpType.HYPER, 255, 8, 0xffffff, 0xffffff);
+	} else if (scale < 1) {
+		pixbuf = pixbuf.scale_simple(width, height, GdkPixbuf.InterpType.HYPER);
+	}
+	if (!pixbuf) throw new ImageError('Failed to scale image');
+
+	const options: [string[], string[]] =
+		format === ImageFormat.Png ? [[], []] : [['quality'], [`${Math.clamp(Math.round(quality), 0, 100)}`]];
+	const [success, data] = pixbuf.save_to_bufferv(format, ...options);
+	if (!success) throw new ImageError(`Failed to convert image to ${format}`);
+
+	return [data, `image/${format}`];
+}
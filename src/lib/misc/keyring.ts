@@ -0,0 +1,155 @@
+import GLib from 'gi://GLib';
+import type Secret from 'gi://Secret';
+
+import { KeyLength } from './crypto.js';
+
+const SchemaName = 'dev.boerdereinar.copyous';
+
+export const KeyPurpose = {
+	/** The key the clipboard history is encrypted with */
+	Current: 'database-key',
+	/** A new key that replaces the current key once the clipboard history is re-encrypted */
+	Pending: 'database-key-pending',
+} as const;
+
+export type KeyPurpose = (typeof KeyPurpose)[keyof typeof KeyPurpose];
+
+/**
+ * Stores the encryption key of the clipboard history in the default keyring
+ */
+export class Keyring {
+	private readonly _Secret: typeof Secret;
+	private readonly _schema: Secret.Schema;
+	private _collection: Secret.Collection | null = null;
+	private _lockedId: number = -1;
+
+	private constructor(secret: typeof Secret) {
+		this._Secret = secret;
+		this._schema = new secret.Schema(SchemaName, secret.SchemaFlags.NONE, {
+			purpose: secret.SchemaAttributeType.STRING,
+		});
+	}
+
+	/**
+	 * Loads libsecret
+	 * @returns The keyring or null if libsecret is not installed
+	 */
+	public static async load(): Promise<Keyring | null> {
+		try {
+			const secret = (await import('gi://Secret')).default;
+			return new Keyring(secret);
+		} catch {
+			return null;
+		}
+	}
+
+	/**
+	 * Checks whether the default keyring is locked
+	 */
+	public async isLocked(): Promise<boolean> {
+		this._collection ??= await new Promise<Secret.Collection | null>((resolve, reject) => {
+			this._Secret.Collection.for_alias(
+				null,
+				this._Secret.COLLECTION_DEFAULT,
+				this._Secret.CollectionFlags.NONE,
+				null,
+				(_source, result) => {
+					try {
+						resolve(this._Secret.Collection.for_alias_finish(result));
+					} catch (e) {
+						reject(e as Error);
+					}
+				},
+			);
+		});
+
+		return this._collection?.locked ?? false;
+	}
+
+	/**
+	 * Calls a function once when the default keyring is unlocked
+	 * @param callback The function to call
+	 */
+	public connectUnlocked(callback: () => void) {
+		if (!this._collection || this._lockedId >= 0) return;
+
+		this._lockedId = this._collection.connect('notify::locked', () => {
+			if (this._collection?.locked) return;
+
+			this.disconnectUnlocked();
+			callback();
+		});
+	}
+
+	private disconnectUnlocked() {
+		if (this._lockedId >= 0) this._collection?.disconnect(this._lockedId);
+		this._lockedId = -1;
+	}
+
+	/**
+	 * Looks up a key
+	 * @param purpose The purpose of the key
+	 * @returns The key or null if the keyring does not contain the key
+	 */
+	public lookupKey(purpose: KeyPurpose = KeyPurpose.Current): Promise<Uint8Array | null> {
+		return new Promise((resolve, reject) => {
+			this._Secret.password_lookup(this._schema, { purpose }, null, (_source, result) => {
+				try {
+					const password = this._Secret.password_lookup_finish(result);
+					const key = password ? GLib.base64_decode(password) : null;
+					resolve(key?.length === KeyLength ? key : null);
+				} catch (e) {
+					reject(e as Error);
+				}
+			});
+		});
+	}
+
+	/**
+	 * Stores a key, replacing the key with the same purpose
+	 * @param key The key
+	 * @param purpose The purpose of the key
+	 */
+	public storeKey(key: Uint8Array, purpose: KeyPurpose = KeyPurpose.Current): Promise<void> {
+		return new Promise((resolve, reject) => {
+			this._Secret.password_store(
+				this._schema,
+				{ purpose },
+				this._Secret.COLLECTION_DEFAULT,
+				'Copyous clipboard history encryption key',
+				GLib.base64_encode(key),
+				null,
+				(_source, result) => {
+					try {
+						this._Secret.password_store_finish(result);
+						resolve();
+					} catch (e) {
+						reject(e as Error);
+					}
+				},
+			);
+		});
+	}
+
+	/**
+	 * Removes a key
+	 * @param purpose The purpose of the key
+	 */
+	public clearKey(purpose: KeyPurpose = KeyPurpose.Current): Promise<void> {
+		return new Promise((resolve, reject) => {
+			this._Secret.password_clear(this._schema, { purpose }, null, (_source, result) => {
+				try {
+					this._Secret.password_clear_finish(result);
+					resolve();
+				} catch (e) {
+					reject(e as Error);
+				}
+			});
+		});
+	}
+
+	public destroy() {
+		this.disconnectUnlocked();
+		this._collection = null;
+	}
+}
@@ -0,0 +1,144 @@
+/**
+ * Range of a match in characters
+ */
+export interface MatchRange {
+	start: number;
+	end: number;
+}
+
+export interface FuzzyMatch {
+	score: number;
+	ranges: MatchRange[];
+}
+
+const MatchScore = 16;
+const ConsecutiveBonus = 8;
+const BoundaryBonus = 8;
+const GapPenalty = 1;
+
+function fold(char: string): string {
+	return char
+		.normalize('NFKD')
+		.replace(/\p{Diacritic}/gu, '')
+		.toLocaleLowerCase();
+}
+
+function isBoundary(text: string, i: number): boolean {
+	if (i === 0) return true;
+
+	const prev = text[i - 1]!;
+	const char = text[i]!;
+	if (!/[\p{L}\p{N}]/u.test(prev)) return true;
+
+	// camelCase
+	return prev === prev.toLocaleLowerCase() && char !== char.toLocaleLowerCase();
+}
+
+/**
+ * Merges sorted character positions into ranges.
+ * @param positions The sorted positions.
+ */
+function toRanges(positions: number[]): MatchRange[] {
+	const ranges: MatchRange[] = [];
+	for (const i of positions) {
+		const last = ranges[ranges.length - 1];
+		if (last && last.end === i) {
+			last.end++;
+		} else {
+			ranges.push({ start: i, end: i + 1 });
+		}
+	}
+	return ranges;
+}
+
+/**
+ * Matches a pattern as a subsequence of the text, ignoring case and accents.
+ *
+ * The match is found greedily and then tightened by matching backwards from the end of the match. Consecutive
+ * characters and characters at the start of a word score higher, while gaps between characters are penalized.
+ *
+ * @param text The text to match against.
+ * @param pattern The pattern to match.
+ * @returns The score and the matched ranges, or null if the pattern is not a subsequence of the text.
+ */
+export function fuzzyMatch(text: string, pattern: string): FuzzyMatch | null {
+	const chars = Array.from(pattern, fold).filter((c) => c.length > 0);
+	if (chars.length === 0) return { score: 0, ranges: [] };
+
+	// Find the end of the first match
+	let j = 0;
+	let end = -1;
+	for (let i = 0; i < text.length; i++) {
+		if (fold(text[i]!) === chars[j]) {
+			j++;
+			if (j === chars.length) {
+				end = i;
+				break;
+			}
+		}
+	}
+	if (end < 0) return null;
+
+	// Match backwards to find the shortest match ending at the same position
+	const positions: number[] = [];
+	j = chars.length - 1;
+	for (let i = end; i >= 0 && j >= 0; i--) {
+		if (fold(text[i]!) === chars[j]) {
+			positions.unshift(i);
+			j--;
+		}
+	}
+
+	let score = 0;
+	for (const [k, i] of positions.entries()) {
+		score += MatchScore;
+		if (isBoundary(text, i)) score += BoundaryBonus;
+
+		const prev = positions[k - 1];
+		if (prev === undefined) continue;
+
+		if (prev === i - 1) score += ConsecutiveBonus;
+		else score -= (i - prev - 1) * GapPenalty;
+	}
+
+	return { score, ranges: toRanges(positions) };
+}
+
+/**
+ * Finds the ranges of a text that match a regular expression.
+ * @param text The text to match against.
+ * @param regex The regular expression.
+ */
+export function regexRanges(text: string, regex: RegExp): MatchRange[] {
+	const global = new RegExp(regex.source, regex.flags.includes('g') ? regex.flags : regex.flags + 'g');
+	const ranges: MatchRange[] = [];
+	for (const match of text.matchAll(global)) {
+		// Skip empty matches
+		if (match[0].length === 0) continue;
+
+		ranges.push({ start: match.index, end: match.index + match[0].length });
+	}
+	return ranges;
+}
+
+/**
+ * Finds the ranges of a text that contain a query, ignoring case and accents.
+ * @param text The text to search in.
+ * @param query The query to search for.
+ */
+export function localeRanges(text: string, query: string): MatchRange[] {
+	const collator = new Intl.Collator(undefined, { sensitivity: 'base' });
+	const ranges: MatchRange[] = [];
+	if (query.length === 0) return ranges;
+
+	let offset = 0;
+	while (offset <= text.length - query.length) {
+		if (collator.compare(text.substring(offset, offset + query.length), query) === 0) {
+			ranges.push({ start: offset, end: offset + query.length });
+			offset += query.length;
+		} else {
+			offset++;
+		}
+	}
+	return ranges;
+}
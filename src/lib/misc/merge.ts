@@ -0,0 +1,50 @@
+import Gio from 'gi://Gio';
+
+import { ItemType } from '../common/constants.js';
+
+export const MergeSeparator = {
+	Newline: 0,
+	Space: 1,
+	Comma: 2,
+	Custom: 3,
+} as const;
+
+export type MergeSeparator = (typeof MergeSeparator)[keyof typeof MergeSeparator];
+
+/**
+ * Checks whether entries of a type can be merged.
+ * @param type The type of the entries.
+ */
+export function canMerge(type: ItemType): boolean {
+	return (
+		type === ItemType.Text ||
+		type === ItemType.RichText ||
+		type === ItemType.Code ||
+		type === ItemType.Link ||
+		type === ItemType.Character ||
+		type === ItemType.Color
+	);
+}
+
+/**
+ * Gets the text that is inserted between merged entries. Custom separators can contain \n and \t escapes.
+ * @param settings The settings of the extension.
+ */
+export function mergeSeparator(settings: Gio.Settings): string {
+	switch (settings.get_enum('merge-separator') as MergeSeparator) {
+		case MergeSeparator.Newline:
+			return '\n';
+		case MergeSeparator.Space:
+			return ' ';
+		case MergeSeparator.Comma:
+			return ', ';
+		case MergeSeparator.Custom:
+			return settings.get_string('merge-custom-separator').replace(/\\([nt\\])/g, (_match, c: string) => {
+				if (c === 'n') return '\n';
+				if (c === 't') return '\t';
+				return '\\';
+			});
+		default:
+			return '\n';
+	}
+}
@@ -0,0 +1,98 @@
+import Gio from 'gi://Gio';
+
+export interface Migration {
+	version: number;
+	description: string;
+	statements: string[];
+}
+
+/**
+ * Ordered migration steps of the clipboard database.
+ *
+ * Migrations must never be changed once released, new changes to the schema require a new migration.
+ */
+export const Migrations: Migration[] = [
+	{
+		version: 1,
+		description: 'Create clipboard table',
+		statements: [
+			`CREATE TABLE IF NOT EXISTS 'clipboard' (
+				'id'       integer   NOT NULL UNIQUE PRIMARY KEY AUTOINCREMENT,
+				'type'     text      NOT NULL,
+				'content'  text      NOT NULL,
+				'pinned'   boolean   NOT NULL,
+				'tag'      text,
+				'datetime' timestamp NOT NULL,
+				'metadata' text,
+				UNIQUE ('type', 'content')
+			);`,
+		],
+	},
+	{
+		version: 2,
+		description: 'Add source application',
+		statements: [`ALTER TABLE 'clipboard' ADD COLUMN 'source' text;`],
+	},
+	{
+		version: 3,
+		description: 'Add sensitive flag',
+		statements: [`ALTER TABLE 'clipboard' ADD COLUMN 'sensitive' boolean NOT NULL DEFAULT 0;`],
+	},
+	{
+		version: 4,
+		description: 'Add expiration date',
+		statements: [`ALTER TABLE 'clipboard' ADD COLUMN 'expires' timestamp;`],
+	},
+	{
+		version: 5,
+		description: 'Add encryption key check',
+		statements: [`CREATE TABLE 'encryption' ('key_check' text NOT NULL);`],
+	},
+	{
+		version: 6,
+		description: 'Add collections',
+		statements: [
+			`CREATE TABLE 'collection' (
+				'id'    integer NOT NULL UNIQUE PRIMARY KEY AUTOINCREMENT,
+				'name'  text    NOT NULL,
+				'color' text    NOT NULL,
+				'icon'  text    NOT NULL
+			);`,
+			`CREATE TABLE 'clipboard_collection' (
+				'entry'      integer NOT NULL REFERENCES 'clipboard' ('id') ON DELETE CASCADE,
+				'collection' integer NOT NULL REFERENCES 'collection' ('id') ON DELETE CASCADE,
+				PRIMARY KEY ('entry', 'collection')
+			);`,
+		],
+	},
+	{
+		version: 7,
+		description: 'Add templates',
+		statements: [`ALTER TABLE 'clipboard' ADD COLUMN 'template' boolean NOT NULL DEFAULT 0;`],
+	},
+	{
+		version: 8,
+		description: 'Add mime type snapshots',
+		statements: [
+			`CREATE TABLE 'clipboard_mime' (
+				'entry'    integer NOT NULL REFERENCES 'clipboard' ('id') ON DELETE CASCADE,
+				'mimetype' text    NOT NULL,
+				'data'     text    NOT NULL,
+				PRIMARY KEY ('entry', 'mimetype')
+			);`,
+		],
+	},
+];
+
+export const SchemaVersion = Migrations[Migrations.length - 1]!.version;
+
+export class MigrationError extends Error {
+	constructor(
+		readonly migration: Migration,
+		readonly backup: Gio.File | null,
+		options?: ErrorOptions,
+	) {
+		super(`Failed to migrate database to version ${migration.version}: ${migration.description}`, options);
+		this.name = 'MigrationError';
+	}
+}
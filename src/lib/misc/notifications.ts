@@ -16,6 +16,7 @@ import { Icon, loadIcon } from '../common/icons.js';
 import { normalizeIndentation, trim } from '../ui/components/label.js';
 import { commonDirectory } from '../ui/items/filesItem.js';
 import { ClipboardEntry } from './db.js';
+import { maskText } from './sensitive.js';
 
 @registerClass()
 export class NotificationManager extends GObject.Object {
@@ -54,6 +55,23 @@ export class NotificationManager extends GObject.Object {
 		source.addNotification(notification);
 	}
 
+	public exportNotification(count: number, file: Gio.File) {
+		const source = this.source;
+		const notification = new MessageTray.Notification({
+			source,
+			title: ngettext('Exported %d Item', 'Exported %d Items', count).format(count),
+			body: file.get_path() ?? file.get_uri(),
+			gicon: loadIcon(this.ext, Icon.Folder),
+		});
+
+		const parent = file.get_parent();
+		if (parent) {
+			notification.addAction(_('Open Folder'), () => Gio.AppInfo.launch_default_for_uri(parent.get_uri(), null));
+		}
+
+		source.addNotification(notification);
+	}
+
 	public textNotification(text: string) {
 		if (!this.ext.settings.get_boolean('send-notification')) return;
 
@@ -113,6 +131,11 @@ export class NotificationManager extends GObject.Object {
 			case ItemType.Text:
 				title = _('Copied Text');
 				gicon = loadIcon(this.ext, Icon.Text);
+				if (entry.sensitive) body = maskText(body);
+				break;
+			case ItemType.RichText:
+				title = _('Copied Rich Text');
+				gicon = loadIcon(this.ext, Icon.RichText);
 				break;
 			case ItemType.Code:
 				title = _('Copied Code');
@@ -0,0 +1,189 @@
+import Clutter from 'gi://Clutter';
+import GLib from 'gi://GLib';
+import GObject from 'gi://GObject';
+import Meta from 'gi://Meta';
+import Shell from 'gi://Shell';
+
+import * as Main from 'resource:///org/gnome/shell/ui/main.js';
+
+import type CopyousExtension from '../../extension.js';
+import { int32ParamSpec, registerClass } from '../common/gjs.js';
+import { ClipboardEntry } from './db.js';
+
+const PasteAccelerator = '<Control>v';
+
+// Pasting injects Shift+Insert, which is not a paste while other modifiers are still held
+const PasteModifiers =
+	Clutter.ModifierType.SHIFT_MASK |
+	Clutter.ModifierType.CONTROL_MASK |
+	Clutter.ModifierType.MOD1_MASK |
+	Clutter.ModifierType.SUPER_MASK;
+const ReleaseInterval = 50;
+const ReleaseTimeout = 10000;
+
+@registerClass({
+	Properties: {
+		length: int32ParamSpec('length', GObject.ParamFlags.READABLE, 0),
+	},
+})
+export class PasteQueue extends GObject.Object {
+	private _entries: ClipboardEntry[] = [];
+	private _action: number = Meta.KeyBindingAction.NONE;
+	private _requested: number = 0;
+	private _pasting: boolean = false;
+	private _releaseId: number = -1;
+	private _released: ((released: boolean) => void) | null = null;
+
+	constructor(private ext: CopyousExtension) {
+		super();
+
+		global.display.connectObject(
+			'accelerator-activated',
+			(_display: Meta.Display, action: number) => {
+				if (action === this._action) this.next().catch(this.ext.logger.error.bind(this.ext.logger));
+			},
+			this,
+		);
+		this.ext.settings.connectObject('changed::paste-queue-intercept-paste', () => this.updateGrab(), this);
+	}
+
+	get length(): number {
+		return this._entries.length;
+	}
+
+	/**
+	 * Adds entries to the end of the queue
+	 * @param entries The entries to add
+	 */
+	public push(entries: ClipboardEntry[]) {
+		for (const entry of entries) {
+			if (this._entries.includes(entry)) continue;
+
+			this._entries.push(entry);
+			entry.connectObject('delete', () => this.remove(entry), this);
+		}
+
+		this.changed();
+	}
+
+	/**
+	 * Pastes the first entry of the queue once the modifiers are released and removes it. The entry stays queued if it
+	 * could not be pasted.
+	 */
+	public async next() {
+		this._requested++;
+		if (this._pasting) return;
+
+		this._pasting = true;
+		try {
+			while (this._requested > 0) {
+				// eslint-disable-next-line no-await-in-loop
+				if (!(await this.waitForRelease())) break;
+
+				const entry = this._entries[0];
+				if (!entry) break;
+
+				// eslint-disable-next-line no-await-in-loop
+				if (!(await this.ext.clipboardManager?.pasteEntry(entry, true))) break;
+
+				this._requested--;
+				this.remove(entry);
+			}
+		} finally {
+			this._requested = 0;
+			this._pasting = false;
+		}
+	}
+
+	public clear() {
+		for (const entry of this._entries) {
+			entry.disconnectObject(this);
+		}
+
+		this._entries = [];
+		this.changed();
+	}
+
+	public destroy() {
+		this.cancelRelease();
+		this.clear();
+
+		global.display.disconnectObject(this);
+		this.ext.settings.disconnectObject(this);
+	}
+
+	private remove(entry: ClipboardEntry) {
+		const index = this._entries.indexOf(entry);
+		if (index < 0) return;
+
+		this._entries.splice(index, 1);
+		entry.disconnectObject(this);
+		this.changed();
+	}
+
+	/**
+	 * Waits until the modifiers are released
+	 * @returns Whether the modifiers were released before the timeout
+	 */
+	private waitForRelease(): Promise<boolean> {
+		this.cancelRelease();
+		if (!this.modifiersHeld()) return Promise.resolve(true);
+
+		return new Promise((resolve) => {
+			this._released = resolve;
+
+			let elapsed = 0;
+			this._releaseId = GLib.timeout_add(GLib.PRIORITY_DEFAULT, ReleaseInterval, () => {
+				elapsed += ReleaseInterval;
+				const held = this.modifiersHeld();
+				if (held && elapsed < ReleaseTimeout) return GLib.SOURCE_CONTINUE;
+
+				this._releaseId = -1;
+				this.finishRelease(!held);
+				return GLib.SOURCE_REMOVE;
+			});
+		});
+	}
+
+	private modifiersHeld(): boolean {
+		const [, , modifiers] = global.get_pointer();
+		return (modifiers & PasteModifiers) !== 0;
+	}
+
+	private finishRelease(released: boolean) {
+		const callback = this._released;
+		this._released = null;
+		callback?.(released);
+	}
+
+	private cancelRelease() {
+		if (this._releaseId >= 0) GLib.source_remove(this._releaseId);
+		this._releaseId = -1;
+		this.finishRelease(false);
+	}
+
+	private changed() {
+		this.notify('length');
+		this.updateGrab();
+	}
+
+	/**
+	 * Grabs the paste shortcut while the queue is not empty, so that pasting pastes the next queued entry
+	 */
+	private updateGrab() {
+		const grab = this._entries.length > 0 && this.ext.settings.get_boolean('paste-queue-intercept-paste');
+		const grabbed = this._action !== Meta.KeyBindingAction.NONE;
+		if (grab === grabbed) return;
+
+		if (grab) {
+			this._action = global.display.grab_accelerator(PasteAccelerator, Meta.KeyBindingFlags.NONE);
+			if (this._action !== Meta.KeyBindingAction.NONE) {
+				Main.wm.allowKeybinding(Meta.external_binding_name_for_action(this._action), Shell.ActionMode.NORMAL);
+			}
+		} else {
+			Main.wm.allowKeybinding(Meta.external_binding_name_for_action(this._action), Shell.ActionMode.NONE);
+			global.display.ungrab_accelerator(this._action);
+			this._action = Meta.KeyBindingAction.NONE;
+		}
+	}
+}
@@ -0,0 +1,115 @@
+import GLib from 'gi://GLib';
+import GObject from 'gi://GObject';
+
+import type CopyousExtension from '../../extension.js';
+import { ItemType } from '../common/constants.js';
+import { registerClass } from '../common/gjs.js';
+import { ClipboardEntry, Metadata, SourceApp } from './db.js';
+
+/**
+ * History of the primary selection, which is kept in memory separate from the clipboard history
+ */
+@registerClass({
+	Signals: {
+		'entry-added': {
+			param_types: [ClipboardEntry.$gtype],
+		},
+	},
+})
+export class PrimaryHistory extends GObject.Object {
+	// Newest entries first
+	private _entries: ClipboardEntry[] = [];
+	// Counts down from the largest id so that the ids never collide with the ids of the clipboard history
+	private _id: number = 2147483647;
+
+	constructor(private ext: CopyousExtension) {
+		super();
+
+		this.ext.settings.connectObject(
+			'changed::primary-history',
+			() => {
+				if (!this.ext.settings.get_boolean('primary-history')) this.clear();
+			},
+			'changed::primary-history-length',
+			this.trim.bind(this),
+			this,
+		);
+	}
+
+	/**
+	 * The entries of the primary selection history
+	 */
+	get entries(): ClipboardEntry[] {
+		return [...this._entries];
+	}
+
+	/**
+	 * Checks whether an entry belongs to the primary selection history
+	 * @param entry The entry
+	 */
+	public has(entry: ClipboardEntry): boolean {
+		return this._entries.includes(entry);
+	}
+
+	/**
+	 * Adds an entry to the primary selection history
+	 * @param type The type of the entry
+	 * @param content The content of the entry
+	 * @param metadata The metadata of the entry
+	 * @param source The application the entry was selected in
+	 * @returns The added entry or null if the entry is already in the history
+	 */
+	public add(
+		type: ItemType,
+		content: string,
+		metadata: Metadata | null = null,
+		source: SourceApp | null = null,
+	): ClipboardEntry | null {
+		// Selecting the same text again moves it to the front
+		const existing = this._entries.find((e) => e.type === type && e.content === content);
+		if (existing) {
+			this._entries.splice(this._entries.indexOf(existing), 1);
+			this._entries.unshift(existing);
+			existing.datetime = GLib.DateTime.new_now_utc();
+			return null;
+		}
+
+		const entry = new ClipboardEntry(
+			this._id--,
+			type,
+			content,
+			false,
+			null,
+			GLib.DateTime.new_now_utc(),
+			metadata,
+			source,
+		);
+		entry.connect('delete', () => {
+			const i = this._entries.indexOf(entry);
+			if (i >= 0) this._entries.splice(i, 1);
+		});
+
+		this._entries.unshift(entry);
+		this.trim();
+		this.emit('entry-added', entry);
+
+		return entry;
+	}
+
+	/**
+	 * Deletes all entries
+	 */
+	public clear() {
+		for (const entry of [...this._entries]) entry.emit('delete');
+	}
+
+	private trim() {
+		const length = this.ext.settings.get_int('primary-history-length');
+		for (const entry of this._entries.slice(length)) entry.emit('delete');
+	}
+
+	public destroy() {
+		this.ext.settings.disconnectObject(this);
+		this._entries = [];
+	}
+}
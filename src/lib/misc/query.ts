@@ -0,0 +1,231 @@
+import GLib from 'gi://GLib';
+
+import { ItemType, ItemTypes, Tag, Tags } from '../common/constants.js';
+
+export type QueryTerm =
+	| { kind: 'text'; text: string }
+	| { kind: 'type'; type: ItemType }
+	| { kind: 'tag'; tag: Tag }
+	| { kind: 'pinned' }
+	| { kind: 'tagged' }
+	| { kind: 'template' }
+	| { kind: 'lang'; language: string }
+	| { kind: 'app'; app: string }
+	| { kind: 'before'; datetime: GLib.DateTime }
+	| { kind: 'after'; datetime: GLib.DateTime };
+
+export interface QueryNode {
+	term: QueryTerm;
+	negated: boolean;
+	/** Start of the token in characters */
+	start: number;
+	/** End of the token in characters */
+	end: number;
+}
+
+/**
+ * Range of an invalid token in characters
+ */
+export interface QueryError {
+	start: number;
+	end: number;
+}
+
+/**
+ * Parsed search query in disjunctive normal form, i.e. any clause must match and all nodes in a clause must match.
+ */
+export interface ParsedQuery {
+	clauses: QueryNode[][];
+	errors: QueryError[];
+}
+
+interface Token {
+	raw: string;
+	start: number;
+	end: number;
+}
+
+/**
+ * Splits the text into tokens separated by whitespace, whitespace inside quotes is kept.
+ * @param text The text to tokenize.
+ */
+function tokenize(text: string): Token[] {
+	const tokens: Token[] = [];
+	let i = 0;
+	while (i < text.length) {
+		if (/\s/.test(text[i]!)) {
+			i++;
+			continue;
+		}
+
+		const start = i;
+		let quoted = false;
+		while (i < text.length && (quoted || !/\s/.test(text[i]!))) {
+			if (text[i] === '"') quoted = !quoted;
+			i++;
+		}
+
+		tokens.push({ raw: text.substring(start, i), start, end: i });
+	}
+
+	return tokens;
+}
+
+function unquote(value: string): string {
+	return value.length >= 2 && value.startsWith('"') && value.endsWith('"') ? value.slice(1, -1) : value;
+}
+
+/**
+ * Parses a date filter value.
+ * @param value An ISO 8601 date, e.g. 2026-01-01, or a relative time, e.g. 30m, 12h, 7d or 2w.
+ * @param now The current time.
+ * @returns The parsed date or null if the value is invalid.
+ */
+function parseDate(value: string, now: GLib.DateTime): GLib.DateTime | null {
+	const relative = value.match(/^(\d+)([mhdw])$/);
+	if (relative) {
+		const n = parseInt(relative[1]!, 10);
+		switch (relative[2]) {
+			case 'm':
+				return now.add_minutes(-n);
+			case 'h':
+				return now.add_hours(-n);
+			case 'd':
+				return now.add_days(-n);
+			case 'w':
+				return now.add_weeks(-n);
+		}
+	}
+
+	const date = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+	if (date) {
+		const [year, month, day] = date.slice(1).map((s) => parseInt(s, 10));
+		return GLib.DateTime.new_local(year!, month!, day!, 0, 0, 0);
+	}
+
+	return GLib.DateTime.new_from_iso8601(value, GLib.TimeZone.new_local());
+}
+
+function parseFilter(key: string, value: string, now: GLib.DateTime): QueryTerm | null {
+	const lower = value.toLowerCase();
+	switch (key) {
+		case 'type': {
+			const type = ItemTypes.find((t) => t.toLowerCase() === lower);
+			return type ? { kind: 'type', type } : null;
+		}
+		case 'tag': {
+			const tag = Tags.find((t) => t === lower);
+			return tag ? { kind: 'tag', tag } : null;
+		}
+		case 'is':
+			if (lower === 'pinned') return { kind: 'pinned' };
+			if (lower === 'tagged') return { kind: 'tagged' };
+			if (lower === 'template') return { kind: 'template' };
+			return null;
+		case 'lang':
+			return { kind: 'lang', language: lower };
+		case 'app':
+			return { kind: 'app', app: value };
+		case 'before':
+		case 'after': {
+			const datetime = parseDate(value, now);
+			return datetime ? { kind: key, datetime } : null;
+		}
+		default:
+			return null;
+	}
+}
+
+const FilterKeys = ['type', 'tag', 'is', 'lang', 'app', 'before', 'after'];
+
+/**
+ * Parses a search query.
+ *
+ * Supported syntax:
+ * - `word` and `"quoted phrase"` match text
+ * - `type:code`, `tag:red`, `is:pinned`, `is:tagged`, `is:template`, `lang:python` and `app:firefox` match properties
+ * - `before:2026-01-01` and `after:7d` match the date of an entry
+ * - `-term` negates a term
+ * - `a OR b` matches either side, terms are combined with AND otherwise
+ *
+ * @param text The search query.
+ * @param now The time relative dates are resolved against.
+ * @returns The parsed query. Invalid tokens are reported as errors and ignored.
+ */
+export function parseQuery(text: string, now: GLib.DateTime = GLib.DateTime.new_now_local()): ParsedQuery {
+	const clauses: QueryNode[][] = [[]];
+	const errors: QueryError[] = [];
+
+	const tokens = tokenize(text);
+	for (const [i, token] of tokens.entries()) {
+		const { raw, start, end } = token;
+
+		// OR operator
+		if (raw === 'OR') {
+			const previous = tokens[i - 1];
+			const next = tokens[i + 1];
+			if (previous === undefined || next === undefined || previous.raw === 'OR' || next.raw === 'OR') {
+				errors.push({ start, end });
+			} else {
+				clauses.push([]);
+			}
+			continue;
+		}
+
+		// Negation
+		const negated = raw.length > 1 && raw.startsWith('-');
+		const value = negated ? raw.substring(1) : raw;
+
+		// Unclosed quote
+		if ((value.match(/"/g)?.length ?? 0) % 2 !== 0) {
+			errors.push({ start, end });
+			continue;
+		}
+
+		// Filter
+		const filter = value.match(/^([a-z]+):(.*)$/i);
+		if (filter && FilterKeys.includes(filter[1]!.toLowerCase())) {
+			const term = parseFilter(filter[1]!.toLowerCase(), unquote(filter[2]!), now);
+			if (term) {
+				clauses[clauses.length - 1]!.push({ term, negated, start, end });
+			} else {
+				errors.push({ start, end });
+			}
+			continue;
+		}
+
+		// Text
+		const phrase = unquote(value);
+		if (phrase.length > 0) {
+			clauses[clauses.length - 1]!.push({ term: { kind: 'text', text: phrase }, negated, start, end });
+		}
+	}
+
+	return { clauses: clauses.filter((clause) => clause.length > 0), errors };
+}
+
+/**
+ * Gets the distinct text terms of a query.
+ * @param query The parsed query.
+ */
+export function textTerms(query: ParsedQuery): string[] {
+	const terms = query.clauses.flat().flatMap((node) => (node.term.kind === 'text' ? [node.term.text] : []));
+	return [...new Set(terms)];
+}
+
+/**
+ * Gets the text terms of a query if it only consists of non-negated text terms combined with AND.
+ * @param query The parsed query.
+ * @returns The text terms or null if the query contains other terms.
+ */
+export function simpleTerms(query: ParsedQuery): string[] | null {
+	if (query.clauses.length > 1) return null;
+
+	const terms: string[] = [];
+	for (const node of query.clauses[0] ?? []) {
+		if (node.negated || node.term.kind !== 'text') return null;
+		terms.push(node.term.text);
+	}
+
+	return terms;
+}
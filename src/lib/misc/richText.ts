@@ -0,0 +1,166 @@
+import GLib from 'gi://GLib';
+
+import { decodeHtml } from '../common/transform.js';
+
+/** Elements that are removed together with their content */
+const HiddenElements = /<(script|style|head|title|template)\b[^>]*>[\s\S]*?<\/\1\s*>/gi;
+
+/** Elements that start on a new line */
+const BlockElements = new Set([
+	'address',
+	'article',
+	'aside',
+	'blockquote',
+	'dd',
+	'div',
+	'dl',
+	'dt',
+	'figcaption',
+	'figure',
+	'footer',
+	'h1',
+	'h2',
+	'h3',
+	'h4',
+	'h5',
+	'h6',
+	'header',
+	'hr',
+	'li',
+	'ol',
+	'p',
+	'pre',
+	'section',
+	'table',
+	'tr',
+	'ul',
+]);
+
+/** Pango markup of the formatting elements, other elements are dropped */
+const FormattingElements: Record<string, [open: string, close: string]> = {
+	b: ['<b>', '</b>'],
+	strong: ['<b>', '</b>'],
+	i: ['<i>', '</i>'],
+	em: ['<i>', '</i>'],
+	cite: ['<i>', '</i>'],
+	var: ['<i>', '</i>'],
+	u: ['<u>', '</u>'],
+	ins: ['<u>', '</u>'],
+	a: ['<u>', '</u>'],
+	s: ['<s>', '</s>'],
+	strike: ['<s>', '</s>'],
+	del: ['<s>', '</s>'],
+	code: ['<tt>', '</tt>'],
+	kbd: ['<tt>', '</tt>'],
+	samp: ['<tt>', '</tt>'],
+	tt: ['<tt>', '</tt>'],
+	pre: ['<tt>', '</tt>'],
+	sub: ['<sub>', '</sub>'],
+	sup: ['<sup>', '</sup>'],
+	small: ['<small>', '</small>'],
+	big: ['<big>', '</big>'],
+	h1: ['<span weight="bold" size="x-large">', '</span>'],
+	h2: ['<span weight="bold" size="large">', '</span>'],
+	h3: ['<b>', '</b>'],
+	h4: ['<b>', '</b>'],
+	h5: ['<b>', '</b>'],
+	h6: ['<b>', '</b>'],
+};
+
+/**
+ * Converts HTML to plain text or to Pango markup. Only formatting that Pango supports is kept, everything else
+ * such as attributes, styles, scripts and images is dropped.
+ * @param html The HTML.
+ * @param markup Whether to create Pango markup.
+ */
+function convertHtml(html: string, markup: boolean): string {
+	const output: string[] = [];
+	const open: string[] = [];
+	let pre = 0;
+	let lineStart = true;
+
+	const newline = () => {
+		if (!lineStart) output.push('\n');
+		lineStart = true;
+	};
+
+	const tokens = html
+		.replace(HiddenElements, '')
+		.matchAll(/<!--[\s\S]*?-->|<(\/?)([a-z][a-z0-9]*)\b[^>]*>|<[^>]*>|[^<]+/gi);
+	for (const [token, closing, name] of tokens) {
+		// Text
+		if (!token.startsWith('<')) {
+			let text = decodeHtml(token);
+			if (pre === 0) text = text.replace(/\s+/g, ' ');
+			if (pre === 0 && lineStart) text = text.trimStart();
+			if (text.length === 0) continue;
+
+			output.push(markup ? GLib.markup_escape_text(text, -1) : text);
+			lineStart = text.endsWith('\n');
+			continue;
+		}
+
+		// Comments, doctypes and processing instructions
+		if (!name) continue;
+
+		const tag = name.toLowerCase();
+		if (tag === 'br') {
+			output.push('\n');
+			lineStart = true;
+			continue;
+		}
+
+		if (BlockElements.has(tag)) newline();
+		if (tag === 'pre') pre = Math.max(pre + (closing ? -1 : 1), 0);
+		if (tag === 'li' && !closing) {
+			output.push('• ');
+			lineStart = false;
+		}
+		if ((tag === 'td' || tag === 'th') && closing) output.push('\t');
+
+		const element = Object.hasOwn(FormattingElements, tag) ? FormattingElements[tag] : undefined;
+		if (!markup || !element) continue;
+
+		if (closing) {
+			// Close the element and the elements that were not closed inside of it
+			const i = open.lastIndexOf(tag);
+			if (i < 0) continue;
+			for (const t of open.splice(i).reverse()) output.push(FormattingElements[t]![1]);
+		} else {
+			open.push(tag);
+			output.push(element[0]);
+		}
+	}
+
+	for (const t of open.reverse()) output.push(FormattingElements[t]![1]);
+
+	return output
+		.join('')
+		.replace(/[ \t]+\n/g, '\n')
+		.replace(/\n{3,}/g, '\n\n')
+		.replace(/^\s+|\s+$/g, '');
+}
+
+/**
+ * Extracts the text of HTML.
+ * @param html The HTML.
+ */
+export function htmlToText(html: string): string {
+	return convertHtml(html, false);
+}
+
+/**
+ * Converts HTML to sanitized Pango markup.
+ * @param html The HTML.
+ */
+export function htmlToMarkup(html: string): string {
+	return convertHtml(html, true);
+}
+
+/**
+ * Checks whether HTML contains formatting that is kept by {@link htmlToMarkup}.
+ * @param html The HTML.
+ */
+export function hasFormatting(html: string): boolean {
+	return htmlToMarkup(html) !== GLib.markup_escape_text(htmlToText(html), -1);
+}
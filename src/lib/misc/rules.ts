@@ -0,0 +1,92 @@
+import GLib from 'gi://GLib';
+import Gio from 'gi://Gio';
+
+import { gettext as _ } from 'resource:///org/gnome/shell/extensions/extension.js';
+
+import type CopyousExtension from '../../extension.js';
+import { ActionConfig, CaptureRule, findActionById, loadConfig } from '../common/actions.js';
+import { getActionsConfigPath } from '../common/constants.js';
+import { PipelineError, isRewriteAction, runAction } from '../common/pipeline.js';
+
+/**
+ * Keeps track of the capture rules in the action configuration and runs their actions.
+ */
+export class CaptureRules {
+	private _config: ActionConfig;
+	private _monitor: Gio.FileMonitor;
+	private _tokens: Gio.Cancellable[] = [];
+
+	constructor(private ext: CopyousExtension) {
+		this._config = loadConfig(ext);
+
+		this._monitor = getActionsConfigPath(ext).monitor(Gio.FileMonitorFlags.NONE, null);
+		this._monitor.connect('changed', (_source, _file, _otherFile, eventType) => {
+			if (eventType === Gio.FileMonitorEvent.CHANGES_DONE_HINT) {
+				this._config = loadConfig(ext);
+			}
+		});
+	}
+
+	/**
+	 * The rules in the order they are applied.
+	 */
+	public get rules(): CaptureRule[] {
+		return this._config.rules ?? [];
+	}
+
+	/**
+	 * Rewrites the content of an item with the action of a rule.
+	 * @param rule The rule.
+	 * @param content The content of the item.
+	 * @returns The rewritten content or null if the rule has no action or the action failed.
+	 */
+	public async rewrite(rule: CaptureRule, content: string): Promise<string | null> {
+		if (!rule.action) return null;
+
+		const action = findActionById(this._config, rule.action);
+		if (!action || !isRewriteAction(action)) {
+			this.ext.logger.error(`${rule.name}: No action with id "${rule.action}"`);
+			return null;
+		}
+
+		const token = this.createToken();
+		try {
+			const output = await runAction(this._config, action, content, token);
+			return output.trim().length > 0 ? output : null;
+		} catch (e) {
+			this.ext.logger.error(`${rule.name}:`, e);
+			if (e instanceof PipelineError && !token.is_cancelled()) {
+				this.ext.notificationManager?.warning(_('Failed to Run %s').format(rule.name), e.message);
+			}
+			return null;
+		} finally {
+			token.cancel();
+		}
+	}
+
+	/**
+	 * Creates a cancellable that is cancelled after 30 seconds or when the rules are destroyed
+	 */
+	private createToken(): Gio.Cancellable {
+		const token = new Gio.Cancellable();
+		this._tokens.push(token);
+		let timeoutId = GLib.timeout_add_seconds(GLib.PRIORITY_HIGH, 30, () => {
+			timeoutId = -1;
+			token.cancel();
+			return GLib.SOURCE_REMOVE;
+		});
+
+		token.connect(() => {
+			if (timeoutId >= 0) GLib.source_remove(timeoutId);
+			const i = this._tokens.indexOf(token);
+			if (i >= 0) this._tokens.splice(i, 1);
+		});
+
+		return token;
+	}
+
+	public destroy() {
+		this._tokens.forEach((t) => t.cancel());
+		this._monitor.cancel();
+	}
+}
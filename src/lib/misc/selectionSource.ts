@@ -0,0 +1,56 @@
+import GLib from 'gi://GLib';
+import Gio from 'gi://Gio';
+import Meta from 'gi://Meta';
+
+import { registerClass } from '../common/gjs.js';
+
+/**
+ * A selection source that offers the same content in several mime types, unlike
+ * {@link Meta.SelectionSourceMemory} which offers a single mime type.
+ */
+@registerClass()
+export class MultiMimeSelectionSource extends Meta.SelectionSource {
+	private readonly _contents: Map<string, Uint8Array>;
+	private readonly _streams: Map<Gio.AsyncResult, Gio.InputStream> = new Map();
+
+	/**
+	 * @param contents The content of every mime type in the order of preference.
+	 */
+	constructor(contents: Map<string, Uint8Array>) {
+		super();
+
+		this._contents = contents;
+	}
+
+	override vfunc_get_mimetypes(): string[] {
+		return [...this._contents.keys()];
+	}
+
+	override vfunc_read_async(
+		mimetype: string,
+		cancellable: Gio.Cancellable | null,
+		callback: Gio.AsyncReadyCallback<this> | null,
+	): void {
+		const task = Gio.Task.new(this, cancellable, callback);
+
+		const content = this._contents.get(mimetype);
+		if (!content) {
+			task.return_error(
+				new GLib.Error(Gio.IOErrorEnum, Gio.IOErrorEnum.NOT_FOUND, `Mime type ${mimetype} is not offered`),
+			);
+			return;
+		}
+
+		this._streams.set(task, Gio.MemoryInputStream.new_from_bytes(new GLib.Bytes(content)));
+		task.return_boolean(true);
+	}
+
+	override vfunc_read_finish(result: Gio.AsyncResult): Gio.InputStream {
+		const stream = this._streams.get(result);
+		this._streams.delete(result);
+
+		(result as Gio.Task).propagate_boolean();
+		if (!stream) throw new GLib.Error(Gio.IOErrorEnum, Gio.IOErrorEnum.FAILED, 'No stream was read');
+		return stream;
+	}
+}
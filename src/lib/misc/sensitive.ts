@@ -0,0 +1,193 @@
+export const SensitiveContentPolicy = {
+	Save: 0,
+	Skip: 1,
+	Mask: 2,
+	Delete: 3,
+} as const;
+
+export type SensitiveContentPolicy = (typeof SensitiveContentPolicy)[keyof typeof SensitiveContentPolicy];
+
+export const SecretDetector = {
+	ApiKey: 1 << 0,
+	PrivateKey: 1 << 1,
+	Jwt: 1 << 2,
+	HighEntropy: 1 << 3,
+	CreditCard: 1 << 4,
+	All: (1 << 5) - 1,
+} as const;
+
+export type SecretDetector = (typeof SecretDetector)[keyof typeof SecretDetector];
+
+const ApiKeyPatterns = [
+	// AWS
+	/\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/,
+	// GitHub
+	/\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/,
+	// GitLab
+	/\bglpat-[A-Za-z0-9_-]{20,}/,
+	// Slack
+	/\bxox[abposr]-[A-Za-z0-9-]{10,}/,
+	// Stripe
+	/\b[rs]k_(?:live|test)_[A-Za-z0-9]{16,}\b/,
+	// Google
+	/\bAIza[0-9A-Za-z_-]{35}/,
+	// OpenAI, Anthropic
+	/\bsk-(?:proj-|ant-)?[A-Za-z0-9_-]{20,}/,
+	// npm
+	/\bnpm_[A-Za-z0-9]{36}\b/,
+];
+
+// Assignments such as `API_KEY=...` or `"password": "..."`, with either a quoted or an unquoted value
+const AssignmentPattern =
+	/\b(?:api[_-]?key|secret|token|passw(?:or)?d)["']?\s*[:=]\s*(?:(["'])([^\s"']{8,})\1|([^\s"'`;,(){}[\]<>]{8,})(?=[\s;,]|$))/gi;
+
+const PrivateKeyPattern = /-----BEGIN [A-Z0-9 ]*PRIVATE KEY(?: BLOCK)?-----/;
+
+const JwtPattern = /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/;
+
+const CreditCardPattern = /\b\d(?:[ -]?\d){12,18}\b/g;
+
+// Issuer prefixes and lengths of card numbers, since the Luhn checksum alone also passes one in ten other numbers
+const CardNetworks: [prefix: RegExp, lengths: number[]][] = [
+	// Visa
+	[/^4/, [13, 16, 19]],
+	// Mastercard
+	[/^(?:5[1-5]|222[1-9]|22[3-9]\d|2[3-6]\d\d|27[01]\d|2720)/, [16]],
+	// American Express
+	[/^3[47]/, [15]],
+	// Discover
+	[/^(?:6011|64[4-9]|65)/, [16, 17, 18, 19]],
+	// Diners Club
+	[/^(?:30[0-5]|3[689])/, [14, 16]],
+	// JCB
+	[/^35(?:2[89]|[3-8]\d)/, [16, 17, 18, 19]],
+	// UnionPay
+	[/^62/, [16, 17, 18, 19]],
+];
+
+// A word, an acronym or a number, which are the parts of paths, branch names and identifiers rather than of keys
+const WordPattern = /^(?:[A-Z]+|[A-Z]?[a-z]+(?:[A-Z][a-z]+)*|\d+)$/;
+
+// Minimum Shannon entropy in bits per character of a high entropy string
+const MinEntropy = 4;
+const MinEntropyLength = 20;
+const MaxEntropyLength = 512;
+
+/**
+ * Calculates the Shannon entropy of a string.
+ * @param text The string.
+ * @returns The entropy in bits per character.
+ */
+function entropy(text: string): number {
+	const counts = new Map<string, number>();
+	for (const char of text) counts.set(char, (counts.get(char) ?? 0) + 1);
+
+	const length = Array.from(text).length;
+	let sum = 0;
+	for (const count of counts.values()) {
+		const p = count / length;
+		sum -= p * Math.log2(p);
+	}
+	return sum;
+}
+
+function isHighEntropy(text: string): boolean {
+	const trimmed = text.trim();
+	if (trimmed.length < MinEntropyLength || trimmed.length > MaxEntropyLength) return false;
+
+	// Only single tokens that are not urls or paths
+	if (/\s/.test(trimmed) || /^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed) || /^[~/.]/.test(trimmed)) return false;
+
+	// Words and numbers joined by punctuation, such as `src/main.ts:12:5` or `feature/JIRA-1234-add-login`
+	if (trimmed.split(/[/\\:._-]+/).every((part) => part === '' || WordPattern.test(part))) return false;
+
+	// Require at least three of lowercase, uppercase, digits and symbols
+	const classes = [/[a-z]/, /[A-Z]/, /\d/, /[^A-Za-z\d]/].filter((r) => r.test(trimmed)).length;
+	return classes >= 3 && entropy(trimmed) >= MinEntropy;
+}
+
+/**
+ * Checks whether the value of an assignment looks like a secret rather than code or a placeholder.
+ * @param value The assigned value.
+ * @param quoted Whether the value is a quoted literal.
+ */
+function isSecretValue(value: string, quoted: boolean): boolean {
+	// Placeholders such as `${TOKEN}`, `{{ token }}`, `<token>` or `********`
+	if (/^(?:\$\{.*\}|\{\{.*\}\}|<.*>|(.)\1*)$/.test(value)) return false;
+	if (quoted) return true;
+
+	// Paths and urls
+	if (/^[~/.]/.test(value) || /^[a-z][a-z0-9+.-]*:\/\//i.test(value)) return false;
+
+	// Identifiers and member accesses such as `token = nextToken;` or `password: config.password` are code unless
+	// they are long and random like a generated key
+	if (/^[A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*$/.test(value)) {
+		return value.length >= MinEntropyLength && /\d/.test(value) && entropy(value) >= 3;
+	}
+
+	// Other values need digits mixed with letters or symbols, which excludes numbers and plain words
+	const classes = [/[a-z]/, /[A-Z]/, /\d/, /[^A-Za-z\d]/].filter((r) => r.test(value)).length;
+	return /\d/.test(value) && classes >= 2;
+}
+
+function containsApiKey(text: string): boolean {
+	if (ApiKeyPatterns.some((p) => p.test(text))) return true;
+
+	for (const [, , quoted, unquoted] of text.matchAll(AssignmentPattern)) {
+		if (quoted !== undefined ? isSecretValue(quoted, true) : isSecretValue(unquoted!, false)) return true;
+	}
+	return false;
+}
+
+/**
+ * Checks whether a number passes the Luhn checksum.
+ * @param digits The digits of the number.
+ */
+function luhn(digits: string): boolean {
+	let sum = 0;
+	for (let i = 0; i < digits.length; i++) {
+		let digit = Number(digits[digits.length - 1 - i]);
+		if (i % 2 === 1) {
+			digit *= 2;
+			if (digit > 9) digit -= 9;
+		}
+		sum += digit;
+	}
+	return sum % 10 === 0;
+}
+
+function containsCreditCard(text: string): boolean {
+	for (const match of text.matchAll(CreditCardPattern)) {
+		const digits = match[0].replace(/[ -]/g, '');
+		const card = CardNetworks.some(([prefix, lengths]) => prefix.test(digits) && lengths.includes(digits.length));
+		if (card && luhn(digits)) return true;
+	}
+	return false;
+}
+
+/**
+ * Detects whether a text likely contains a secret.
+ * @param text The text to check.
+ * @param detectors The detectors to run.
+ * @returns The detector that flagged the text or null if no secret was found.
+ */
+export function detectSecret(text: string, detectors: number = SecretDetector.All): SecretDetector | null {
+	if (detectors & SecretDetector.PrivateKey && PrivateKeyPattern.test(text)) return SecretDetector.PrivateKey;
+	if (detectors & SecretDetector.Jwt && JwtPattern.test(text)) return SecretDetector.Jwt;
+	if (detectors & SecretDetector.ApiKey && containsApiKey(text)) return SecretDetector.ApiKey;
+	if (detectors & SecretDetector.CreditCard && containsCreditCard(text)) return SecretDetector.CreditCard;
+	if (detectors & SecretDetector.HighEntropy && isHighEntropy(text)) return SecretDetector.HighEntropy;
+	return null;
+}
+
+/**
+ * Masks a text while keeping its line structure.
+ * @param text The text to mask.
+ * @param maxLength The maximum length of a masked line.
+ */
+export function maskText(text: string, maxLength: number = 32): string {
+	return text
+		.split('\n')
+		.map((line) => '•'.repeat(Math.min(Array.from(line.trim()).length, maxLength)))
+		.join('\n');
+}
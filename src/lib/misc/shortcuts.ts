@@ -15,11 +15,15 @@ import { registerClass } from '../common/gjs.js';
 export const Shortcut = {
 	Open: 'open-clipboard-dialog-shortcut',
 	Incognito: 'toggle-incognito-mode-shortcut',
+	PasteNext: 'paste-next-shortcut',
 
 	Pin: 'pin-item-shortcut',
 	Delete: 'delete-item-shortcut',
 	Edit: 'edit-item-shortcut',
 	Menu: 'open-menu-shortcut',
+	Reveal: 'reveal-item-shortcut',
+	Select: 'select-item-shortcut',
+	Queue: 'queue-items-shortcut',
 } as const;
 
 export type Shortcut = (typeof Shortcut)[keyof typeof Shortcut];
@@ -55,6 +59,7 @@ class ShortcutBinding extends GObject.Object {
 	Signals: {
 		'open-clipboard-dialog': {},
 		'toggle-incognito-mode': {},
+		'paste-next': {},
 	},
 })
 export class ShortcutManager extends GObject.Object {
@@ -78,11 +83,15 @@ export class ShortcutManager extends GObject.Object {
 
 		this.registerGlobalShortcut(Shortcut.Open, 'open-clipboard-dialog');
 		this.registerGlobalShortcut(Shortcut.Incognito, 'toggle-incognito-mode');
+		this.registerGlobalShortcut(Shortcut.PasteNext, 'paste-next');
 
 		this.registerShortcut(Shortcut.Pin);
 		this.registerShortcut(Shortcut.Delete);
 		this.registerShortcut(Shortcut.Edit);
 		this.registerShortcut(Shortcut.Menu);
+		this.registerShortcut(Shortcut.Reveal);
+		this.registerShortcut(Shortcut.Select);
+		this.registerShortcut(Shortcut.Queue);
 
 		this._actor = actor;
 		this._keyPressSignalId = actor.connect('key-press-event', this.keyPressEvent.bind(this));
@@ -173,6 +182,7 @@ export class ShortcutManager extends GObject.Object {
 	public destroy(): void {
 		this.unregisterGlobalShortcut(Shortcut.Open);
 		this.unregisterGlobalShortcut(Shortcut.Incognito);
+		this.unregisterGlobalShortcut(Shortcut.PasteNext);
 
 		this._shortcuts = {};
 
@@ -0,0 +1,86 @@
+import GLib from 'gi://GLib';
+
+export const Placeholder = {
+	/** `{{date}}` or `{{date:%Y-%m-%d}}` inserts the current date with an optional strftime format */
+	Date: 'date',
+	/** `{{clipboard}}` inserts the current text of the clipboard */
+	Clipboard: 'clipboard',
+	/** `{{cursor}}` moves the cursor to this position after pasting */
+	Cursor: 'cursor',
+	/** `{{input:Label}}` asks for a value before pasting */
+	Input: 'input',
+	/** `{{env:NAME}}` inserts an environment variable */
+	Env: 'env',
+} as const;
+
+export type Placeholder = (typeof Placeholder)[keyof typeof Placeholder];
+
+const PlaceholderRegex = /\{\{\s*(date|clipboard|cursor|input|env)\s*(?::([^}]*))?\}\}/g;
+
+const DefaultDateFormat = '%x';
+
+export interface TemplateValues {
+	/** The text of the clipboard before pasting */
+	clipboard: string;
+	/** The values of the inputs by their label */
+	inputs: Map<string, string>;
+	/** The time dates are formatted with */
+	now?: GLib.DateTime;
+}
+
+export interface ExpandedTemplate {
+	text: string;
+	/** The number of characters between the cursor placeholder and the end of the text */
+	cursor: number;
+}
+
+/**
+ * Gets the labels of the inputs of a template in order of appearance. Inputs with the same label share a value.
+ * @param text The text of the template.
+ */
+export function templateInputs(text: string): string[] {
+	const inputs = new Set<string>();
+	for (const match of text.matchAll(PlaceholderRegex)) {
+		if (match[1] === Placeholder.Input) inputs.add(match[2]?.trim() ?? '');
+	}
+	return [...inputs];
+}
+
+/**
+ * Replaces the placeholders of a template. Only the first cursor placeholder is used.
+ * @param text The text of the template.
+ * @param values The values of the placeholders.
+ */
+export function expandTemplate(text: string, values: TemplateValues): ExpandedTemplate {
+	const now = values.now ?? GLib.DateTime.new_now_local();
+
+	let result = '';
+	let cursor = -1;
+	let end = 0;
+	for (const match of text.matchAll(PlaceholderRegex)) {
+		result += text.substring(end, match.index);
+		end = match.index + match[0].length;
+
+		const argument = match[2]?.trim() ?? '';
+		switch (match[1] as Placeholder) {
+			case Placeholder.Date:
+				result += now.format(argument || DefaultDateFormat) ?? '';
+				break;
+			case Placeholder.Clipboard:
+				result += values.clipboard;
+				break;
+			case Placeholder.Cursor:
+				if (cursor < 0) cursor = result.length;
+				break;
+			case Placeholder.Input:
+				result += values.inputs.get(argument) ?? '';
+				break;
+			case Placeholder.Env:
+				result += GLib.getenv(argument) ?? '';
+				break;
+		}
+	}
+	result += text.substring(end);
+
+	return { text: result, cursor: cursor < 0 ? 0 : [...result.substring(cursor)].length };
+}
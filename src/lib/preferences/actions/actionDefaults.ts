@@ -100,6 +100,7 @@ export class ActionDefaultsPage extends Adw.NavigationPage {
 	_defaults: Partial<Record<ItemType, string>>;
 
 	private readonly _textDefault: ActionDefault;
+	private readonly _richTextDefault: ActionDefault;
 	private readonly _codeDefault: ActionDefault;
 	private readonly _imageDefault: ActionDefault;
 	private readonly _fileDefault: ActionDefault;
@@ -133,6 +134,15 @@ export class ActionDefaultsPage extends Adw.NavigationPage {
 		this.connectDefault(ItemType.Text, this._textDefault);
 		defaults.add(this._textDefault);
 
+		this._richTextDefault = new ActionDefault(
+			ItemType.RichText,
+			_('Rich Text'),
+			config.actions,
+			config.defaults?.RichText,
+		);
+		this.connectDefault(ItemType.RichText, this._richTextDefault);
+		defaults.add(this._richTextDefault);
+
 		this._codeDefault = new ActionDefault(ItemType.Code, _('Code'), config.actions, config.defaults?.Code);
 		this.connectDefault(ItemType.Code, this._codeDefault);
 		defaults.add(this._codeDefault);
@@ -175,6 +185,7 @@ export class ActionDefaultsPage extends Adw.NavigationPage {
 		this._defaults = config.defaults ?? {};
 
 		this._textDefault.update(config.actions, this._defaults?.Text);
+		this._richTextDefault.update(config.actions, this._defaults?.RichText);
 		this._codeDefault.update(config.actions, this._defaults?.Code);
 		this._imageDefault.update(config.actions, this._defaults?.Image);
 		this._fileDefault.update(config.actions, this._defaults?.File);
@@ -186,6 +197,7 @@ export class ActionDefaultsPage extends Adw.NavigationPage {
 
 	update(config: ActionConfig) {
 		this._textDefault.update(config.actions);
+		this._richTextDefault.update(config.actions);
 		this._codeDefault.update(config.actions);
 		this._imageDefault.update(config.actions);
 		this._fileDefault.update(config.actions);
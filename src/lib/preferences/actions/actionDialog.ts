@@ -1,6 +1,7 @@
 import Adw from 'gi://Adw';
 import GLib from 'gi://GLib';
 import GObject from 'gi://GObject';
+import Gio from 'gi://Gio';
 import Gtk from 'gi://Gtk';
 
 import { gettext as _ } from 'resource:///org/gnome/Shell/Extensions/js/extensions/prefs.js';
@@ -8,17 +9,34 @@ import { gettext as _ } from 'resource:///org/gnome/Shell/Extensions/js/extensio
 import {
 	Action,
 	ActionOutput,
+	ActionSubmenu,
 	ColorAction,
 	CommandAction,
+	ImageAction,
+	ImageEncoding,
+	ImageEncodings,
+	ImageFormat,
+	ImageFormats,
+	PipelineAction,
+	PipelineOnError,
+	PipelineStep,
 	QrCodeAction,
+	TransformAction,
+	instanceofAction,
+	instanceofActionSubmenu,
 	instanceofColorAction,
 	instanceofCommandAction,
+	instanceofImageAction,
+	instanceofPipelineAction,
 	instanceofQrCodeAction,
+	instanceofTransformAction,
 } from '../../common/actions.js';
 import { ColorSpace, ColorSpaces } from '../../common/color.js';
-import { ItemType } from '../../common/constants.js';
+import { ItemType, ItemTypes } from '../../common/constants.js';
 import { registerClass } from '../../common/gjs.js';
 import { Icon } from '../../common/icons.js';
+import { isPipelineStep, runPipeline } from '../../common/pipeline.js';
+import { Transform, Transforms } from '../../common/transform.js';
 import { ShortcutRow } from '../shortcuts/shortcutRow.js';
 
 @registerClass({
@@ -51,7 +69,7 @@ export class TypesBox extends Gtk.Box {
 
 	set types(types: ItemType[]) {
 		const count = new Set(types).size;
-		if (count === 0 || count === 8) {
+		if (count === 0 || count === ItemTypes.length) {
 			this._all.visible = true;
 			this._typesBox.visible = false;
 			return;
@@ -66,6 +84,8 @@ export class TypesBox extends Gtk.Box {
 		this._typesBox.remove_all();
 		if (types.includes(ItemType.Text))
 			this._typesBox.append(new Gtk.Image({ icon_name: Icon.Text, css_classes: ['dim-label'] }));
+		if (types.includes(ItemType.RichText))
+			this._typesBox.append(new Gtk.Image({ icon_name: Icon.RichText, css_classes: ['dim-label'] }));
 		if (types.includes(ItemType.Code))
 			this._typesBox.append(new Gtk.Image({ icon_name: Icon.Code, css_classes: ['dim-label'] }));
 		if (types.includes(ItemType.Image))
@@ -120,7 +140,7 @@ class TypeRow extends Gtk.ListBoxRow {
 		types: GObject.ParamSpec.boxed('types', null, null, GObject.ParamFlags.READWRITE, GLib.strv_get_type()),
 	},
 })
-class SelectTypesRow extends Adw.ActionRow {
+export class SelectTypesRow extends Adw.ActionRow {
 	private _types: ItemType[] = [];
 
 	private readonly _popover: Gtk.Popover;
@@ -173,6 +193,7 @@ class SelectTypesRow extends Adw.ActionRow {
 		// Items
 		this._typeRows = {
 			[ItemType.Text]: new TypeRow(ItemType.Text, _('Text')),
+			[ItemType.RichText]: new TypeRow(ItemType.RichText, _('Rich Text')),
 			[ItemType.Code]: new TypeRow(ItemType.Code, _('Code')),
 			[ItemType.Image]: new TypeRow(ItemType.Image, _('Image')),
 			[ItemType.File]: new TypeRow(ItemType.File, _('File')),
@@ -193,6 +214,7 @@ class SelectTypesRow extends Adw.ActionRow {
 		this._types = types;
 
 		if (this._types.includes(ItemType.Text)) this._typeRows[ItemType.Text].selected = true;
+		if (this._types.includes(ItemType.RichText)) this._typeRows[ItemType.RichText].selected = true;
 		if (this._types.includes(ItemType.Code)) this._typeRows[ItemType.Code].selected = true;
 		if (this._types.includes(ItemType.Image)) this._typeRows[ItemType.Image].selected = true;
 		if (this._types.includes(ItemType.File)) this._typeRows[ItemType.File].selected = true;
@@ -214,6 +236,180 @@ class SelectTypesRow extends Adw.ActionRow {
 	}
 }
 
+/**
+ * Get the translated name of a transform.
+ * @param transform the transform.
+ */
+export function transformName(transform: Transform): string {
+	switch (transform) {
+		case Transform.Uppercase:
+			return _('Uppercase');
+		case Transform.Lowercase:
+			return _('Lowercase');
+		case Transform.TitleCase:
+			return _('Title Case');
+		case Transform.CamelCase:
+			return _('Camel Case');
+		case Transform.SnakeCase:
+			return _('Snake Case');
+		case Transform.KebabCase:
+			return _('Kebab Case');
+		case Transform.Trim:
+			return _('Trim');
+		case Transform.Dedent:
+			return _('Remove Indentation');
+		case Transform.CollapseWhitespace:
+			return _('Collapse Whitespace');
+		case Transform.SortLines:
+			return _('Sort Lines');
+		case Transform.UniqueLines:
+			return _('Remove Duplicate Lines');
+		case Transform.FormatJson:
+			return _('Format JSON');
+		case Transform.MinifyJson:
+			return _('Minify JSON');
+		case Transform.EncodeUrl:
+			return _('Encode URL');
+		case Transform.DecodeUrl:
+			return _('Decode URL');
+		case Transform.EncodeBase64:
+			return _('Encode Base64');
+		case Transform.DecodeBase64:
+			return _('Decode Base64');
+		case Transform.EncodeHtml:
+			return _('Encode HTML');
+		case Transform.DecodeHtml:
+			return _('Decode HTML');
+		case Transform.StripFormatting:
+			return _('Strip Formatting');
+		case Transform.StripTracking:
+			return _('Remove Tracking Parameters');
+		default:
+			return transform;
+	}
+}
+
+/**
+ * Get the translated name of an image format.
+ * @param format the image format.
+ */
+export function imageFormatName(format: ImageFormat): string {
+	switch (format) {
+		case ImageFormat.Png:
+			return _('PNG');
+		case ImageFormat.Jpeg:
+			return _('JPEG');
+		case ImageFormat.WebP:
+			return _('WebP');
+		default:
+			return format;
+	}
+}
+
+/**
+ * Get the translated name of an image encoding.
+ * @param encoding the image encoding.
+ */
+export function imageEncodingName(encoding: ImageEncoding): string {
+	switch (encoding) {
+		case ImageEncoding.Image:
+			return _('Image');
+		case ImageEncoding.DataUri:
+			return _('Data URI');
+		case ImageEncoding.Base64:
+			return _('Base64');
+		default:
+			return encoding;
+	}
+}
+
+@registerClass()
+class TransformRow extends Adw.ComboRow {
+	constructor(transform: Transform, remove: () => void) {
+		super({
+			title: _('Transformation'),
+			model: Gtk.StringList.new(Transforms.map(transformName)),
+			selected: Math.max(Transforms.indexOf(transform), 0),
+		});
+
+		const removeButton = new Gtk.Button({
+			icon_name: Icon.Delete,
+			valign: Gtk.Align.CENTER,
+			tooltip_text: _('Remove'),
+			css_classes: ['flat'],
+		});
+		removeButton.connect('clicked', remove);
+		this.add_suffix(removeButton);
+	}
+
+	get transform(): Transform {
+		return Transforms[this.selected] ?? Transform.Uppercase;
+	}
+}
+
+@registerClass({
+	Properties: {
+		transforms: GObject.ParamSpec.boxed(
+			'transforms',
+			null,
+			null,
+			GObject.ParamFlags.READWRITE,
+			GLib.strv_get_type(),
+		),
+	},
+})
+class TransformsRow extends Adw.ExpanderRow {
+	private _rows: TransformRow[] = [];
+	private readonly _addRow: Adw.ActionRow;
+
+	constructor() {
+		super({
+			title: _('Transformations'),
+			expanded: true,
+		});
+
+		this._addRow = new Adw.ActionRow({
+			title: _('Add Transformation'),
+			activatable: true,
+		});
+		this._addRow.add_prefix(new Gtk.Image({ icon_name: Icon.Add }));
+		this._addRow.connect('activated', () => this.addTransform(Transform.Uppercase));
+		this.add_row(this._addRow);
+	}
+
+	get transforms(): Transform[] {
+		return this._rows.map((row) => row.transform);
+	}
+
+	set transforms(transforms: Transform[]) {
+		this._rows.forEach((row) => this.remove(row));
+		this._rows = [];
+		transforms.forEach((transform) => this.addTransform(transform));
+		this.changed();
+	}
+
+	private addTransform(transform: Transform) {
+		const row = new TransformRow(transform, () => {
+			this._rows = this._rows.filter((r) => r !== row);
+			this.remove(row);
+			this.changed();
+		});
+		row.connect('notify::selected', () => this.changed());
+
+		// Keep the add row last
+		this.remove(this._addRow);
+		this.add_row(row);
+		this.add_row(this._addRow);
+		this._rows.push(row);
+		this.changed();
+	}
+
+	private changed() {
+		this.subtitle = this.transforms.map(transformName).join(' → ');
+		this.notify('transforms');
+	}
+}
+
 @registerClass({
 	Properties: {
 		action: GObject.ParamSpec.jsobject('action', null, null, GObject.ParamFlags.READABLE),
@@ -225,7 +421,13 @@ export class ActionDialog extends Adw.AlertDialog {
 
 	private _activeForm: ActionForm;
 
-	constructor(action: Action | null, heading: string, suggestedId: string, suggestedLabel: string) {
+	constructor(
+		action: Action | null,
+		actions: (Action | ActionSubmenu)[],
+		heading: string,
+		suggestedId: string,
+		suggestedLabel: string,
+	) {
 		super({ heading });
 
 		this._action = action;
@@ -254,7 +456,14 @@ export class ActionDialog extends Adw.AlertDialog {
 
 			const kindSelector = new Adw.ComboRow({
 				title: _('Kind'),
-				model: Gtk.StringList.new([_('Command'), _('Color'), _('QR Code')]),
+				model: Gtk.StringList.new([
+					_('Command'),
+					_('Color'),
+					_('QR Code'),
+					_('Transform'),
+					_('Image'),
+					_('Pipeline'),
+				]),
 			});
 			kindBox.append(kindSelector);
 
@@ -265,7 +474,14 @@ export class ActionDialog extends Adw.AlertDialog {
 			});
 			box.append(stack);
 
-			const forms = [new CommandActionForm(null), new ColorActionForm(null), new QrCodeActionForm(null)];
+			const forms = [
+				new CommandActionForm(null),
+				new ColorActionForm(null),
+				new QrCodeActionForm(null),
+				new TransformActionForm(null),
+				new ImageActionForm(null),
+				new PipelineActionForm(null, actions),
+			];
 			for (const form of forms) {
 				form.connect('notify::valid', this.updateResponse.bind(this));
 				stack.add_child(form);
@@ -285,6 +501,9 @@ export class ActionDialog extends Adw.AlertDialog {
 			if (instanceofCommandAction(action)) form = new CommandActionForm(action);
 			else if (instanceofColorAction(action)) form = new ColorActionForm(action);
 			else if (instanceofQrCodeAction(action)) form = new QrCodeActionForm(action);
+			else if (instanceofTransformAction(action)) form = new TransformActionForm(action);
+			else if (instanceofImageAction(action)) form = new ImageActionForm(action);
+			else if (instanceofPipelineAction(action)) form = new PipelineActionForm(action, actions);
 			else throw new Error('Unknown Action');
 
 			form.connect('notify::valid', this.updateResponse.bind(this));
@@ -317,7 +536,7 @@ interface ActionForm {
 }
 
 @registerClass()
-class InfoRow extends Adw.EntryRow {
+export class InfoRow extends Adw.EntryRow {
 	constructor(props: Partial<Adw.EntryRow.ConstructorProps>, popover: Gtk.Popover) {
 		super(props);
 
@@ -384,11 +603,14 @@ class RegexPopover extends Gtk.Popover {
 
 		grid.attach(new Gtk.Label({ label: _('Color'), xalign: 0 }), 0, 8, 1, 1);
 		grid.attach(new Gtk.Label({ label: '#FF0000', xalign: 0 }), 1, 8, 1, 1);
+
+		grid.attach(new Gtk.Label({ label: _('Rich Text'), xalign: 0 }), 0, 9, 1, 1);
+		grid.attach(new Gtk.Label({ label: 'Lorem ipsum dolor sit amet', xalign: 0 }), 1, 9, 1, 1);
 	}
 }
 
 @registerClass()
-class PatternRow extends InfoRow {
+export class PatternRow extends InfoRow {
 	constructor(props: Partial<Adw.EntryRow.ConstructorProps>) {
 		super({ title: _('Regular Expression'), ...props }, new RegexPopover());
 	}
@@ -454,11 +676,13 @@ class CommandActionForm extends Gtk.ListBox implements ActionForm {
 		const selected =
 			action === null
 				? 0
-				: [ActionOutput.Ignore, ActionOutput.Copy, ActionOutput.Paste].indexOf(action.output ?? '');
+				: [ActionOutput.Ignore, ActionOutput.Copy, ActionOutput.Paste, ActionOutput.Preview].indexOf(
+						action.output ?? '',
+					);
 		this._outputRow = new Adw.ComboRow({
 			title: _('Output'),
 			subtitle: _('Select how to handle the output'),
-			model: Gtk.StringList.new([_('Ignore'), _('Copy'), _('Paste')]),
+			model: Gtk.StringList.new([_('Ignore'), _('Copy'), _('Paste'), _('Preview')]),
 			selected,
 		});
 		this.append(this._outputRow);
@@ -487,7 +711,9 @@ class CommandActionForm extends Gtk.ListBox implements ActionForm {
 		this._action.pattern = this._patternRow.text.length ? this._patternRow.text : null;
 		this._action.types = this._typesRow.types.length ? this._typesRow.types : null;
 		this._action.command = this._commandRow.text;
-		this._action.output = [ActionOutput.Ignore, ActionOutput.Copy, ActionOutput.Paste][this._outputRow.selected]!;
+		this._action.output = [ActionOutput.Ignore, ActionOutput.Copy, ActionOutput.Paste, ActionOutput.Preview][
+			this._outputRow.selected
+		]!;
 		this._action.shortcut = this._shortcutRow.shortcuts;
 
 		return this._action;
@@ -649,16 +875,519 @@ class QrCodeActionForm extends Gtk.ListBox implements ActionForm {
 	}
 }
 
+@registerClass({
+	Properties: {
+		valid: GObject.ParamSpec.boolean('valid', null, null, GObject.ParamFlags.READABLE, false),
+	},
+})
+class TransformActionForm extends Gtk.ListBox implements ActionForm {
+	private _action: TransformAction | null;
+
+	private readonly _nameRow: Adw.EntryRow;
+	private readonly _patternRow: PatternRow;
+	private readonly _typesRow: SelectTypesRow;
+	private readonly _transformsRow: TransformsRow;
+	private readonly _outputRow: Adw.ComboRow;
+	private readonly _shortcutRow: ShortcutRow;
+
+	constructor(action: TransformAction | null) {
+		super({
+			css_classes: ['boxed-list'],
+			selection_mode: Gtk.SelectionMode.NONE,
+		});
+
+		this._action = action;
+
+		this._nameRow = new Adw.EntryRow({ title: _('Name'), text: action?.name ?? '' });
+		this.append(this._nameRow);
+
+		this._patternRow = new PatternRow({ text: action?.pattern ?? '' });
+		this.append(this._patternRow);
+
+		this._typesRow = new SelectTypesRow();
+		this._typesRow.types = action?.types ?? [ItemType.Text, ItemType.Code];
+		this.append(this._typesRow);
+
+		this._transformsRow = new TransformsRow();
+		this._transformsRow.transforms = action?.transforms ?? [];
+		this.append(this._transformsRow);
+
+		const selected =
+			action === null
+				? 1
+				: [ActionOutput.Copy, ActionOutput.Paste, ActionOutput.Preview].indexOf(action.output ?? '');
+		this._outputRow = new Adw.ComboRow({
+			title: _('Output'),
+			subtitle: _('Select how to handle the output'),
+			model: Gtk.StringList.new([_('Copy'), _('Paste'), _('Preview')]),
+			selected,
+		});
+		this.append(this._outputRow);
+
+		this._shortcutRow = new ShortcutRow(_('Shortcut'), action?.shortcut?.join(' '), true);
+		this.append(this._shortcutRow);
+
+		// Connect signals
+		this._nameRow.connect('notify::text', () => this.notify('valid'));
+		this._transformsRow.connect('notify::transforms', () => this.notify('valid'));
+	}
+
+	get action() {
+		this._action ??= {
+			kind: 'transform',
+			id: GLib.uuid_string_random(),
+			name: '',
+			pattern: null,
+			types: null,
+			transforms: [],
+			output: ActionOutput.Paste,
+			shortcut: [],
+		};
+
+		this._action.name = this._nameRow.text;
+		this._action.pattern = this._patternRow.text.length ? this._patternRow.text : null;
+		this._action.types = this._typesRow.types.length ? this._typesRow.types : null;
+		this._action.transforms = this._transformsRow.transforms;
+		this._action.output = ([ActionOutput.Copy, ActionOutput.Paste, ActionOutput.Preview] as const)[
+			this._outputRow.selected
+		]!;
+		this._action.shortcut = this._shortcutRow.shortcuts;
+
+		return this._action;
+	}
+
+	get valid() {
+		return this._nameRow.text.trim().length !== 0 && this._transformsRow.transforms.length !== 0;
+	}
+}
+
+@registerClass({
+	Properties: {
+		valid: GObject.ParamSpec.boolean('valid', null, null, GObject.ParamFlags.READABLE, false),
+	},
+})
+class ImageActionForm extends Gtk.ListBox implements ActionForm {
+	private _action: ImageAction | null;
+
+	private readonly _nameRow: Adw.EntryRow;
+	private readonly _patternRow: PatternRow;
+	private readonly _formatRow: Adw.ComboRow;
+	private readonly _qualityRow: Adw.SpinRow;
+	private readonly _maxSizeRow: Adw.SpinRow;
+	private readonly _encodingRow: Adw.ComboRow;
+	private readonly _outputRow: Adw.ComboRow;
+	private readonly _shortcutRow: ShortcutRow;
+
+	constructor(action: ImageAction | null) {
+		super({
+			css_classes: ['boxed-list'],
+			selection_mode: Gtk.SelectionMode.NONE,
+		});
+
+		this._action = action;
+
+		this._nameRow = new Adw.EntryRow({ title: _('Name'), text: action?.name ?? '' });
+		this.append(this._nameRow);
+
+		this._patternRow = new PatternRow({ text: action?.pattern ?? '' });
+		this.append(this._patternRow);
+
+		this._formatRow = new Adw.ComboRow({
+			title: _('Format'),
+			subtitle: _('Select which format to convert to'),
+			model: Gtk.StringList.new(ImageFormats.map(imageFormatName)),
+			selected: action === null ? 0 : Math.max(ImageFormats.indexOf(action.format), 0),
+		});
+		this.append(this._formatRow);
+
+		this._qualityRow = new Adw.SpinRow({
+			title: _('Quality'),
+			subtitle: _('Quality of JPEG and WebP images'),
+			adjustment: new Gtk.Adjustment({
+				lower: 0,
+				upper: 100,
+				step_increment: 1,
+				page_increment: 10,
+				value: action?.quality ?? 90,
+			}),
+		});
+		this.append(this._qualityRow);
+
+		this._maxSizeRow = new Adw.SpinRow({
+			title: _('Maximum Size'),
+			subtitle: _('Scale down images that are wider or taller in pixels. Set to 0 to keep the size'),
+			adjustment: new Gtk.Adjustment({
+				lower: 0,
+				upper: 10000,
+				step_increment: 10,
+				page_increment: 100,
+				value: action?.maxSize ?? 0,
+			}),
+		});
+		this.append(this._maxSizeRow);
+
+		this._encodingRow = new Adw.ComboRow({
+			title: _('Encoding'),
+			subtitle: _('Select whether to output the image or the image as text'),
+			model: Gtk.StringList.new(ImageEncodings.map(imageEncodingName)),
+			selected: action === null ? 0 : Math.max(ImageEncodings.indexOf(action.encoding), 0),
+		});
+		this.append(this._encodingRow);
+
+		const selected = action === null ? 1 : [ActionOutput.Copy, ActionOutput.Paste].indexOf(action.output ?? '');
+		this._outputRow = new Adw.ComboRow({
+			title: _('Output'),
+			subtitle: _('Select how to handle the output'),
+			model: Gtk.StringList.new([_('Copy'), _('Paste')]),
+			selected,
+		});
+		this.append(this._outputRow);
+
+		this._shortcutRow = new ShortcutRow(_('Shortcut'), action?.shortcut?.join(' '), true);
+		this.append(this._shortcutRow);
+
+		// Connect signals
+		this._nameRow.connect('notify::text', () => this.notify('valid'));
+
+		const updateQuality = () => {
+			this._qualityRow.sensitive = ImageFormats[this._formatRow.selected] !== ImageFormat.Png;
+		};
+		this._formatRow.connect('notify::selected', updateQuality);
+		updateQuality();
+	}
+
+	get action() {
+		this._action ??= {
+			kind: 'image',
+			id: GLib.uuid_string_random(),
+			name: '',
+			pattern: null,
+			types: [ItemType.Image],
+			format: ImageFormat.Png,
+			quality: 90,
+			maxSize: 0,
+			encoding: ImageEncoding.Image,
+			output: ActionOutput.Paste,
+			shortcut: [],
+		};
+
+		this._action.name = this._nameRow.text;
+		this._action.pattern = this._patternRow.text.length ? this._patternRow.text : null;
+		this._action.format = ImageFormats[this._formatRow.selected] ?? ImageFormat.Png;
+		this._action.quality = this._qualityRow.value;
+		this._action.maxSize = this._maxSizeRow.value;
+		this._action.encoding = ImageEncodings[this._encodingRow.selected] ?? ImageEncoding.Image;
+		this._action.output = ([ActionOutput.Copy, ActionOutput.Paste] as const)[this._outputRow.selected]!;
+		this._action.shortcut = this._shortcutRow.shortcuts;
+
+		return this._action;
+	}
+
+	get valid() {
+		return this._nameRow.text.trim().length !== 0;
+	}
+}
+
+/**
+ * Get the actions that can be steps of a pipeline.
+ * @param actions all actions.
+ */
+function stepActions(actions: (Action | ActionSubmenu)[]): Action[] {
+	return actions
+		.flatMap((action) => (instanceofActionSubmenu(action) ? action.actions : [action]))
+		.filter((action) => instanceofAction(action) && isPipelineStep(action));
+}
+
+@registerClass({
+	Signals: {
+		changed: {},
+	},
+})
+class StepRow extends Adw.ComboRow {
+	private readonly _ids: string[];
+	private readonly _onErrorDropDown: Gtk.DropDown;
+
+	constructor(step: PipelineStep, actions: Action[], remove: () => void) {
+		const ids = actions.map((action) => action.id);
+		const names = actions.map((action) => action.name);
+		if (!ids.includes(step.action)) {
+			ids.push(step.action);
+			names.push(_('Missing Action'));
+		}
+
+		super({
+			title: _('Step'),
+			model: Gtk.StringList.new(names),
+			selected: Math.max(ids.indexOf(step.action), 0),
+		});
+
+		this._ids = ids;
+
+		this._onErrorDropDown = Gtk.DropDown.new_from_strings([_('Stop on Error'), _('Skip on Error')]);
+		this._onErrorDropDown.valign = Gtk.Align.CENTER;
+		this._onErrorDropDown.selected = step.onError === PipelineOnError.Skip ? 1 : 0;
+		this._onErrorDropDown.connect('notify::selected', () => this.emit('changed'));
+		this.connect('notify::selected', () => this.emit('changed'));
+		this.add_suffix(this._onErrorDropDown);
+
+		const removeButton = new Gtk.Button({
+			icon_name: Icon.Delete,
+			valign: Gtk.Align.CENTER,
+			tooltip_text: _('Remove'),
+			css_classes: ['flat'],
+		});
+		removeButton.connect('clicked', remove);
+		this.add_suffix(removeButton);
+	}
+
+	get step(): PipelineStep {
+		return {
+			action: this._ids[this.selected] ?? '',
+			onError: this._onErrorDropDown.selected === 1 ? PipelineOnError.Skip : PipelineOnError.Stop,
+		};
+	}
+}
+
+@registerClass({
+	Properties: {
+		steps: GObject.ParamSpec.jsobject('steps', null, null, GObject.ParamFlags.READWRITE),
+	},
+})
+class StepsRow extends Adw.ExpanderRow {
+	private _rows: StepRow[] = [];
+	private readonly _addRow: Adw.ActionRow;
+
+	constructor(private actions: Action[]) {
+		super({
+			title: _('Steps'),
+			subtitle: _('The output of each step is the input of the next step'),
+			expanded: true,
+		});
+
+		this._addRow = new Adw.ActionRow({
+			title: _('Add Step'),
+			activatable: true,
+			sensitive: actions.length > 0,
+		});
+		this._addRow.add_prefix(new Gtk.Image({ icon_name: Icon.Add }));
+		this._addRow.connect('activated', () => {
+			this.addStep({ action: this.actions[0]?.id ?? '', onError: PipelineOnError.Stop });
+		});
+		this.add_row(this._addRow);
+	}
+
+	get steps(): PipelineStep[] {
+		return this._rows.map((row) => row.step);
+	}
+
+	set steps(steps: PipelineStep[]) {
+		this._rows.forEach((row) => this.remove(row));
+		this._rows = [];
+		steps.forEach((step) => this.addStep(step));
+		this.notify('steps');
+	}
+
+	private addStep(step: PipelineStep) {
+		const row = new StepRow(step, this.actions, () => {
+			this._rows = this._rows.filter((r) => r !== row);
+			this.remove(row);
+			this.notify('steps');
+		});
+		row.connect('changed', () => this.notify('steps'));
+
+		// Keep the add row last
+		this.remove(this._addRow);
+		this.add_row(row);
+		this.add_row(this._addRow);
+		this._rows.push(row);
+		this.notify('steps');
+	}
+}
+
+@registerClass()
+class PreviewRow extends Adw.ExpanderRow {
+	private _resultRows: Adw.ActionRow[] = [];
+	private _cancellable: Gio.Cancellable | null = null;
+	private readonly _inputRow: Adw.EntryRow;
+
+	constructor(
+		private actions: (Action | ActionSubmenu)[],
+		private pipeline: () => PipelineAction,
+	) {
+		super({
+			title: _('Preview'),
+			subtitle: _('Run the steps on sample text'),
+		});
+
+		this._inputRow = new Adw.EntryRow({ title: _('Sample Text') });
+		this._inputRow.connect('entry-activated', () => this.run());
+		this.add_row(this._inputRow);
+
+		const runButton = new Gtk.Button({
+			icon_name: Icon.Action,
+			valign: Gtk.Align.CENTER,
+			tooltip_text: _('Run'),
+			css_classes: ['flat'],
+		});
+		runButton.connect('clicked', () => this.run());
+		this._inputRow.add_suffix(runButton);
+
+		this.connect('unrealize', () => this._cancellable?.cancel());
+	}
+
+	private async run() {
+		this._cancellable?.cancel();
+		const cancellable = new Gio.Cancellable();
+		this._cancellable = cancellable;
+
+		// Stop commands that take too long
+		let timeoutId = GLib.timeout_add_seconds(GLib.PRIORITY_DEFAULT, 30, () => {
+			timeoutId = -1;
+			cancellable.cancel();
+			return GLib.SOURCE_REMOVE;
+		});
+
+		try {
+			const result = await runPipeline(
+				{ actions: this.actions },
+				this.pipeline(),
+				this._inputRow.text,
+				cancellable,
+			);
+
+			this.clearResults();
+			for (const step of result.steps) {
+				const title = step.action?.name ?? _('Missing Action');
+				if (step.error !== null) {
+					const skipped = step.step.onError === PipelineOnError.Skip;
+					this.addResult(skipped ? _('%s (Skipped)').format(title) : title, step.error, true);
+				} else {
+					this.addResult(title, step.output ?? '', false);
+				}
+			}
+
+			if (result.output !== null) this.addResult(_('Output'), result.output, false);
+		} catch (e) {
+			if (!cancellable.is_cancelled()) {
+				this.clearResults();
+				this.addResult(_('Error'), String(e), true);
+			}
+		} finally {
+			if (timeoutId >= 0) GLib.source_remove(timeoutId);
+		}
+	}
+
+	private addResult(title: string, text: string, error: boolean) {
+		const row = new Adw.ActionRow({
+			title,
+			subtitle: text,
+			use_markup: false,
+			subtitle_selectable: true,
+			css_classes: error ? ['property', 'error'] : ['property'],
+		});
+		this.add_row(row);
+		this._resultRows.push(row);
+	}
+
+	private clearResults() {
+		this._resultRows.forEach((row) => this.remove(row));
+		this._resultRows = [];
+	}
+}
+
+@registerClass({
+	Properties: {
+		valid: GObject.ParamSpec.boolean('valid', null, null, GObject.ParamFlags.READABLE, false),
+	},
+})
+class PipelineActionForm extends Gtk.ListBox implements ActionForm {
+	private _action: PipelineAction | null;
+
+	private readonly _nameRow: Adw.EntryRow;
+	private readonly _patternRow: PatternRow;
+	private readonly _typesRow: SelectTypesRow;
+	private readonly _stepsRow: StepsRow;
+	private readonly _outputRow: Adw.ComboRow;
+	private readonly _shortcutRow: ShortcutRow;
+
+	constructor(action: PipelineAction | null, actions: (Action | ActionSubmenu)[]) {
+		super({
+			css_classes: ['boxed-list'],
+			selection_mode: Gtk.SelectionMode.NONE,
+		});
+
+		this._action = action;
+
+		this._nameRow = new Adw.EntryRow({ title: _('Name'), text: action?.name ?? '' });
+		this.append(this._nameRow);
+
+		this._patternRow = new PatternRow({ text: action?.pattern ?? '' });
+		this.append(this._patternRow);
+
+		this._typesRow = new SelectTypesRow();
+		this._typesRow.types = action?.types ?? [];
+		this.append(this._typesRow);
+
+		this._stepsRow = new StepsRow(stepActions(actions));
+		this._stepsRow.steps = action?.steps ?? [];
+		this.append(this._stepsRow);
+
+		const outputs = [ActionOutput.Ignore, ActionOutput.Copy, ActionOutput.Paste, ActionOutput.Preview];
+		this._outputRow = new Adw.ComboRow({
+			title: _('Output'),
+			subtitle: _('Select how to handle the output of the last step'),
+			model: Gtk.StringList.new([_('Ignore'), _('Copy'), _('Paste'), _('Preview')]),
+			selected: action === null ? 2 : outputs.indexOf(action.output ?? ''),
+		});
+		this.append(this._outputRow);
+
+		this._shortcutRow = new ShortcutRow(_('Shortcut'), action?.shortcut?.join(' '), true);
+		this.append(this._shortcutRow);
+
+		this.append(new PreviewRow(actions, () => this.pipeline));
+
+		// Connect signals
+		this._nameRow.connect('notify::text', () => this.notify('valid'));
+		this._stepsRow.connect('notify::steps', () => this.notify('valid'));
+	}
+
+	private get pipeline(): PipelineAction {
+		return {
+			kind: 'pipeline',
+			id: this._action?.id ?? GLib.uuid_string_random(),
+			name: this._nameRow.text,
+			pattern: this._patternRow.text.length ? this._patternRow.text : null,
+			types: this._typesRow.types.length ? this._typesRow.types : null,
+			steps: this._stepsRow.steps,
+			output: [ActionOutput.Ignore, ActionOutput.Copy, ActionOutput.Paste, ActionOutput.Preview][
+				this._outputRow.selected
+			]!,
+			shortcut: this._shortcutRow.shortcuts,
+		};
+	}
+
+	get action() {
+		const pipeline = this.pipeline;
+		if (this._action === null) return (this._action = pipeline);
+
+		return Object.assign(this._action, pipeline);
+	}
+
+	get valid() {
+		return this._nameRow.text.trim().length !== 0 && this._stepsRow.steps.length !== 0;
+	}
+}
+
 @registerClass()
 export class AddActionDialog extends ActionDialog {
-	constructor(action: Action | null) {
-		super(action, _('Add Action'), 'add', _('Add'));
+	constructor(action: Action | null, actions: (Action | ActionSubmenu)[]) {
+		super(action, actions, _('Add Action'), 'add', _('Add'));
 	}
 }
 
 @registerClass()
 export class EditActionDialog extends ActionDialog {
-	constructor(action: Action | null) {
-		super(action, _('Edit Action'), 'save', _('Save'));
+	constructor(action: Action | null, actions: (Action | ActionSubmenu)[]) {
+		super(action, actions, _('Edit Action'), 'save', _('Save'));
 	}
 }
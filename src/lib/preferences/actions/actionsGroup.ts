@@ -11,20 +11,52 @@ import { gettext as _ } from 'resource:///org/gnome/Shell/Extensions/js/extensio
 import {
 	type Action,
 	type ActionSubmenu,
+	ImageEncoding,
+	findActionById,
 	instanceofAction,
 	instanceofActionSubmenu,
 	instanceofCommandAction,
+	instanceofImageAction,
+	instanceofPipelineAction,
+	instanceofTransformAction,
 } from '../../common/actions.js';
 import { JsObjectWrapper, registerClass } from '../../common/gjs.js';
 import { Icon } from '../../common/icons.js';
 import { NestedListBox } from '../utils.js';
-import { AddActionDialog, EditActionDialog, TypesBox } from './actionDialog.js';
+import {
+	AddActionDialog,
+	EditActionDialog,
+	TypesBox,
+	imageEncodingName,
+	imageFormatName,
+	transformName,
+} from './actionDialog.js';
 import { AddActionSubmenuDialog, EditActionSubmenuDialog } from './actionSubMenuDialog.js';
 
 Gio._promisify(Adw.AlertDialog.prototype, 'choose');
 
 const ShortcutLabel = ('ShortcutLabel' in Gtk && !('ShortcutLabel' in Adw) ? (Gtk as typeof Adw) : Adw).ShortcutLabel;
 
+/**
+ * Get a short description of what an action runs.
+ * @param action the action.
+ * @param actions all actions, used to look up the steps of pipelines.
+ */
+function actionLabel(action: Action, actions: (Action | ActionSubmenu)[]): string {
+	if (instanceofCommandAction(action)) return action.command;
+	if (instanceofTransformAction(action)) return action.transforms.map(transformName).join(' → ');
+	if (instanceofImageAction(action)) {
+		const parts = [imageFormatName(action.format)];
+		if (action.maxSize > 0) parts.push(_('%d px').format(action.maxSize));
+		if (action.encoding !== ImageEncoding.Image) parts.push(imageEncodingName(action.encoding));
+		return parts.join(' · ');
+	}
+	if (instanceofPipelineAction(action)) {
+		return action.steps.map((step) => findActionById({ actions }, step.action)?.name ?? step.action).join(' → ');
+	}
+	return '';
+}
+
 @registerClass()
 class DeleteDialog extends Adw.AlertDialog {
 	constructor(props: Partial<Adw.AlertDialog.ConstructorProps>) {
@@ -78,6 +110,7 @@ class ActionSubmenuRow extends ActionSubmenuRowBase {
 
 	constructor(
 		private window: Adw.PreferencesWindow,
+		private group: ActionsGroup,
 		actionSubmenu: ActionSubmenu,
 	) {
 		super(actionSubmenu);
@@ -131,7 +164,7 @@ class ActionSubmenuRow extends ActionSubmenuRowBase {
 	}
 
 	private createRow(action: Action): ActionRow {
-		const row = new ActionRow(this.window, action);
+		const row = new ActionRow(this.window, this.group, action);
 
 		row.connect('notify::action', () => this.notify('action-submenu'));
 		row.connect('delete', () => {
@@ -155,7 +188,7 @@ class ActionSubmenuRow extends ActionSubmenuRowBase {
 	}
 
 	private async add() {
-		const addActionDialog = new AddActionDialog(null);
+		const addActionDialog = new AddActionDialog(null, this.group.actions);
 
 		const response = await addActionDialog.choose(this.window, null);
 		if (response !== 'add' || addActionDialog.action === null) return;
@@ -306,7 +339,10 @@ class ActionRowBase extends Adw.PreferencesRow {
 	protected readonly _shortcutLabel: Adw.ShortcutLabel;
 	protected readonly _typesBox: TypesBox;
 
-	constructor(public readonly action: Action) {
+	constructor(
+		public readonly action: Action,
+		actions: (Action | ActionSubmenu)[] = [],
+	) {
 		super();
 
 		const header = new Gtk.Box({
@@ -360,11 +396,15 @@ class ActionRowBase extends Adw.PreferencesRow {
 
 		// Action
 		this._actionLabel = new Gtk.Label({
-			label: instanceofCommandAction(action) ? action.command : '',
+			label: actionLabel(action, actions),
 			xalign: 0,
 			ellipsize: Pango.EllipsizeMode.END,
 			css_classes: ['subtitle'],
-			visible: instanceofCommandAction(action),
+			visible:
+				instanceofCommandAction(action) ||
+				instanceofTransformAction(action) ||
+				instanceofImageAction(action) ||
+				instanceofPipelineAction(action),
 		});
 		box.append(this._actionLabel);
 
@@ -402,9 +442,10 @@ class ActionRowBase extends Adw.PreferencesRow {
 class ActionRow extends ActionRowBase {
 	constructor(
 		private window: Adw.PreferencesWindow,
+		private group: ActionsGroup,
 		action: Action,
 	) {
-		super(action);
+		super(action, group.actions);
 
 		// Menu
 		const actionGroup = new Gio.SimpleActionGroup();
@@ -429,14 +470,14 @@ class ActionRow extends ActionRowBase {
 	}
 
 	private async edit() {
-		const editActionDialog = new EditActionDialog(this.action);
+		const editActionDialog = new EditActionDialog(this.action, this.group.actions);
 
 		const response = await editActionDialog.choose(this.window, null);
 		if (response !== 'save') return;
 
 		this._nameLabel.label = this.action.name;
 		this._patternLabel.label = this.action.pattern ?? '';
-		this._actionLabel.label = instanceofCommandAction(this.action) ? this.action.command : '';
+		this._actionLabel.label = actionLabel(this.action, this.group.actions);
 		this._shortcutLabel.accelerator = this.action.shortcut?.[0] ?? '';
 		this._typesBox.types = this.action.types ?? [];
 		this.notify('action');
@@ -481,7 +522,7 @@ class ActionRow extends ActionRowBase {
 				height_request: this.get_height(),
 			});
 
-			const dragRow = new ActionRowBase(this.action);
+			const dragRow = new ActionRowBase(this.action, this.group.actions);
 			dragWidget.append(dragRow);
 			dragWidget.drag_highlight_row(dragRow);
 
@@ -586,9 +627,9 @@ export class ActionsGroup extends Adw.PreferencesGroup {
 
 	private createRow(action: JsObjectWrapper<Action | ActionSubmenu>): ActionRow | ActionSubmenuRow {
 		const row = instanceofAction(action.jsobject)
-			? new ActionRow(this.window, action.jsobject)
+			? new ActionRow(this.window, this, action.jsobject)
 			: instanceofActionSubmenu(action.jsobject)
-				? new ActionSubmenuRow(this.window, action.jsobject)
+				? new ActionSubmenuRow(this.window, this, action.jsobject)
 				: null!;
 
 		if (row instanceof ActionRow) {
@@ -614,7 +655,7 @@ export class ActionsGroup extends Adw.PreferencesGroup {
 	}
 
 	private async addAction() {
-		const addActionDialog = new AddActionDialog(null);
+		const addActionDialog = new AddActionDialog(null, this._actions);
 
 		const response = await addActionDialog.choose(this.window, null);
 		if (response !== 'add' || addActionDialog.action === null) return;
@@ -16,6 +16,7 @@ import { registerClass } from '../../common/gjs.js';
 import { Icon } from '../../common/icons.js';
 import { ActionDefaultsPage } from './actionDefaults.js';
 import { ActionsGroup } from './actionsGroup.js';
+import { CaptureRulesPage } from './captureRules.js';
 
 Gio._promisify(Adw.AlertDialog.prototype, 'choose');
 
@@ -50,6 +51,7 @@ export class ActionsPage extends Adw.PreferencesPage {
 	private _config: ActionConfig;
 	private readonly _actionsGroup: ActionsGroup;
 	private readonly _defaultsPage: ActionDefaultsPage;
+	private readonly _rulesPage: CaptureRulesPage;
 	private readonly _restoreButton: Adw.PreferencesRow;
 	private readonly _restoreBadge: Gtk.Label;
 
@@ -78,6 +80,14 @@ export class ActionsPage extends Adw.PreferencesPage {
 		defaultsGroup.add(defaultsButton);
 		defaultsButton.add_suffix(new Gtk.Image({ icon_name: Icon.Next }));
 
+		const rulesButton = new Adw.ActionRow({
+			title: _('Automatic Actions'),
+			subtitle: _('Rewrite, pin or tag items automatically when they are copied'),
+			activatable: true,
+		});
+		defaultsGroup.add(rulesButton);
+		rulesButton.add_suffix(new Gtk.Image({ icon_name: Icon.Next }));
+
 		const resetGroup = new Adw.PreferencesGroup();
 		this.add(resetGroup);
 
@@ -107,9 +117,14 @@ export class ActionsPage extends Adw.PreferencesPage {
 		defaultsButton.connect('activated', () => window.push_subpage(this._defaultsPage));
 		this._defaultsPage.connect('notify::defaults', () => saveConfig(prefs, this._config));
 
+		this._rulesPage = new CaptureRulesPage(window, this._config);
+		rulesButton.connect('activated', () => window.push_subpage(this._rulesPage));
+		this._rulesPage.connect('notify::rules', () => saveConfig(prefs, this._config));
+
 		this._actionsGroup.connect('notify::actions', () => {
 			this._config.actions = this._actionsGroup.actions;
 			this._defaultsPage.update(this._config);
+			this._rulesPage.update(this._config);
 
 			saveConfig(prefs, this._config);
 			this.updateRestoreButton();
@@ -133,6 +148,7 @@ export class ActionsPage extends Adw.PreferencesPage {
 
 		this._actionsGroup.actions = this._config.actions;
 		this._defaultsPage.setDefaults(this._config);
+		this._rulesPage.setRules(this._config);
 	}
 
 	private async reset() {
@@ -150,6 +166,7 @@ export class ActionsPage extends Adw.PreferencesPage {
 
 		this._actionsGroup.actions = this._config.actions;
 		this._defaultsPage.setDefaults(this._config);
+		this._rulesPage.setRules(this._config);
 	}
 
 	private updateRestoreButton() {
@@ -0,0 +1,307 @@
+import Adw from 'gi://Adw';
+import GLib from 'gi://GLib';
+import GObject from 'gi://GObject';
+import Gio from 'gi://Gio';
+import Gtk from 'gi://Gtk';
+
+import { gettext as _ } from 'resource:///org/gnome/Shell/Extensions/js/extensions/prefs.js';
+
+import {
+	Action,
+	ActionConfig,
+	ActionSubmenu,
+	CaptureRule,
+	findActionById,
+	instanceofActionSubmenu,
+} from '../../common/actions.js';
+import { Tags } from '../../common/constants.js';
+import { registerClass } from '../../common/gjs.js';
+import { Icon } from '../../common/icons.js';
+import { isRewriteAction } from '../../common/pipeline.js';
+import { colorName } from '../general/collectionsSettings.js';
+import { InfoRow, PatternRow, SelectTypesRow } from './actionDialog.js';
+
+Gio._promisify(Adw.AlertDialog.prototype, 'choose');
+
+/**
+ * Get the actions that can rewrite the content of captured items.
+ * @param actions all actions.
+ */
+function rewriteActions(actions: (Action | ActionSubmenu)[]): Action[] {
+	return actions
+		.flatMap((action) => (instanceofActionSubmenu(action) ? action.actions : [action]))
+		.filter((action) => isRewriteAction(action));
+}
+
+@registerClass()
+class AppsRow extends InfoRow {
+	constructor(props: Partial<Adw.EntryRow.ConstructorProps>) {
+		super(
+			{ title: _('Apps'), ...props },
+			new Gtk.Popover({
+				has_arrow: true,
+				child: new Gtk.Label({
+					label: _(
+						'Names, WM classes or app ids of the apps separated by commas. Leaving this empty will match all apps.',
+					),
+					margin_start: 6,
+					margin_end: 6,
+					max_width_chars: 30,
+					wrap: true,
+				}),
+			}),
+		);
+	}
+}
+
+@registerClass()
+class CaptureRuleDialog extends Adw.AlertDialog {
+	private readonly _rule: CaptureRule | null;
+	private readonly _ids: (string | null)[];
+	private readonly _suggestedId: string;
+
+	private readonly _nameRow: Adw.EntryRow;
+	private readonly _patternRow: PatternRow;
+	private readonly _typesRow: SelectTypesRow;
+	private readonly _appsRow: AppsRow;
+	private readonly _actionRow: Adw.ComboRow;
+	private readonly _pinRow: Adw.SwitchRow;
+	private readonly _tagRow: Adw.ComboRow;
+
+	constructor(
+		rule: CaptureRule | null,
+		actions: (Action | ActionSubmenu)[],
+		heading: string,
+		suggestedId: string,
+		suggestedLabel: string,
+	) {
+		super({ heading });
+
+		this._rule = rule;
+		this._suggestedId = suggestedId;
+
+		this.add_response('cancel', _('Cancel'));
+		this.set_close_response('cancel');
+		this.add_response(suggestedId, suggestedLabel);
+		this.set_response_appearance(suggestedId, Adw.ResponseAppearance.SUGGESTED);
+
+		// Form
+		const box = new Gtk.ListBox({
+			css_classes: ['boxed-list'],
+			selection_mode: Gtk.SelectionMode.NONE,
+		});
+		this.extra_child = box;
+
+		this._nameRow = new Adw.EntryRow({ title: _('Name'), text: rule?.name ?? '' });
+		box.append(this._nameRow);
+
+		this._patternRow = new PatternRow({ text: rule?.pattern ?? '' });
+		box.append(this._patternRow);
+
+		this._typesRow = new SelectTypesRow();
+		this._typesRow.types = rule?.types ?? [];
+		box.append(this._typesRow);
+
+		this._appsRow = new AppsRow({ text: rule?.apps?.join(', ') ?? '' });
+		box.append(this._appsRow);
+
+		const rewrite = rewriteActions(actions);
+		this._ids = [null, ...rewrite.map((action) => action.id)];
+		const names = [_('None'), ...rewrite.map((action) => action.name)];
+		if (rule?.action && !this._ids.includes(rule.action)) {
+			this._ids.push(rule.action);
+			names.push(_('Missing Action'));
+		}
+
+		this._actionRow = new Adw.ComboRow({
+			title: _('Rewrite'),
+			subtitle: _('Replace the content with the output of an action'),
+			model: Gtk.StringList.new(names),
+			selected: Math.max(this._ids.indexOf(rule?.action ?? null), 0),
+		});
+		box.append(this._actionRow);
+
+		this._pinRow = new Adw.SwitchRow({ title: _('Pin'), active: rule?.pin ?? false });
+		box.append(this._pinRow);
+
+		this._tagRow = new Adw.ComboRow({
+			title: _('Tag'),
+			model: Gtk.StringList.new([_('None'), ...Tags.map(colorName)]),
+			selected: rule?.tag ? Tags.indexOf(rule.tag) + 1 : 0,
+		});
+		box.append(this._tagRow);
+
+		// Connect signals
+		this._nameRow.connect('notify::text', this.updateResponse.bind(this));
+		this._actionRow.connect('notify::selected', this.updateResponse.bind(this));
+		this._pinRow.connect('notify::active', this.updateResponse.bind(this));
+		this._tagRow.connect('notify::selected', this.updateResponse.bind(this));
+		this.updateResponse();
+	}
+
+	get rule(): CaptureRule {
+		const apps = this._appsRow.text
+			.split(',')
+			.map((app) => app.trim())
+			.filter((app) => app.length > 0);
+
+		return {
+			id: this._rule?.id ?? GLib.uuid_string_random(),
+			name: this._nameRow.text.trim(),
+			enabled: this._rule?.enabled ?? true,
+			pattern: this._patternRow.text.length ? this._patternRow.text : null,
+			types: this._typesRow.types.length ? this._typesRow.types : null,
+			apps: apps.length ? apps : null,
+			action: this._ids[this._actionRow.selected] ?? null,
+			pin: this._pinRow.active,
+			tag: Tags[this._tagRow.selected - 1] ?? null,
+		};
+	}
+
+	private updateResponse() {
+		// A rule without an action, pin or tag does nothing
+		const effect = this._actionRow.selected > 0 || this._pinRow.active || this._tagRow.selected > 0;
+		this.set_response_enabled(this._suggestedId, this._nameRow.text.trim().length !== 0 && effect);
+	}
+}
+
+@registerClass({
+	Properties: {
+		rules: GObject.ParamSpec.jsobject('rules', null, null, GObject.ParamFlags.READABLE),
+	},
+})
+export class CaptureRulesPage extends Adw.NavigationPage {
+	private _config: ActionConfig;
+	private _rules: CaptureRule[];
+
+	private readonly _list: Gtk.ListBox;
+
+	constructor(
+		private window: Adw.PreferencesWindow,
+		config: ActionConfig,
+	) {
+		super({
+			title: _('Automatic Actions'),
+		});
+
+		config.rules ??= [];
+		this._config = config;
+		this._rules = config.rules;
+
+		const toolbarView = new Adw.ToolbarView();
+		toolbarView.add_top_bar(new Adw.HeaderBar());
+		this.child = toolbarView;
+
+		const page = new Adw.PreferencesPage();
+		toolbarView.content = page;
+
+		const group = new Adw.PreferencesGroup({
+			title: _('Rules'),
+			description: _('Rules are applied in order to newly copied items. Sensitive items are never rewritten'),
+		});
+		page.add(group);
+
+		const addRule = new Gtk.Button({
+			icon_name: Icon.Add,
+			valign: Gtk.Align.CENTER,
+			css_classes: ['flat'],
+		});
+		group.header_suffix = addRule;
+		addRule.connect('clicked', () => this.addRule());
+
+		this._list = new Gtk.ListBox({ css_classes: ['boxed-list'], selection_mode: Gtk.SelectionMode.NONE });
+		this._list.set_placeholder(
+			new Adw.ActionRow({
+				title: _('No Rules'),
+				sensitive: false,
+			}),
+		);
+		group.add(this._list);
+
+		this.updateRows();
+	}
+
+	get rules() {
+		return this._rules;
+	}
+
+	setRules(config: ActionConfig) {
+		config.rules ??= [];
+		this._config = config;
+		this._rules = config.rules;
+		this.updateRows();
+	}
+
+	update(config: ActionConfig) {
+		this._config = config;
+		this.updateRows();
+	}
+
+	private updateRows() {
+		this._list.remove_all();
+		for (const rule of this._rules) {
+			this._list.append(this.createRow(rule));
+		}
+	}
+
+	private createRow(rule: CaptureRule): Adw.ActionRow {
+		const effects = [];
+		if (rule.action) effects.push(findActionById(this._config, rule.action)?.name ?? _('Missing Action'));
+		if (rule.pin) effects.push(_('Pin'));
+		if (rule.tag) effects.push(colorName(rule.tag));
+
+		const row = new Adw.ActionRow({
+			title: GLib.markup_escape_text(rule.name, -1),
+			subtitle: GLib.markup_escape_text(effects.join(', '), -1),
+		});
+
+		const enabledSwitch = new Gtk.Switch({ active: rule.enabled, valign: Gtk.Align.CENTER });
+		row.add_suffix(enabledSwitch);
+		enabledSwitch.connect('notify::active', () => {
+			rule.enabled = enabledSwitch.active;
+			this.notify('rules');
+		});
+
+		const editButton = new Gtk.Button({
+			icon_name: Icon.Edit,
+			valign: Gtk.Align.CENTER,
+			css_classes: ['flat'],
+		});
+		row.add_suffix(editButton);
+		editButton.connect('clicked', () => this.editRule(rule));
+
+		const deleteButton = new Gtk.Button({
+			icon_name: Icon.Delete,
+			valign: Gtk.Align.CENTER,
+			css_classes: ['flat', 'destructive-action'],
+		});
+		row.add_suffix(deleteButton);
+		deleteButton.connect('clicked', () => {
+			this._rules.splice(this._rules.indexOf(rule), 1);
+			this.updateRows();
+			this.notify('rules');
+		});
+
+		return row;
+	}
+
+	private async addRule() {
+		const dialog = new CaptureRuleDialog(null, this._config.actions, _('Add Rule'), 'add', _('Add'));
+		const response = await dialog.choose(this.window, null);
+		if (response !== 'add') return;
+
+		this._rules.push(dialog.rule);
+		this.updateRows();
+		this.notify('rules');
+	}
+
+	private async editRule(rule: CaptureRule) {
+		const dialog = new CaptureRuleDialog(rule, this._config.actions, _('Edit Rule'), 'save', _('Save'));
+		const response = await dialog.choose(this.window, null);
+		if (response !== 'save') return;
+
+		Object.assign(rule, dialog.rule);
+		this.updateRows();
+		this.notify('rules');
+	}
+}
@@ -0,0 +1,33 @@
+import Adw from 'gi://Adw';
+import Gio from 'gi://Gio';
+
+import { ExtensionPreferences, gettext as _ } from 'resource:///org/gnome/Shell/Extensions/js/extensions/prefs.js';
+
+import { registerClass } from '../../../common/gjs.js';
+
+@registerClass()
+export class RichTextItemCustomization extends Adw.ExpanderRow {
+	constructor(prefs: ExtensionPreferences) {
+		super({
+			title: _('Rich Text Item'),
+			subtitle: _('Configure formatted text clipboard items'),
+		});
+
+		const captureRichText = new Adw.SwitchRow({
+			title: _('Capture Formatting'),
+			subtitle: _('Keep the formatting of text copied from browsers and office apps'),
+		});
+		this.add_row(captureRichText);
+
+		const showFormatting = new Adw.SwitchRow({
+			title: _('Show Formatting'),
+			subtitle: _('Show the formatting in the rich text item'),
+		});
+		this.add_row(showFormatting);
+
+		// Bind properties
+		const settings = prefs.getSettings().get_child('rich-text-item');
+		settings.bind('capture-rich-text', captureRichText, 'active', Gio.SettingsBindFlags.DEFAULT);
+		settings.bind('show-formatting', showFormatting, 'active', Gio.SettingsBindFlags.DEFAULT);
+	}
+}
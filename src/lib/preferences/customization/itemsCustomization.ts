@@ -9,6 +9,7 @@ import { CodeItemCustomization } from './items/codeItemCustomization.js';
 import { FileItemCustomization } from './items/fileItemCustomization.js';
 import { ImageItemCustomization } from './items/imageItemCustomization.js';
 import { LinkItemCustomization } from './items/linkItemCustomization.js';
+import { RichTextItemCustomization } from './items/richTextItemCustomization.js';
 import { TextItemCustomization } from './items/textItemCustomization.js';
 
 @registerClass({
@@ -23,6 +24,7 @@ export class ItemsCustomization extends Adw.PreferencesGroup {
 		});
 
 		this.add(new TextItemCustomization(prefs));
+		this.add(new RichTextItemCustomization(prefs));
 		const code = new CodeItemCustomization(prefs);
 		this.add(code);
 		this.add(new ImageItemCustomization(prefs));
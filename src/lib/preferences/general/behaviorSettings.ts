@@ -1,9 +1,13 @@
 import Adw from 'gi://Adw';
+import GObject from 'gi://GObject';
 import Gio from 'gi://Gio';
+import Gtk from 'gi://Gtk';
 
 import { ExtensionPreferences, gettext as _ } from 'resource:///org/gnome/Shell/Extensions/js/extensions/prefs.js';
 
 import { registerClass } from '../../common/gjs.js';
+import { bind_enum } from '../../common/settings.js';
+import { MergeSeparator } from '../../misc/merge.js';
 
 @registerClass()
 export class BehaviorSettings extends Adw.PreferencesGroup {
@@ -30,6 +34,13 @@ export class BehaviorSettings extends Adw.PreferencesGroup {
 		});
 		this.add(excludeTagged);
 
+		const searchMode = new Adw.ComboRow({
+			title: _('Search Mode'),
+			subtitle: _('How the search query is matched against clipboard items'),
+			model: Gtk.StringList.new([_('Substring'), _('Fuzzy'), _('Regular Expression')]),
+		});
+		this.add(searchMode);
+
 		const protectPinned = new Adw.SwitchRow({
 			title: _('Protect Pinned Items'),
 			subtitle: _('Prevents pinned clipboard items from being deleted'),
@@ -54,21 +65,73 @@ export class BehaviorSettings extends Adw.PreferencesGroup {
 		});
 		this.add(syncPrimary);
 
+		const primaryHistory = new Adw.SwitchRow({
+			title: _('Primary Selection History'),
+			subtitle: _('Keep a separate history of selected text that is not saved to disk'),
+		});
+		this.add(primaryHistory);
+
+		const primaryHistoryLength = new Adw.SpinRow({
+			title: _('Primary Selection History Length'),
+			subtitle: _('Select how many items to keep in the primary selection history'),
+			adjustment: new Gtk.Adjustment({ lower: 5, upper: 100, step_increment: 1, page_increment: 5, value: 20 }),
+		});
+		this.add(primaryHistoryLength);
+
 		const updateDateOnCopy = new Adw.SwitchRow({
 			title: _('Update Date on Copy'),
 			subtitle: _('Update the copied date of clipboard items when selected from clipboard history'),
 		});
 		this.add(updateDateOnCopy);
 
+		const interceptPaste = new Adw.SwitchRow({
+			title: _('Paste Queue Replaces Paste'),
+			subtitle: _('Paste the next item of the paste queue with Ctrl+V while the queue is not empty'),
+		});
+		this.add(interceptPaste);
+
+		const mergeSeparator = new Adw.ComboRow({
+			title: _('Merge Separator'),
+			subtitle: _('Text inserted between merged clipboard items'),
+			model: Gtk.StringList.new([_('Newline'), _('Space'), _('Comma'), _('Custom')]),
+		});
+		this.add(mergeSeparator);
+
+		const mergeCustomSeparator = new Adw.EntryRow({
+			title: _('Custom Merge Separator'),
+		});
+		this.add(mergeCustomSeparator);
+
+		const mergeDeleteOriginals = new Adw.SwitchRow({
+			title: _('Delete Merged Items'),
+			subtitle: _('Delete clipboard items after merging them into one item'),
+		});
+		this.add(mergeDeleteOriginals);
+
 		// Bind properties
 		const settings = prefs.getSettings();
 		settings.bind('remember-search', rememberSearch, 'active', Gio.SettingsBindFlags.DEFAULT);
 		settings.bind('exclude-pinned', excludePinned, 'active', Gio.SettingsBindFlags.DEFAULT);
 		settings.bind('exclude-tagged', excludeTagged, 'active', Gio.SettingsBindFlags.DEFAULT);
+		bind_enum(settings, 'search-mode', searchMode, 'selected');
 		settings.bind('protect-pinned', protectPinned, 'active', Gio.SettingsBindFlags.DEFAULT);
 		settings.bind('protect-tagged', protectTagged, 'active', Gio.SettingsBindFlags.DEFAULT);
 		settings.bind('paste-on-copy', pasteOnCopy, 'active', Gio.SettingsBindFlags.DEFAULT);
 		settings.bind('sync-primary', syncPrimary, 'active', Gio.SettingsBindFlags.DEFAULT);
+		settings.bind('primary-history', primaryHistory, 'active', Gio.SettingsBindFlags.DEFAULT);
+		settings.bind('primary-history-length', primaryHistoryLength, 'value', Gio.SettingsBindFlags.DEFAULT);
 		settings.bind('update-date-on-copy', updateDateOnCopy, 'active', Gio.SettingsBindFlags.DEFAULT);
+		settings.bind('paste-queue-intercept-paste', interceptPaste, 'active', Gio.SettingsBindFlags.DEFAULT);
+		bind_enum(settings, 'merge-separator', mergeSeparator, 'selected');
+		settings.bind('merge-custom-separator', mergeCustomSeparator, 'text', Gio.SettingsBindFlags.DEFAULT);
+		settings.bind('merge-delete-originals', mergeDeleteOriginals, 'active', Gio.SettingsBindFlags.DEFAULT);
+
+		const updateVisibility = () => {
+			mergeCustomSeparator.visible = mergeSeparator.selected === MergeSeparator.Custom;
+		};
+		mergeSeparator.connect('notify::selected', updateVisibility);
+		updateVisibility();
+
+		primaryHistory.bind_property('active', primaryHistoryLength, 'sensitive', GObject.BindingFlags.SYNC_CREATE);
 	}
 }
@@ -0,0 +1,253 @@
+import Adw from 'gi://Adw';
+import GLib from 'gi://GLib';
+import Gio from 'gi://Gio';
+import Gtk from 'gi://Gtk';
+
+import { gettext as _ } from 'resource:///org/gnome/Shell/Extensions/js/extensions/prefs.js';
+
+import { DBusName, DBusPath, Tag, Tags } from '../../common/constants.js';
+import { registerClass } from '../../common/gjs.js';
+import { CollectionIcons, Icon } from '../../common/icons.js';
+import { callExtension } from '../utils.js';
+
+Gio._promisify(Adw.AlertDialog.prototype, 'choose', 'choose_finish');
+
+type Collection = [id: number, name: string, color: Tag, icon: string];
+
+export function colorName(color: Tag): string {
+	switch (color) {
+		case Tag.Blue:
+			return _('Blue');
+		case Tag.Teal:
+			return _('Teal');
+		case Tag.Green:
+			return _('Green');
+		case Tag.Yellow:
+			return _('Yellow');
+		case Tag.Orange:
+			return _('Orange');
+		case Tag.Red:
+			return _('Red');
+		case Tag.Pink:
+			return _('Pink');
+		case Tag.Purple:
+			return _('Purple');
+		case Tag.Slate:
+			return _('Slate');
+	}
+}
+
+@registerClass()
+class CollectionDialog extends Adw.AlertDialog {
+	private readonly _suggestedId: string;
+
+	private readonly _nameRow: Adw.EntryRow;
+	private readonly _colorRow: Adw.ComboRow;
+	private readonly _iconRow: Adw.ComboRow;
+
+	constructor(collection: Collection | null, heading: string, suggestedId: string, suggestedLabel: string) {
+		super({
+			heading,
+		});
+
+		this._suggestedId = suggestedId;
+
+		const [, name, color, icon] = collection ?? [-1, '', Tag.Blue, Icon.Folder];
+
+		this.add_response('cancel', _('Cancel'));
+		this.set_close_response('cancel');
+		this.add_response(suggestedId, suggestedLabel);
+		this.set_response_appearance(suggestedId, Adw.ResponseAppearance.SUGGESTED);
+		this.set_response_enabled(suggestedId, name !== '');
+
+		// Form
+		const box = new Gtk.ListBox({
+			css_classes: ['boxed-list'],
+			selection_mode: Gtk.SelectionMode.NONE,
+		});
+		this.extra_child = box;
+
+		this._nameRow = new Adw.EntryRow({ title: _('Name'), text: name });
+		box.append(this._nameRow);
+
+		this._colorRow = new Adw.ComboRow({
+			title: _('Color'),
+			model: Gtk.StringList.new(Tags.map(colorName)),
+			selected: Math.max(Tags.indexOf(color), 0),
+		});
+		box.append(this._colorRow);
+
+		const iconFactory = new Gtk.SignalListItemFactory();
+		iconFactory.connect('setup', (_factory, item: Gtk.ListItem) => (item.child = new Gtk.Image()));
+		iconFactory.connect('bind', (_factory, item: Gtk.ListItem) => {
+			(item.child as Gtk.Image).icon_name = (item.item as Gtk.StringObject).string;
+		});
+
+		this._iconRow = new Adw.ComboRow({
+			title: _('Icon'),
+			model: Gtk.StringList.new([...CollectionIcons]),
+			factory: iconFactory,
+			selected: Math.max(CollectionIcons.indexOf(icon as (typeof CollectionIcons)[number]), 0),
+		});
+		box.append(this._iconRow);
+
+		// Connect signals
+		this._nameRow.connect('notify::text', () =>
+			this.set_response_enabled(this._suggestedId, this._nameRow.text.trim() !== ''),
+		);
+	}
+
+	get name(): string {
+		return this._nameRow.text.trim();
+	}
+
+	get color(): Tag {
+		return Tags[this._colorRow.selected] ?? Tag.Blue;
+	}
+
+	get icon(): string {
+		return CollectionIcons[this._iconRow.selected] ?? Icon.Folder;
+	}
+}
+
+@registerClass()
+class DeleteCollectionDialog extends Adw.AlertDialog {
+	constructor(name: string) {
+		super({
+			heading: _('Delete Collection?'),
+			body: _('The collection “%s” will be deleted. Its items stay in the clipboard history.').format(name),
+		});
+
+		this.add_response('cancel', _('Cancel'));
+		this.add_response('delete', _('Delete'));
+		this.close_response = 'cancel';
+		this.default_response = 'cancel';
+		this.set_response_appearance('delete', Adw.ResponseAppearance.DESTRUCTIVE);
+	}
+}
+
+@registerClass()
+export class CollectionsSettings extends Adw.PreferencesGroup {
+	private readonly _window: Adw.PreferencesWindow;
+	private readonly _list: Gtk.ListBox;
+	private readonly _signalId: number;
+
+	constructor(window: Adw.PreferencesWindow) {
+		super({
+			title: _('Collections'),
+			description: _('Group clipboard items into collections. Items are assigned from their menu'),
+		});
+
+		this._window = window;
+
+		const addCollection = new Gtk.Button({
+			icon_name: Icon.Add,
+			valign: Gtk.Align.CENTER,
+			css_classes: ['flat'],
+		});
+		this.header_suffix = addCollection;
+		addCollection.connect('clicked', () => this.addCollection());
+
+		this._list = new Gtk.ListBox({ css_classes: ['boxed-list'], selection_mode: Gtk.SelectionMode.NONE });
+		this._list.set_placeholder(
+			new Adw.ActionRow({
+				title: _('No Collections'),
+				sensitive: false,
+			}),
+		);
+		this.add(this._list);
+
+		// Collections are stored in the clipboard history, so they are managed by the extension
+		this._signalId = Gio.DBus.session.signal_subscribe(
+			DBusName,
+			DBusName,
+			'CollectionsChanged',
+			DBusPath,
+			null,
+			Gio.DBusSignalFlags.NONE,
+			() => this.loadCollections(),
+		);
+		this.connect('destroy', () => Gio.DBus.session.signal_unsubscribe(this._signalId));
+
+		this.loadCollections().catch(() => {});
+	}
+
+	private async loadCollections(): Promise<void> {
+		let collections: Collection[] = [];
+		try {
+			[collections] = (await callExtension('ListCollections', null, '(a(isss))')) as [Collection[]];
+		} catch {
+			// The extension is not running
+		}
+
+		this._list.remove_all();
+		for (const collection of collections) {
+			this._list.append(this.createRow(collection));
+		}
+	}
+
+	private createRow(collection: Collection): Adw.ActionRow {
+		const [id, name, color, icon] = collection;
+
+		const row = new Adw.ActionRow({ title: GLib.markup_escape_text(name, -1) });
+		row.add_prefix(new Gtk.Image({ icon_name: icon, css_classes: ['collection-icon', color] }));
+
+		const editButton = new Gtk.Button({
+			icon_name: Icon.Edit,
+			valign: Gtk.Align.CENTER,
+			css_classes: ['flat'],
+		});
+		row.add_suffix(editButton);
+		editButton.connect('clicked', () => this.editCollection(collection));
+
+		const deleteButton = new Gtk.Button({
+			icon_name: Icon.Delete,
+			valign: Gtk.Align.CENTER,
+			css_classes: ['flat', 'destructive-action'],
+		});
+		row.add_suffix(deleteButton);
+		deleteButton.connect('clicked', async () => {
+			const response = await new DeleteCollectionDialog(name).choose(this._window, null);
+			if (response === 'delete') {
+				await this.callExtension('DeleteCollection', new GLib.Variant('(i)', [id]), '()');
+			}
+		});
+
+		return row;
+	}
+
+	private async addCollection(): Promise<void> {
+		const dialog = new CollectionDialog(null, _('Add Collection'), 'add', _('Add'));
+		const response = await dialog.choose(this._window, null);
+		if (response !== 'add') return;
+
+		await this.callExtension(
+			'AddCollection',
+			new GLib.Variant('(sss)', [dialog.name, dialog.color, dialog.icon]),
+			'(i)',
+		);
+	}
+
+	private async editCollection(collection: Collection): Promise<void> {
+		const dialog = new CollectionDialog(collection, _('Edit Collection'), 'edit', _('Edit'));
+		const response = await dialog.choose(this._window, null);
+		if (response !== 'edit') return;
+
+		await this.callExtension(
+			'UpdateCollection',
+			new GLib.Variant('(isss)', [collection[0], dialog.name, dialog.color, dialog.icon]),
+			'()',
+		);
+	}
+
+	private async callExtension(method: string, parameters: GLib.Variant, replyType: string): Promise<void> {
+		try {
+			await callExtension(method, parameters, replyType);
+		} catch (err) {
+			console.error(err);
+			this._window.add_toast(
+				new Adw.Toast({ title: _('Failed to update collections'), priority: Adw.ToastPriority.HIGH }),
+			);
+		}
+	}
+}
@@ -9,9 +9,12 @@ import { ExtensionPreferences, gettext as _ } from 'resource:///org/gnome/Shell/
 import { getDataPath } from '../../common/constants.js';
 import { registerClass } from '../../common/gjs.js';
 import { bind_enum } from '../../common/settings.js';
-import { makeResettable } from '../utils.js';
+import { ImportConflict } from '../../misc/archive.js';
+import { callExtension, makeResettable } from '../utils.js';
 
 Gio._promisify(Gtk.FileDialog.prototype, 'open', 'open_finish');
+Gio._promisify(Gtk.FileDialog.prototype, 'save', 'save_finish');
+Gio._promisify(Adw.AlertDialog.prototype, 'choose', 'choose_finish');
 
 @registerClass({
 	Properties: {
@@ -31,6 +34,7 @@ export class HistorySettings extends Adw.PreferencesGroup {
 	private readonly _defaultDatabaseLocation: string;
 	private readonly _inMemoryDatabase: Adw.SwitchRow;
 	private readonly _databaseLocation: Adw.ActionRow;
+	private readonly _encryptHistory: Adw.SwitchRow;
 	private readonly _clipboardHistory: Adw.ComboRow;
 
 	constructor(prefs: ExtensionPreferences, window: Adw.PreferencesWindow) {
@@ -56,6 +60,21 @@ export class HistorySettings extends Adw.PreferencesGroup {
 		this._databaseLocation.connect('activated', () => this.openDatabaseLocation(window));
 		this.add(this._databaseLocation);
 
+		this._encryptHistory = new Adw.SwitchRow({
+			title: _('Encrypt History'),
+			subtitle: _('Encrypt the clipboard history with a key stored in the keyring'),
+		});
+		this.add(this._encryptHistory);
+
+		const rekeyHistory = new Adw.ActionRow({
+			title: _('Change Encryption Key'),
+			subtitle: _('Encrypt the clipboard history with a new key'),
+			activatable: true,
+		});
+		rekeyHistory.add_suffix(new Gtk.Image({ icon_name: 'view-refresh-symbolic' }));
+		rekeyHistory.connect('activated', () => this.rekeyHistory(window));
+		this.add(rekeyHistory);
+
 		this._clipboardHistory = new Adw.ComboRow({
 			title: _('Clipboard History'),
 			subtitle: _(
@@ -82,17 +101,54 @@ export class HistorySettings extends Adw.PreferencesGroup {
 		});
 		this.add(timeLimit);
 
+		const faithfulMode = new Adw.SwitchRow({
+			title: _('Faithful Mode'),
+			subtitle: _('Store every format offered by the copying app so that items are pasted exactly as copied'),
+		});
+		this.add(faithfulMode);
+
+		const faithfulModeSizeLimit = new Adw.SpinRow({
+			title: _('Faithful Mode Size Limit'),
+			subtitle: _('Select how many MiB of formats to store for each item'),
+			adjustment: new Gtk.Adjustment({ lower: 1, upper: 100, step_increment: 1, page_increment: 10, value: 10 }),
+		});
+		this.add(faithfulModeSizeLimit);
+
+		const exportHistory = new Adw.ActionRow({
+			title: _('Export History'),
+			subtitle: _('Save the clipboard history and its images to an archive'),
+			activatable: true,
+		});
+		exportHistory.add_suffix(new Gtk.Image({ icon_name: 'document-save-symbolic' }));
+		exportHistory.connect('activated', () => this.exportHistory(window));
+		this.add(exportHistory);
+
+		const importHistory = new Adw.ActionRow({
+			title: _('Import History'),
+			subtitle: _('Add the clipboard history of an archive to the current clipboard history'),
+			activatable: true,
+		});
+		importHistory.add_suffix(new Gtk.Image({ icon_name: 'document-open-symbolic' }));
+		importHistory.connect('activated', () => this.importHistory(window));
+		this.add(importHistory);
+
 		// Bind properties
 		this._settings = prefs.getSettings();
 		this._settings.bind('database-location', this, 'database-location', Gio.SettingsBindFlags.DEFAULT);
 		bind_enum(this._settings, 'clipboard-history', this._clipboardHistory, 'selected');
 		this._settings.bind('history-length', historyLength, 'value', Gio.SettingsBindFlags.DEFAULT);
 		this._settings.bind('history-time', timeLimit, 'value', Gio.SettingsBindFlags.DEFAULT);
+		this._settings.bind('faithful-mode', faithfulMode, 'active', Gio.SettingsBindFlags.DEFAULT);
+		this._settings.bind('faithful-mode-size-limit', faithfulModeSizeLimit, 'value', Gio.SettingsBindFlags.DEFAULT);
+		this._settings.bind('encrypt-history', this._encryptHistory, 'active', Gio.SettingsBindFlags.DEFAULT);
 
 		makeResettable(this._databaseLocation, this._settings, 'database-location');
 		makeResettable(this._clipboardHistory, this._settings, 'clipboard-history');
 		makeResettable(historyLength, this._settings, 'history-length');
 		makeResettable(timeLimit, this._settings, 'history-time');
+		makeResettable(faithfulMode, this._settings, 'faithful-mode');
+		makeResettable(faithfulModeSizeLimit, this._settings, 'faithful-mode-size-limit');
+		makeResettable(this._encryptHistory, this._settings, 'encrypt-history');
 
 		this._inMemoryDatabase.bind_property(
 			'active',
@@ -106,6 +162,14 @@ export class HistorySettings extends Adw.PreferencesGroup {
 			'sensitive',
 			GObject.BindingFlags.SYNC_CREATE | GObject.BindingFlags.INVERT_BOOLEAN,
 		);
+		this._inMemoryDatabase.bind_property(
+			'active',
+			this._encryptHistory,
+			'sensitive',
+			GObject.BindingFlags.SYNC_CREATE | GObject.BindingFlags.INVERT_BOOLEAN,
+		);
+		this._encryptHistory.bind_property('active', rekeyHistory, 'visible', GObject.BindingFlags.SYNC_CREATE);
+		faithfulMode.bind_property('active', faithfulModeSizeLimit, 'sensitive', GObject.BindingFlags.SYNC_CREATE);
 	}
 
 	get databaseLocation(): string {
@@ -153,4 +217,107 @@ export class HistorySettings extends Adw.PreferencesGroup {
 			console.error('Failed to open database location');
 		}
 	}
+
+	private async exportHistory(window: Adw.PreferencesWindow): Promise<void> {
+		const dialog = new Gtk.FileDialog({
+			initial_name: 'copyous-history.tar',
+			default_filter: new Gtk.FileFilter({
+				patterns: ['*.tar'],
+			}),
+		});
+
+		let path: string | null | undefined;
+		try {
+			path = (await dialog.save(window, null))?.get_path();
+		} catch {
+			// Cancelled
+			return;
+		}
+		if (path == null) return;
+
+		try {
+			const [exported] = (await callExtension('ExportHistory', new GLib.Variant('(s)', [path]), '(u)')) as [
+				number,
+			];
+			window.add_toast(new Adw.Toast({ title: _('Exported %d items').format(exported) }));
+		} catch (err) {
+			console.error(err);
+			window.add_toast(
+				new Adw.Toast({ title: _('Failed to export clipboard history'), priority: Adw.ToastPriority.HIGH }),
+			);
+		}
+	}
+
+	private async importHistory(window: Adw.PreferencesWindow): Promise<void> {
+		const dialog = new Gtk.FileDialog({
+			default_filter: new Gtk.FileFilter({
+				patterns: ['*.tar'],
+			}),
+		});
+
+		let path: string | null | undefined;
+		try {
+			path = (await dialog.open(window, null))?.get_path();
+		} catch {
+			// Cancelled
+			return;
+		}
+		if (path == null) return;
+
+		// Ask how to handle items that already exist
+		const conflictDialog = new Adw.AlertDialog({
+			heading: _('Import History'),
+			body: _(
+				'Choose what to do with items that are already in the clipboard history. Merging keeps pins, tags and the most recent date of both.',
+			),
+		});
+		conflictDialog.add_response('cancel', _('Cancel'));
+		conflictDialog.add_response(ImportConflict.Skip, _('Skip'));
+		conflictDialog.add_response(ImportConflict.Replace, _('Replace'));
+		conflictDialog.add_response(ImportConflict.Merge, _('Merge'));
+		conflictDialog.set_close_response('cancel');
+		conflictDialog.set_default_response(ImportConflict.Merge);
+		conflictDialog.set_response_appearance(ImportConflict.Merge, Adw.ResponseAppearance.SUGGESTED);
+
+		const conflict = await conflictDialog.choose(window, null);
+		if (conflict === 'cancel') return;
+
+		try {
+			const [added, updated] = (await callExtension(
+				'ImportHistory',
+				new GLib.Variant('(ss)', [path, conflict]),
+				'(uu)',
+			)) as [number, number];
+			window.add_toast(new Adw.Toast({ title: _('Added %d items and updated %d items').format(added, updated) }));
+		} catch (err) {
+			console.error(err);
+			window.add_toast(
+				new Adw.Toast({ title: _('Failed to import clipboard history'), priority: Adw.ToastPriority.HIGH }),
+			);
+		}
+	}
+
+	private async rekeyHistory(window: Adw.PreferencesWindow): Promise<void> {
+		const dialog = new Adw.AlertDialog({
+			heading: _('Change Encryption Key'),
+			body: _('The clipboard history will be encrypted with a new key. Archives and backups are not affected.'),
+		});
+		dialog.add_response('cancel', _('Cancel'));
+		dialog.add_response('rekey', _('Change Key'));
+		dialog.set_close_response('cancel');
+		dialog.set_response_appearance('rekey', Adw.ResponseAppearance.SUGGESTED);
+
+		const response = await dialog.choose(window, null);
+		if (response !== 'rekey') return;
+
+		try {
+			await callExtension('RekeyHistory', null, '()');
+			window.add_toast(new Adw.Toast({ title: _('Changed encryption key') }));
+		} catch (err) {
+			console.error(err);
+			window.add_toast(
+				new Adw.Toast({ title: _('Failed to change encryption key'), priority: Adw.ToastPriority.HIGH }),
+			);
+		}
+	}
 }
@@ -0,0 +1,108 @@
+import Adw from 'gi://Adw';
+import GObject from 'gi://GObject';
+import Gio from 'gi://Gio';
+import Gtk from 'gi://Gtk';
+
+import { ExtensionPreferences, gettext as _ } from 'resource:///org/gnome/Shell/Extensions/js/extensions/prefs.js';
+
+import { flagsParamSpec, registerClass } from '../../common/gjs.js';
+import { bind_enum, bind_flags } from '../../common/settings.js';
+import { SecretDetector, SensitiveContentPolicy } from '../../misc/sensitive.js';
+import { makeResettable } from '../utils.js';
+
+@registerClass({
+	Properties: {
+		detectors: flagsParamSpec('detectors', GObject.ParamFlags.READWRITE, SecretDetector, SecretDetector.All),
+	},
+})
+export class SensitiveContentSettings extends Adw.PreferencesGroup {
+	private _detectors: number = SecretDetector.All;
+	private readonly _detectorRows: Map<SecretDetector, Adw.SwitchRow> = new Map();
+
+	constructor(prefs: ExtensionPreferences) {
+		super({
+			title: _('Sensitive Content'),
+			description: _('Copied text that likely contains passwords, keys or other secrets'),
+		});
+
+		const policy = new Adw.ComboRow({
+			title: _('Action'),
+			subtitle: _('Choose what to do with copied text that likely contains a secret'),
+			model: Gtk.StringList.new([_('Save'), _("Don't Save"), _('Mask'), _('Delete After Timeout')]),
+		});
+		this.add(policy);
+
+		const timeout = new Adw.SpinRow({
+			title: _('Timeout'),
+			subtitle: _('Select after how many seconds items containing secrets are deleted'),
+			adjustment: new Gtk.Adjustment({ lower: 1, upper: 3600, step_increment: 1, page_increment: 10, value: 30 }),
+		});
+		this.add(timeout);
+
+		const detectors = new Adw.ExpanderRow({
+			title: _('Detectors'),
+			subtitle: _('Choose which kinds of secrets are detected'),
+		});
+		this.add(detectors);
+
+		const detectorRows: [SecretDetector, string, string][] = [
+			[
+				SecretDetector.ApiKey,
+				_('API Keys and Tokens'),
+				_('Well-known key formats and assignments such as API_KEY=…'),
+			],
+			[SecretDetector.PrivateKey, _('Private Keys'), _('PEM, OpenSSH and PGP private key blocks')],
+			[SecretDetector.Jwt, _('JSON Web Tokens'), ''],
+			[SecretDetector.HighEntropy, _('Random Strings'), _('Single words that look randomly generated')],
+			[
+				SecretDetector.CreditCard,
+				_('Credit Card Numbers'),
+				_('Card numbers of known issuers that pass the Luhn check'),
+			],
+		];
+		for (const [detector, title, subtitle] of detectorRows) {
+			const row = new Adw.SwitchRow({ title, subtitle, active: true });
+			row.connect('notify::active', () => this.setDetector(detector, row.active));
+			detectors.add_row(row);
+			this._detectorRows.set(detector, row);
+		}
+
+		// Bind properties
+		const settings = prefs.getSettings();
+		bind_enum(settings, 'sensitive-content-policy', policy, 'selected');
+		settings.bind('sensitive-content-timeout', timeout, 'value', Gio.SettingsBindFlags.DEFAULT);
+		bind_flags(settings, 'sensitive-content-detectors', this, 'detectors');
+
+		makeResettable(policy, settings, 'sensitive-content-policy');
+		makeResettable(timeout, settings, 'sensitive-content-timeout');
+
+		const updateSensitivity = () => {
+			timeout.sensitive = policy.selected === SensitiveContentPolicy.Delete;
+			detectors.sensitive = policy.selected !== SensitiveContentPolicy.Save;
+		};
+		policy.connect('notify::selected', updateSensitivity);
+		updateSensitivity();
+	}
+
+	get detectors() {
+		return this._detectors;
+	}
+
+	set detectors(detectors: number) {
+		if (this._detectors === detectors) return;
+		this._detectors = detectors;
+		for (const [detector, row] of this._detectorRows) {
+			row.active = (detectors & detector) > 0;
+		}
+
+		this.notify('detectors');
+	}
+
+	private setDetector(detector: SecretDetector, active: boolean) {
+		if (active) {
+			this.detectors |= detector;
+		} else {
+			this.detectors &= ~detector;
+		}
+	}
+}
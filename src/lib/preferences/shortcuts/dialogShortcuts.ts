@@ -20,12 +20,17 @@ export class DialogShortcuts extends Adw.PreferencesGroup {
 		const toggleIncognito = new ShortcutRow(_('Toggle Incognito Mode'), '', true);
 		this.add(toggleIncognito);
 
+		const pasteNext = new ShortcutRow(_('Paste Next Queued Item'), '', true);
+		this.add(pasteNext);
+
 		// Bind properties
 		const settings = prefs.getSettings();
 		settings.bind('open-clipboard-dialog-shortcut', openDialog, 'shortcuts', Gio.SettingsBindFlags.DEFAULT);
 		settings.bind('toggle-incognito-mode-shortcut', toggleIncognito, 'shortcuts', Gio.SettingsBindFlags.DEFAULT);
+		settings.bind('paste-next-shortcut', pasteNext, 'shortcuts', Gio.SettingsBindFlags.DEFAULT);
 
 		makeResettable(openDialog, settings, 'open-clipboard-dialog-shortcut');
 		makeResettable(toggleIncognito, settings, 'toggle-incognito-mode-shortcut');
+		makeResettable(pasteNext, settings, 'paste-next-shortcut');
 	}
 }
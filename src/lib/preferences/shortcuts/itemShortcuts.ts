@@ -30,6 +30,20 @@ export class ItemShortcuts extends Adw.PreferencesGroup {
 		const openMenu = new ShortcutRow(_('Open Menu'), '', true);
 		this.add(openMenu);
 
+		const revealItem = new ShortcutRow(_('Reveal Item'), '', true);
+		revealItem.subtitle = _('Shows the content of text items that were masked because they contain secrets');
+		this.add(revealItem);
+
+		const selectItem = new ShortcutRow(_('Select Item'), '', true);
+		selectItem.subtitle = _(
+			'Selected items can be changed and added to the paste queue together. Ctrl+click also selects items',
+		);
+		this.add(selectItem);
+
+		const queueItems = new ShortcutRow(_('Add to Paste Queue'), '', true);
+		queueItems.subtitle = _('Adds the selected items, or the focused item, to the paste queue');
+		this.add(queueItems);
+
 		const middleClickAction = new Adw.ComboRow({
 			title: _('Middle Click Action'),
 			model: Gtk.StringList.new([_('None'), _('Pin Item'), _('Delete Item')]),
@@ -42,12 +56,18 @@ export class ItemShortcuts extends Adw.PreferencesGroup {
 		settings.bind('delete-item-shortcut', deleteItem, 'shortcuts', Gio.SettingsBindFlags.DEFAULT);
 		settings.bind('edit-item-shortcut', editItem, 'shortcuts', Gio.SettingsBindFlags.DEFAULT);
 		settings.bind('open-menu-shortcut', openMenu, 'shortcuts', Gio.SettingsBindFlags.DEFAULT);
+		settings.bind('reveal-item-shortcut', revealItem, 'shortcuts', Gio.SettingsBindFlags.DEFAULT);
+		settings.bind('select-item-shortcut', selectItem, 'shortcuts', Gio.SettingsBindFlags.DEFAULT);
+		settings.bind('queue-items-shortcut', queueItems, 'shortcuts', Gio.SettingsBindFlags.DEFAULT);
 		bind_enum(settings, 'middle-click-action', middleClickAction, 'selected');
 
 		makeResettable(pinItem, settings, 'pin-item-shortcut');
 		makeResettable(deleteItem, settings, 'delete-item-shortcut');
 		makeResettable(editItem, settings, 'edit-item-shortcut');
 		makeResettable(openMenu, settings, 'open-menu-shortcut');
+		makeResettable(revealItem, settings, 'reveal-item-shortcut');
+		makeResettable(selectItem, settings, 'select-item-shortcut');
+		makeResettable(queueItems, settings, 'queue-items-shortcut');
 		makeResettable(middleClickAction, settings, 'middle-click-action');
 	}
 }
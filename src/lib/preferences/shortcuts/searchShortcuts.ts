@@ -47,6 +47,7 @@ export class SearchShortcuts extends Adw.PreferencesGroup {
 		super({ title: _('Search') });
 
 		this.add(new ShortcutRow(_('Toggle Pinned Search'), '<Alt>'));
+		this.add(new ShortcutRow(_('Cycle Search Mode'), '<Ctrl>r'));
 		this.add(new ShortcutRow(_('Clear Item Tag/Type'), 'Back'));
 		this.add(new ShortcutRow(_('Activate First Item'), 'Return'));
 	}
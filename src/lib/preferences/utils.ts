@@ -1,11 +1,15 @@
 import Adw from 'gi://Adw';
+import GLib from 'gi://GLib';
 import GObject from 'gi://GObject';
 import Gio from 'gi://Gio';
 import Gtk from 'gi://Gtk';
 
+import { DBusName, DBusPath } from '../common/constants.js';
 import { registerClass } from '../common/gjs.js';
 import { Icon } from '../common/icons.js';
 
+Gio._promisify(Gio.DBusConnection.prototype, 'call', 'call_finish');
+
 @registerClass({
 	Properties: {
 		listbox: GObject.ParamSpec.object('listbox', null, null, GObject.ParamFlags.READABLE, Gtk.ListBox),
@@ -83,3 +87,28 @@ export function makeResettable<T extends Row>(row: T, settings: Gio.Settings, ..
 
 	return row;
 }
+
+/**
+ * Calls a method of the extension over D-Bus
+ * @param method The name of the method
+ * @param parameters The parameters of the method
+ * @param replyType The type of the reply
+ */
+export async function callExtension(
+	method: string,
+	parameters: GLib.Variant | null,
+	replyType: string,
+): Promise<unknown> {
+	const reply = await Gio.DBus.session.call(
+		DBusName,
+		DBusPath,
+		DBusName,
+		method,
+		parameters,
+		new GLib.VariantType(replyType),
+		Gio.DBusCallFlags.NONE,
+		-1,
+		null,
+	);
+	return reply.deepUnpack();
+}
@@ -1,4 +1,5 @@
 import Clutter from 'gi://Clutter';
+import GLib from 'gi://GLib';
 import GObject from 'gi://GObject';
 import Graphene from 'gi://Graphene';
 import Shell from 'gi://Shell';
@@ -16,16 +17,20 @@ import type CopyousExtension from '../../extension.js';
 import { ItemType } from '../common/constants.js';
 import { registerClass } from '../common/gjs.js';
 import { VERSION } from '../misc/compatibility.js';
-import { ClipboardEntry } from '../misc/db.js';
+import { ClipboardEntry, Collection } from '../misc/db.js';
+import { mergeSeparator } from '../misc/merge.js';
 import { ClipboardScrollView } from './clipboardScrollView.js';
 import { ClipboardItemMenu } from './components/clipboardItemMenu.js';
+import { SelectionMenu } from './components/selectionMenu.js';
 import { CharacterItem } from './items/characterItem.js';
+import { ClipboardItem } from './items/clipboardItem.js';
 import { CodeItem } from './items/codeItem.js';
 import { ColorItem } from './items/colorItem.js';
 import { FileItem } from './items/fileItem.js';
 import { FilesItem } from './items/filesItem.js';
 import { ImageItem } from './items/imageItem.js';
 import { LinkItem } from './items/linkItem.js';
+import { RichTextItem } from './items/richTextItem.js';
 import { TextItem } from './items/textItem.js';
 import { CollapsibleHeaderLayout, FitConstraint } from './layout.js';
 import { SearchEntry, SearchQuery } from './searchEntry.js';
@@ -40,6 +45,9 @@ const ANIMATION_TIME = 150;
 		paste: {
 			param_types: [GObject.TYPE_JSOBJECT],
 		},
+		queue: {
+			param_types: [GObject.TYPE_JSOBJECT],
+		},
 	},
 })
 export class ClipboardDialog extends St.Widget {
@@ -62,7 +70,9 @@ export class ClipboardDialog extends St.Widget {
 	private readonly _header: St.Widget;
 	private readonly _searchEntry: SearchEntry;
 	private readonly _scrollView: ClipboardScrollView;
+	private readonly _primaryScrollView: ClipboardScrollView;
 	private readonly _clipboardItemMenu: ClipboardItemMenu;
+	private readonly _selectionMenu: SelectionMenu;
 
 	constructor(private ext: CopyousExtension) {
 		super({
@@ -112,8 +122,12 @@ export class ClipboardDialog extends St.Widget {
 		this._searchEntry = new SearchEntry(ext);
 		headerBox.add_child(this._searchEntry);
 
-		this._searchEntry.connect('search', (_, query: SearchQuery) => this._scrollView.search(query));
-		this._searchEntry.connect('activate', () => this._scrollView.activateFirst());
+		this._searchEntry.connect('search', (_, query: SearchQuery) => {
+			this._scrollView.search(query);
+			this._primaryScrollView.search(query);
+		});
+		this._searchEntry.connect('activate', () => this.scrollView.activateFirst());
+		this._searchEntry.connect('notify::primary', this.updateView.bind(this));
 		this._searchEntry.clutter_text.connect('key-focus-in', () => this.updateHeader(true));
 		this._searchEntry.connect('navigate-focus-out', () => this.updateHeader(false));
 
@@ -121,6 +135,11 @@ export class ClipboardDialog extends St.Widget {
 		this._scrollView = new ClipboardScrollView(ext);
 		this._dialog.add_child(this._scrollView);
 
+		// The primary selection history is not in the database, so it can not use its search index
+		this._primaryScrollView = new ClipboardScrollView(ext, false);
+		this._primaryScrollView.visible = false;
+		this._dialog.add_child(this._primaryScrollView);
+
 		this._widthConstraint = new Clutter.BindConstraint({
 			coordinate: Clutter.BindCoordinate.WIDTH,
 			source: this._scrollView,
@@ -140,6 +159,38 @@ export class ClipboardDialog extends St.Widget {
 			(_: unknown, s: string) => ext.clipboardManager?.copyText(s),
 			'paste',
 			(_: unknown, s: string) => ext.clipboardManager?.pasteText(s),
+			'save',
+			(_: unknown, s: string) => this.save(s),
+			'copy-image',
+			(_: unknown, data: Uint8Array, mimetype: string) => ext.clipboardManager?.copyImage(data, mimetype),
+			'paste-image',
+			(_: unknown, data: Uint8Array, mimetype: string) => ext.clipboardManager?.pasteImage(data, mimetype),
+			'queue',
+			(_: unknown, entry: ClipboardEntry) => this.queue(entry),
+			'merge',
+			(_: unknown, entry: ClipboardEntry) =>
+				this.merge([...this.scrollView.selectedEntries.filter((e) => e !== entry), entry]),
+			'promote',
+			(_: unknown, entry: ClipboardEntry) => this.promote(entry),
+			'save-image',
+			(_: unknown, data: Uint8Array) => this.saveImage(data),
+			this,
+		);
+
+		// Selection menu
+		this._selectionMenu = new SelectionMenu(ext);
+		clipboardItemMenuManager.addMenu(this._selectionMenu, 0);
+
+		this._selectionMenu.connectObject(
+			'queue',
+			(_: unknown, entries: ClipboardEntry[]) => {
+				this.emit('queue', entries);
+				this.close();
+			},
+			'merge',
+			(_: unknown, entries: ClipboardEntry[]) => this.merge(entries),
+			'clear-selection',
+			() => this.scrollView.clearSelection(),
 			this,
 		);
 
@@ -184,6 +235,7 @@ export class ClipboardDialog extends St.Widget {
 
 		// Update initial search for when exclude-pinned or exclude-tagged is enabled
 		this._scrollView.search(this._searchEntry.searchQuery);
+		this._primaryScrollView.search(this._searchEntry.searchQuery);
 	}
 
 	override destroy() {
@@ -194,6 +246,13 @@ export class ClipboardDialog extends St.Widget {
 		super.destroy();
 	}
 
+	/**
+	 * The scroll view of the history that is shown
+	 */
+	private get scrollView(): ClipboardScrollView {
+		return this._searchEntry.primary ? this._primaryScrollView : this._scrollView;
+	}
+
 	get opened(): boolean {
 		return this._open;
 	}
@@ -273,6 +332,7 @@ export class ClipboardDialog extends St.Widget {
 		this.opened = false;
 		this._updateCursor = true;
 		this._clipboardItemMenu.close();
+		this._selectionMenu.close();
 
 		let mode = Clutter.AnimationMode.LINEAR;
 		let easeArgs: Partial<EasingParamsWithProperties> = {};
@@ -318,12 +378,28 @@ export class ClipboardDialog extends St.Widget {
 	}
 
 	public addEntry(entry: ClipboardEntry): void {
+		const item = this.createItem(entry);
+		if (item) this._scrollView.addItem(item);
+	}
+
+	/**
+	 * Adds an entry of the primary selection history
+	 * @param entry The entry
+	 */
+	public addPrimaryEntry(entry: ClipboardEntry): void {
+		const item = this.createItem(entry);
+		if (item) this._primaryScrollView.addItem(item);
+	}
+
+	private createItem(entry: ClipboardEntry): ClipboardItem | null {
 		let item;
 		try {
 			item = (() => {
 				switch (entry.type) {
 					case ItemType.Text:
 						return new TextItem(this.ext, entry);
+					case ItemType.RichText:
+						return new RichTextItem(this.ext, entry);
 					case ItemType.Code:
 						return new CodeItem(this.ext, entry);
 					case ItemType.Image:
@@ -345,11 +421,11 @@ export class ClipboardDialog extends St.Widget {
 
 			if (!item) {
 				this.ext.logger.error('Unknown item type', entry);
-				return;
+				return null;
 			}
 		} catch (e) {
 			this.ext.logger.error(e);
-			return;
+			return null;
 		}
 
 		// Connect edit
@@ -357,14 +433,18 @@ export class ClipboardDialog extends St.Widget {
 
 		// Connect item menu
 		item.connect('open-menu', (_, x: number, y: number, w: number, h: number) => {
+			// Items that are selected together with other items open the menu of the selection
+			const selected = this.scrollView.selectedEntries;
+			const menu = item.selected && selected.length > 1 ? this._selectionMenu : this._clipboardItemMenu;
+
 			// Connect the menu signal to update the hover state of the item and remove the signal when the menu is closed
-			const signalId = this._clipboardItemMenu.connect('open-state-changed', (_menu, state: boolean) => {
+			const signalId = menu.connect('open-state-changed', (_menu, state: boolean) => {
 				item.sync_hover();
-				if (!state) this._clipboardItemMenu.disconnect(signalId);
+				if (!state) menu.disconnect(signalId);
 				return true;
 			});
 
-			this._clipboardItemMenu.arrowAlignment = w === 0 && h === 0 ? 0 : 0.5;
+			menu.arrowAlignment = w === 0 && h === 0 ? 0 : 0.5;
 
 			// Slightly offset the menu to allow immediately clicking and closing the menu
 			if (w === 0 && h === 0) {
@@ -373,8 +453,13 @@ export class ClipboardDialog extends St.Widget {
 			}
 
 			Main.layoutManager.setDummyCursorGeometry(x, y, w, h);
-			this._clipboardItemMenu.entry = entry;
-			this._clipboardItemMenu.open(BoxPointer.PopupAnimation.SLIDE);
+			if (menu === this._selectionMenu) {
+				this._selectionMenu.entries = selected;
+			} else {
+				this._clipboardItemMenu.selection = selected;
+				this._clipboardItemMenu.entry = entry;
+			}
+			menu.open(BoxPointer.PopupAnimation.SLIDE);
 		});
 
 		// Connect activation
@@ -388,14 +473,91 @@ export class ClipboardDialog extends St.Widget {
 		item.connect('activate-action', (_, id: string) => {
 			if (this._clipboardItemMenu.activateAction(entry, id)) this.close();
 		});
+		item.connect('queue', () => this.queue(entry));
 
-		this._scrollView.addItem(item);
+		return item;
 	}
 
 	public clearEntries() {
 		this._scrollView.clearItems();
 	}
 
+	public setCollections(collections: Collection[]) {
+		this._searchEntry.collections = collections;
+	}
+
+	/**
+	 * Queues the selected entries, or the entry itself if no entries are selected
+	 * @param entry The entry the queue was requested from
+	 */
+	private queue(entry: ClipboardEntry) {
+		const selected = this.scrollView.selectedEntries;
+		this.emit('queue', selected.length > 0 ? selected : [entry]);
+		this.close();
+	}
+
+	/**
+	 * Adds an item to the history without copying it
+	 * @param text The text of the item
+	 */
+	private save(text: string) {
+		this.ext.entryTracker
+			?.insert(ItemType.Text, text)
+			.then((entry) => {
+				if (entry) this.addEntry(entry);
+			})
+			.catch((e) => this.ext.logger.error(e));
+	}
+
+	/**
+	 * Adds an image item
+	 * @param data The png image
+	 */
+	private saveImage(data: Uint8Array) {
+		const tracker = this.ext.entryTracker;
+		const checksum = GLib.compute_checksum_for_bytes(GLib.ChecksumType.MD5, data);
+		if (!tracker || !checksum) return;
+
+		tracker
+			.storeImage(`${checksum}.png`, data)
+			.then((image) => tracker.insert(ItemType.Image, image.get_uri()))
+			.then((entry) => {
+				if (entry) this.addEntry(entry);
+			})
+			.catch((e) => this.ext.logger.error(e));
+	}
+
+	/**
+	 * Moves an item of the primary selection history to the clipboard history
+	 * @param entry The entry of the primary selection history
+	 */
+	private promote(entry: ClipboardEntry) {
+		this.ext.entryTracker
+			?.insert(entry.type, entry.content, entry.metadata, entry.source)
+			.then((added) => {
+				if (added) this.addEntry(added);
+				entry.emit('delete');
+			})
+			.catch((e) => this.ext.logger.error(e));
+	}
+
+	/**
+	 * Adds an item containing the text of entries and clears the selection
+	 * @param entries The entries to merge
+	 */
+	private merge(entries: ClipboardEntry[]) {
+		const separator = mergeSeparator(this.ext.settings);
+		const deleteOriginals = this.ext.settings.get_boolean('merge-delete-originals');
+
+		this.scrollView.clearSelection();
+		this.ext.entryTracker
+			?.mergeEntries(entries, separator, deleteOriginals)
+			.then((result) => {
+				if (result?.[1]) this.addEntry(result[0]);
+			})
+			.catch((e) => this.ext.logger.error(e));
+	}
+
 	private updateHeader(show: boolean, animate: boolean = true) {
 		if (this._searchEntry.text.length > 0) show = true;
 
@@ -418,6 +580,24 @@ export class ClipboardDialog extends St.Widget {
 		}
 	}
 
+	/**
+	 * Shows the primary selection history or the clipboard history
+	 */
+	private updateView() {
+		const hidden = this._searchEntry.primary ? this._scrollView : this._primaryScrollView;
+		hidden.clearSelection();
+
+		this._scrollView.visible = !this._searchEntry.primary;
+		this._primaryScrollView.visible = this._searchEntry.primary;
+		this._widthConstraint.source = this.scrollView;
+
+		// Move the focus out of the hidden history
+		const focus = global.stage.get_key_focus();
+		if (this.opened && focus && hidden.contains(focus)) {
+			this.scrollView.navigate_focus(null, St.DirectionType.DOWN, false);
+		}
+	}
+
 	private updatePosition() {
 		const showAtPointer = this.ext.settings.get_boolean('show-at-pointer');
 		this._orientation = this.ext.settings.get_enum('clipboard-orientation');
@@ -426,6 +606,7 @@ export class ClipboardDialog extends St.Widget {
 		const size = this.ext.settings.get_int('clipboard-size');
 
 		this._scrollView.orientation = this._orientation;
+		this._primaryScrollView.orientation = this._orientation;
 		this._widthConstraint.enabled = this._orientation === Clutter.Orientation.VERTICAL;
 		this._fitConstraint.enabled = showAtPointer;
 
@@ -509,19 +690,32 @@ export class ClipboardDialog extends St.Widget {
 		const isNum = key >= Clutter.KEY_0 && key <= Clutter.KEY_9;
 		if (event.has_control_modifier() && (isNum || (key >= Clutter.KEY_KP_0 && key <= Clutter.KEY_KP_9))) {
 			const i = isNum ? key - Clutter.KEY_1 : key - Clutter.KEY_KP_1;
-			if (this._scrollView.selectItem((i + 10) % 10)) {
+			if (this.scrollView.selectItem((i + 10) % 10)) {
 				this.updateHeader(false);
 			}
 
 			return Clutter.EVENT_STOP;
 		}
 
+		// Toggle primary selection history: ctrl + p
+		if (event.has_control_modifier() && key === Clutter.KEY_p) {
+			if (this.ext.settings.get_boolean('primary-history'))
+				this._searchEntry.primary = !this._searchEntry.primary;
+			return Clutter.EVENT_STOP;
+		}
+
 		// Search on ctrl+f
 		if (event.has_control_modifier() && key === Clutter.KEY_f) {
 			this._searchEntry.grab_key_focus();
 			return Clutter.EVENT_STOP;
 		}
 
+		// Cycle search mode: ctrl + r
+		if (event.has_control_modifier() && key === Clutter.KEY_r) {
+			this._searchEntry.nextMode();
+			return Clutter.EVENT_STOP;
+		}
+
 		// Trigger search
 		if (!event.has_control_modifier() && this.shouldTriggerSearch(key)) {
 			this._searchEntry.clutter_text.grab_key_focus();
@@ -603,7 +797,11 @@ export class ClipboardDialog extends St.Widget {
 		const autoHide = this.ext.settings.get_boolean('auto-hide-search');
 		this.updateHeader(!autoHide, false);
 
+		// Start with an empty selection
+		this._scrollView.clearSelection();
+		this._primaryScrollView.clearSelection();
+
 		// Navigate to first item
-		this._scrollView.navigate_focus(null, St.DirectionType.DOWN, false);
+		this.scrollView.navigate_focus(null, St.DirectionType.DOWN, false);
 	}
 }
@@ -10,17 +10,45 @@ import {
 	get_next_visible_sibling,
 	get_previous_visible_sibling,
 } from '../misc/actor.js';
+import { ClipboardEntry } from '../misc/db.js';
 import { ClipboardItem } from './items/clipboardItem.js';
 import { State, StatusItem } from './items/statusItem.js';
-import { SearchChange, SearchQuery } from './searchEntry.js';
+import { SearchChange, SearchMode, SearchQuery } from './searchEntry.js';
+
+function arrowDirection(key: number): St.DirectionType | null {
+	switch (key) {
+		case Clutter.KEY_Left:
+			return St.DirectionType.LEFT;
+		case Clutter.KEY_Right:
+			return St.DirectionType.RIGHT;
+		case Clutter.KEY_Up:
+			return St.DirectionType.UP;
+		case Clutter.KEY_Down:
+			return St.DirectionType.DOWN;
+		default:
+			return null;
+	}
+}
 
 @registerClass()
 export class ClipboardScrollContainer extends St.BoxLayout {
 	private readonly _statusItem: StatusItem;
 	private _lastFocus: Clutter.Actor | null = null;
 	private _lastQuery: SearchQuery | null = null;
-
-	constructor(ext: CopyousExtension) {
+	private _searchId: number = 0;
+	private _searchPending: boolean = false;
+	private _ordered: boolean = false;
+	private _selection: ClipboardItem[] = [];
+	private _anchor: ClipboardItem | null = null;
+
+	/**
+	 * @param ext The extension.
+	 * @param indexed Whether the items are entries of the clipboard history that can be searched with its search index.
+	 */
+	constructor(
+		private ext: CopyousExtension,
+		private indexed: boolean = true,
+	) {
 		super({
 			style_class: 'clipboard-item-list',
 			x_align: Clutter.ActorAlign.START,
@@ -118,12 +146,13 @@ export class ClipboardScrollContainer extends St.BoxLayout {
 	}
 
 	public addItem(item: ClipboardItem): void {
-		this.insertOrMoveItem(item);
-
+		// Search before inserting, the position of the item depends on its score when ordered by score
 		if (this._lastQuery) {
 			item.search(this._lastQuery);
 		}
 
+		this.insertOrMoveItem(item);
+
 		// Move item when datetime changes
 		item.entry.connect('notify::datetime', () => this.insertOrMoveItem(item));
 
@@ -132,6 +161,9 @@ export class ClipboardScrollContainer extends St.BoxLayout {
 
 		// Update search when entry changes
 		item.entry.connect('notify', () => this.updateSearch(item));
+
+		item.connect('toggle-selected', () => this.toggleSelected(item));
+		item.connect('select-range', () => this.selectRange(item));
 	}
 
 	private insertOrMoveItem(item: ClipboardItem): void {
@@ -141,7 +173,7 @@ export class ClipboardScrollContainer extends St.BoxLayout {
 
 		let i = 0;
 		for (const c of this.get_children()) {
-			if (c instanceof ClipboardItem && c.entry.datetime.compare(item.entry.datetime) <= 0) {
+			if (c instanceof ClipboardItem && this.compareItems(item, c) <= 0) {
 				this.insert_child_at_index(item, i);
 				break;
 			}
@@ -156,7 +188,31 @@ export class ClipboardScrollContainer extends St.BoxLayout {
 		this.updateVisible();
 	}
 
+	/**
+	 * Compares items by score when the last query is ordered, and by date otherwise.
+	 * @param a The first item.
+	 * @param b The second item.
+	 * @returns A negative number if a comes before b, a positive number if b comes before a and 0 otherwise.
+	 */
+	private compareItems(a: ClipboardItem, b: ClipboardItem): number {
+		if (this._lastQuery?.ordered) {
+			const score = this._lastQuery.scoreOf(b.entry) - this._lastQuery.scoreOf(a.entry);
+			if (score !== 0) return score;
+		}
+
+		return b.entry.datetime.compare(a.entry.datetime);
+	}
+
+	private sortItems(): void {
+		const items = this.get_children().filter((c): c is ClipboardItem => c instanceof ClipboardItem);
+		items.sort((a, b) => this.compareItems(a, b));
+		for (const [i, item] of items.entries()) {
+			if (this.get_child_at_index(i) !== item) this.set_child_at_index(item, i);
+		}
+	}
+
 	public clearItems(): void {
+		this.clearSelection();
 		for (const child of this.get_children()) {
 			if (child instanceof ClipboardItem) {
 				this.remove_child(child);
@@ -168,6 +224,8 @@ export class ClipboardScrollContainer extends St.BoxLayout {
 	public removeItem(child: ClipboardItem): void {
 		if (child.get_parent() !== this) return;
 
+		this.deselect(child);
+
 		const hasKeyFocus = child.has_key_focus();
 		let newFocus = null;
 		if (hasKeyFocus) {
@@ -205,28 +263,137 @@ export class ClipboardScrollContainer extends St.BoxLayout {
 		return false;
 	}
 
+	/**
+	 * The entries of the selected items in the order they were selected
+	 */
+	get selectedEntries(): ClipboardEntry[] {
+		return this._selection.map((item) => item.entry);
+	}
+
+	public toggleSelected(item: ClipboardItem): void {
+		if (item.get_parent() !== this) return;
+
+		if (item.selected) {
+			this.deselect(item);
+		} else {
+			item.selected = true;
+			this._selection.push(item);
+		}
+		this._anchor = item;
+	}
+
+	/**
+	 * Selects the visible items from the item that was selected last up to an item
+	 * @param item The last item of the range
+	 * @param from The first item of the range if no item was selected yet
+	 */
+	public selectRange(item: ClipboardItem, from: ClipboardItem = item): void {
+		if (item.get_parent() !== this) return;
+
+		if (this._anchor?.get_parent() !== this || !this._anchor.visible) this._anchor = from;
+
+		const items = this.get_children().filter((c): c is ClipboardItem => c instanceof ClipboardItem && c.visible);
+		const start = items.indexOf(this._anchor);
+		const end = items.indexOf(item);
+		const range = start <= end ? items.slice(start, end + 1) : items.slice(end, start + 1).reverse();
+
+		const anchor = this._anchor;
+		this.clearSelection();
+		this._anchor = anchor;
+		for (const selected of range) {
+			selected.selected = true;
+			this._selection.push(selected);
+		}
+	}
+
+	public clearSelection(): void {
+		for (const item of this._selection) {
+			item.selected = false;
+		}
+		this._selection = [];
+		this._anchor = null;
+	}
+
+	private deselect(item: ClipboardItem): void {
+		if (this._anchor === item) this._anchor = null;
+
+		const index = this._selection.indexOf(item);
+		if (index < 0) return;
+
+		item.selected = false;
+		this._selection.splice(index, 1);
+	}
+
 	public search(query: SearchQuery): void {
 		// Copy search query, but with SearchChange.Different to always force re-search
 		this._lastQuery = query.withChange(SearchChange.Different);
 
+		// The items do not reflect the previous query if its search is still pending
+		if (this._searchPending) query = query.withChange(SearchChange.Different);
+
+		const searchId = ++this._searchId;
+		const tracker = this.indexed ? this.ext.entryTracker : undefined;
+		const terms = query.terms;
+		if (
+			terms.length === 0 ||
+			query.change === SearchChange.Same ||
+			query.mode !== SearchMode.Substring ||
+			!tracker
+		) {
+			this._searchPending = false;
+			this.applySearch(query);
+			return;
+		}
+
+		// Use the search index of the database to find the entries matching each text term
+		this._searchPending = true;
+		const filters = {
+			pinned: query.pinned,
+			excludePinned: query.excludePinned,
+			tag: query.tag,
+			excludeTagged: query.excludeTagged,
+			type: query.type,
+			app: null,
+			collection: query.collection,
+		};
+		Promise.all(terms.map((term) => tracker.search(term, filters)))
+			.then((results) => {
+				// Ignore outdated searches
+				if (searchId !== this._searchId) return;
+
+				this._searchPending = false;
+				if (results.every((ids) => ids !== null)) {
+					const matches = new Map(terms.map((term, i) => [term, results[i]!]));
+					this.applySearch(query.withMatches(matches));
+				} else {
+					this.applySearch(query);
+				}
+			})
+			.catch((e) => this.ext.logger.error(e));
+	}
+
+	private applySearch(query: SearchQuery): void {
 		this.removePseudoclasses();
 		let focusChild: ClipboardItem | null = null;
-		let firstVisible: ClipboardItem | null = null;
 		for (const child of this.get_children()) {
 			if (child instanceof ClipboardItem) {
-				const hasFocus = child.has_key_focus();
+				if (child.has_key_focus()) focusChild = child;
 				child.search(query);
-				if (hasFocus) focusChild = child;
-				if (child.visible && firstVisible === null) firstVisible = child;
 			}
 		}
+
+		// Order by score or restore the order by date
+		if (query.ordered || this._ordered) this.sortItems();
+		this._ordered = query.ordered;
+
+		const firstVisible = get_first_visible_child(this);
 		this.updateVisible();
 
 		if (focusChild && focusChild.visible) {
 			this.focusChild(focusChild, false);
 		} else if (this._lastFocus && this._lastFocus.visible) {
 			this.scrollToChild(this._lastFocus, false);
-		} else if (firstVisible !== null) {
+		} else if (firstVisible instanceof ClipboardItem) {
 			this.focusChild(firstVisible, false);
 		}
 	}
@@ -326,6 +493,21 @@ export class ClipboardScrollContainer extends St.BoxLayout {
 		return res;
 	}
 
+	override vfunc_key_press_event(event: Clutter.Event): boolean {
+		// Select a range of items: shift + arrow keys
+		const from = global.stage.get_key_focus();
+		const direction = arrowDirection(event.get_key_symbol());
+		if (event.has_shift_modifier() && direction !== null && from instanceof ClipboardItem) {
+			this.navigate_focus(from, direction, false);
+
+			const to = global.stage.get_key_focus();
+			if (to instanceof ClipboardItem) this.selectRange(to, from);
+			return Clutter.EVENT_STOP;
+		}
+
+		return super.vfunc_key_press_event(event);
+	}
+
 	override vfunc_map(): void {
 		this._lastFocus = null;
 		this.hadjustment.value = 0;
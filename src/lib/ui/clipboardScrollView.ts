@@ -5,6 +5,7 @@ import St from 'gi://St';
 import type CopyousExtension from '../../extension.js';
 import { enumParamSpec, registerClass } from '../common/gjs.js';
 import { get_first_visible_child, get_last_visible_child } from '../misc/actor.js';
+import { ClipboardEntry } from '../misc/db.js';
 import { ClipboardScrollContainer } from './clipboardScrollContainer.js';
 import { ClipboardItem } from './items/clipboardItem.js';
 import { SearchQuery } from './searchEntry.js';
@@ -26,7 +27,14 @@ export class ClipboardScrollView extends St.ScrollView {
 
 	private readonly _scrollContainer: ClipboardScrollContainer;
 
-	constructor(private ext: CopyousExtension) {
+	/**
+	 * @param ext The extension.
+	 * @param indexed Whether the items are entries of the clipboard history that can be searched with its search index.
+	 */
+	constructor(
+		private ext: CopyousExtension,
+		indexed: boolean = true,
+	) {
 		super({
 			style_class: 'clipboard-scroll-view',
 			hscrollbar_policy: St.PolicyType.AUTOMATIC,
@@ -43,7 +51,7 @@ export class ClipboardScrollView extends St.ScrollView {
 			}),
 		});
 
-		this._scrollContainer = new ClipboardScrollContainer(ext);
+		this._scrollContainer = new ClipboardScrollContainer(ext, indexed);
 		this.set_child(this._scrollContainer);
 
 		this.connect('notify::width', this.scrollbarWorkaround.bind(this));
@@ -90,6 +98,14 @@ export class ClipboardScrollView extends St.ScrollView {
 		return this._scrollContainer.selectItem(index);
 	}
 
+	get selectedEntries(): ClipboardEntry[] {
+		return this._scrollContainer.selectedEntries;
+	}
+
+	public clearSelection() {
+		this._scrollContainer.clearSelection();
+	}
+
 	public search(query: SearchQuery) {
 		this._scrollContainer.search(query);
 	}
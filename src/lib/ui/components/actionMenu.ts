@@ -4,6 +4,7 @@ import GObject from 'gi://GObject';
 import Gio from 'gi://Gio';
 import St from 'gi://St';
 
+import { gettext as _ } from 'resource:///org/gnome/shell/extensions/extension.js';
 import * as PopupMenu from 'resource:///org/gnome/shell/ui/popupMenu.js';
 
 import type CopyousExtension from '../../../extension.js';
@@ -14,14 +15,21 @@ import {
 	ActionSubmenu,
 	ColorAction,
 	CommandAction,
+	ImageAction,
+	ImageEncoding,
+	PipelineAction,
 	QrCodeAction,
+	TransformAction,
 	findActionById,
 	findDefaultAction,
 	instanceofAction,
 	instanceofActionSubmenu,
 	instanceofColorAction,
 	instanceofCommandAction,
+	instanceofImageAction,
+	instanceofPipelineAction,
 	instanceofQrCodeAction,
+	instanceofTransformAction,
 	isDefaultAction,
 	loadConfig,
 	matchAction,
@@ -30,14 +38,15 @@ import {
 import { Color } from '../../common/color.js';
 import { getActionsConfigPath } from '../../common/constants.js';
 import { registerClass } from '../../common/gjs.js';
+import { PipelineError, runCommand, runPipeline } from '../../common/pipeline.js';
+import { applyTransforms } from '../../common/transform.js';
 import { ClipboardEntry } from '../../misc/db.js';
+import { convertImage } from '../../misc/image.js';
+import { ActionOutputDialog, OutputResponse } from './actionOutputDialog.js';
 import { trim } from './label.js';
 import { QrCodeDialog } from './qrCodeDialog.js';
 import { ShortcutLabel } from './shortcutLabel.js';
 
-Gio._promisify(Gio.Subprocess.prototype, 'wait_async');
-Gio._promisify(Gio.Subprocess.prototype, 'communicate_utf8_async');
-
 @registerClass({
 	Signals: {
 		run: { param_types: [GObject.TYPE_JSOBJECT] },
@@ -112,6 +121,9 @@ export type ActionPopupMenuSectionSignals = {
 	'activate': [Clutter.Event];
 	'copy': [string];
 	'paste': [string];
+	'save': [string];
+	'copy-image': [Uint8Array, string];
+	'paste-image': [Uint8Array, string];
 };
 
 export class ActionPopupMenuSection extends PopupMenu.PopupMenuSection<ActionPopupMenuSectionSignals> {
@@ -190,13 +202,15 @@ export class ActionPopupMenuSection extends PopupMenu.PopupMenuSection<ActionPop
 		if (instanceofCommandAction(action)) await this.runCommandAction(entry, action);
 		else if (instanceofColorAction(action)) this.runColorAction(entry, action);
 		else if (instanceofQrCodeAction(action)) this.runQrCodeAction(entry, action);
+		else if (instanceofTransformAction(action)) this.runTransformAction(entry, action);
+		else if (instanceofImageAction(action)) this.runImageAction(entry, action);
+		else if (instanceofPipelineAction(action)) await this.runPipelineAction(entry, action);
 	}
 
-	private async runCommandAction(entry: ClipboardEntry, action: CommandAction) {
-		const match = matchAction(entry, action)?.map((x) => x ?? '');
-		if (!match) return;
-
-		// Timeout after 30 seconds
+	/**
+	 * Creates a cancellable that is cancelled after 30 seconds or when the menu is destroyed
+	 */
+	private createToken(): Gio.Cancellable {
 		const token = new Gio.Cancellable();
 		this._tokens.push(token);
 		let timeoutId = GLib.timeout_add_seconds(GLib.PRIORITY_HIGH, 30, () => {
@@ -211,31 +225,56 @@ export class ActionPopupMenuSection extends PopupMenu.PopupMenuSection<ActionPop
 			if (i >= 0) this._tokens.splice(i, 1);
 		});
 
+		return token;
+	}
+
+	private output(action: Action, output: string) {
+		switch (action.output) {
+			case ActionOutput.Copy:
+				this.emit('copy', output);
+				break;
+			case ActionOutput.Paste:
+				this.emit('paste', output);
+				break;
+			case ActionOutput.Preview:
+				this.preview(action, output).catch(this.ext.logger.error.bind(this.ext.logger));
+				break;
+		}
+	}
+
+	/**
+	 * Shows the output of an action, or its error, in a dialog before using it
+	 */
+	private async preview(action: Action, text: string, error: boolean = false) {
+		const result = await new ActionOutputDialog(action.name, text, error).prompt();
+		if (!result) return;
+
+		switch (result.response) {
+			case OutputResponse.Copy:
+				this.emit('copy', result.text);
+				break;
+			case OutputResponse.Paste:
+				this.emit('paste', result.text);
+				break;
+			case OutputResponse.Save:
+				this.emit('save', result.text);
+				break;
+		}
+	}
+
+	private async runCommandAction(entry: ClipboardEntry, action: CommandAction) {
+		const match = matchAction(entry, action)?.map((x) => x ?? '');
+		if (!match) return;
+
+		const token = this.createToken();
 		try {
-			const flags =
-				Gio.SubprocessFlags.STDIN_PIPE | Gio.SubprocessFlags.STDOUT_PIPE | Gio.SubprocessFlags.STDERR_PIPE;
-			const process = Gio.Subprocess.new(['sh', '-c', action.command, '_', ...match.slice(1)], flags);
-
-			// Wait for the command to complete and handle the output
-			const [stdout, stderr] = await process.communicate_utf8_async(entry.content, token);
-
-			if (process.get_successful()) {
-				const output = trim(stdout);
-				if (output.length === 0) return;
-
-				switch (action.output) {
-					case ActionOutput.Copy:
-						this.emit('copy', output);
-						break;
-					case ActionOutput.Paste:
-						this.emit('paste', output);
-						break;
-				}
-			} else {
-				this.ext.logger.error(stderr);
-			}
+			const output = trim(await runCommand(action.command, match.slice(1), entry.content, token));
+			if (output.length > 0) this.output(action, output);
 		} catch (e) {
 			this.ext.logger.error(e);
+			if (action.output === ActionOutput.Preview && e instanceof PipelineError) {
+				this.preview(action, e.message, true).catch(this.ext.logger.error.bind(this.ext.logger));
+			}
 		} finally {
 			token.cancel();
 		}
@@ -248,14 +287,7 @@ export class ActionPopupMenuSection extends PopupMenu.PopupMenuSection<ActionPop
 		if (!color) return;
 
 		const converted = color.toColor(action.space);
-		switch (action.output) {
-			case ActionOutput.Copy:
-				this.emit('copy', converted.toString());
-				break;
-			case ActionOutput.Paste:
-				this.emit('paste', converted.toString());
-				break;
-		}
+		this.output(action, converted.toString());
 	}
 
 	private runQrCodeAction(entry: ClipboardEntry, action: QrCodeAction) {
@@ -265,6 +297,83 @@ export class ActionPopupMenuSection extends PopupMenu.PopupMenuSection<ActionPop
 		dialog.open();
 	}
 
+	private runTransformAction(entry: ClipboardEntry, action: TransformAction) {
+		if (!testAction(entry, action)) return;
+
+		let output;
+		try {
+			output = applyTransforms(entry.content, action.transforms);
+		} catch (e) {
+			this.ext.logger.error(e);
+			if (action.output === ActionOutput.Preview) {
+				this.preview(action, (e as Error).message, true).catch(this.ext.logger.error.bind(this.ext.logger));
+			} else {
+				this.ext.notificationManager?.warning(_('Failed to Transform Item'), (e as Error).message);
+			}
+			return;
+		}
+
+		if (output.length > 0) this.output(action, output);
+	}
+
+	private runImageAction(entry: ClipboardEntry, action: ImageAction) {
+		if (!testAction(entry, action)) return;
+
+		let data, mimetype;
+		try {
+			[data, mimetype] = convertImage(
+				Gio.File.new_for_uri(entry.content),
+				action.format,
+				action.quality,
+				action.maxSize,
+			);
+		} catch (e) {
+			this.ext.logger.error(e);
+			this.ext.notificationManager?.warning(_('Failed to Convert Image'), (e as Error).message);
+			return;
+		}
+
+		if (action.encoding === ImageEncoding.Image) {
+			this.emit(action.output === ActionOutput.Copy ? 'copy-image' : 'paste-image', data, mimetype);
+		} else {
+			const base64 = GLib.base64_encode(data);
+			this.output(
+				action,
+				action.encoding === ImageEncoding.DataUri ? `data:${mimetype};base64,${base64}` : base64,
+			);
+		}
+	}
+
+	private async runPipelineAction(entry: ClipboardEntry, action: PipelineAction) {
+		if (!testAction(entry, action)) return;
+
+		const token = this.createToken();
+		try {
+			const result = await runPipeline(this._config, action, entry.content, token);
+			for (const step of result.steps) {
+				if (step.error !== null) this.ext.logger.error(`${action.name}: ${step.error}`);
+			}
+
+			if (result.output === null) {
+				const error = result.steps.at(-1)?.error ?? '';
+				if (action.output === ActionOutput.Preview) {
+					const errors = result.steps
+						.filter((step) => step.error !== null)
+						.map((step) => `${step.action?.name ?? step.step.action}: ${step.error}`);
+					this.preview(action, errors.join('\n'), true).catch(this.ext.logger.error.bind(this.ext.logger));
+				} else {
+					this.ext.notificationManager?.warning(_('Failed to Run %s').format(action.name), error);
+				}
+			} else if (result.output.length > 0) {
+				this.output(action, trim(result.output));
+			}
+		} catch (e) {
+			this.ext.logger.error(e);
+		} finally {
+			token.cancel();
+		}
+	}
+
 	override destroy(): void {
 		this._tokens.forEach((t) => t.cancel());
 		this._monitor.cancel();
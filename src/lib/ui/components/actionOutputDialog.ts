@@ -0,0 +1,108 @@
+import Clutter from 'gi://Clutter';
+
+import { gettext as _ } from 'resource:///org/gnome/shell/extensions/extension.js';
+import * as Dialog from 'resource:///org/gnome/shell/ui/dialog.js';
+import * as ModalDialog from 'resource:///org/gnome/shell/ui/modalDialog.js';
+
+import { registerClass } from '../../common/gjs.js';
+import { MultilineEntry } from './editDialog.js';
+
+export const OutputResponse = {
+	Copy: 'copy',
+	Paste: 'paste',
+	Save: 'save',
+} as const;
+
+export type OutputResponse = (typeof OutputResponse)[keyof typeof OutputResponse];
+
+export interface OutputResult {
+	response: OutputResponse;
+	text: string;
+}
+
+/**
+ * Shows the output of an action to review and edit it before it is used, or the error if the action failed
+ */
+@registerClass()
+export class ActionOutputDialog extends ModalDialog.ModalDialog {
+	private readonly _entry: MultilineEntry;
+	private _resolve: ((result: OutputResult | null) => void) | null = null;
+
+	constructor(title: string, text: string, error: boolean = false) {
+		super({
+			styleClass: 'clipboard-item-edit-dialog action-output-dialog',
+			destroyOnClose: true,
+		});
+
+		const content = new Dialog.MessageDialogContent(
+			error ? { title, description: _('The action failed') } : { title },
+		);
+		this.contentLayout.add_child(content);
+
+		this._entry = new MultilineEntry({
+			style_class: 'clipboard-item-edit-dialog-entry',
+			can_focus: true,
+		});
+		content.add_child(this._entry);
+		this.setInitialKeyFocus(this._entry);
+
+		this._entry.clutterText.text = text;
+		this._entry.clutterText.set_selection(0, 0);
+
+		if (error) {
+			this._entry.add_style_class_name('error');
+			this._entry.clutterText.editable = false;
+		}
+
+		// Buttons
+		this.addButton({
+			label: error ? _('Close') : _('Cancel'),
+			action: () => this.respond(null),
+			default: error,
+			key: Clutter.KEY_Escape,
+		});
+
+		if (!error) {
+			this.addButton({
+				label: _('Save'),
+				action: () => this.respond(OutputResponse.Save),
+			});
+
+			this.addButton({
+				label: _('Copy'),
+				action: () => this.respond(OutputResponse.Copy),
+			});
+
+			this.addButton({
+				label: _('Paste'),
+				action: () => this.respond(OutputResponse.Paste),
+				default: true,
+			});
+		}
+
+		this.connect('closed', () => this.respond(null));
+	}
+
+	/**
+	 * Opens the dialog and waits for the user to choose what to do with the output
+	 * @returns The chosen response with the edited output or null if the dialog was closed
+	 */
+	public prompt(): Promise<OutputResult | null> {
+		return new Promise((resolve) => {
+			this._resolve = resolve;
+			if (!this.open()) this.respond(null);
+		});
+	}
+
+	on_opened() {
+		this._entry.clutterText.queue_relayout();
+	}
+
+	private respond(response: OutputResponse | null) {
+		const resolve = this._resolve;
+		this._resolve = null;
+		resolve?.(response ? { response, text: this._entry.clutterText.text } : null);
+
+		if (this.state === ModalDialog.State.OPENED || this.state === ModalDialog.State.OPENING) this.close();
+	}
+}
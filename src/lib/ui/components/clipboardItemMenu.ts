@@ -1,7 +1,9 @@
 import Clutter from 'gi://Clutter';
+import GLib from 'gi://GLib';
+import Gio from 'gi://Gio';
 import St from 'gi://St';
 
-import { gettext as _ } from 'resource:///org/gnome/shell/extensions/extension.js';
+import { gettext as _, ngettext } from 'resource:///org/gnome/shell/extensions/extension.js';
 import * as BoxPointer from 'resource:///org/gnome/shell/ui/boxpointer.js';
 import * as Main from 'resource:///org/gnome/shell/ui/main.js';
 import * as PopupMenu from 'resource:///org/gnome/shell/ui/popupMenu.js';
@@ -9,15 +11,19 @@ import * as PopupMenu from 'resource:///org/gnome/shell/ui/popupMenu.js';
 import type CopyousExtension from '../../../extension.js';
 import { ItemType, Tags } from '../../common/constants.js';
 import { registerClass } from '../../common/gjs.js';
+import { loadIcon } from '../../common/icons.js';
 import { ClipboardEntry } from '../../misc/db.js';
+import { loadImage } from '../../misc/image.js';
+import { canMerge } from '../../misc/merge.js';
 import { Shortcut } from '../../misc/shortcuts.js';
 import { ActionPopupMenuSection, ActionPopupMenuSectionSignals } from './actionMenu.js';
 import { EditDialog } from './editDialog.js';
+import { ImageEditDialog } from './imageEditDialog.js';
 import { ShortcutLabel } from './shortcutLabel.js';
 import { TagsItem } from './tagsItem.js';
 
 function canEdit(entry: ClipboardEntry): boolean {
-	return entry.type === ItemType.Text || entry.type === ItemType.Code;
+	return entry.type === ItemType.Text || entry.type === ItemType.Code || entry.type === ItemType.Image;
 }
 
 @registerClass()
@@ -61,12 +67,92 @@ class PopupMenuShortcutItem extends PopupMenu.PopupBaseMenuItem {
 	}
 }
 
-export class ClipboardItemMenu extends PopupMenu.PopupMenu<ActionPopupMenuSectionSignals> {
+@registerClass()
+class ExpirySubmenuMenuItem extends PopupMenu.PopupSubMenuMenuItem {
+	private _entry: ClipboardEntry | null = null;
+	private readonly _keepItem: PopupMenu.PopupMenuItem;
+
+	constructor() {
+		super(_('Delete After'));
+		this.menu.box.add_style_class_name('popup-sub-menu'); // Workaround for bad animation
+
+		const durations: [number, string][] = [
+			[5 * 60, ngettext('%d Minute', '%d Minutes', 5).format(5)],
+			[15 * 60, ngettext('%d Minute', '%d Minutes', 15).format(15)],
+			[60 * 60, ngettext('%d Hour', '%d Hours', 1).format(1)],
+			[24 * 60 * 60, ngettext('%d Day', '%d Days', 1).format(1)],
+		];
+		for (const [seconds, label] of durations) {
+			this.menu.addAction(label, () => {
+				if (this._entry) this._entry.expires = GLib.DateTime.new_now_utc().add_seconds(seconds);
+			});
+		}
+
+		this._keepItem = this.menu.addAction(_("Don't Delete"), () => {
+			if (this._entry) this._entry.expires = null;
+		});
+	}
+
+	set entry(entry: ClipboardEntry) {
+		this._entry = entry;
+		this._keepItem.visible = entry.expires !== null;
+	}
+}
+
+@registerClass()
+class CollectionsSubmenuMenuItem extends PopupMenu.PopupSubMenuMenuItem {
+	private _entry: ClipboardEntry | null = null;
+
+	constructor(private ext: CopyousExtension) {
+		super(_('Collections'));
+		this.menu.box.add_style_class_name('popup-sub-menu'); // Workaround for bad animation
+	}
+
+	set entry(entry: ClipboardEntry) {
+		this._entry = entry;
+		this.menu.removeAll();
+
+		const collections = this.ext.entryTracker?.collections ?? [];
+		this.visible = collections.length > 0;
+		for (const collection of collections) {
+			const item = new PopupMenu.PopupImageMenuItem(collection.name, loadIcon(this.ext, collection.icon));
+			item.add_style_class_name(`collection-item ${collection.color}`);
+			item.setOrnament(
+				entry.collections.includes(collection.id) ? PopupMenu.Ornament.CHECK : PopupMenu.Ornament.NONE,
+			);
+			item.connect('activate', () => this.toggleCollection(collection.id));
+			this.menu.addMenuItem(item);
+		}
+	}
+
+	private toggleCollection(id: number) {
+		if (!this._entry) return;
+
+		const collections = this._entry.collections;
+		this._entry.collections = collections.includes(id) ? collections.filter((c) => c !== id) : [...collections, id];
+	}
+}
+
+export type ClipboardItemMenuSignals = ActionPopupMenuSectionSignals & {
+	'queue': [ClipboardEntry];
+	'merge': [ClipboardEntry];
+	'promote': [ClipboardEntry];
+	'save-image': [Uint8Array];
+};
+
+export class ClipboardItemMenu extends PopupMenu.PopupMenu<ClipboardItemMenuSignals> {
 	declare private _arrowAlignment: number;
 	private _entry: ClipboardEntry | null = null;
+	private _selection: ClipboardEntry[] = [];
 
 	private readonly _tagsItem: TagsItem;
+	private readonly _tagsSeparator: PopupMenu.PopupSeparatorMenuItem;
+	private readonly _promoteItem: PopupMenu.PopupMenuItem;
 	private readonly _editSection: PopupMenu.PopupMenuSection;
+	private readonly _templateItem: PopupMenu.PopupSwitchMenuItem;
+	private readonly _mergeItem: PopupMenu.PopupMenuItem;
+	private readonly _expiryItem: ExpirySubmenuMenuItem;
+	private readonly _collectionsItem: CollectionsSubmenuMenuItem;
 	private readonly _actionMenuSection: ActionPopupMenuSection;
 
 	constructor(private ext: CopyousExtension) {
@@ -85,7 +171,13 @@ export class ClipboardItemMenu extends PopupMenu.PopupMenu<ActionPopupMenuSectio
 			}
 		});
 
-		this.addMenuItem(new PopupMenu.PopupSeparatorMenuItem());
+		this._tagsSeparator = new PopupMenu.PopupSeparatorMenuItem();
+		this.addMenuItem(this._tagsSeparator);
+
+		// Primary selection history
+		this._promoteItem = this.addAction(_('Save to History'), () => {
+			if (this._entry) this.emit('promote', this._entry);
+		});
 
 		// Edit
 		this._editSection = new PopupMenu.PopupMenuSection();
@@ -97,6 +189,32 @@ export class ClipboardItemMenu extends PopupMenu.PopupMenu<ActionPopupMenuSectio
 		});
 		this._editSection.addMenuItem(menuItem);
 
+		this._templateItem = new PopupMenu.PopupSwitchMenuItem(_('Template'), false);
+		this._templateItem.connect('toggled', (_item, state: boolean) => {
+			if (this._entry) this._entry.template = state;
+		});
+		this._editSection.addMenuItem(this._templateItem);
+
+		// Paste queue
+		const queueItem = new PopupMenuShortcutItem(ext, _('Add to Paste Queue'), Shortcut.Queue);
+		queueItem.connect('activate', () => {
+			if (this._entry) this.emit('queue', this._entry);
+		});
+		this.addMenuItem(queueItem);
+
+		// Merge
+		this._mergeItem = this.addAction(_('Merge With Selection'), () => {
+			if (this._entry) this.emit('merge', this._entry);
+		});
+
+		// Expiry
+		this._expiryItem = new ExpirySubmenuMenuItem();
+		this.addMenuItem(this._expiryItem);
+
+		// Collections
+		this._collectionsItem = new CollectionsSubmenuMenuItem(ext);
+		this.addMenuItem(this._collectionsItem);
+
 		// Action menu
 		this._actionMenuSection = new ActionPopupMenuSection(ext);
 		this.addMenuItem(this._actionMenuSection);
@@ -108,6 +226,12 @@ export class ClipboardItemMenu extends PopupMenu.PopupMenu<ActionPopupMenuSectio
 			(_menu: unknown, s: string) => this.emit('copy', s),
 			'paste',
 			(_menu: unknown, s: string) => this.emit('paste', s),
+			'save',
+			(_menu: unknown, s: string) => this.emit('save', s),
+			'copy-image',
+			(_menu: unknown, data: Uint8Array, mimetype: string) => this.emit('copy-image', data, mimetype),
+			'paste-image',
+			(_menu: unknown, data: Uint8Array, mimetype: string) => this.emit('paste-image', data, mimetype),
 			this,
 		);
 
@@ -148,21 +272,53 @@ export class ClipboardItemMenu extends PopupMenu.PopupMenu<ActionPopupMenuSectio
 		this._arrowAlignment = alignment;
 	}
 
+	/**
+	 * The selected entries of the dialog, must be set before the entry
+	 */
+	set selection(entries: ClipboardEntry[]) {
+		this._selection = entries;
+	}
+
 	set entry(entry: ClipboardEntry) {
 		this._entry = entry;
 		this._actionMenuSection.entry = entry;
 
+		// Entries of the primary selection history are not stored, so they can only be saved to the clipboard history
+		const primary = this.ext.primaryHistory?.has(entry) ?? false;
+		this._tagsItem.visible = !primary;
+		this._tagsSeparator.visible = !primary;
+		this._promoteItem.visible = primary;
+
 		this._tagsItem.tag = entry.tag;
-		this._editSection.actor.visible = canEdit(entry);
+		this._editSection.actor.visible = !primary && canEdit(entry);
+		this._templateItem.setToggleState(entry.template);
+		this._templateItem.visible = entry.type !== ItemType.Image;
+		this._mergeItem.visible =
+			!primary && canMerge(entry.type) && this._selection.some((e) => e !== entry && canMerge(e.type));
+		this._expiryItem.entry = entry;
+		this._expiryItem.visible = !primary;
+		this._collectionsItem.entry = entry;
+		if (primary) this._collectionsItem.visible = false;
 	}
 
 	public edit(entry: ClipboardEntry) {
-		if (canEdit(entry)) {
+		if (entry.type === ItemType.Image) {
+			this.editImage(entry).catch(this.ext.logger.error.bind(this.ext.logger));
+		} else if (canEdit(entry)) {
 			const editDialog = new EditDialog(this.ext, entry);
 			editDialog.open();
 		}
 	}
 
+	/**
+	 * Edits an image in a dialog, the edited image is saved as a new item
+	 */
+	private async editImage(entry: ClipboardEntry) {
+		const image = loadImage(Gio.File.new_for_uri(entry.content));
+		const data = await new ImageEditDialog(this.ext, image).prompt();
+		if (data) this.emit('save-image', data);
+	}
+
 	public activateDefaultAction(entry: ClipboardEntry): boolean {
 		return this._actionMenuSection.activateDefaultAction(entry);
 	}
@@ -8,7 +8,7 @@ import type CopyousExtension from '../../../extension.js';
 import { registerClass } from '../../common/gjs.js';
 import { Language } from '../../misc/db.js';
 import { ColorScheme } from '../../misc/theme.js';
-import { normalizeIndentation, trim } from './label.js';
+import { Highlighter, highlightAttributes, normalizeIndentation, trim } from './label.js';
 
 // https://gitlab.gnome.org/GNOME/gtksourceview/-/blob/master/data/styles/Adwaita-dark.xml
 // https://gitlab.gnome.org/GNOME/gtksourceview/-/blob/master/data/styles/Adwaita.xml
@@ -251,6 +251,7 @@ export function applyTheme(colorScheme: ColorScheme | undefined, highlighted: st
 			true,
 		),
 		'tab-width': GObject.ParamSpec.int('tab-width', null, null, GObject.ParamFlags.READWRITE, 1, 8, 4),
+		'highlighter': GObject.ParamSpec.jsobject('highlighter', null, null, GObject.ParamFlags.READWRITE),
 	},
 })
 export class CodeLabel extends St.Label {
@@ -261,7 +262,9 @@ export class CodeLabel extends St.Label {
 	private _tabWidth = 4;
 	private _syntaxHighlighting = true;
 	private _showLineNumbers = true;
+	private _highlighter: Highlighter | null = null;
 
+	private _text: string = '';
 	private _highlighted: string = '';
 
 	public constructor(
@@ -359,11 +362,23 @@ export class CodeLabel extends St.Label {
 		this.notify('tab-width');
 	}
 
+	get highlighter() {
+		return this._highlighter;
+	}
+
+	set highlighter(highlighter: Highlighter | null) {
+		if (this._highlighter === highlighter) return;
+		this._highlighter = highlighter;
+		this.updateHighlight();
+		this.notify('highlighter');
+	}
+
 	private updateText() {
 		if (this._code == null) return;
 
 		// Trim indentation before highlighting to prevent empty lines
 		let text = normalizeIndentation(trim(this._code), this.tabWidth);
+		this._text = text;
 		if (this.syntaxHighlighting && this.ext.hljs != null) {
 			const language =
 				this.language && this.ext.hljs.getLanguage(this.language.id) != null ? this.language.id : null;
@@ -401,6 +416,39 @@ export class CodeLabel extends St.Label {
 
 		// Add blank line to fix the first span not being styled
 		this.clutter_text.set_markup('\n' + text);
+		this.updateHighlight();
+	}
+
+	private updateHighlight() {
+		const ranges = this._highlighter?.(this._text) ?? [];
+		if (ranges.length === 0) {
+			this.clutter_text.attributes = new Pango.AttrList();
+			return;
+		}
+
+		// Map offsets in the code to offsets in the label, accounting for the blank line and the line numbers
+		const lines = this._text.split('\n');
+		const lineNumbers = this.showLineNumbers && lines.length > 1;
+		const starts: number[] = [];
+		let offset = 1;
+		for (const [i, line] of lines.entries()) {
+			if (lineNumbers) offset += i.toString().padEnd(2, ' ').length + 1;
+			starts.push(offset);
+			offset += line.length + 1;
+		}
+
+		const map = (index: number) => {
+			let line = 0;
+			let start = 0;
+			while (line < lines.length - 1 && start + lines[line]!.length < index) {
+				start += lines[line]!.length + 1;
+				line++;
+			}
+			return starts[line]! + index - start;
+		};
+
+		const mapped = ranges.map((range) => ({ start: map(range.start), end: map(range.end) }));
+		this.clutter_text.attributes = highlightAttributes(this.clutter_text.text, mapped);
 	}
 
 	override vfunc_allocate(box: Clutter.ActorBox): void {
@@ -0,0 +1,473 @@
+import Cairo from 'cairo';
+import Clutter from 'gi://Clutter';
+import Cogl from 'gi://Cogl';
+import GObject from 'gi://GObject';
+import GdkPixbuf from 'gi://GdkPixbuf';
+import St from 'gi://St';
+
+import { gettext as _ } from 'resource:///org/gnome/shell/extensions/extension.js';
+import * as Dialog from 'resource:///org/gnome/shell/ui/dialog.js';
+import * as ModalDialog from 'resource:///org/gnome/shell/ui/modalDialog.js';
+
+import type CopyousExtension from '../../../extension.js';
+import { registerClass } from '../../common/gjs.js';
+import { Icon, loadIcon } from '../../common/icons.js';
+import {
+	AnnotationColor,
+	AnnotationColors,
+	EditType,
+	ImageEdit,
+	applyEdit,
+	drawAnnotation,
+	encodePng,
+	rectFromPoints,
+} from '../../misc/image.js';
+
+/** Maximum size of the image in the dialog */
+const MaxWidth = 720;
+const MaxHeight = 440;
+
+const Tool = {
+	Crop: EditType.Crop,
+	Arrow: EditType.Arrow,
+	Rectangle: EditType.Rectangle,
+	Text: EditType.Text,
+	Blur: EditType.Blur,
+} as const;
+
+type Tool = (typeof Tool)[keyof typeof Tool];
+
+/**
+ * Shows an image and creates edits from dragging over it with the selected tool
+ */
+@registerClass({
+	Signals: {
+		edit: {
+			param_types: [GObject.TYPE_JSOBJECT],
+		},
+	},
+})
+class ImageCanvas extends St.Widget {
+	private _pixbuf: GdkPixbuf.Pixbuf | null = null;
+	private _scale: number = 1;
+	private _start: [number, number] | null = null;
+	private _end: [number, number] | null = null;
+	private _grab: Clutter.Grab | null = null;
+
+	public tool: Tool = Tool.Crop;
+	public color: AnnotationColor = AnnotationColors[0];
+	public text: string = '';
+
+	private readonly _image: St.Widget;
+	private readonly _overlay: St.DrawingArea;
+
+	constructor() {
+		super({
+			style_class: 'image-edit-canvas',
+			layout_manager: new Clutter.BinLayout(),
+			x_align: Clutter.ActorAlign.CENTER,
+			y_align: Clutter.ActorAlign.CENTER,
+			reactive: true,
+		});
+
+		this._image = new St.Widget({ x_expand: true, y_expand: true });
+		this.add_child(this._image);
+
+		// Preview of the edit that is being dragged
+		this._overlay = new St.DrawingArea({ x_expand: true, y_expand: true });
+		this._overlay.connect('repaint', this.drawOverlay.bind(this));
+		this.add_child(this._overlay);
+	}
+
+	set pixbuf(pixbuf: GdkPixbuf.Pixbuf) {
+		this._pixbuf = pixbuf;
+		this._scale = Math.min(1, MaxWidth / pixbuf.width, MaxHeight / pixbuf.height);
+
+		const context = global.stage.context.get_backend().get_cogl_context();
+		const content = new St.ImageContent({
+			preferred_width: pixbuf.width,
+			preferred_height: pixbuf.height,
+		});
+		content.set_bytes(
+			context,
+			pixbuf.get_pixels(),
+			Cogl.PixelFormat.RGBA_8888,
+			pixbuf.width,
+			pixbuf.height,
+			pixbuf.rowstride,
+		);
+		this._image.content = content;
+
+		this.set_size(
+			Math.max(1, Math.round(pixbuf.width * this._scale)),
+			Math.max(1, Math.round(pixbuf.height * this._scale)),
+		);
+		this._overlay.queue_repaint();
+	}
+
+	/**
+	 * Gets the position of an event in pixels of the image
+	 */
+	private imagePoint(event: Clutter.Event): [number, number] {
+		const [stageX, stageY] = event.get_coords();
+		const [, x, y] = this.transform_stage_point(stageX, stageY);
+		return [
+			Math.clamp(x / this._scale, 0, this._pixbuf?.width ?? 0),
+			Math.clamp(y / this._scale, 0, this._pixbuf?.height ?? 0),
+		];
+	}
+
+	/**
+	 * Creates the edit of the current drag
+	 * @returns The edit or null if the drag is too small
+	 */
+	private currentEdit(): ImageEdit | null {
+		if (!this._start || !this._end) return null;
+
+		const [x1, y1] = this._start;
+		const [x2, y2] = this._end;
+		if (Math.hypot(x2 - x1, y2 - y1) * this._scale < 4) return null;
+
+		const rect = rectFromPoints(x1, y1, x2, y2);
+		switch (this.tool) {
+			case Tool.Crop:
+				return { type: EditType.Crop, rect };
+			case Tool.Blur:
+				return { type: EditType.Blur, rect };
+			case Tool.Rectangle:
+				return { type: EditType.Rectangle, rect, color: this.color };
+			case Tool.Arrow:
+				return { type: EditType.Arrow, x1, y1, x2, y2, color: this.color };
+			default:
+				return null;
+		}
+	}
+
+	private drawOverlay(area: St.DrawingArea) {
+		const edit = this.currentEdit();
+		if (!edit || !this._pixbuf) return;
+
+		const cr = area.get_context();
+		cr.scale(this._scale, this._scale);
+
+		if (edit.type === EditType.Crop || edit.type === EditType.Blur) {
+			const { x, y, width, height } = edit.rect;
+
+			// Darken the part of the image that is cropped away
+			if (edit.type === EditType.Crop) {
+				cr.rectangle(0, 0, this._pixbuf.width, this._pixbuf.height);
+				cr.rectangle(x, y, width, height);
+				cr.setFillRule(Cairo.FillRule.EVEN_ODD);
+				cr.setSourceRGBA(0, 0, 0, 0.5);
+				cr.fill();
+			} else {
+				cr.rectangle(x, y, width, height);
+				cr.setSourceRGBA(1, 1, 1, 0.3);
+				cr.fill();
+			}
+
+			cr.rectangle(x, y, width, height);
+			cr.setLineWidth(1 / this._scale);
+			cr.setDash([4 / this._scale, 4 / this._scale], 0);
+			cr.setSourceRGBA(1, 1, 1, 1);
+			cr.stroke();
+		} else if (edit.type === EditType.Arrow || edit.type === EditType.Rectangle) {
+			drawAnnotation(cr, edit, this._pixbuf.width, this._pixbuf.height);
+		}
+
+		cr.$dispose();
+	}
+
+	override vfunc_button_press_event(event: Clutter.Event): boolean {
+		if (!this._pixbuf || event.get_button() !== Clutter.BUTTON_PRIMARY) return Clutter.EVENT_PROPAGATE;
+
+		const [x, y] = this.imagePoint(event);
+		if (this.tool === Tool.Text) {
+			if (this.text.trim().length > 0) {
+				this.emit('edit', { type: EditType.Text, x, y, text: this.text, color: this.color });
+			}
+			return Clutter.EVENT_STOP;
+		}
+
+		// Keep receiving events when the pointer leaves the image while dragging
+		this._start = [x, y];
+		this._end = [x, y];
+		this._grab = global.stage.grab(this);
+		return Clutter.EVENT_STOP;
+	}
+
+	override vfunc_motion_event(event: Clutter.Event): boolean {
+		if (!this._start) return Clutter.EVENT_PROPAGATE;
+
+		this._end = this.imagePoint(event);
+		this._overlay.queue_repaint();
+		return Clutter.EVENT_STOP;
+	}
+
+	override vfunc_button_release_event(event: Clutter.Event): boolean {
+		if (!this._start || event.get_button() !== Clutter.BUTTON_PRIMARY) return Clutter.EVENT_PROPAGATE;
+
+		this._end = this.imagePoint(event);
+		const edit = this.currentEdit();
+		this.endDrag();
+		if (edit) this.emit('edit', edit);
+		return Clutter.EVENT_STOP;
+	}
+
+	private endDrag() {
+		this._grab?.dismiss();
+		this._grab = null;
+		this._start = null;
+		this._end = null;
+		this._overlay.queue_repaint();
+	}
+
+	override destroy() {
+		this.endDrag();
+		super.destroy();
+	}
+}
+
+/**
+ * Edits an image and saves the result as a new image
+ */
+@registerClass()
+export class ImageEditDialog extends ModalDialog.ModalDialog {
+	// Every edit creates a new image so that it can be undone
+	private readonly _history: GdkPixbuf.Pixbuf[];
+	private _resolve: ((data: Uint8Array | null) => void) | null = null;
+
+	private readonly _canvas: ImageCanvas;
+	private readonly _toolButtons: Map<Tool, St.Button> = new Map();
+	private readonly _colorButtons: Map<AnnotationColor, St.Button> = new Map();
+	private readonly _textEntry: St.Entry;
+	private readonly _widthEntry: St.Entry;
+	private readonly _heightEntry: St.Entry;
+	private readonly _undoButton: St.Button;
+	private readonly _saveButton: St.Button;
+
+	constructor(
+		private ext: CopyousExtension,
+		image: GdkPixbuf.Pixbuf,
+	) {
+		super({
+			styleClass: 'image-edit-dialog',
+			destroyOnClose: true,
+		});
+
+		this._history = [image];
+
+		const content = new Dialog.MessageDialogContent({
+			title: _('Edit Image'),
+		});
+		this.contentLayout.add_child(content);
+
+		// Tools
+		const toolbar = new St.BoxLayout({
+			style_class: 'image-edit-toolbar',
+			x_align: Clutter.ActorAlign.CENTER,
+		});
+		content.add_child(toolbar);
+
+		const tools: [Tool, string][] = [
+			[Tool.Crop, _('Crop')],
+			[Tool.Arrow, _('Arrow')],
+			[Tool.Rectangle, _('Rectangle')],
+			[Tool.Text, _('Text')],
+			[Tool.Blur, _('Blur')],
+		];
+		for (const [tool, label] of tools) {
+			const button = new St.Button({
+				style_class: 'image-edit-button',
+				label,
+				toggle_mode: true,
+				can_focus: true,
+			});
+			button.connect('clicked', () => this.selectTool(tool));
+			toolbar.add_child(button);
+			this._toolButtons.set(tool, button);
+		}
+
+		// Transformations
+		const transforms: [Icon, string, ImageEdit][] = [
+			[Icon.RotateLeft, _('Rotate Left'), { type: EditType.Rotate, clockwise: false }],
+			[Icon.RotateRight, _('Rotate Right'), { type: EditType.Rotate, clockwise: true }],
+			[Icon.FlipHorizontal, _('Flip Horizontally'), { type: EditType.Flip, horizontal: true }],
+			[Icon.FlipVertical, _('Flip Vertically'), { type: EditType.Flip, horizontal: false }],
+		];
+		for (const [icon, name, edit] of transforms) {
+			const button = this.createIconButton(icon, name);
+			button.connect('clicked', () => this.apply(edit));
+			toolbar.add_child(button);
+		}
+
+		this._undoButton = this.createIconButton(Icon.Undo, _('Undo'));
+		this._undoButton.connect('clicked', () => this.undo());
+		toolbar.add_child(this._undoButton);
+
+		// Options
+		const options = new St.BoxLayout({
+			style_class: 'image-edit-options',
+			x_align: Clutter.ActorAlign.CENTER,
+		});
+		content.add_child(options);
+
+		for (const color of AnnotationColors) {
+			const button = new St.Button({
+				style_class: 'image-edit-color',
+				style: `background-color: ${color};`,
+				toggle_mode: true,
+				can_focus: true,
+				y_align: Clutter.ActorAlign.CENTER,
+			});
+			button.connect('clicked', () => this.selectColor(color));
+			options.add_child(button);
+			this._colorButtons.set(color, button);
+		}
+
+		this._textEntry = new St.Entry({
+			style_class: 'image-edit-entry image-edit-text-entry',
+			hint_text: _('Text'),
+			can_focus: true,
+		});
+		this._textEntry.clutter_text.connect('text-changed', () => (this._canvas.text = this._textEntry.text));
+		options.add_child(this._textEntry);
+
+		// Scaling keeps the aspect ratio of the image
+		this._widthEntry = new St.Entry({ style_class: 'image-edit-entry image-edit-size-entry', can_focus: true });
+		this._widthEntry.clutter_text.connect('activate', () => this.scale(true));
+		options.add_child(this._widthEntry);
+
+		options.add_child(new St.Label({ text: '×', y_align: Clutter.ActorAlign.CENTER }));
+
+		this._heightEntry = new St.Entry({ style_class: 'image-edit-entry image-edit-size-entry', can_focus: true });
+		this._heightEntry.clutter_text.connect('activate', () => this.scale(false));
+		options.add_child(this._heightEntry);
+
+		// Image
+		this._canvas = new ImageCanvas();
+		this._canvas.connect('edit', (_canvas, edit: ImageEdit) => this.apply(edit));
+		content.add_child(this._canvas);
+
+		// Buttons
+		this.addButton({
+			label: _('Cancel'),
+			action: () => this.respond(false),
+			default: true,
+			key: Clutter.KEY_Escape,
+		});
+
+		this._saveButton = this.addButton({
+			label: _('Save'),
+			action: () => this.respond(true),
+		});
+
+		this.connect('closed', () => this.respond(false));
+
+		this.selectTool(Tool.Crop);
+		this.selectColor(AnnotationColors[0]);
+		this.update();
+	}
+
+	private get image(): GdkPixbuf.Pixbuf {
+		return this._history[this._history.length - 1]!;
+	}
+
+	/**
+	 * Opens the dialog and waits for the user to save the image
+	 * @returns The edited image as png or null if the dialog was closed
+	 */
+	public prompt(): Promise<Uint8Array | null> {
+		return new Promise((resolve) => {
+			this._resolve = resolve;
+			if (!this.open()) this.respond(false);
+		});
+	}
+
+	private createIconButton(icon: Icon, name: string): St.Button {
+		return new St.Button({
+			style_class: 'image-edit-button',
+			child: new St.Icon({ gicon: loadIcon(this.ext, icon) }),
+			accessible_name: name,
+			can_focus: true,
+		});
+	}
+
+	private selectTool(tool: Tool) {
+		this._canvas.tool = tool;
+		for (const [t, button] of this._toolButtons) button.checked = t === tool;
+		this._textEntry.visible = tool === Tool.Text;
+	}
+
+	private selectColor(color: AnnotationColor) {
+		this._canvas.color = color;
+		for (const [c, button] of this._colorButtons) button.checked = c === color;
+	}
+
+	private scale(fromWidth: boolean) {
+		const entry = fromWidth ? this._widthEntry : this._heightEntry;
+		const size = parseInt(entry.text, 10);
+		if (!Number.isFinite(size) || size < 1) {
+			this.update();
+			return;
+		}
+
+		const { width, height } = this.image;
+		const ratio = fromWidth ? size / width : size / height;
+		this.apply({ type: EditType.Scale, width: width * ratio, height: height * ratio });
+	}
+
+	private apply(edit: ImageEdit) {
+		try {
+			const image = applyEdit(this.image, edit);
+			if (image !== this.image) this._history.push(image);
+		} catch (e) {
+			this.ext.logger.error(e);
+		}
+
+		this.update();
+	}
+
+	private undo() {
+		if (this._history.length > 1) this._history.pop();
+		this.update();
+	}
+
+	private update() {
+		const image = this.image;
+		this._canvas.pixbuf = image;
+		this._widthEntry.text = `${image.width}`;
+		this._heightEntry.text = `${image.height}`;
+
+		const edited = this._history.length > 1;
+		this._undoButton.reactive = edited;
+		this._saveButton.reactive = edited;
+	}
+
+	override vfunc_key_press_event(event: Clutter.Event): boolean {
+		// Undo: ctrl + z
+		if (event.has_control_modifier() && event.get_key_symbol() === Clutter.KEY_z) {
+			this.undo();
+			return Clutter.EVENT_STOP;
+		}
+
+		return super.vfunc_key_press_event(event);
+	}
+
+	private respond(save: boolean) {
+		const resolve = this._resolve;
+		this._resolve = null;
+
+		let data: Uint8Array | null = null;
+		if (save && resolve) {
+			try {
+				data = encodePng(this.image);
+			} catch (e) {
+				this.ext.logger.error(e);
+			}
+		}
+		resolve?.(data);
+
+		if (this.state === ModalDialog.State.OPENED || this.state === ModalDialog.State.OPENING) this.close();
+	}
+}
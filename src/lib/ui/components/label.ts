@@ -1,7 +1,14 @@
 import GObject from 'gi://GObject';
+import Pango from 'gi://Pango';
 import St from 'gi://St';
 
 import { registerClass } from '../../common/gjs.js';
+import { MatchRange } from '../../misc/match.js';
+
+/**
+ * Finds the ranges of a text to highlight
+ */
+export type Highlighter = (text: string) => MatchRange[];
 
 interface ConstructorProps {
 	tabWidth: number;
@@ -35,15 +42,43 @@ export function normalizeIndentation(text: string, tabWidth: number): string {
 	return text.replace(new RegExp('^' + ' '.repeat(length), 'gm'), '');
 }
 
+/**
+ * Create attributes that highlight ranges of a text
+ * @param text The text
+ * @param ranges The ranges to highlight in characters
+ */
+export function highlightAttributes(text: string, ranges: MatchRange[]): Pango.AttrList {
+	const attributes = new Pango.AttrList();
+	const encoder = new TextEncoder();
+	for (const range of ranges) {
+		// Pango uses byte indices
+		const start = encoder.encode(text.substring(0, range.start)).length;
+		const end = encoder.encode(text.substring(0, range.end)).length;
+
+		for (const attribute of [
+			Pango.attr_weight_new(Pango.Weight.BOLD),
+			Pango.attr_underline_new(Pango.Underline.SINGLE),
+		]) {
+			attribute.start_index = start;
+			attribute.end_index = end;
+			attributes.insert(attribute);
+		}
+	}
+
+	return attributes;
+}
+
 @registerClass({
 	Properties: {
 		'text': GObject.ParamSpec.string('text', null, null, GObject.ParamFlags.READWRITE, ''),
 		'tab-width': GObject.ParamSpec.int('tab-width', null, null, GObject.ParamFlags.READWRITE, 1, 8, 4),
+		'highlighter': GObject.ParamSpec.jsobject('highlighter', null, null, GObject.ParamFlags.READWRITE),
 	},
 })
 export class Label extends St.Label {
 	private _tabWidth: number = 4;
 	private _text: string = '';
+	private _highlighter: Highlighter | null = null;
 
 	constructor(props: Partial<St.Label.ConstructorProps> & Partial<ConstructorProps>) {
 		super(props);
@@ -80,7 +115,24 @@ export class Label extends St.Label {
 		this.notify('tab-width');
 	}
 
+	get highlighter() {
+		return this._highlighter;
+	}
+
+	set highlighter(highlighter: Highlighter | null) {
+		if (this._highlighter === highlighter) return;
+		this._highlighter = highlighter;
+		this.updateHighlight();
+		this.notify('highlighter');
+	}
+
 	private updateLabel() {
 		this.clutter_text.text = normalizeIndentation(trim(this.text), this.tabWidth);
+		this.updateHighlight();
+	}
+
+	private updateHighlight() {
+		const text = this.clutter_text.text;
+		this.clutter_text.attributes = highlightAttributes(text, this._highlighter?.(text) ?? []);
 	}
 }
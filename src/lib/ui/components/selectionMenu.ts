@@ -0,0 +1,151 @@
+import Clutter from 'gi://Clutter';
+import GLib from 'gi://GLib';
+import Gio from 'gi://Gio';
+import St from 'gi://St';
+
+import { gettext as _, ngettext } from 'resource:///org/gnome/shell/extensions/extension.js';
+import * as BoxPointer from 'resource:///org/gnome/shell/ui/boxpointer.js';
+import * as Main from 'resource:///org/gnome/shell/ui/main.js';
+import * as PopupMenu from 'resource:///org/gnome/shell/ui/popupMenu.js';
+
+import type CopyousExtension from '../../../extension.js';
+import { Tag, Tags } from '../../common/constants.js';
+import { ClipboardEntry } from '../../misc/db.js';
+import { canMerge } from '../../misc/merge.js';
+import { Shortcut } from '../../misc/shortcuts.js';
+import { TagsItem } from './tagsItem.js';
+
+export type SelectionMenuSignals = {
+	'open-state-changed': [boolean];
+	'queue': [ClipboardEntry[]];
+	'merge': [ClipboardEntry[]];
+	'clear-selection': [];
+};
+
+/**
+ * Menu with the operations for all selected items
+ */
+export class SelectionMenu extends PopupMenu.PopupMenu<SelectionMenuSignals> {
+	declare private _arrowAlignment: number;
+	private _entries: ClipboardEntry[] = [];
+
+	private readonly _titleItem: PopupMenu.PopupMenuItem;
+	private readonly _tagsItem: TagsItem;
+	private readonly _pinItem: PopupMenu.PopupSwitchMenuItem;
+	private readonly _mergeItem: PopupMenu.PopupMenuItem;
+
+	constructor(private ext: CopyousExtension) {
+		super(Main.layoutManager.dummyCursor, 0, St.Side.TOP);
+
+		this.actor.add_style_class_name('clipboard-item-menu');
+
+		this._titleItem = new PopupMenu.PopupMenuItem('', { reactive: false, can_focus: false });
+		this.addMenuItem(this._titleItem);
+
+		// Tags
+		this._tagsItem = new TagsItem();
+		this.addMenuItem(this._tagsItem);
+
+		this._tagsItem.connect('tag-changed', () => this.setTag(this._tagsItem.tag));
+
+		this.addMenuItem(new PopupMenu.PopupSeparatorMenuItem());
+
+		// Pin
+		this._pinItem = new PopupMenu.PopupSwitchMenuItem(_('Pinned'), false);
+		this._pinItem.connect('toggled', (_item, state: boolean) => this.update((entry) => (entry.pinned = state)));
+		this.addMenuItem(this._pinItem);
+
+		// Operations
+		this.addAction(_('Add to Paste Queue'), () => this.emit('queue', this._entries));
+		this._mergeItem = this.addAction(_('Merge Into One Item'), () => this.emit('merge', this._entries));
+		this.addAction(_('Export'), () => this.export());
+
+		this.addMenuItem(new PopupMenu.PopupSeparatorMenuItem());
+
+		this.addAction(_('Delete'), () => this.delete());
+		this.addAction(_('Clear Selection'), () => this.emit('clear-selection'));
+
+		// Add to ui
+		Main.layoutManager.uiGroup.add_child(this.actor);
+		this.actor.hide();
+
+		this.actor.connect('captured-event', (_actor, event: Clutter.Event) => {
+			if (event.type() === Clutter.EventType.KEY_PRESS) {
+				const key = event.get_key_symbol();
+
+				// Select tag with number
+				if (key === Clutter.KEY_0) {
+					this.setTag(null);
+					return;
+				}
+
+				if (key >= Clutter.KEY_1 && key <= Clutter.KEY_9) {
+					const tag = Tags[key - Clutter.KEY_1] ?? null;
+					this.setTag(this._tagsItem.tag === tag ? null : tag);
+					return;
+				}
+
+				// Allow the menu to be closed with the menu shortcut
+				const action = ext.shortcutsManager?.getShortcutForKeyBinding(key, event.get_state());
+
+				if (action === Shortcut.Menu) {
+					this.close(BoxPointer.PopupAnimation.FADE);
+				}
+			}
+		});
+	}
+
+	set arrowAlignment(alignment: number) {
+		this._arrowAlignment = alignment;
+	}
+
+	set entries(entries: ClipboardEntry[]) {
+		this._entries = entries;
+
+		const n = entries.length;
+		this._titleItem.label.text = ngettext('%d Item Selected', '%d Items Selected', n).format(n);
+
+		const tags = new Set(entries.map((entry) => entry.tag));
+		this._tagsItem.tag = tags.size === 1 ? (entries[0]?.tag ?? null) : null;
+		this._pinItem.setToggleState(entries.every((entry) => entry.pinned));
+		this._mergeItem.visible = entries.filter((entry) => canMerge(entry.type)).length >= 2;
+	}
+
+	private update(change: (entry: ClipboardEntry) => void) {
+		this.ext.entryTracker?.updateEntries(this._entries, change).catch((e) => this.ext.logger.error(e));
+	}
+
+	private setTag(tag: Tag | null) {
+		this._tagsItem.tag = tag;
+		this.update((entry) => (entry.tag = tag));
+		this.close(BoxPointer.PopupAnimation.FADE);
+	}
+
+	private delete() {
+		const protectPinned = this.ext.settings.get_boolean('protect-pinned');
+		const protectTagged = this.ext.settings.get_boolean('protect-tagged');
+		const entries = this._entries.filter(
+			(entry) => !(protectPinned && entry.pinned) && !(protectTagged && entry.tag),
+		);
+
+		this.ext.entryTracker?.deleteEntries(entries).catch((e) => this.ext.logger.error(e));
+	}
+
+	private export() {
+		const tracker = this.ext.entryTracker;
+		if (!tracker) return;
+
+		// The shell has no file chooser, so the archive is saved to the downloads folder
+		const directory = GLib.get_user_special_dir(GLib.UserDirectory.DIRECTORY_DOWNLOAD) ?? GLib.get_home_dir();
+		const datetime = GLib.DateTime.new_now_local().format('%Y%m%d-%H%M%S');
+		const file = Gio.File.new_for_path(GLib.build_filenamev([directory, `copyous-selection-${datetime}.tar`]));
+
+		tracker
+			.exportArchive(file, this._entries)
+			.then((exported) => this.ext.notificationManager?.exportNotification(exported, file))
+			.catch((e) => {
+				this.ext.logger.error('Failed to export items', e);
+				this.ext.notificationManager?.warning(_('Failed to Export Items'), String(e));
+			});
+	}
+}
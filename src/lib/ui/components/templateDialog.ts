@@ -0,0 +1,92 @@
+import Clutter from 'gi://Clutter';
+import St from 'gi://St';
+
+import { gettext as _ } from 'resource:///org/gnome/shell/extensions/extension.js';
+import * as Dialog from 'resource:///org/gnome/shell/ui/dialog.js';
+import * as ModalDialog from 'resource:///org/gnome/shell/ui/modalDialog.js';
+
+import { registerClass } from '../../common/gjs.js';
+
+@registerClass()
+export class TemplateDialog extends ModalDialog.ModalDialog {
+	private readonly _entries: Map<string, St.Entry> = new Map();
+	private _resolve: ((values: Map<string, string> | null) => void) | null = null;
+
+	constructor(inputs: string[]) {
+		super({
+			styleClass: 'clipboard-item-template-dialog',
+			destroyOnClose: true,
+		});
+
+		const content = new Dialog.MessageDialogContent({
+			title: _('Fill In Template'),
+		});
+		this.contentLayout.add_child(content);
+
+		for (const input of inputs) {
+			const label = new St.Label({
+				style_class: 'clipboard-item-template-dialog-label',
+				text: input,
+			});
+			content.add_child(label);
+
+			const entry = new St.Entry({
+				style_class: 'clipboard-item-template-dialog-entry',
+				can_focus: true,
+			});
+			entry.clutter_text.connect('activate', () => this.focusNext(entry));
+			content.add_child(entry);
+			this._entries.set(input, entry);
+
+			if (this._entries.size === 1) this.setInitialKeyFocus(entry);
+		}
+
+		// Buttons
+		this.addButton({
+			label: _('Cancel'),
+			action: () => this.respond(null),
+			key: Clutter.KEY_Escape,
+		});
+
+		this.addButton({
+			label: _('Insert'),
+			action: () => this.respond(this.values),
+			default: true,
+		});
+
+		this.connect('closed', () => this.respond(null));
+	}
+
+	/**
+	 * Opens the dialog and waits for the values of the inputs
+	 * @returns The values by their label or null if the dialog was cancelled
+	 */
+	public prompt(): Promise<Map<string, string> | null> {
+		return new Promise((resolve) => {
+			this._resolve = resolve;
+			if (!this.open()) this.respond(null);
+		});
+	}
+
+	private get values(): Map<string, string> {
+		return new Map([...this._entries].map(([input, entry]) => [input, entry.text]));
+	}
+
+	private focusNext(entry: St.Entry) {
+		const entries = [...this._entries.values()];
+		const next = entries[entries.indexOf(entry) + 1];
+		if (next) {
+			next.grab_key_focus();
+		} else {
+			this.respond(this.values);
+		}
+	}
+
+	private respond(values: Map<string, string> | null) {
+		const resolve = this._resolve;
+		this._resolve = null;
+		resolve?.(values);
+
+		if (this.state === ModalDialog.State.OPENED || this.state === ModalDialog.State.OPENING) this.close();
+	}
+}
@@ -17,9 +17,10 @@ import * as PopupMenu from 'resource:///org/gnome/shell/ui/popupMenu.js';
 import type CopyousExtension from '../../extension.js';
 import { Color } from '../common/color.js';
 import { ClipboardHistory, ItemType } from '../common/constants.js';
-import { registerClass } from '../common/gjs.js';
+import { int32ParamSpec, registerClass } from '../common/gjs.js';
 import { Icon, loadIcon } from '../common/icons.js';
 import { ClipboardEntry } from '../misc/db.js';
+import { maskText } from '../misc/sensitive.js';
 
 @registerClass({
 	Signals: {
@@ -63,10 +64,12 @@ class ConfirmClearHistoryDialog extends ModalDialog.ModalDialog {
 
 @registerClass({
 	Properties: {
-		incognito: GObject.ParamSpec.boolean('incognito', null, null, GObject.ParamFlags.READWRITE, false),
+		'incognito': GObject.ParamSpec.boolean('incognito', null, null, GObject.ParamFlags.READWRITE, false),
+		'queue-length': int32ParamSpec('queue-length', GObject.ParamFlags.READWRITE, 0),
 	},
 	Signals: {
 		'open-dialog': {},
+		'cancel-queue': {},
 		'clear-history': {
 			param_types: [GObject.TYPE_INT],
 		},
@@ -74,11 +77,14 @@ class ConfirmClearHistoryDialog extends ModalDialog.ModalDialog {
 })
 export class ClipboardIndicator extends PanelMenu.Button {
 	private _incognito: boolean = false;
+	private _queueLength: number = 0;
 
 	declare menu: PopupMenu.PopupMenu;
 	private readonly _box: St.BoxLayout;
 	private readonly _icon: St.Icon;
+	private readonly _badge: St.Label;
 	private readonly _incognitoSwitch: PopupMenu.PopupSwitchMenuItem;
+	private readonly _cancelQueueItem: PopupMenu.PopupMenuItem;
 	private _previewWidget?: St.Widget;
 
 	constructor(private ext: CopyousExtension) {
@@ -96,8 +102,18 @@ export class ClipboardIndicator extends PanelMenu.Button {
 		});
 		this._box.add_child(this._icon);
 
+		// Number of items in the paste queue
+		this._badge = new St.Label({
+			style_class: 'indicator-badge',
+			y_align: Clutter.ActorAlign.CENTER,
+			visible: false,
+		});
+		this._box.add_child(this._badge);
+
 		this._incognitoSwitch = new PopupMenu.PopupSwitchMenuItem(_('Incognito Mode'), false);
 		this.menu.addMenuItem(this._incognitoSwitch);
+		this._cancelQueueItem = this.menu.addAction(_('Cancel Paste Queue'), () => this.emit('cancel-queue'));
+		this._cancelQueueItem.visible = false;
 		this.menu.addMenuItem(new PopupMenu.PopupSeparatorMenuItem());
 		this.menu.addAction(_('Clear History'), () => this.confirmClearHistory());
 		this.menu.addAction(_('Settings'), () => ext.openPreferences());
@@ -134,6 +150,19 @@ export class ClipboardIndicator extends PanelMenu.Button {
 		this.notify('incognito');
 	}
 
+	get queueLength() {
+		return this._queueLength;
+	}
+
+	set queueLength(value: number) {
+		if (this._queueLength === value) return;
+		this._queueLength = value;
+		this._badge.text = `${value}`;
+		this._badge.visible = value > 0;
+		this._cancelQueueItem.visible = value > 0;
+		this.notify('queue-length');
+	}
+
 	private set previewWidget(widget: St.Widget) {
 		this._previewWidget?.destroy();
 		widget.visible = this.ext.settings.get_boolean('show-content-indicator');
@@ -160,10 +189,11 @@ export class ClipboardIndicator extends PanelMenu.Button {
 	showEntry(entry: ClipboardEntry) {
 		switch (entry.type) {
 			case ItemType.Text:
+			case ItemType.RichText:
 			case ItemType.Code:
 			case ItemType.Link:
 			case ItemType.Character:
-				this.showText(entry.content.split('\n')[0] ?? '');
+				this.showText((entry.sensitive ? maskText(entry.content) : entry.content).split('\n')[0] ?? '');
 				break;
 			case ItemType.Image:
 				this.showImageFile(Gio.File.new_for_uri(entry.content));
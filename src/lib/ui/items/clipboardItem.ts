@@ -26,6 +26,7 @@ export type MiddleClickAction = (typeof MiddleClickAction)[keyof typeof MiddleCl
 	Properties: {
 		entry: GObject.ParamSpec.object('entry', null, null, GObject.ParamFlags.READABLE, ClipboardEntry),
 		active: flagsParamSpec('active', GObject.ParamFlags.READABLE, ActiveState, ActiveState.None),
+		selected: GObject.ParamSpec.boolean('selected', null, null, GObject.ParamFlags.READWRITE, false),
 	},
 	Signals: {
 		'activate': {},
@@ -34,6 +35,9 @@ export type MiddleClickAction = (typeof MiddleClickAction)[keyof typeof MiddleCl
 			param_types: [GObject.TYPE_STRING],
 		},
 		'edit': {},
+		'toggle-selected': {},
+		'select-range': {},
+		'queue': {},
 		'open-menu': {
 			param_types: [GObject.TYPE_INT, GObject.TYPE_INT, GObject.TYPE_INT, GObject.TYPE_INT],
 		},
@@ -43,6 +47,7 @@ export class ClipboardItem extends St.Button {
 	private _protectPinned: boolean = true;
 	private _protectTagged: boolean = true;
 	private _middleClickAction: MiddleClickAction = MiddleClickAction.None;
+	private _selected: boolean = false;
 
 	private readonly _box: St.Widget;
 	private readonly _header: ClipboardItemHeader;
@@ -95,6 +100,9 @@ export class ClipboardItem extends St.Button {
 		);
 		entry.bind_property('datetime', this._header, 'datetime', GObject.BindingFlags.SYNC_CREATE);
 		entry.bind_property('tag', this._header, 'tag', GObject.BindingFlags.SYNC_CREATE);
+		entry.bind_property('source', this._header, 'source', GObject.BindingFlags.SYNC_CREATE);
+		entry.bind_property('expires', this._header, 'expires', GObject.BindingFlags.SYNC_CREATE);
+		entry.bind_property('template', this._header, 'template', GObject.BindingFlags.SYNC_CREATE);
 
 		// prettier-ignore
 		this.ext.settings.connectObject(
@@ -138,10 +146,34 @@ export class ClipboardItem extends St.Button {
 		return (focus | hover | active) as ActiveState;
 	}
 
+	get selected(): boolean {
+		return this._selected;
+	}
+
+	set selected(selected: boolean) {
+		if (this._selected === selected) return;
+		this._selected = selected;
+
+		if (selected) {
+			this.add_style_pseudo_class('selected');
+		} else {
+			this.remove_style_pseudo_class('selected');
+		}
+		this.notify('selected');
+	}
+
 	public search(query: SearchQuery) {
 		this.visible = query.matchesEntry(this.visible, this.entry, this.entry.content);
 	}
 
+	/**
+	 * Toggles whether masked content is revealed
+	 * @returns Whether the item supports revealing its content
+	 */
+	protected toggleReveal(): boolean {
+		return false;
+	}
+
 	private updateSize() {
 		const width = this.ext.settings.get_int('item-width');
 		const height = this.ext.settings.get_int('item-height');
@@ -204,8 +236,14 @@ export class ClipboardItem extends St.Button {
 
 	override vfunc_clicked(clicked_button: number): void {
 		if (clicked_button === 1) {
+			// Ctrl and shift select items when clicking, but ctrl runs the default action from the keyboard
 			const event = Clutter.get_current_event();
-			if (event.has_control_modifier()) {
+			const pointer = event.type() !== Clutter.EventType.KEY_RELEASE;
+			if (pointer && event.has_shift_modifier()) {
+				this.emit('select-range');
+			} else if (pointer && event.has_control_modifier()) {
+				this.emit('toggle-selected');
+			} else if (event.has_control_modifier()) {
 				this.emit('activate-default');
 			} else {
 				this.emit('activate');
@@ -276,6 +314,23 @@ export class ClipboardItem extends St.Button {
 			return Clutter.EVENT_STOP;
 		}
 
+		// Reveal
+		if (action === Shortcut.Reveal && this.toggleReveal()) {
+			return Clutter.EVENT_STOP;
+		}
+
+		// Select
+		if (action === Shortcut.Select) {
+			this.emit('toggle-selected');
+			return Clutter.EVENT_STOP;
+		}
+
+		// Queue
+		if (action === Shortcut.Queue) {
+			this.emit('queue');
+			return Clutter.EVENT_STOP;
+		}
+
 		// Action
 		const actionId = this.ext.shortcutsManager?.getActionForKeyBinding(key, event.get_state());
 		if (actionId) this.emit('activate-action', actionId);
@@ -2,14 +2,16 @@ import Clutter from 'gi://Clutter';
 import GLib from 'gi://GLib';
 import GObject from 'gi://GObject';
 import Pango from 'gi://Pango';
+import Shell from 'gi://Shell';
 import St from 'gi://St';
 
-import { Extension } from 'resource:///org/gnome/shell/extensions/extension.js';
+import { Extension, ngettext } from 'resource:///org/gnome/shell/extensions/extension.js';
 import { formatTimeSpan } from 'resource:///org/gnome/shell/misc/dateUtils.js';
 
 import { ActiveState, Tag } from '../../common/constants.js';
 import { enumParamSpec, flagsParamSpec, registerClass } from '../../common/gjs.js';
 import { Icon, loadIcon } from '../../common/icons.js';
+import { SourceApp } from '../../misc/db.js';
 
 // https://gitlab.gnome.org/GNOME/gnome-shell/-/blob/main/js/ui/messageList.js#L277
 @registerClass()
@@ -54,6 +56,100 @@ class TimeLabel extends St.Label {
 	}
 }
 
+/**
+ * Formats the time until a deadline as a countdown.
+ * @param seconds The remaining seconds.
+ */
+function formatCountdown(seconds: number): string {
+	const days = Math.floor(seconds / 86400);
+	if (days > 0) return ngettext('%d day', '%d days', days).format(days);
+
+	const hours = Math.floor(seconds / 3600);
+	const minutes = Math.floor((seconds % 3600) / 60);
+	const secs = String(seconds % 60).padStart(2, '0');
+	return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+}
+
+@registerClass()
+class ExpiryLabel extends St.BoxLayout {
+	private _expires: GLib.DateTime | null = null;
+	private _timeoutId: number = -1;
+
+	private readonly _label: St.Label;
+
+	constructor(ext: Extension) {
+		super({
+			style_class: 'clipboard-item-expiry',
+			y_align: Clutter.ActorAlign.END,
+			visible: false,
+		});
+
+		this.add_child(
+			new St.Icon({
+				style_class: 'clipboard-item-expiry-icon',
+				gicon: loadIcon(ext, Icon.Duration),
+				y_align: Clutter.ActorAlign.CENTER,
+			}),
+		);
+
+		this._label = new St.Label({ y_align: Clutter.ActorAlign.END });
+		this._label.clutter_text.ellipsize = Pango.EllipsizeMode.NONE;
+		this.add_child(this._label);
+	}
+
+	get expires() {
+		return this._expires;
+	}
+
+	set expires(expires: GLib.DateTime | null) {
+		this._expires = expires;
+		this.visible = expires !== null;
+		this.updateTimeout();
+	}
+
+	private updateTimeout() {
+		const running = this.mapped && this._expires !== null;
+		if (running) {
+			this._updateText();
+			if (this._timeoutId < 0) {
+				this._timeoutId = GLib.timeout_add_seconds(GLib.PRIORITY_DEFAULT, 1, () => {
+					this._updateText();
+					return GLib.SOURCE_CONTINUE;
+				});
+			}
+		} else if (this._timeoutId >= 0) {
+			GLib.source_remove(this._timeoutId);
+			this._timeoutId = -1;
+		}
+	}
+
+	private _updateText() {
+		if (!this._expires) return;
+
+		const remaining = this._expires.difference(GLib.DateTime.new_now_utc()) / GLib.TIME_SPAN_SECOND;
+		this._label.text = formatCountdown(Math.max(0, Math.ceil(remaining)));
+	}
+
+	override vfunc_map() {
+		super.vfunc_map();
+
+		this.updateTimeout();
+	}
+
+	override vfunc_unmap() {
+		super.vfunc_unmap();
+
+		this.updateTimeout();
+	}
+
+	override destroy() {
+		if (this._timeoutId >= 0) GLib.source_remove(this._timeoutId);
+		this._timeoutId = -1;
+
+		super.destroy();
+	}
+}
+
 export const HeaderControlsVisibility = {
 	Visible: 0,
 	VisibleOnHover: 1,
@@ -66,6 +162,7 @@ export type HeaderControlsVisibility = (typeof HeaderControlsVisibility)[keyof t
 	Properties: {
 		'pinned': GObject.ParamSpec.boolean('pinned', null, null, GObject.ParamFlags.READWRITE, false),
 		'datetime': GObject.ParamSpec.boxed('datetime', null, null, GObject.ParamFlags.READWRITE, GLib.DateTime),
+		'expires': GObject.ParamSpec.boxed('expires', null, null, GObject.ParamFlags.READWRITE, GLib.DateTime),
 		'force-delete': GObject.ParamSpec.boolean('force-delete', null, null, GObject.ParamFlags.READWRITE, true),
 		'protect-pinned': GObject.ParamSpec.boolean('protect-pinned', null, null, GObject.ParamFlags.READWRITE, true),
 		'protect-tagged': GObject.ParamSpec.boolean('protect-tagged', null, null, GObject.ParamFlags.READWRITE, true),
@@ -78,6 +175,8 @@ export type HeaderControlsVisibility = (typeof HeaderControlsVisibility)[keyof t
 			HeaderControlsVisibility.Visible,
 		),
 		'tag': GObject.ParamSpec.string('tag', null, null, GObject.ParamFlags.READWRITE, ''),
+		'source': GObject.ParamSpec.jsobject('source', null, null, GObject.ParamFlags.READWRITE),
+		'template': GObject.ParamSpec.boolean('template', null, null, GObject.ParamFlags.READWRITE, false),
 		'active': flagsParamSpec('active', GObject.ParamFlags.READWRITE, ActiveState, ActiveState.None),
 	},
 	Signals: {
@@ -94,12 +193,16 @@ export class ClipboardItemHeader extends St.BoxLayout {
 	private _headerVisible: boolean = true;
 	private _controlsVisibility: HeaderControlsVisibility = HeaderControlsVisibility.Visible;
 	private _tag: Tag | null = null;
+	private _source: SourceApp | null = null;
 	private _active: ActiveState = ActiveState.None;
 
 	private readonly _headerIcon: St.Icon;
 	private readonly _headerContent: St.BoxLayout;
 	private readonly _headerTitle: St.Label;
+	private readonly _templateIcon: St.Icon;
+	private readonly _sourceIcon: St.Icon;
 	private readonly _timeLabel: TimeLabel;
+	private readonly _expiryLabel: ExpiryLabel;
 	public buttons: St.BoxLayout;
 	private readonly _deleteButton: St.Button;
 	private readonly _menuButton: St.Button;
@@ -136,9 +239,27 @@ export class ClipboardItemHeader extends St.BoxLayout {
 		this._headerTitle.clutter_text.ellipsize = Pango.EllipsizeMode.NONE;
 		this._headerContent.add_child(this._headerTitle);
 
+		this._templateIcon = new St.Icon({
+			style_class: 'clipboard-item-template-icon',
+			gicon: loadIcon(ext, Icon.Template),
+			y_align: Clutter.ActorAlign.CENTER,
+			visible: false,
+		});
+		this._headerContent.add_child(this._templateIcon);
+
+		this._sourceIcon = new St.Icon({
+			style_class: 'clipboard-item-source-icon',
+			y_align: Clutter.ActorAlign.CENTER,
+			visible: false,
+		});
+		this._headerContent.add_child(this._sourceIcon);
+
 		this._timeLabel = new TimeLabel();
 		this._headerContent.add_child(this._timeLabel);
 
+		this._expiryLabel = new ExpiryLabel(ext);
+		this._headerContent.add_child(this._expiryLabel);
+
 		this.buttons = new St.BoxLayout({
 			style_class: 'clipboard-item-header-buttons',
 			x_align: Clutter.ActorAlign.END,
@@ -205,6 +326,15 @@ export class ClipboardItemHeader extends St.BoxLayout {
 		this.notify('datetime');
 	}
 
+	get expires() {
+		return this._expiryLabel.expires;
+	}
+
+	set expires(expires: GLib.DateTime | null) {
+		this._expiryLabel.expires = expires;
+		this.notify('expires');
+	}
+
 	get forceDelete() {
 		return this._forceDelete;
 	}
@@ -283,6 +413,28 @@ export class ClipboardItemHeader extends St.BoxLayout {
 		this.updateHeaderControls();
 	}
 
+	get source() {
+		return this._source;
+	}
+
+	set source(source: SourceApp | null) {
+		this._source = source;
+		this.notify('source');
+
+		const app = source?.appId ? Shell.AppSystem.get_default().lookup_app(source.appId) : null;
+		this._sourceIcon.gicon = app?.get_icon() ?? null;
+		this._sourceIcon.visible = this._sourceIcon.gicon !== null;
+	}
+
+	get template() {
+		return this._templateIcon.visible;
+	}
+
+	set template(template: boolean) {
+		this._templateIcon.visible = template;
+		this.notify('template');
+	}
+
 	get active() {
 		return this._active;
 	}
@@ -10,6 +10,7 @@ import { Icon } from '../../common/icons.js';
 import { ClipboardEntry, CodeMetadata } from '../../misc/db.js';
 import { CodeLabel } from '../components/codeLabel.js';
 import { CodeInfo, TextCountMode } from '../components/contentInfo.js';
+import { SearchQuery } from '../searchEntry.js';
 import { ClipboardItem } from './clipboardItem.js';
 
 @registerClass()
@@ -89,6 +90,11 @@ export class CodeItem extends ClipboardItem {
 		}
 	}
 
+	override search(query: SearchQuery): void {
+		super.search(query);
+		this._code.highlighter = this.visible ? query.highlighter : null;
+	}
+
 	override destroy() {
 		this.codeItemSettings.disconnectObject(this);
 		this.ext.settings.disconnectObject(this._code);
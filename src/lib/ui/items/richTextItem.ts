@@ -0,0 +1,108 @@
+import Clutter from 'gi://Clutter';
+import Gio from 'gi://Gio';
+import Pango from 'gi://Pango';
+import St from 'gi://St';
+
+import { gettext as _ } from 'resource:///org/gnome/shell/extensions/extension.js';
+
+import type CopyousExtension from '../../../extension.js';
+import { registerClass } from '../../common/gjs.js';
+import { Icon } from '../../common/icons.js';
+import { ClipboardEntry, RichTextMetadata } from '../../misc/db.js';
+import { htmlToMarkup } from '../../misc/richText.js';
+import { Highlighter, Label } from '../components/label.js';
+import { SearchQuery } from '../searchEntry.js';
+import { ClipboardItem } from './clipboardItem.js';
+
+@registerClass()
+export class RichTextItem extends ClipboardItem {
+	private readonly richTextItemSettings: Gio.Settings;
+
+	private readonly _text: Label;
+	private readonly _richText: St.Label;
+	private _markup: string | null = null;
+	private _highlighter: Highlighter | null = null;
+
+	constructor(ext: CopyousExtension, entry: ClipboardEntry) {
+		super(ext, entry, Icon.RichText, _('Rich Text'));
+
+		this.richTextItemSettings = this.ext.settings.get_child('rich-text-item');
+
+		this.add_style_class_name('text-item');
+		this.add_style_class_name('rich-text-item');
+
+		this._text = new Label({
+			style_class: 'text-item-content',
+			y_align: Clutter.ActorAlign.FILL,
+			y_expand: true,
+			min_height: 0,
+		});
+		this._text.clutter_text.line_wrap = true;
+		this._text.clutter_text.line_wrap_mode = Pango.WrapMode.WORD_CHAR;
+		this._content.add_child(this._text);
+
+		// Sanitized formatting of the html
+		this._richText = new St.Label({
+			style_class: 'text-item-content',
+			y_align: Clutter.ActorAlign.FILL,
+			y_expand: true,
+			min_height: 0,
+		});
+		this._richText.clutter_text.line_wrap = true;
+		this._richText.clutter_text.line_wrap_mode = Pango.WrapMode.WORD_CHAR;
+		this._content.add_child(this._richText);
+
+		this.richTextItemSettings.connectObject('changed::show-formatting', this.updateContent.bind(this), this);
+		this.ext.settings.connectObject('changed::tab-width', this.updateText.bind(this), this._text);
+
+		entry.connect('notify::content', this.updateContent.bind(this));
+		entry.connect('notify::metadata', () => {
+			this.updateMarkup();
+			this.updateContent();
+		});
+
+		this.updateText();
+		this.updateMarkup();
+		this.updateContent();
+	}
+
+	private updateText() {
+		this._text.tabWidth = this.ext.settings.get_int('tab-width');
+	}
+
+	private updateMarkup() {
+		const html = (this.entry.metadata as RichTextMetadata | null)?.html;
+		this._markup = html ? htmlToMarkup(html) : null;
+	}
+
+	private updateContent() {
+		// Search matches are highlighted in the plain text
+		const formatted =
+			this._markup !== null &&
+			this._highlighter === null &&
+			this.richTextItemSettings.get_boolean('show-formatting');
+
+		this._richText.visible = formatted;
+		this._text.visible = !formatted;
+
+		if (formatted) {
+			this._richText.clutter_text.set_markup(this._markup!);
+		} else {
+			this._text.text = this.entry.content;
+			this._text.highlighter = this._highlighter;
+		}
+	}
+
+	override search(query: SearchQuery): void {
+		super.search(query);
+		this._highlighter = this.visible ? query.highlighter : null;
+		this.updateContent();
+	}
+
+	override destroy() {
+		this.richTextItemSettings.disconnectObject(this);
+		this.ext.settings.disconnectObject(this._text);
+
+		super.destroy();
+	}
+}
@@ -1,5 +1,4 @@
 import Clutter from 'gi://Clutter';
-import GObject from 'gi://GObject';
 import Gio from 'gi://Gio';
 import Pango from 'gi://Pango';
 
@@ -9,8 +8,10 @@ import type CopyousExtension from '../../../extension.js';
 import { registerClass } from '../../common/gjs.js';
 import { Icon } from '../../common/icons.js';
 import { ClipboardEntry } from '../../misc/db.js';
+import { SensitiveContentPolicy, maskText } from '../../misc/sensitive.js';
 import { TextCountMode, TextInfo } from '../components/contentInfo.js';
-import { Label } from '../components/label.js';
+import { Highlighter, Label } from '../components/label.js';
+import { SearchQuery } from '../searchEntry.js';
 import { ClipboardItem } from './clipboardItem.js';
 
 @registerClass()
@@ -19,6 +20,8 @@ export class TextItem extends ClipboardItem {
 
 	private readonly _text: Label;
 	private _textInfo?: TextInfo;
+	private _revealed: boolean = false;
+	private _highlighter: Highlighter | null = null;
 
 	constructor(ext: CopyousExtension, entry: ClipboardEntry) {
 		super(ext, entry, Icon.Text, _('Text'));
@@ -46,18 +49,37 @@ export class TextItem extends ClipboardItem {
 		);
 
 		this.ext.settings.connectObject('changed::tab-width', this.updateText.bind(this), this._text);
+		this.ext.settings.connectObject('changed::sensitive-content-policy', this.updateContent.bind(this), this);
 
-		entry.bind_property('content', this._text, 'text', GObject.BindingFlags.SYNC_CREATE);
-		entry.connect('notify::content', this.updateTextInfo.bind(this));
+		entry.connect('notify::content', () => {
+			this.updateContent();
+			this.updateTextInfo();
+		});
+		entry.connect('notify::sensitive', this.updateContent.bind(this));
 
 		this.updateText();
+		this.updateContent();
 		this.updateTextInfo();
 	}
 
+	/**
+	 * Whether the content is hidden because it contains a secret
+	 */
+	get masked(): boolean {
+		const policy = this.ext.settings.get_enum('sensitive-content-policy') as SensitiveContentPolicy;
+		return this.entry.sensitive && policy !== SensitiveContentPolicy.Save && !this._revealed;
+	}
+
 	private updateText() {
 		this._text.tabWidth = this.ext.settings.get_int('tab-width');
 	}
 
+	private updateContent() {
+		const masked = this.masked;
+		this._text.text = masked ? maskText(this.entry.content) : this.entry.content;
+		this._text.highlighter = masked ? null : this._highlighter;
+	}
+
 	private updateTextInfo() {
 		const show = this.textItemSettings.get_boolean('show-text-info');
 		const textCountMode = this.textItemSettings.get_enum('text-count-mode') as TextCountMode;
@@ -72,6 +94,30 @@ export class TextItem extends ClipboardItem {
 		}
 	}
 
+	override search(query: SearchQuery): void {
+		super.search(query);
+		this._highlighter = this.visible ? query.highlighter : null;
+		this._text.highlighter = this.masked ? null : this._highlighter;
+	}
+
+	protected override toggleReveal(): boolean {
+		if (!this.entry.sensitive) return false;
+
+		this._revealed = !this._revealed;
+		this.updateContent();
+		return true;
+	}
+
+	override vfunc_key_focus_out(): void {
+		super.vfunc_key_focus_out();
+
+		// Mask the content again when the item is no longer focused
+		if (this._revealed) {
+			this._revealed = false;
+			this.updateContent();
+		}
+	}
+
 	override destroy() {
 		this.textItemSettings.disconnectObject(this);
 		this.ext.settings.disconnectObject(this._text);
@@ -1,6 +1,7 @@
 import Clutter from 'gi://Clutter';
 import GObject from 'gi://GObject';
 import Gio from 'gi://Gio';
+import Pango from 'gi://Pango';
 import St from 'gi://St';
 
 import { gettext as _ } from 'resource:///org/gnome/shell/extensions/extension.js';
@@ -12,7 +13,10 @@ import type CopyousExtension from '../../extension.js';
 import { ItemType, ItemTypes, Tag, Tags } from '../common/constants.js';
 import { enumParamSpec, registerClass } from '../common/gjs.js';
 import { Icon, loadIcon } from '../common/icons.js';
-import { ClipboardEntry } from '../misc/db.js';
+import { ClipboardEntry, CodeMetadata, Collection } from '../misc/db.js';
+import { MatchRange, fuzzyMatch, localeRanges, regexRanges } from '../misc/match.js';
+import { ParsedQuery, QueryError, QueryTerm, parseQuery, simpleTerms, textTerms } from '../misc/query.js';
+import { Highlighter } from './components/label.js';
 import { TagsItem } from './components/tagsItem.js';
 
 function localeContains(text: string, query: string): boolean {
@@ -33,6 +37,43 @@ export const SearchChange = {
 
 export type SearchChange = (typeof SearchChange)[keyof typeof SearchChange];
 
+export const SearchMode = {
+	Substring: 0,
+	Fuzzy: 1,
+	Regex: 2,
+} as const;
+
+export type SearchMode = (typeof SearchMode)[keyof typeof SearchMode];
+
+/**
+ * Compares the text of two search queries.
+ * @param prev The previous search query.
+ * @param text The new search text.
+ * @param expression The parsed new search text.
+ * @param mode The new search mode.
+ */
+function queryChange(prev: SearchQuery, text: string, expression: ParsedQuery, mode: SearchMode): SearchChange {
+	if (mode !== prev.mode) return SearchChange.Different;
+	if (text === prev.query) return SearchChange.Same;
+
+	// Regular expressions can not be compared
+	if (mode === SearchMode.Regex) return SearchChange.Different;
+
+	// Only plain text queries can be compared
+	const prevTerms = simpleTerms(prev.expression);
+	const terms = simpleTerms(expression);
+	if (prevTerms === null || terms === null) return SearchChange.Different;
+
+	// Every term of the other query is contained in a term of this query
+	const contains = (a: string[], b: string[]) => b.every((t) => a.some((s) => s.includes(t)));
+	const moreStrict = contains(terms, prevTerms);
+	const lessStrict = contains(prevTerms, terms);
+	if (moreStrict && lessStrict) return SearchChange.Same;
+	if (moreStrict) return SearchChange.MoreStrict;
+	if (lessStrict) return SearchChange.LessStrict;
+	return SearchChange.Different;
+}
+
 @registerClass({
 	Properties: {
 		'change': enumParamSpec('change', GObject.ParamFlags.READABLE, SearchChange, 0),
@@ -42,9 +83,15 @@ export type SearchChange = (typeof SearchChange)[keyof typeof SearchChange];
 		'tag': GObject.ParamSpec.string('tag', null, null, GObject.ParamFlags.READABLE, ''),
 		'exclude-tagged': GObject.ParamSpec.boolean('exclude-tagged', null, null, GObject.ParamFlags.READABLE, false),
 		'type': GObject.ParamSpec.string('type', null, null, GObject.ParamFlags.READABLE, ''),
+		'collection': GObject.ParamSpec.jsobject('collection', null, null, GObject.ParamFlags.READABLE),
+		'mode': enumParamSpec('mode', GObject.ParamFlags.READABLE, SearchMode, SearchMode.Substring),
 	},
 })
 export class SearchQuery extends GObject.Object {
+	private _matches: Map<string, Set<number>> | null = null;
+	private _regexes: Map<string, RegExp | null> = new Map();
+	private _scores: Map<number, number> = new Map();
+
 	constructor(
 		readonly change: SearchChange,
 		readonly query: string,
@@ -53,10 +100,56 @@ export class SearchQuery extends GObject.Object {
 		readonly tag: Tag | null,
 		readonly excludeTagged: boolean,
 		readonly type: ItemType | null,
+		readonly collection: number | null = null,
+		readonly mode: SearchMode = SearchMode.Substring,
+		readonly expression: ParsedQuery = parseQuery(query),
 	) {
 		super();
 	}
 
+	get terms(): string[] {
+		return textTerms(this.expression);
+	}
+
+	/**
+	 * Whether matching entries are ordered by their score instead of by date.
+	 */
+	get ordered(): boolean {
+		return this.mode === SearchMode.Fuzzy && this.terms.length > 0;
+	}
+
+	/**
+	 * The errors of the query, including invalid regular expressions.
+	 */
+	get errors(): QueryError[] {
+		const errors = [...this.expression.errors];
+		for (const node of this.expression.clauses.flat()) {
+			if (this.isIgnored(node.term)) errors.push({ start: node.start, end: node.end });
+		}
+		return errors;
+	}
+
+	private regex(pattern: string): RegExp | null {
+		let regex = this._regexes.get(pattern);
+		if (regex === undefined) {
+			try {
+				regex = new RegExp(pattern, 'iu');
+			} catch {
+				regex = null;
+			}
+			this._regexes.set(pattern, regex);
+		}
+		return regex;
+	}
+
+	/**
+	 * Invalid regular expressions are ignored.
+	 * @param term The term to check.
+	 */
+	private isIgnored(term: QueryTerm): boolean {
+		return term.kind === 'text' && this.mode === SearchMode.Regex && this.regex(term.text) === null;
+	}
+
 	public matchesPinned(pinned: boolean): boolean {
 		return (!this.pinned && !this.excludePinned) || this.pinned === pinned;
 	}
@@ -69,27 +162,150 @@ export class SearchQuery extends GObject.Object {
 		return this.type === null || this.type === type;
 	}
 
-	public matchesProperties(pinned: boolean, tag: Tag | null, type: ItemType): boolean {
-		return this.matchesPinned(pinned) && this.matchesTag(tag) && this.matchesType(type);
+	public matchesCollections(collections: number[]): boolean {
+		return this.collection === null || collections.includes(this.collection);
 	}
 
-	public matchesQuery(...text: string[]): boolean {
-		if (this.query.length === 0) return true;
-		if (text.length === 0) return false;
+	public matchesProperties(pinned: boolean, tag: Tag | null, type: ItemType, collections: number[] = []): boolean {
+		return (
+			this.matchesPinned(pinned) &&
+			this.matchesTag(tag) &&
+			this.matchesType(type) &&
+			this.matchesCollections(collections)
+		);
+	}
+
+	public matchesQuery(entry: ClipboardEntry, ...text: string[]): boolean {
+		const clauses = this.expression.clauses;
+		if (clauses.length === 0) return true;
 
-		return text.some((s) => localeContains(s, this.query));
+		return clauses.some((clause) =>
+			clause.every(
+				(node) => this.isIgnored(node.term) || this.matchesTerm(node.term, entry, text) !== node.negated,
+			),
+		);
 	}
 
-	public matchesEntry(state: boolean, entry: ClipboardEntry, ...text: string[]): boolean {
+	private matchesText(text: string, term: string): boolean {
+		switch (this.mode) {
+			case SearchMode.Fuzzy:
+				return fuzzyMatch(text, term) !== null;
+			case SearchMode.Regex:
+				return this.regex(term)?.test(text) ?? false;
+			default:
+				return localeContains(text, term);
+		}
+	}
+
+	private matchesTerm(term: QueryTerm, entry: ClipboardEntry, text: string[]): boolean {
+		switch (term.kind) {
+			case 'text':
+				if (this._matches) return this._matches.get(term.text)?.has(entry.id) ?? false;
+				return text.some((s) => this.matchesText(s, term.text));
+			case 'type':
+				return entry.type === term.type;
+			case 'tag':
+				return entry.tag === term.tag;
+			case 'pinned':
+				return entry.pinned;
+			case 'tagged':
+				return entry.tag !== null;
+			case 'template':
+				return entry.template;
+			case 'lang': {
+				if (entry.type !== ItemType.Code) return false;
+
+				const language = (entry.metadata as CodeMetadata | null)?.language;
+				return language?.id.toLowerCase() === term.language || language?.name.toLowerCase() === term.language;
+			}
+			case 'app': {
+				const source = entry.source;
+				if (source === null) return false;
+
+				return [source.wmClass, source.appId, source.name].some(
+					(s) => s !== null && localeContains(s, term.app),
+				);
+			}
+			case 'before':
+				return entry.datetime.compare(term.datetime) < 0;
+			case 'after':
+				return entry.datetime.compare(term.datetime) > 0;
+		}
+	}
+
+	private matchesChange(state: boolean, entry: ClipboardEntry, text: string[]): boolean {
 		if (this.change === SearchChange.Same) return state;
 		if (this.change === SearchChange.LessStrict && state) return true;
 		if (this.change === SearchChange.MoreStrict && !state) return false;
 
-		return this.matchesProperties(entry.pinned, entry.tag, entry.type) && this.matchesQuery(...text);
+		return (
+			this.matchesProperties(entry.pinned, entry.tag, entry.type, entry.collections) &&
+			this.matchesQuery(entry, ...text)
+		);
+	}
+
+	public matchesEntry(state: boolean, entry: ClipboardEntry, ...text: string[]): boolean {
+		const matches = this.matchesChange(state, entry, text);
+		if (matches && this.ordered) this._scores.set(entry.id, this.score(text));
+		return matches;
+	}
+
+	/**
+	 * Scores how well the text matches the text terms of the query, using the best matching text for each term.
+	 * @param text The text of the entry.
+	 */
+	private score(text: string[]): number {
+		let score = 0;
+		for (const term of this.highlightedTerms()) {
+			score += Math.max(0, ...text.map((s) => fuzzyMatch(s, term)?.score ?? 0));
+		}
+		return score;
+	}
+
+	/**
+	 * Gets the score of a matching entry if the query is ordered.
+	 * @param entry The entry.
+	 */
+	public scoreOf(entry: ClipboardEntry): number {
+		return this._scores.get(entry.id) ?? 0;
+	}
+
+	private highlightedTerms(): string[] {
+		const terms = this.expression.clauses
+			.flat()
+			.flatMap((node) =>
+				node.term.kind === 'text' && !node.negated && !this.isIgnored(node.term) ? [node.term.text] : [],
+			);
+		return [...new Set(terms)];
+	}
+
+	/**
+	 * Highlights the text terms of the query, or null if there is nothing to highlight.
+	 */
+	get highlighter(): Highlighter | null {
+		if (this.highlightedTerms().length === 0) return null;
+		return (text) => this.highlight(text);
+	}
+
+	/**
+	 * Finds the ranges of a text that match the text terms of the query.
+	 * @param text The text to highlight.
+	 */
+	public highlight(text: string): MatchRange[] {
+		return this.highlightedTerms().flatMap((term) => {
+			switch (this.mode) {
+				case SearchMode.Fuzzy:
+					return fuzzyMatch(text, term)?.ranges ?? [];
+				case SearchMode.Regex:
+					return regexRanges(text, this.regex(term)!);
+				default:
+					return localeRanges(text, term);
+			}
+		});
 	}
 
 	public withChange(change: SearchChange): SearchQuery {
-		return new SearchQuery(
+		const query = new SearchQuery(
 			change,
 			this.query,
 			this.pinned,
@@ -97,7 +313,23 @@ export class SearchQuery extends GObject.Object {
 			this.tag,
 			this.excludeTagged,
 			this.type,
+			this.collection,
+			this.mode,
+			this.expression,
 		);
+		query._regexes = this._regexes;
+		query._scores = this._scores;
+		return query;
+	}
+
+	/**
+	 * Creates a copy of the search query that matches text terms by the ids of the entries that contain them.
+	 * @param matches The ids of the entries that contain each text term.
+	 */
+	public withMatches(matches: Map<string, Set<number>>): SearchQuery {
+		const query = this.withChange(SearchChange.Different);
+		query._matches = matches;
+		return query;
 	}
 }
 
@@ -122,6 +354,8 @@ class ItemPopupMenuItem extends PopupMenu.PopupMenuItem {
 type ItemPopupMenuSignals = {
 	'tag-changed': [Tag | null];
 	'selected-changed': [ItemType | null];
+	'collection-changed': [number | null];
+	'mode-changed': [SearchMode];
 	'open-state-changed': [boolean];
 };
 
@@ -129,9 +363,19 @@ class ItemPopupMenu extends PopupMenu.PopupMenu<ItemPopupMenuSignals> {
 	private readonly _tagsItem: TagsItem;
 	private readonly _all: ItemPopupMenuItem;
 	private readonly _options: { [type in ItemType]: ItemPopupMenuItem };
+	private readonly _collectionsSection: PopupMenu.PopupMenuSection;
+	private readonly _collectionItems: Map<number, PopupMenu.PopupImageMenuItem> = new Map();
+	private readonly _modes: { [mode in SearchMode]: ItemPopupMenuItem };
 	private _selected: ItemType | null = null;
+	private _collection: number | null = null;
+	private _mode: SearchMode = SearchMode.Substring;
 
-	constructor(sourceActor: St.Widget, arrowAlignment: number, arrowSide: St.Side) {
+	constructor(
+		private ext: CopyousExtension,
+		sourceActor: St.Widget,
+		arrowAlignment: number,
+		arrowSide: St.Side,
+	) {
 		super(sourceActor, arrowAlignment, arrowSide);
 
 		this.actor.add_style_class_name('search-popup-menu');
@@ -150,6 +394,7 @@ class ItemPopupMenu extends PopupMenu.PopupMenu<ItemPopupMenuSignals> {
 
 		this._options = {
 			[ItemType.Text]: this.addItem(_('__Text'), ItemType.Text),
+			[ItemType.RichText]: this.addItem(_('Rich Te__xt'), ItemType.RichText),
 			[ItemType.Code]: this.addItem(_('__Code'), ItemType.Code),
 			[ItemType.Image]: this.addItem(_('__Image'), ItemType.Image),
 			[ItemType.File]: this.addItem(_('__File'), ItemType.File),
@@ -159,6 +404,19 @@ class ItemPopupMenu extends PopupMenu.PopupMenu<ItemPopupMenuSignals> {
 			[ItemType.Color]: this.addItem(_('Colo__r'), ItemType.Color),
 		};
 
+		// Collections
+		this._collectionsSection = new PopupMenu.PopupMenuSection();
+		this.addMenuItem(this._collectionsSection);
+
+		// Search modes
+		this.addMenuItem(new PopupMenu.PopupSeparatorMenuItem());
+		this._modes = {
+			[SearchMode.Substring]: this.addModeItem(_('Substring'), SearchMode.Substring),
+			[SearchMode.Fuzzy]: this.addModeItem(_('Fuzzy'), SearchMode.Fuzzy),
+			[SearchMode.Regex]: this.addModeItem(_('Regular Expression'), SearchMode.Regex),
+		};
+		this._modes[this._mode].setOrnament(PopupMenu.Ornament.CHECK);
+
 		this.actor.hide();
 		Main.layoutManager.uiGroup.add_child(this.actor);
 
@@ -208,6 +466,14 @@ class ItemPopupMenu extends PopupMenu.PopupMenu<ItemPopupMenuSignals> {
 		return item;
 	}
 
+	private addModeItem(text: string, mode: SearchMode): ItemPopupMenuItem {
+		const item = new ItemPopupMenuItem(text);
+		item.setOrnament(PopupMenu.Ornament.NONE);
+		item.connect('activate', () => (this.mode = mode));
+		this.addMenuItem(item);
+		return item;
+	}
+
 	get tag() {
 		return this._tagsItem.tag;
 	}
@@ -240,13 +506,65 @@ class ItemPopupMenu extends PopupMenu.PopupMenu<ItemPopupMenuSignals> {
 		this._selected = type ?? null;
 		this.emit('selected-changed', this._selected);
 	}
+
+	set collections(collections: Collection[]) {
+		this._collectionsSection.removeAll();
+		this._collectionItems.clear();
+		if (collections.length === 0) return;
+
+		this._collectionsSection.addMenuItem(new PopupMenu.PopupSeparatorMenuItem());
+		for (const collection of collections) {
+			const item = new PopupMenu.PopupImageMenuItem(collection.name, loadIcon(this.ext, collection.icon));
+			item.add_style_class_name(`collection-item ${collection.color}`);
+			item.setOrnament(collection.id === this._collection ? PopupMenu.Ornament.CHECK : PopupMenu.Ornament.NONE);
+			item.connect(
+				'activate',
+				() => (this.collection = this._collection === collection.id ? null : collection.id),
+			);
+			this._collectionsSection.addMenuItem(item);
+			this._collectionItems.set(collection.id, item);
+		}
+	}
+
+	get collection() {
+		return this._collection;
+	}
+
+	set collection(collection: number | null) {
+		if (this._collection === collection) return;
+
+		for (const [id, menuItem] of this._collectionItems) {
+			menuItem.setOrnament(id === collection ? PopupMenu.Ornament.CHECK : PopupMenu.Ornament.NONE);
+		}
+
+		this._collection = collection;
+		this.emit('collection-changed', collection);
+	}
+
+	get mode() {
+		return this._mode;
+	}
+
+	set mode(mode: SearchMode) {
+		if (this._mode === mode) return;
+
+		for (const menuItem of Object.values(this._modes)) {
+			menuItem.setOrnament(PopupMenu.Ornament.NONE);
+		}
+		this._modes[mode].setOrnament(PopupMenu.Ornament.CHECK);
+
+		this._mode = mode;
+		this.emit('mode-changed', mode);
+	}
 }
 
 @registerClass({
 	Properties: {
 		pinned: GObject.ParamSpec.boolean('pinned', null, null, GObject.ParamFlags.READWRITE, false),
+		primary: GObject.ParamSpec.boolean('primary', null, null, GObject.ParamFlags.READWRITE, false),
 		tag: GObject.ParamSpec.string('tag', null, null, GObject.ParamFlags.READWRITE, ''),
 		type: GObject.ParamSpec.string('type', null, null, GObject.ParamFlags.READWRITE, ''),
+		collection: GObject.ParamSpec.jsobject('collection', null, null, GObject.ParamFlags.READWRITE),
 	},
 	Signals: {
 		'search': {
@@ -259,17 +577,20 @@ class ItemPopupMenu extends PopupMenu.PopupMenu<ItemPopupMenuSignals> {
 export class SearchEntry extends St.Entry {
 	private _prevSearch: SearchQuery | null = null;
 	private _pinned: boolean = false;
+	private _primary: boolean = false;
 	private _tag: Tag | null = null;
 	private _type: ItemType | null = null;
+	private _collection: number | null = null;
+	private _collections: Collection[] = [];
 
 	private readonly _icons: { [type in ItemType | 'search']: Gio.Icon };
 	private readonly _itemButton: St.Button;
+	private readonly _searchIcon: St.Icon;
 	private readonly _menu: ItemPopupMenu;
 
 	constructor(private ext: CopyousExtension) {
 		super({
 			style_class: 'clipboard-search-entry',
-			hint_text: _('Type to search'),
 			can_focus: true,
 			x_align: Clutter.ActorAlign.CENTER,
 			x_expand: true,
@@ -278,6 +599,7 @@ export class SearchEntry extends St.Entry {
 		this._icons = {
 			search: loadIcon(ext, Icon.Search),
 			[ItemType.Text]: loadIcon(ext, Icon.Text),
+			[ItemType.RichText]: loadIcon(ext, Icon.RichText),
 			[ItemType.Code]: loadIcon(ext, Icon.Code),
 			[ItemType.Image]: loadIcon(ext, Icon.Image),
 			[ItemType.File]: loadIcon(ext, Icon.File),
@@ -303,17 +625,18 @@ export class SearchEntry extends St.Entry {
 			} else if (button === Clutter.BUTTON_MIDDLE) {
 				this.type = null;
 				this.tag = null;
+				this.collection = null;
 			}
 		});
 
 		const itemButtonContent = new St.BoxLayout();
 		this._itemButton.add_child(itemButtonContent);
 
-		const searchIcon = new St.Icon({
+		this._searchIcon = new St.Icon({
 			style_class: 'search-entry-icon',
 			gicon: this._icons.search,
 		});
-		itemButtonContent.add_child(searchIcon);
+		itemButtonContent.add_child(this._searchIcon);
 		itemButtonContent.add_child(
 			new St.Icon({
 				style_class: 'arrow-icon',
@@ -322,7 +645,7 @@ export class SearchEntry extends St.Entry {
 		);
 
 		// Menu
-		this._menu = new ItemPopupMenu(this._itemButton, 0.5, St.Side.TOP);
+		this._menu = new ItemPopupMenu(ext, this._itemButton, 0.5, St.Side.TOP);
 
 		const menuManager = new PopupMenu.PopupMenuManager(this);
 		menuManager.addMenu(this._menu, 0);
@@ -332,13 +655,17 @@ export class SearchEntry extends St.Entry {
 			return undefined;
 		});
 
+		this._menu.connect('mode-changed', (_menu: unknown, mode: SearchMode) => {
+			this.ext.settings.set_enum('search-mode', mode);
+			return undefined;
+		});
+
 		this._menu.connect('selected-changed', (_menu: unknown, type: ItemType | null) => {
 			this.type = type;
-			if (type) {
-				searchIcon.gicon = this._icons[type];
-			} else {
-				searchIcon.gicon = this._icons.search;
-			}
+		});
+
+		this._menu.connect('collection-changed', (_menu: unknown, collection: number | null) => {
+			this.collection = collection;
 			return undefined;
 		});
 
@@ -346,6 +673,20 @@ export class SearchEntry extends St.Entry {
 		const right = new St.BoxLayout();
 		this.secondary_icon = right;
 
+		// Primary selection history button
+		const primaryButton = new St.Button({
+			style_class: 'search-entry-button toggle-button',
+			toggle_mode: true,
+			child: new St.Bin({
+				style_class: 'toggle-button-content',
+				child: new St.Icon({
+					style_class: 'search-entry-icon',
+					gicon: loadIcon(ext, Icon.PrimarySelection),
+				}),
+			}),
+		});
+		right.add_child(primaryButton);
+
 		// Pin button
 		const pinButton = new St.Button({
 			style_class: 'search-entry-button pin-button',
@@ -362,14 +703,26 @@ export class SearchEntry extends St.Entry {
 
 		// Bind properties
 		pinButton.bind_property('checked', this, 'pinned', GObject.BindingFlags.BIDIRECTIONAL);
+		primaryButton.bind_property('checked', this, 'primary', GObject.BindingFlags.BIDIRECTIONAL);
+		this.ext.settings.bind('primary-history', primaryButton, 'visible', Gio.SettingsBindFlags.GET);
 
 		this.ext.settings.connectObject(
 			'changed::exclude-pinned',
 			this.search.bind(this),
 			'changed::exclude-tagged',
 			this.search.bind(this),
+			'changed::search-mode',
+			() => {
+				this.updateMode();
+				this.search();
+			},
+			'changed::primary-history',
+			() => {
+				if (!this.ext.settings.get_boolean('primary-history')) this.primary = false;
+			},
 			this,
 		);
+		this.updateMode();
 
 		// Connect signals
 		this.connect('notify::text', this.search.bind(this));
@@ -386,6 +739,20 @@ export class SearchEntry extends St.Entry {
 		this.notify('pinned');
 	}
 
+	/**
+	 * Whether the primary selection history is shown instead of the clipboard history
+	 */
+	get primary() {
+		return this._primary;
+	}
+
+	set primary(primary: boolean) {
+		if (this._primary === primary) return;
+
+		this._primary = primary;
+		this.notify('primary');
+	}
+
 	get tag() {
 		return this._tag;
 	}
@@ -407,26 +774,91 @@ export class SearchEntry extends St.Entry {
 	set type(type: ItemType | null) {
 		this._type = type;
 		this._menu.selected = type;
+		this.updateIcon();
 		this.search();
 		this.notify('type');
 	}
 
+	get collection() {
+		return this._collection;
+	}
+
+	set collection(collection: number | null) {
+		this._collection = collection;
+		this._menu.collection = collection;
+		this.updateIcon();
+		this.search();
+		this.notify('collection');
+	}
+
+	/**
+	 * The collections that can be filtered by
+	 */
+	set collections(collections: Collection[]) {
+		this._collections = collections;
+		this._menu.collections = collections;
+
+		// The collection may have been deleted
+		if (this._collection !== null && !collections.some((c) => c.id === this._collection)) {
+			this.collection = null;
+		} else {
+			this.updateIcon();
+		}
+	}
+
+	private updateIcon() {
+		const collection = this._collections.find((c) => c.id === this._collection);
+		if (this._type) {
+			this._searchIcon.gicon = this._icons[this._type];
+		} else if (collection) {
+			this._searchIcon.gicon = loadIcon(this.ext, collection.icon);
+		} else {
+			this._searchIcon.gicon = this._icons.search;
+		}
+	}
+
+	get mode(): SearchMode {
+		return this.ext.settings.get_enum('search-mode') as SearchMode;
+	}
+
+	set mode(mode: SearchMode) {
+		this.ext.settings.set_enum('search-mode', mode);
+	}
+
+	private updateMode() {
+		const mode = this.mode;
+		this._menu.mode = mode;
+
+		switch (mode) {
+			case SearchMode.Fuzzy:
+				this.hint_text = _('Type to fuzzy search');
+				break;
+			case SearchMode.Regex:
+				this.hint_text = _('Type a regular expression');
+				break;
+			default:
+				this.hint_text = _('Type to search');
+				break;
+		}
+	}
+
+	public nextMode() {
+		const modes = Object.values(SearchMode);
+		this.mode = modes[(modes.indexOf(this.mode) + 1) % modes.length]!;
+	}
+
 	get searchQuery(): SearchQuery {
 		const excludePinned = this.ext.settings.get_boolean('exclude-pinned');
 		const excludeTagged = this.ext.settings.get_boolean('exclude-tagged');
+		const mode = this.mode;
+		const expression = parseQuery(this.text);
 
 		let change: SearchChange;
 		if (!this._prevSearch) {
 			change = SearchChange.Different;
 		} else {
 			// Query
-			let queryChange: SearchChange;
-			if (this.text === this._prevSearch.query) queryChange = SearchChange.Same;
-			else if (this.text.includes(this._prevSearch.query)) queryChange = SearchChange.MoreStrict;
-			else if (this._prevSearch.query.includes(this.text)) queryChange = SearchChange.LessStrict;
-			else queryChange = SearchChange.Different;
-
-			change = queryChange;
+			change = queryChange(this._prevSearch, this.text, expression, mode);
 
 			// Pinned
 			const prevUnpinned = this._prevSearch.matchesPinned(false);
@@ -470,16 +902,58 @@ export class SearchEntry extends St.Entry {
 
 			if (typeChange !== SearchChange.Same)
 				change = change === SearchChange.Same || change === typeChange ? typeChange : SearchChange.Different;
+
+			// Collection
+			let collectionChange: SearchChange;
+			if (this._prevSearch.collection === this.collection) collectionChange = SearchChange.Same;
+			else if (this.collection === null) collectionChange = SearchChange.LessStrict;
+			else if (this._prevSearch.collection === null) collectionChange = SearchChange.MoreStrict;
+			else collectionChange = SearchChange.Different;
+
+			if (collectionChange !== SearchChange.Same)
+				change =
+					change === SearchChange.Same || change === collectionChange
+						? collectionChange
+						: SearchChange.Different;
 		}
 
-		return new SearchQuery(change, this.text, this.pinned, excludePinned, this.tag, excludeTagged, this.type);
+		return new SearchQuery(
+			change,
+			this.text,
+			this.pinned,
+			excludePinned,
+			this.tag,
+			excludeTagged,
+			this.type,
+			this.collection,
+			mode,
+			expression,
+		);
 	}
 
 	private search() {
 		this._prevSearch = this.searchQuery;
+		this.highlightErrors(this._prevSearch.errors);
 		this.emit('search', this._prevSearch);
 	}
 
+	private highlightErrors(errors: QueryError[]) {
+		const attributes = new Pango.AttrList();
+		const encoder = new TextEncoder();
+		for (const error of errors) {
+			// Pango uses byte indices
+			const start = encoder.encode(this.text.substring(0, error.start)).length;
+			const end = encoder.encode(this.text.substring(0, error.end)).length;
+
+			const underline = Pango.attr_underline_new(Pango.Underline.ERROR);
+			underline.start_index = start;
+			underline.end_index = end;
+			attributes.insert(underline);
+		}
+
+		this.clutter_text.attributes = attributes;
+	}
+
 	public selectTag(index: number) {
 		const tag = Tags[index] ?? null;
 		this.tag = this.tag === tag ? null : tag;
@@ -527,10 +1001,11 @@ export class SearchEntry extends St.Entry {
 			return Clutter.EVENT_STOP;
 		}
 
-		// Clear tag/type: backspace
+		// Clear tag/type/collection: backspace
 		if (this.text.length === 0 && key === Clutter.KEY_BackSpace) {
 			this.tag = null;
 			this.type = null;
+			this.collection = null;
 			return Clutter.EVENT_STOP;
 		}
 
@@ -590,6 +1065,7 @@ export class SearchEntry extends St.Entry {
 			this.pinned = false;
 			this.tag = null;
 			this.type = null;
+			this.collection = null;
 		}
 	}
 
@@ -20,9 +20,11 @@ import { DependenciesWarningButton } from './lib/preferences/dependencies/depend
 import { DependenciesSettings } from './lib/preferences/dependencies/dependenciesSettings.js';
 import { AppExclusionSettings } from './lib/preferences/general/appExclusionSettings.js';
 import { BehaviorSettings } from './lib/preferences/general/behaviorSettings.js';
+import { CollectionsSettings } from './lib/preferences/general/collectionsSettings.js';
 import { FeedbackSettings } from './lib/preferences/general/feedbackSettings.js';
 import { HistorySettings } from './lib/preferences/general/historySettings.js';
 import { LocationsGroup } from './lib/preferences/general/locationsGroup.js';
+import { SensitiveContentSettings } from './lib/preferences/general/sensitiveContentSettings.js';
 import { DialogShortcuts } from './lib/preferences/shortcuts/dialogShortcuts.js';
 import { ItemActivationShortcuts, ItemShortcuts } from './lib/preferences/shortcuts/itemShortcuts.js';
 import { NavigationShortcuts } from './lib/preferences/shortcuts/navigationShortcuts.js';
@@ -75,10 +77,12 @@ export default class Preferences extends ExtensionPreferences {
 		const history = new HistorySettings(this, window);
 		dependenciesButton.bind_property('libgda', history, 'libgda', GObject.BindingFlags.SYNC_CREATE);
 		general.add(history);
+		general.add(new CollectionsSettings(window));
 		const feedback = new FeedbackSettings(this, window);
 		dependenciesButton.bind_property('gsound', feedback, 'gsound', GObject.BindingFlags.SYNC_CREATE);
 		general.add(feedback);
 		general.add(new BehaviorSettings(this));
+		general.add(new SensitiveContentSettings(this));
 		general.add(new AppExclusionSettings(this, window));
 		const dependenciesSettings = new DependenciesSettings(this, window);
 		dependenciesButton.bind_property('hljs', dependenciesSettings, 'hljs', GObject.BindingFlags.SYNC_CREATE);
@@ -0,0 +1,77 @@
+// The parts of libsecret that are used by the keyring, since there are no published bindings for it
+
+declare module 'gi://Secret?version=1' {
+	import type Gio from 'gi://Gio';
+	import type GObject from 'gi://GObject';
+
+	namespace Secret {
+		const COLLECTION_DEFAULT: string;
+
+		enum SchemaFlags {
+			NONE = 0,
+			DONT_MATCH_NAME = 2,
+		}
+
+		enum SchemaAttributeType {
+			STRING = 0,
+			INTEGER = 1,
+			BOOLEAN = 2,
+		}
+
+		enum CollectionFlags {
+			NONE = 0,
+			LOAD_ITEMS = 2,
+		}
+
+		class Schema {
+			constructor(name: string, flags: SchemaFlags, attributes: Record<string, SchemaAttributeType>);
+		}
+
+		class Collection extends GObject.Object {
+			readonly locked: boolean;
+
+			static for_alias(
+				service: GObject.Object | null,
+				alias: string,
+				flags: CollectionFlags,
+				cancellable: Gio.Cancellable | null,
+				callback: Gio.AsyncReadyCallback<null>,
+			): void;
+			static for_alias_finish(result: Gio.AsyncResult): Collection | null;
+		}
+
+		function password_lookup(
+			schema: Schema,
+			attributes: Record<string, string>,
+			cancellable: Gio.Cancellable | null,
+			callback: Gio.AsyncReadyCallback<null>,
+		): void;
+		function password_lookup_finish(result: Gio.AsyncResult): string | null;
+
+		function password_store(
+			schema: Schema,
+			attributes: Record<string, string>,
+			collection: string | null,
+			label: string,
+			password: string,
+			cancellable: Gio.Cancellable | null,
+			callback: Gio.AsyncReadyCallback<null>,
+		): void;
+		function password_store_finish(result: Gio.AsyncResult): boolean;
+
+		function password_clear(
+			schema: Schema,
+			attributes: Record<string, string>,
+			cancellable: Gio.Cancellable | null,
+			callback: Gio.AsyncReadyCallback<null>,
+		): void;
+		function password_clear_finish(result: Gio.AsyncResult): boolean;
+	}
+
+	export default Secret;
+}
+
+declare module 'gi://Secret' {
+	import Secret from 'gi://Secret?version=1';
+	export default Secret;
+}